@@ -1,45 +1,114 @@
 import { ETLPipeline } from './pipeline';
-import { ApiExtractor } from '../extractors/api';
-import { HtmlExtractor } from '../extractors/html';
-import { CsvExtractor } from '../extractors/csv';
-import { LocalStorageExtractor } from '../extractors/localStorage';
-import { IndexedDBExtractor } from '../extractors/indexedDB';
-import { FileExtractor } from '../extractors/file';
+import { ApiExtractor, ApiExtractorConfig } from '../extractors/api';
+import { GraphQLExtractor, GraphQLExtractorConfig } from '../extractors/graphql';
+import { HtmlExtractor, HtmlExtractorConfig, HtmlFieldConfig } from '../extractors/html';
+import { CsvExtractor, CsvExtractorConfig } from '../extractors/csv';
+import { LocalStorageExtractor, LocalStorageExtractorConfig } from '../extractors/localStorage';
+import { SessionStorageExtractor, SessionStorageExtractorConfig } from '../extractors/sessionStorage';
+import { CookieExtractor, CookieExtractorConfig } from '../extractors/cookies';
+import { CacheStorageExtractor, CacheStorageExtractorConfig, CachedResponseRecord } from '../extractors/cacheStorage';
+import { OpfsExtractor, OpfsExtractorConfig, OpfsFileRecord } from '../extractors/opfs';
+import { IndexedDBExtractor, IndexedDBExtractorConfig, IndexedDBStoreQuery } from '../extractors/indexedDB';
+import { FileExtractor, FileExtractorConfig, ZipEntryRecord } from '../extractors/file';
+import { SseExtractor, SseExtractorConfig } from '../extractors/sse';
+import { WebSocketExtractor, WebSocketExtractorConfig } from '../extractors/websocket';
+import { XmlExtractor, XmlExtractorConfig } from '../extractors/xml';
 import { FilterTransformer } from '../transformers/filter';
 import { MapTransformer } from '../transformers/map';
 import { JoinTransformer } from '../transformers/join';
 import { EnrichTransformer } from '../transformers/enrich';
+import { SortTransformer, SortTransformerConfig } from '../transformers/sort';
 import { ChartLoader } from '../loaders/chart';
 import { TableLoader } from '../loaders/table';
-import { FileLoader } from '../loaders/file';
+import { FileLoader, FileLoaderConfig } from '../loaders/file';
 import { ApiLoader } from '../loaders/api';
-import { ETLConfig } from '../types';
+import { IndexedDBLoader, IndexedDBLoaderConfig } from '../loaders/indexedDB';
+import { LocalStorageLoader, LocalStorageLoaderConfig } from '../loaders/localStorage';
+import {
+  IExtractor,
+  ITransformer,
+  ILoader,
+  ETLConfig,
+  ETLRunOptions,
+  ETLLiveRun,
+  ETLEvents,
+  ETLPipelineSpec,
+  ETLRetryPolicy,
+  ETLValidationResult,
+  CacheBackend
+} from '../types';
+import { EventListener } from '../utils/events';
+import { RegisteredFunction } from '../utils/function-registry';
+import { FeedItem } from '../utils/feed';
+import { CSVParserOptions } from '../utils/csv-parser';
+import { IndexedDBKeyQuery } from '../utils/indexeddb-query';
+import { StorageEntry } from '../utils/storage-keys';
+import { parsePipelineSpec } from './spec';
 
 /**
- * Main ETL class that provides a fluent API
+ * Main ETL class that provides a fluent API.
+ * `T` is the type of the records flowing out of the previous step.
  */
-export class ETL {
+export class ETL<T = any> {
   private pipeline: ETLPipeline;
   
   extract!: {
-    api: (url: string, options?: RequestInit) => ETL;
-    html: (selector: string, url?: string) => ETL;
-    csv: (data: string | File, options?: any) => ETL;
-    localStorage: (key: string) => ETL;
-    indexedDB: (storeName: string, query?: any) => ETL;
-    file: (file: File, type?: string) => ETL;
+    api: <R = any>(url: string, options?: RequestInit, settings?: Omit<ApiExtractorConfig, 'url' | 'options'>) => ETL<R>;
+    graphql: <R = any>(
+      endpoint: string,
+      query: string,
+      variables?: Record<string, any>,
+      settings?: Omit<GraphQLExtractorConfig, 'endpoint' | 'query' | 'variables'>
+    ) => ETL<R>;
+    html: <R = any>(selector: string, url?: string) => ETL<R>;
+    htmlTable: <R = Record<string, string | null>>(selector: string, url?: string) => ETL<R>;
+    htmlRecords: <R = Record<string, any>>(selector: string, fields: Record<string, string | HtmlFieldConfig>, url?: string) => ETL<R>;
+    jsonLd: <R = any>(url?: string, settings?: Pick<HtmlExtractorConfig, 'selector' | 'itemType'>) => ETL<R>;
+    microdata: <R = any>(url?: string, settings?: Pick<HtmlExtractorConfig, 'selector' | 'itemType'>) => ETL<R>;
+    meta: <R = Record<string, string | string[]>>(url?: string, settings?: Pick<HtmlExtractorConfig, 'selector'>) => ETL<R>;
+    csv: <R = Record<string, any>>(
+      data: string | File,
+      options?: CSVParserOptions,
+      settings?: Omit<CsvExtractorConfig, 'data' | 'options'>
+    ) => ETL<R>;
+    localStorage: <R = any>(key: string | LocalStorageExtractorConfig) => ETL<R>;
+    sessionStorage: <R = any>(key: string | SessionStorageExtractorConfig) => ETL<R>;
+    cookies: <R = StorageEntry>(key?: string | CookieExtractorConfig) => ETL<R>;
+    cacheStorage: <R = CachedResponseRecord>(pattern?: string, settings?: Omit<CacheStorageExtractorConfig, 'pattern'>) => ETL<R>;
+    opfs: <R = any>(path: string, settings?: Pick<OpfsExtractorConfig, 'type'>) => ETL<R>;
+    opfsFiles: <R = OpfsFileRecord>(pattern: string, settings?: Pick<OpfsExtractorConfig, 'type' | 'content'>) => ETL<R>;
+    indexedDB: <R = any>(
+      storeName: string,
+      query?: IndexedDBKeyQuery,
+      settings?: Omit<IndexedDBExtractorConfig, 'storeName' | 'query' | 'stores'>
+    ) => ETL<R>;
+    indexedDBStores: <R = Record<string, any[]>>(
+      stores: string[] | Record<string, IndexedDBStoreQuery>,
+      settings?: Pick<IndexedDBExtractorConfig, 'dbName' | 'version'>
+    ) => ETL<R>;
+    file: <R = any>(file: File, type?: string, settings?: Omit<FileExtractorConfig, 'file' | 'type'>) => ETL<R>;
+    zip: <R = ZipEntryRecord>(file: File, entries?: string, settings?: Omit<FileExtractorConfig, 'file' | 'type' | 'entries'>) => ETL<R>;
+    sse: <R = any>(url: string, settings?: Omit<SseExtractorConfig, 'url'>) => ETL<R>;
+    websocket: <R = any>(url: string, settings?: Omit<WebSocketExtractorConfig, 'url'>) => ETL<R>;
+    xml: <R = any>(source: string | File, settings?: Omit<XmlExtractorConfig, 'data' | 'url'>) => ETL<R>;
+    feed: <R = FeedItem>(url: string, settings?: Omit<XmlExtractorConfig, 'data' | 'url' | 'preset'>) => ETL<R>;
+    custom: <R>(extractor: IExtractor<R[]>, config?: any) => ETL<R>;
   };
   
   join!: {
-    api: (url: string, config: any) => ETL;
-    data: (data: any, config: any) => ETL;
+    api: <R = any>(url: string, config: any) => ETL<T & R>;
+    data: <R = any>(data: R[], config: any) => ETL<T & R>;
+    inputs: <L = any, R = any>(left: string, right: string, config: any) => ETL<L & R>;
   };
   
   load!: {
-    chart: (type: string, config: any) => ETL;
-    table: (container: string | HTMLElement, config?: any) => ETL;
-    file: (filename: string, format?: string) => ETL;
-    api: (url: string, options?: RequestInit) => ETL;
+    chart: (type: string, config: any) => ETL<T>;
+    table: (container: string | HTMLElement, config?: any) => ETL<T>;
+    file: (filename: string, format?: string, settings?: Omit<FileLoaderConfig, 'filename' | 'format'>) => ETL<T>;
+    api: (url: string, options?: RequestInit) => ETL<T>;
+    indexedDB: (storeName: string, settings?: Omit<IndexedDBLoaderConfig, 'storeName'>) => ETL<T>;
+    localStorage: (key: string, settings?: Omit<LocalStorageLoaderConfig, 'key'>) => ETL<T>;
+    custom: (loader: ILoader<T[]>, config?: any) => ETL<T>;
   };
 
   constructor(config?: ETLConfig) {
@@ -55,25 +124,36 @@ export class ETL {
     // Register extractors
     this.pipeline
       .registerExtractor(new ApiExtractor())
+      .registerExtractor(new GraphQLExtractor())
       .registerExtractor(new HtmlExtractor())
       .registerExtractor(new CsvExtractor())
       .registerExtractor(new LocalStorageExtractor())
       .registerExtractor(new IndexedDBExtractor())
-      .registerExtractor(new FileExtractor());
+      .registerExtractor(new FileExtractor())
+      .registerExtractor(new SseExtractor())
+      .registerExtractor(new WebSocketExtractor())
+      .registerExtractor(new XmlExtractor())
+      .registerExtractor(new SessionStorageExtractor())
+      .registerExtractor(new CookieExtractor())
+      .registerExtractor(new CacheStorageExtractor())
+      .registerExtractor(new OpfsExtractor());
 
     // Register transformers
     this.pipeline
       .registerTransformer(new FilterTransformer())
       .registerTransformer(new MapTransformer())
       .registerTransformer(new JoinTransformer())
-      .registerTransformer(new EnrichTransformer());
+      .registerTransformer(new EnrichTransformer())
+      .registerTransformer(new SortTransformer());
 
     // Register loaders
     this.pipeline
       .registerLoader(new ChartLoader())
       .registerLoader(new TableLoader())
       .registerLoader(new FileLoader())
-      .registerLoader(new ApiLoader());
+      .registerLoader(new ApiLoader())
+      .registerLoader(new IndexedDBLoader())
+      .registerLoader(new LocalStorageLoader());
   }
 
   /**
@@ -81,34 +161,142 @@ export class ETL {
    */
   private initializeMethods(): void {
     this.extract = {
-      api: (url: string, options?: RequestInit) => {
-        this.pipeline.extract('api', { url, options });
-        return this;
+      api: (url: string, options?: RequestInit, settings?: Omit<ApiExtractorConfig, 'url' | 'options'>) => {
+        this.pipeline.extract('api', { url, options, ...settings });
+        return this.retype();
+      },
+      
+      graphql: (
+        endpoint: string,
+        query: string,
+        variables?: Record<string, any>,
+        settings?: Omit<GraphQLExtractorConfig, 'endpoint' | 'query' | 'variables'>
+      ) => {
+        this.pipeline.extract('graphql', { endpoint, query, variables, ...settings });
+        return this.retype();
       },
       
       html: (selector: string, url?: string) => {
         this.pipeline.extract('html', { selector, url });
-        return this;
+        return this.retype();
       },
       
-      csv: (data: string | File, options?: any) => {
-        this.pipeline.extract('csv', { data, options });
-        return this;
+      htmlTable: (selector: string, url?: string) => {
+        this.pipeline.extract('html', { selector, url, mode: 'table' });
+        return this.retype();
       },
       
-      localStorage: (key: string) => {
-        this.pipeline.extract('localStorage', { key });
-        return this;
+      htmlRecords: (selector: string, fields: Record<string, string | HtmlFieldConfig>, url?: string) => {
+        this.pipeline.extract('html', { selector, fields, url, mode: 'records' });
+        return this.retype();
       },
       
-      indexedDB: (storeName: string, query?: any) => {
-        this.pipeline.extract('indexedDB', { storeName, query });
-        return this;
+      jsonLd: (url?: string, settings?: Pick<HtmlExtractorConfig, 'selector' | 'itemType'>) => {
+        this.pipeline.extract('html', { url, mode: 'jsonld', ...settings });
+        return this.retype();
       },
       
-      file: (file: File, type?: string) => {
-        this.pipeline.extract('file', { file, type });
-        return this;
+      microdata: (url?: string, settings?: Pick<HtmlExtractorConfig, 'selector' | 'itemType'>) => {
+        this.pipeline.extract('html', { url, mode: 'microdata', ...settings });
+        return this.retype();
+      },
+      
+      meta: (url?: string, settings?: Pick<HtmlExtractorConfig, 'selector'>) => {
+        this.pipeline.extract('html', { url, mode: 'meta', ...settings });
+        return this.retype();
+      },
+      
+      csv: (data: string | File, options?: CSVParserOptions, settings?: Omit<CsvExtractorConfig, 'data' | 'options'>) => {
+        this.pipeline.extract('csv', { data, options, ...settings });
+        return this.retype();
+      },
+      
+      localStorage: (key: string | LocalStorageExtractorConfig) => {
+        this.pipeline.extract('localStorage', typeof key === 'string' ? { key } : key);
+        return this.retype();
+      },
+      
+      sessionStorage: (key: string | SessionStorageExtractorConfig) => {
+        this.pipeline.extract('sessionStorage', typeof key === 'string' ? { key } : key);
+        return this.retype();
+      },
+      
+      cookies: (key?: string | CookieExtractorConfig) => {
+        this.pipeline.extract('cookies', typeof key === 'string' ? { key } : key || {});
+        return this.retype();
+      },
+      
+      cacheStorage: (pattern?: string, settings?: Omit<CacheStorageExtractorConfig, 'pattern'>) => {
+        this.pipeline.extract('cacheStorage', { pattern, ...settings });
+        return this.retype();
+      },
+      
+      opfs: (path: string, settings?: Pick<OpfsExtractorConfig, 'type'>) => {
+        this.pipeline.extract('opfs', { path, ...settings });
+        return this.retype();
+      },
+      
+      opfsFiles: (pattern: string, settings?: Pick<OpfsExtractorConfig, 'type' | 'content'>) => {
+        this.pipeline.extract('opfs', { pattern, ...settings });
+        return this.retype();
+      },
+      
+      indexedDB: (
+        storeName: string,
+        query?: IndexedDBKeyQuery,
+        settings?: Omit<IndexedDBExtractorConfig, 'storeName' | 'query' | 'stores'>
+      ) => {
+        this.pipeline.extract('indexedDB', { storeName, query, ...settings });
+        return this.retype();
+      },
+      
+      indexedDBStores: (
+        stores: string[] | Record<string, IndexedDBStoreQuery>,
+        settings?: Pick<IndexedDBExtractorConfig, 'dbName' | 'version'>
+      ) => {
+        this.pipeline.extract('indexedDB', { stores, ...settings });
+        return this.retype();
+      },
+      
+      file: (file: File, type?: string, settings?: Omit<FileExtractorConfig, 'file' | 'type'>) => {
+        this.pipeline.extract('file', { file, type, ...settings });
+        return this.retype();
+      },
+      
+      zip: (file: File, entries?: string, settings?: Omit<FileExtractorConfig, 'file' | 'type' | 'entries'>) => {
+        this.pipeline.extract('file', { file, type: 'zip', ...(entries !== undefined ? { entries } : {}), ...settings });
+        return this.retype();
+      },
+      
+      sse: (url: string, settings?: Omit<SseExtractorConfig, 'url'>) => {
+        this.pipeline.extract('sse', { url, ...settings });
+        return this.retype();
+      },
+      
+      websocket: (url: string, settings?: Omit<WebSocketExtractorConfig, 'url'>) => {
+        this.pipeline.extract('websocket', { url, ...settings });
+        return this.retype();
+      },
+      
+      xml: (source: string | File, settings?: Omit<XmlExtractorConfig, 'data' | 'url'>) => {
+        // Strings holding markup are parsed directly, anything else is fetched
+        const input = typeof source === 'string' && !source.trimStart().startsWith('<')
+          ? { url: source }
+          : { data: source };
+        this.pipeline.extract('xml', { ...input, ...settings });
+        return this.retype();
+      },
+      
+      feed: (url: string, settings?: Omit<XmlExtractorConfig, 'data' | 'url' | 'preset'>) => {
+        this.pipeline.extract('xml', { url, preset: 'feed', ...settings });
+        return this.retype();
+      },
+      
+      custom: <R>(extractor: IExtractor<R[]>, config?: any) => {
+        this.pipeline
+          .registerExtractor(extractor)
+          .extract(extractor.name, config);
+        return this.retype<R>();
       }
     };
 
@@ -119,7 +307,7 @@ export class ETL {
           url, 
           config 
         });
-        return this;
+        return this.retype();
       },
       
       data: (data: any, config: any) => {
@@ -128,7 +316,17 @@ export class ETL {
           data, 
           config 
         });
-        return this;
+        return this.retype();
+      },
+      
+      inputs: (left: string, right: string, config: any) => {
+        this.pipeline.transform('join', {
+          ...config,
+          type: 'inputs',
+          left,
+          right
+        }, { inputs: [left, right] });
+        return this.retype();
       }
     };
 
@@ -143,64 +341,250 @@ export class ETL {
         return this;
       },
       
-      file: (filename: string, format?: string) => {
-        this.pipeline.load('file', { filename, format });
+      file: (filename: string, format?: string, settings?: Omit<FileLoaderConfig, 'filename' | 'format'>) => {
+        this.pipeline.load('file', { filename, format, ...settings });
         return this;
       },
       
       api: (url: string, options?: RequestInit) => {
         this.pipeline.load('api', { url, options });
         return this;
+      },
+      
+      indexedDB: (storeName: string, settings?: Omit<IndexedDBLoaderConfig, 'storeName'>) => {
+        this.pipeline.load('indexedDB', { storeName, ...settings });
+        return this;
+      },
+      
+      localStorage: (key: string, settings?: Omit<LocalStorageLoaderConfig, 'key'>) => {
+        this.pipeline.load('localStorage', { key, ...settings });
+        return this;
+      },
+      
+      custom: (loader: ILoader<T[]>, config?: any) => {
+        this.pipeline
+          .registerLoader(loader)
+          .load(loader.name, config);
+        return this;
       }
     };
   }
 
 
   /**
-   * Transform data
+   * Transform data with a function or an expression
    */
-  transform = (fn: (data: any) => any) => {
+  transform: {
+    <U>(fn: (data: T) => U): ETL<U>;
+    <U = any>(expression: string): ETL<U>;
+  } = (fn: ((data: T) => any) | string) => {
     this.pipeline.transform('map', { fn });
-    return this;
+    return this.retype<any>();
+  };
+
+  /**
+   * Transform data with a custom transformer
+   */
+  transformWith = <U>(transformer: ITransformer<T[], U[]>, config?: any): ETL<U> => {
+    this.pipeline
+      .registerTransformer(transformer)
+      .transform(transformer.name, config);
+    return this.retype();
   };
 
 
   /**
-   * Filter data
+   * Filter data with a predicate or an expression, e.g. `'age >= 18 && country == "FR"'`
    */
-  filter = (fn: (item: any) => boolean) => {
+  filter: {
+    <S extends T>(fn: (item: T) => item is S): ETL<S>;
+    (fn: ((item: T) => boolean) | string): ETL<T>;
+  } = (fn: ((item: T) => boolean) | string) => {
     this.pipeline.transform('filter', { fn });
-    return this;
+    return this.retype<any>();
   };
 
   /**
-   * Map data
+   * Map data with a function or an expression, e.g. `'{ name: upper(name), adult: age >= 18 }'`
    */
-  map = (fn: (item: any) => any) => {
+  map: {
+    <U>(fn: (item: T) => U): ETL<U>;
+    <U = any>(expression: string): ETL<U>;
+  } = (fn: ((item: T) => any) | string) => {
     this.pipeline.transform('map', { fn });
+    return this.retype<any>();
+  };
+
+  /**
+   * Sort records by a key function or expression, or by several keys
+   */
+  sort = (by: ((item: T) => any) | SortTransformerConfig['by'], order?: SortTransformerConfig['order']): ETL<T> => {
+    this.pipeline.transform('sort', { by, ...(order ? { order } : {}) });
     return this;
   };
 
   /**
    * Enrich data
    */
-  enrich = (fn: (item: any) => Promise<any>) => {
+  enrich: {
+    <U = T>(fn: (item: T) => Promise<U>): ETL<U>;
+    <U = any>(expression: string): ETL<U>;
+  } = (fn: ((item: T) => Promise<any>) | string) => {
     this.pipeline.transform('enrich', { fn });
+    return this.retype<any>();
+  };
+
+
+  /**
+   * Override caching for the previous extract step: `false` disables it,
+   * a number sets its time to live in milliseconds
+   */
+  cache = (setting: boolean | number) => {
+    this.pipeline.cache(setting);
     return this;
   };
 
+  /**
+   * Set the retry policy of the previous step
+   */
+  retry = (policy: ETLRetryPolicy) => {
+    this.pipeline.retry(policy);
+    return this;
+  };
+
+  /**
+   * Set the per-attempt timeout of the previous step in milliseconds
+   */
+  timeout = (ms: number) => {
+    this.pipeline.timeout(ms);
+    return this;
+  };
+
+  /**
+   * Set the backend used to cache extract results
+   */
+  setCacheBackend = (backend: CacheBackend) => {
+    this.pipeline.setCacheBackend(backend);
+    return this;
+  };
+
+  /**
+   * Assign an id to the previous step so later steps can use it as an input
+   */
+  as = (id: string) => {
+    this.pipeline.as(id);
+    return this;
+  };
+
+  /**
+   * Feed the next step from the given step ids instead of the previous step
+   */
+  from = <R = any>(...ids: string[]): ETL<R> => {
+    this.pipeline.from(...ids);
+    return this.retype();
+  };
+
+
+  /**
+   * Register a named function that pipeline specs can reference
+   */
+  registerFunction = (name: string, fn: RegisteredFunction) => {
+    this.pipeline.registerFunction(name, fn);
+    return this;
+  };
+
+  /**
+   * Describe the pipeline as a serializable spec
+   */
+  toSpec = (name?: string): ETLPipelineSpec => {
+    return this.pipeline.toSpec(name);
+  };
+
+  /**
+   * Check the pipeline for misconfigured steps without running it
+   */
+  validate = (): ETLValidationResult => {
+    return this.pipeline.validate();
+  };
+
+  /**
+   * Create an ETL instance, with default components, from a pipeline spec
+   */
+  static fromSpec<T = any>(spec: string | ETLPipelineSpec, functions: Record<string, RegisteredFunction> = {}): ETL<T> {
+    const parsed = parsePipelineSpec(spec);
+    const instance = new ETL<T>(parsed.config);
+    Object.entries(functions).forEach(([name, fn]) => instance.registerFunction(name, fn));
+    instance.pipeline.loadSpec(parsed);
+    return instance;
+  }
+
+  /**
+   * Register a listener for a pipeline event
+   */
+  on = <K extends keyof ETLEvents>(event: K, listener: EventListener<ETLEvents[K]>) => {
+    this.pipeline.on(event, listener);
+    return this;
+  };
+
+  /**
+   * Remove a listener for a pipeline event
+   */
+  off = <K extends keyof ETLEvents>(event: K, listener: EventListener<ETLEvents[K]>) => {
+    this.pipeline.off(event, listener);
+    return this;
+  };
+
+  /**
+   * Listen for steps starting
+   */
+  onStepStart = (listener: EventListener<ETLEvents['stepStart']>) => this.on('stepStart', listener);
+
+  /**
+   * Listen for steps finishing
+   */
+  onStepEnd = (listener: EventListener<ETLEvents['stepEnd']>) => this.on('stepEnd', listener);
+
+  /**
+   * Listen for progress of the run and of batched steps
+   */
+  onProgress = (listener: EventListener<ETLEvents['progress']>) => this.on('progress', listener);
+
+  /**
+   * Listen for retried operations
+   */
+  onRetry = (listener: EventListener<ETLEvents['retry']>) => this.on('retry', listener);
+
+  /**
+   * Listen for step failures
+   */
+  onError = (listener: EventListener<ETLEvents['error']>) => this.on('error', listener);
+
 
   /**
    * Run the pipeline
    */
-  async run(): Promise<any> {
-    const result = await this.pipeline.run();
+  async run(options?: ETLRunOptions): Promise<T[]> {
+    const result = await this.pipeline.run(options);
     if (!result.success) {
       throw result.error;
     }
     return result.data;
   }
 
+  /**
+   * Run the pipeline on live data until the returned run is stopped
+   */
+  live(options?: Omit<ETLRunOptions, 'worker'>): ETLLiveRun {
+    return this.pipeline.runLive(options);
+  }
+
+  /**
+   * View this instance with a different record type; steps are untyped at runtime
+   */
+  private retype<U>(): ETL<U> {
+    return this as unknown as ETL<U>;
+  }
+
   /**
    * Get the underlying pipeline
    */
@@ -212,8 +596,8 @@ export class ETL {
 /**
  * Create a new ETL instance
  */
-export function etl(config?: ETLConfig): ETL {
-  return new ETL(config);
+export function etl<T = any>(config?: ETLConfig): ETL<T> {
+  return new ETL<T>(config);
 }
 
 export default etl;
\ No newline at end of file
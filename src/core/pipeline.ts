@@ -4,20 +4,87 @@ import {
   ILoader, 
   ETLConfig, 
   ETLStep, 
+  ETLStepOptions,
+  ETLStepResult,
+  ETLStepAttempt,
+  ETLRetryPolicy,
+  ETLContext,
+  ETLRunOptions,
+  ETLLiveRun,
+  ETLEvents,
+  ETLProgressUnit,
+  ETLPipelineSpec,
+  ETLDataShape,
+  ETLDiagnostic,
+  ETLValidationResult,
+  CacheBackend,
   ETLResult 
 } from '../types';
+import { createAbortError, isAbortError, throwIfAborted, withStreamTimeout, withTimeout } from '../utils/abort';
+import { Cache } from '../utils/cache';
+import { validateConfig } from '../utils/config-schema';
+import { ErrorRecovery } from '../utils/error-recovery';
+import { EventEmitter, EventListener } from '../utils/events';
+import { FunctionRegistry, RegisteredFunction } from '../utils/function-registry';
+import { DataStream } from '../utils/stream';
+import { PIPELINE_SPEC_VERSION, deserializeStep, parsePipelineSpec, serializeStep } from './spec';
+import { WorkerRunner, deserializeError } from './worker-runner';
+
+interface PipelineNode {
+  id: string;
+  index: number;
+  step: ETLStep;
+  inputs: string[];
+  consumers: PipelineNode[];
+}
+
+interface RunState {
+  context: ETLContext;
+  live: boolean;
+  stepResults: ETLStepResult[];
+  outputs: Map<string, any>;
+  inflightExtracts: Map<string, Promise<any>>;
+  keep: Set<string>;
+  cacheHits: number;
+  cacheMisses: number;
+}
+
+/**
+ * Runs a component call under the step's retry policy and timeout
+ */
+type StepExecutor = <T>(operation: (context: ETLContext) => Promise<T>, retryable?: boolean) => Promise<T>;
+
+const DEFAULT_RETRY_DELAY = 1000;
+const DEFAULT_BACKOFF_MULTIPLIER = 2;
+const DEFAULT_MAX_RETRY_DELAY = 10000;
+
+/**
+ * Messages of the TypeError `fetch` rejects with on network failures, across browsers and Node
+ */
+const NETWORK_FAILURE = /failed to fetch|fetch failed|networkerror|network request failed|load failed/i;
 
 /**
  * Main ETL Pipeline class
+ *
+ * Steps form a directed acyclic graph: each step reads the outputs of its
+ * inputs, and independent branches run concurrently up to `maxParallel`.
+ * With `enableStreaming`, extractors that implement `stream()` pass record
+ * chunks through row-wise transformers into loaders without materializing them.
+ * With the `worker` run option, extract and transform steps run in a Web Worker
+ * and only load steps run on the main thread.
+ * Live runs (runLive()) always stream, and pass every chunk through downstream
+ * steps as it arrives until the run is stopped.
  */
 export class ETLPipeline {
   private extractors: Map<string, IExtractor> = new Map();
   private transformers: Map<string, ITransformer> = new Map();
   private loaders: Map<string, ILoader> = new Map();
   private steps: ETLStep[] = [];
+  private pendingInputs: string[] | null = null;
+  private events: EventEmitter<ETLEvents> = new EventEmitter();
+  private functions: FunctionRegistry = new FunctionRegistry();
   private config: ETLConfig;
-  private cache: Map<string, any> = new Map();
-  private cacheTimestamps: Map<string, number> = new Map();
+  private cacheBackend: CacheBackend;
 
   constructor(config: ETLConfig = {}) {
     this.config = {
@@ -31,12 +98,13 @@ export class ETLPipeline {
       maxRetries: 3,
       ...config
     };
+    this.cacheBackend = new Cache(this.config.cacheDuration);
   }
 
   /**
    * Register an extractor
    */
-  registerExtractor(extractor: IExtractor): this {
+  registerExtractor<T>(extractor: IExtractor<T>): this {
     this.extractors.set(extractor.name, extractor);
     return this;
   }
@@ -44,7 +112,7 @@ export class ETLPipeline {
   /**
    * Register a transformer
    */
-  registerTransformer(transformer: ITransformer): this {
+  registerTransformer<TInput, TOutput>(transformer: ITransformer<TInput, TOutput>): this {
     this.transformers.set(transformer.name, transformer);
     return this;
   }
@@ -52,185 +120,1034 @@ export class ETLPipeline {
   /**
    * Register a loader
    */
-  registerLoader(loader: ILoader): this {
+  registerLoader<T>(loader: ILoader<T>): this {
     this.loaders.set(loader.name, loader);
     return this;
   }
 
   /**
-   * Add an extract step
+   * Register a named function that specs can reference as `{ "$fn": name }`
    */
-  extract(extractorName: string, config?: any): this {
-    this.steps.push({
-      type: 'extract',
-      name: extractorName,
-      config: config || {}
-    });
+  registerFunction(name: string, fn: RegisteredFunction): this {
+    this.functions.register(name, fn);
     return this;
   }
 
   /**
-   * Add a transform step
+   * Create a pipeline from a spec, given as JSON text or a parsed object.
+   * Components still have to be registered before running it.
    */
-  transform(transformerName: string, config?: any): this {
-    this.steps.push({
-      type: 'transform',
-      name: transformerName,
-      config: config || {}
+  static fromSpec(
+    spec: string | ETLPipelineSpec,
+    functions: Record<string, RegisteredFunction> = {}
+  ): ETLPipeline {
+    const parsed = parsePipelineSpec(spec);
+    const pipeline = new ETLPipeline(parsed.config);
+    Object.entries(functions).forEach(([name, fn]) => pipeline.registerFunction(name, fn));
+    return pipeline.loadSpec(parsed);
+  }
+
+  /**
+   * Append the steps of a spec to this pipeline
+   */
+  loadSpec(spec: string | ETLPipelineSpec): this {
+    const parsed = parsePipelineSpec(spec);
+    parsed.steps.forEach((stepSpec, index) => {
+      this.steps.push(deserializeStep(stepSpec, index, this.functions));
     });
     return this;
   }
 
+  /**
+   * Describe this pipeline as a serializable spec.
+   * Function-valued configs must be registered with registerFunction().
+   */
+  toSpec(name?: string): ETLPipelineSpec {
+    const spec: ETLPipelineSpec = {
+      version: PIPELINE_SPEC_VERSION,
+      config: this.getConfig(),
+      steps: this.steps.map((step, index) => serializeStep(step, index, this.functions))
+    };
+
+    if (name) {
+      spec.name = name;
+    }
+
+    return spec;
+  }
+
+  /**
+   * Add an extract step
+   */
+  extract(extractorName: string, config?: any, options: ETLStepOptions = {}): this {
+    return this.addStep('extract', extractorName, config, options);
+  }
+
+  /**
+   * Add a transform step
+   */
+  transform(transformerName: string, config?: any, options: ETLStepOptions = {}): this {
+    return this.addStep('transform', transformerName, config, options);
+  }
+
   /**
    * Add a load step
    */
-  load(loaderName: string, config?: any): this {
-    this.steps.push({
-      type: 'load',
-      name: loaderName,
-      config: config || {}
-    });
+  load(loaderName: string, config?: any, options: ETLStepOptions = {}): this {
+    return this.addStep('load', loaderName, config, options);
+  }
+
+  /**
+   * Set the backend used to cache extract results
+   */
+  setCacheBackend(backend: CacheBackend): this {
+    this.cacheBackend = backend;
+    return this;
+  }
+
+  /**
+   * Override caching for the most recently added extract step:
+   * `false` disables it, `true` enables it and a number sets its time to live
+   */
+  cache(setting: boolean | number): this {
+    const step = this.steps[this.steps.length - 1];
+    if (!step || step.type !== 'extract') {
+      throw new Error('Caching can only be configured on an extract step');
+    }
+
+    if (typeof setting === 'number') {
+      step.cache = true;
+      step.cacheTtl = setting;
+    } else {
+      step.cache = setting;
+    }
+    return this;
+  }
+
+  /**
+   * Set the retry policy of the most recently added step
+   */
+  retry(policy: ETLRetryPolicy): this {
+    this.lastStep('a retry policy').retry = { ...policy };
     return this;
   }
 
+  /**
+   * Set the per-attempt timeout of the most recently added step
+   */
+  timeout(ms: number): this {
+    this.lastStep('a timeout').timeout = ms;
+    return this;
+  }
+
+  /**
+   * Assign an id to the most recently added step
+   */
+  as(id: string): this {
+    this.lastStep('an id').id = id;
+    return this;
+  }
+
+  /**
+   * Use the given steps as inputs of the next added step
+   */
+  from(...ids: string[]): this {
+    this.pendingInputs = ids;
+    return this;
+  }
+
+  /**
+   * Register a listener for a pipeline event
+   */
+  on<K extends keyof ETLEvents>(event: K, listener: EventListener<ETLEvents[K]>): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Remove a listener for a pipeline event
+   */
+  off<K extends keyof ETLEvents>(event: K, listener: EventListener<ETLEvents[K]>): this {
+    this.events.off(event, listener);
+    return this;
+  }
+
+  /**
+   * Listen for steps starting
+   */
+  onStepStart(listener: EventListener<ETLEvents['stepStart']>): this {
+    return this.on('stepStart', listener);
+  }
+
+  /**
+   * Listen for steps finishing, successfully or not
+   */
+  onStepEnd(listener: EventListener<ETLEvents['stepEnd']>): this {
+    return this.on('stepEnd', listener);
+  }
+
+  /**
+   * Listen for progress of the run and of batched steps
+   */
+  onProgress(listener: EventListener<ETLEvents['progress']>): this {
+    return this.on('progress', listener);
+  }
+
+  /**
+   * Listen for retried operations
+   */
+  onRetry(listener: EventListener<ETLEvents['retry']>): this {
+    return this.on('retry', listener);
+  }
+
+  /**
+   * Listen for step failures
+   */
+  onError(listener: EventListener<ETLEvents['error']>): this {
+    return this.on('error', listener);
+  }
+
   /**
    * Execute the pipeline
    */
-  async run(): Promise<ETLResult> {
+  async run(options: ETLRunOptions = {}): Promise<ETLResult> {
+    return this.execute(options);
+  }
+
+  /**
+   * Run the pipeline on live data: extractors stream, and each chunk flows through
+   * transformers and loaders as soon as it arrives, until stop() is called.
+   * Steps with several inputs, or whose output is read by several steps, wait for the stop.
+   */
+  runLive(options: Omit<ETLRunOptions, 'worker'> = {}): ETLLiveRun {
+    const stopController = new AbortController();
+    const result = this.execute(options, stopController.signal);
+
+    return {
+      result,
+      stop: () => {
+        stopController.abort();
+        return result;
+      }
+    };
+  }
+
+  /**
+   * Execute the pipeline, as a live run when a stop signal is given
+   */
+  private async execute(options: ETLRunOptions, stopSignal?: AbortSignal): Promise<ETLResult> {
     const startTime = performance.now();
-    const stepResults: Array<{
-      name: string;
-      duration: number;
-      success: boolean;
-      error?: string;
-    }> = [];
-    
-    let cacheHits = 0;
-    let cacheMisses = 0;
-    let currentData: any = null;
+    const { signal, worker, outputs = [] } = options;
+    const state: RunState = {
+      context: {
+        ...(signal ? { signal } : {}),
+        ...(stopSignal ? { stopSignal } : {})
+      },
+      live: Boolean(stopSignal),
+      stepResults: [],
+      outputs: new Map(),
+      inflightExtracts: new Map(),
+      keep: new Set(outputs),
+      cacheHits: 0,
+      cacheMisses: 0
+    };
+
+    let nodes: PipelineNode[] = [];
 
     try {
-      for (const step of this.steps) {
-        const stepStartTime = performance.now();
-        
-        try {
-          switch (step.type) {
-            case 'extract':
-              currentData = await this.executeExtractStep(step);
-              break;
-            case 'transform':
-              currentData = await this.executeTransformStep(step, currentData);
-              break;
-            case 'load':
-              await this.executeLoadStep(step, currentData);
-              break;
-          }
-          
-          const stepDuration = performance.now() - stepStartTime;
-          stepResults.push({
-            name: step.name,
-            duration: stepDuration,
-            success: true
-          });
-          
-        } catch (error) {
-          const stepDuration = performance.now() - stepStartTime;
-          stepResults.push({
-            name: step.name,
-            duration: stepDuration,
-            success: false,
-            error: error instanceof Error ? error.message : String(error)
-          });
-          
-          if (!step.optional) {
-            throw error;
-          }
+      throwIfAborted(signal);
+      nodes = this.buildGraph();
+      outputs.forEach(id => {
+        if (!nodes.some(node => node.id === id)) {
+          throw new Error(`Unknown output step '${id}'`);
         }
+      });
+
+      if (worker && state.live) {
+        throw new Error('Live runs cannot use a worker');
       }
 
-      const totalDuration = performance.now() - startTime;
-      
-      return {
-        data: currentData,
-        metadata: {
-          duration: totalDuration,
-          steps: stepResults,
-          cacheHits,
-          cacheMisses
-        },
-        success: true
-      };
-      
+      const done = worker ? await this.executeInWorker(nodes, state, worker) : new Set<string>();
+      await this.executeGraph(nodes, state, done);
+
+      return this.createResult(nodes, state, startTime);
     } catch (error) {
-      const totalDuration = performance.now() - startTime;
-      
-      return {
-        data: currentData,
-        metadata: {
-          duration: totalDuration,
-          steps: stepResults,
-          cacheHits,
-          cacheMisses
-        },
+      const result: ETLResult = {
+        ...this.createResult(nodes, state, startTime),
         success: false,
         error: error instanceof Error ? error : new Error(String(error))
       };
+
+      if (signal && signal.aborted && isAbortError(error)) {
+        result.aborted = true;
+      }
+
+      return result;
     }
   }
 
+  /**
+   * Check the pipeline without running it: every step against its component's
+   * supports() and config schema, plus the structure of the step graph
+   */
+  validate(): ETLValidationResult {
+    const diagnostics: ETLDiagnostic[] = [];
+
+    if (this.steps.length === 0) {
+      diagnostics.push({ severity: 'warning', code: 'empty-pipeline', message: 'The pipeline has no steps' });
+    }
+
+    this.steps.forEach((step, index) => {
+      diagnostics.push(...this.validateStep(step, step.id || `${step.name}-${index}`));
+    });
+
+    try {
+      diagnostics.push(...this.validateGraph(this.buildGraph()));
+    } catch (error) {
+      diagnostics.push({ severity: 'error', code: 'invalid-graph', message: (error as Error).message });
+    }
+
+    return {
+      valid: diagnostics.every(diagnostic => diagnostic.severity !== 'error'),
+      diagnostics
+    };
+  }
+
+  /**
+   * Add a step to the pipeline
+   */
+  private addStep(type: ETLStep['type'], name: string, config: any, options: ETLStepOptions): this {
+    const step: ETLStep = {
+      type,
+      name,
+      config: config || {}
+    };
+
+    const inputs = options.inputs || this.pendingInputs;
+    if (inputs) {
+      step.inputs = [...inputs];
+    }
+    if (options.id !== undefined) {
+      step.id = options.id;
+    }
+    if (options.optional !== undefined) {
+      step.optional = options.optional;
+    }
+    if (options.cache !== undefined) {
+      step.cache = options.cache;
+    }
+    if (options.cacheTtl !== undefined) {
+      step.cacheTtl = options.cacheTtl;
+    }
+    if (options.retry !== undefined) {
+      step.retry = { ...options.retry };
+    }
+    if (options.timeout !== undefined) {
+      step.timeout = options.timeout;
+    }
+
+    this.steps.push(step);
+    this.pendingInputs = null;
+    return this;
+  }
+
+  /**
+   * Get the most recently added step, to configure it
+   */
+  private lastStep(setting: string): ETLStep {
+    const step = this.steps[this.steps.length - 1];
+    if (!step) {
+      throw new Error(`Cannot assign ${setting} before adding a step`);
+    }
+    return step;
+  }
+
+  /**
+   * Check a step's component and config
+   */
+  private validateStep(step: ETLStep, stepId: string): ETLDiagnostic[] {
+    const component = this.getComponent(step);
+    if (!component) {
+      const kind = { extract: 'Extractor', transform: 'Transformer', load: 'Loader' }[step.type];
+      return [{ severity: 'error', code: 'unknown-component', stepId, message: `${kind} '${step.name}' not found` }];
+    }
+
+    const diagnostics: ETLDiagnostic[] = validateConfig(step.config, component.configSchema || {})
+      .map(issue => ({
+        severity: 'error',
+        code: 'invalid-config',
+        stepId,
+        path: `config.${issue.field}`,
+        message: `Step '${stepId}': ${issue.message}`
+      }));
+
+    // supports() only answers yes or no, so it is reported when the schema found nothing more specific
+    if (diagnostics.length === 0 && !component.supports(step.config || {})) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'unsupported-config',
+        stepId,
+        path: 'config',
+        message: `Step '${stepId}': ${step.type} component '${step.name}' does not support this config`
+      });
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Check the step graph for missing inputs, unused outputs and mismatched data shapes
+   */
+  private validateGraph(nodes: PipelineNode[]): ETLDiagnostic[] {
+    const diagnostics: ETLDiagnostic[] = [];
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    const shapes = new Map<string, ETLDataShape>();
+    const lastNode = nodes[nodes.length - 1];
+
+    const inputShapeOf = (node: PipelineNode): ETLDataShape => {
+      if (node.inputs.length === 0) {
+        return 'unknown';
+      }
+      return node.inputs.length > 1 ? 'object' : shapeOf(byId.get(node.inputs[0])!);
+    };
+    const shapeOf = (node: PipelineNode): ETLDataShape => {
+      if (!shapes.has(node.id)) {
+        shapes.set(node.id, this.inferShape(node, inputShapeOf(node)));
+      }
+      return shapes.get(node.id)!;
+    };
+
+    nodes.forEach(node => {
+      const { step } = node;
+
+      if (step.type !== 'extract' && node.inputs.length === 0) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'missing-input',
+          stepId: node.id,
+          message: `The ${step.type} step '${node.id}' has no input; add an extract step before it`
+        });
+      }
+
+      if (step.type !== 'load' && node.consumers.length === 0 && node !== lastNode) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'unused-output',
+          stepId: node.id,
+          message: `The output of step '${node.id}' is never used`
+        });
+      }
+
+      const component = this.getComponent(step);
+      const accepts = component && 'accepts' in component ? component.accepts : undefined;
+      const input = inputShapeOf(node);
+      if (accepts && input !== 'unknown' && !accepts.includes(input)) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'shape-mismatch',
+          stepId: node.id,
+          message: `Step '${node.id}' expects ${accepts.join(' or ')} data but receives ${input}`
+        });
+      }
+    });
+
+    return diagnostics;
+  }
+
+  /**
+   * Infer the shape of a node's output from its component and input shape
+   */
+  private inferShape(node: PipelineNode, input: ETLDataShape): ETLDataShape {
+    const { step } = node;
+
+    switch (step.type) {
+      case 'extract': {
+        const extractor = this.extractors.get(step.name);
+        return extractor && extractor.outputShape ? extractor.outputShape(step.config) : 'unknown';
+      }
+      case 'transform': {
+        const transformer = this.transformers.get(step.name);
+        return transformer && transformer.outputShape ? transformer.outputShape(input, step.config) : 'unknown';
+      }
+      case 'load':
+        // Loaders pass their input through
+        return input;
+    }
+  }
+
+  /**
+   * Look up the component that runs a step
+   */
+  private getComponent(step: ETLStep): IExtractor | ITransformer | ILoader | undefined {
+    switch (step.type) {
+      case 'extract':
+        return this.extractors.get(step.name);
+      case 'transform':
+        return this.transformers.get(step.name);
+      case 'load':
+        return this.loaders.get(step.name);
+    }
+  }
+
+  /**
+   * Resolve step ids and inputs into a validated acyclic graph
+   */
+  private buildGraph(): PipelineNode[] {
+    const nodes: PipelineNode[] = [];
+    const ids = new Set<string>();
+
+    this.steps.forEach((step, index) => {
+      const id = step.id || `${step.name}-${index}`;
+      if (ids.has(id)) {
+        throw new Error(`Duplicate step id '${id}'`);
+      }
+      ids.add(id);
+
+      let inputs: string[] = [];
+      if (step.inputs) {
+        inputs = Array.from(new Set(step.inputs));
+      } else if (step.type !== 'extract' && index > 0) {
+        inputs = [nodes[index - 1].id];
+      }
+
+      nodes.push({ id, index, step, inputs, consumers: [] });
+    });
+
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    nodes.forEach(node => {
+      node.inputs.forEach(input => {
+        if (!ids.has(input)) {
+          throw new Error(`Step '${node.id}' references unknown input '${input}'`);
+        }
+        byId.get(input)!.consumers.push(node);
+      });
+    });
+
+    this.assertAcyclic(nodes);
+    return nodes;
+  }
+
+  /**
+   * Throw if the graph contains a cycle
+   */
+  private assertAcyclic(nodes: PipelineNode[]): void {
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    const visiting = new Set<string>();
+    const visited = new Set<string>();
+
+    const visit = (node: PipelineNode, path: string[]) => {
+      if (visited.has(node.id)) {
+        return;
+      }
+      if (visiting.has(node.id)) {
+        throw new Error(`Pipeline contains a cycle: ${[...path, node.id].join(' -> ')}`);
+      }
+
+      visiting.add(node.id);
+      node.inputs.forEach(input => visit(byId.get(input)!, [...path, node.id]));
+      visiting.delete(node.id);
+      visited.add(node.id);
+    };
+
+    nodes.forEach(node => visit(node, []));
+  }
+
+  /**
+   * Execute graph nodes as soon as their inputs are ready, up to maxParallel at a time.
+   * No new node starts once the run's signal is aborted. Nodes in `done` already have outputs.
+   */
+  private async executeGraph(nodes: PipelineNode[], state: RunState, done: Set<string> = new Set()): Promise<void> {
+    const limit = this.config.enableParallel ? Math.max(1, this.config.maxParallel || 1) : 1;
+    const pending = nodes.filter(node => !done.has(node.id));
+    const pendingInputs = new Map(pending.map(node => [
+      node.id,
+      node.inputs.filter(input => !done.has(input)).length
+    ]));
+
+    const ready = pending.filter(node => pendingInputs.get(node.id) === 0);
+    const running = new Set<Promise<void>>();
+    let failed = false;
+    let failure: unknown;
+    let completed = done.size;
+
+    const onComplete = (node: PipelineNode) => {
+      completed++;
+      this.events.emit('progress', { processed: completed, total: nodes.length });
+
+      node.consumers.forEach(dependent => {
+        const remaining = pendingInputs.get(dependent.id)! - 1;
+        pendingInputs.set(dependent.id, remaining);
+        if (remaining === 0) {
+          ready.push(dependent);
+          ready.sort((a, b) => a.index - b.index);
+        }
+      });
+    };
+
+    const { signal } = state.context;
+
+    while (ready.length > 0 || running.size > 0) {
+      if (!failed && signal && signal.aborted) {
+        failed = true;
+        failure = createAbortError(signal);
+      }
+
+      while (!failed && ready.length > 0 && running.size < limit) {
+        const node = ready.shift()!;
+        const task: Promise<void> = this.executeNode(node, state)
+          .then(() => onComplete(node), error => {
+            if (!failed) {
+              failed = true;
+              failure = error;
+            }
+          })
+          .finally(() => running.delete(task));
+        running.add(task);
+      }
+
+      if (running.size === 0) {
+        break;
+      }
+      await Promise.race(running);
+    }
+
+    if (failed) {
+      throw failure;
+    }
+  }
+
+  /**
+   * Run the extract and transform nodes in a Web Worker and store the outputs
+   * the remaining nodes need. Returns the ids of the nodes that ran there.
+   */
+  private async executeInWorker(nodes: PipelineNode[], state: RunState, worker: true | Worker): Promise<Set<string>> {
+    const remote = nodes.filter(node => node.step.type !== 'load');
+    const remoteIds = new Set(remote.map(node => node.id));
+    if (remote.length === 0) {
+      return remoteIds;
+    }
+
+    remote.forEach(node => {
+      const local = node.inputs.find(input => !remoteIds.has(input));
+      if (local) {
+        throw new Error(`Step '${node.id}' reads load step '${local}' and cannot run in a worker`);
+      }
+    });
+
+    const outputs = remote
+      .filter(node => node.consumers.length === 0
+        || state.keep.has(node.id)
+        || node.consumers.some(consumer => !remoteIds.has(consumer.id)))
+      .map(node => node.id);
+
+    const config = this.getConfig();
+    delete config.workerUrl;
+    const spec: ETLPipelineSpec = {
+      version: PIPELINE_SPEC_VERSION,
+      config,
+      steps: remote.map(node => serializeStep(
+        { ...node.step, id: node.id, inputs: node.inputs },
+        node.index,
+        this.functions,
+        { cloneable: true }
+      ))
+    };
+
+    let runner: WorkerRunner;
+    if (worker === true) {
+      if (!this.config.workerUrl) {
+        throw new Error('Running in a worker requires the workerUrl config option');
+      }
+      runner = new WorkerRunner(this.config.workerUrl);
+    } else {
+      runner = new WorkerRunner(worker);
+    }
+
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    let completed = 0;
+
+    try {
+      const { signal } = state.context;
+      const result = await runner.run(spec, {
+        ...(signal ? { signal } : {}),
+        outputs,
+        onEvent: (event, payload) => {
+          this.events.emit(event, payload);
+
+          const end = payload as ETLEvents['stepEnd'];
+          if (event === 'stepEnd' && (end.success || byId.get(end.stepId)?.step.optional)) {
+            completed++;
+            this.events.emit('progress', { processed: completed, total: nodes.length });
+          }
+        }
+      });
+
+      state.stepResults.push(...result.steps);
+      state.cacheHits += result.cacheHits;
+      state.cacheMisses += result.cacheMisses;
+      Object.entries(result.outputs).forEach(([id, output]) => state.outputs.set(id, output));
+
+      if (!result.success) {
+        throw result.error ? deserializeError(result.error) : new Error('Worker run failed');
+      }
+    } finally {
+      if (worker === true) {
+        runner.terminate();
+      } else {
+        runner.detach();
+      }
+    }
+
+    return remoteIds;
+  }
+
+  /**
+   * Execute a single graph node and record its result
+   */
+  private async executeNode(node: PipelineNode, state: RunState): Promise<void> {
+    const { step } = node;
+    const input = await this.resolveInput(node, state);
+    const attempts: ETLStepAttempt[] = [];
+    const execute: StepExecutor = (operation, retryable = true) =>
+      this.executeWithRecovery(node, state, attempts, operation, retryable);
+    const stepEvent = { stepId: node.id, name: step.name, type: step.type };
+    const stepStartTime = performance.now();
+
+    this.events.emit('stepStart', stepEvent);
+
+    try {
+      let output: any;
+      switch (step.type) {
+        case 'extract':
+          output = await this.executeExtractStep(step, state, execute);
+          break;
+        case 'transform':
+          output = await this.executeTransformStep(step, input, state, execute);
+          break;
+        case 'load':
+          output = await this.executeLoadStep(step, input, state, execute);
+          break;
+      }
+
+      // Streams stay lazy only when a single step reads them
+      if (DataStream.isDataStream(output) && !this.canPassStream(node, state)) {
+        output = await output.collect();
+      }
+
+      const duration = performance.now() - stepStartTime;
+      state.outputs.set(node.id, output);
+      state.stepResults.push({
+        id: node.id,
+        name: step.name,
+        inputs: node.inputs,
+        duration,
+        success: true,
+        attempts
+      });
+      this.events.emit('stepEnd', { ...stepEvent, duration, success: true });
+    } catch (error) {
+      const duration = performance.now() - stepStartTime;
+      const stepError = error instanceof Error ? error : new Error(String(error));
+      state.stepResults.push({
+        id: node.id,
+        name: step.name,
+        inputs: node.inputs,
+        duration,
+        success: false,
+        error: stepError.message,
+        attempts
+      });
+      this.events.emit('error', { stepId: node.id, error: stepError });
+      this.events.emit('stepEnd', { ...stepEvent, duration, success: false, error: stepError });
+
+      if (!step.optional || state.context.signal?.aborted) {
+        throw error;
+      }
+
+      // A failed optional step passes its input through, unless the run itself was aborted
+      state.outputs.set(node.id, input);
+    }
+  }
+
+  /**
+   * Run a component call with the step's retry policy and timeout, recording each attempt.
+   * Aborts of the run itself are never retried.
+   */
+  private async executeWithRecovery<T>(
+    node: PipelineNode,
+    state: RunState,
+    attempts: ETLStepAttempt[],
+    operation: (context: ETLContext) => Promise<T>,
+    retryable: boolean
+  ): Promise<T> {
+    const { step } = node;
+    const { signal } = state.context;
+    const policy = this.resolveRetryPolicy(step);
+    const retried = retryable && (policy.attempts || 1) > 1;
+    const context = { ...this.createStepContext(node, state), ...(retried ? { retried } : {}) };
+    const recovery = new ErrorRecovery({
+      enabled: true,
+      maxRetries: Math.max(0, (policy.attempts || 1) - 1),
+      retryDelay: policy.delay ?? DEFAULT_RETRY_DELAY,
+      backoffMultiplier: policy.backoffMultiplier ?? DEFAULT_BACKOFF_MULTIPLIER,
+      maxRetryDelay: policy.maxDelay ?? DEFAULT_MAX_RETRY_DELAY
+    });
+
+    return recovery.executeWithRetries(async attempt => {
+      const attemptStartTime = performance.now();
+      try {
+        const result = await withTimeout(
+          attemptSignal => operation(attemptSignal ? { ...context, signal: attemptSignal } : context),
+          step.timeout,
+          signal
+        );
+        attempts.push({ attempt, duration: performance.now() - attemptStartTime, success: true });
+        return result;
+      } catch (error) {
+        attempts.push({
+          attempt,
+          duration: performance.now() - attemptStartTime,
+          success: false,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        throw error;
+      }
+    }, {
+      shouldRetry: error => retryable && !(signal && signal.aborted) &&
+        (policy.retryIf ? policy.retryIf(error) : this.isTransientError(error, recovery)),
+      onRetry: (attempt, delay, error) => {
+        this.events.emit('retry', { stepId: node.id, attempt, delay, error });
+      },
+      ...(signal ? { signal } : {})
+    });
+  }
+
+  /**
+   * Resolve a step's retry policy. Without one, extract steps default to `enableErrorRecovery`
+   * and `maxRetries`; transforms and loads, which may not be idempotent, run once. Steps retried
+   * here get `context.retried`, so their components do not retry on top.
+   */
+  private resolveRetryPolicy(step: ETLStep): ETLRetryPolicy {
+    if (step.retry) {
+      return step.retry;
+    }
+
+    return {
+      attempts: step.type === 'extract' && this.config.enableErrorRecovery ? (this.config.maxRetries || 0) + 1 : 1
+    };
+  }
+
+  /**
+   * Check whether an error is worth retrying without a `retryIf`. Type and reference errors
+   * are bugs in user code, except the TypeError `fetch` raises when the network fails.
+   */
+  private isTransientError(error: Error, recovery: ErrorRecovery): boolean {
+    if (error.name === 'ReferenceError' || (error.name === 'TypeError' && !NETWORK_FAILURE.test(error.message))) {
+      return false;
+    }
+    return recovery.isRecoverableError(error);
+  }
+
+  /**
+   * Create the context handed to a step's component, reporting events under the step's id
+   */
+  private createStepContext(node: PipelineNode, state: RunState): ETLContext {
+    return {
+      ...state.context,
+      ...(this.config.enableStreaming && this.config.batchSize ? { batchSize: this.config.batchSize } : {}),
+      progress: (processed: number, total?: number, unit?: ETLProgressUnit) => {
+        this.events.emit('progress', {
+          stepId: node.id,
+          processed,
+          ...(total !== undefined ? { total } : {}),
+          ...(unit && unit !== 'items' ? { unit } : {})
+        });
+      },
+      retry: (attempt: number, delay: number, error: Error) => {
+        this.events.emit('retry', { stepId: node.id, attempt, delay, error });
+      }
+    };
+  }
+
+  /**
+   * Resolve the data a node receives: nothing, a single input's output,
+   * or an object keyed by input id when the node has several inputs
+   */
+  private async resolveInput(node: PipelineNode, state: RunState): Promise<any> {
+    if (node.inputs.length === 0) {
+      return null;
+    }
+
+    if (node.inputs.length === 1) {
+      return state.outputs.get(node.inputs[0]);
+    }
+
+    const entries = await Promise.all(node.inputs.map(async input => {
+      const output = state.outputs.get(input);
+      return [input, DataStream.isDataStream(output) ? await output.collect() : output];
+    }));
+    return Object.fromEntries(entries);
+  }
+
+  /**
+   * Check if a node's streamed output can be handed to its consumer without collecting it
+   */
+  private canPassStream(node: PipelineNode, state: RunState): boolean {
+    return !state.keep.has(node.id)
+      && node.consumers.length === 1 && node.consumers[0].inputs.length === 1;
+  }
+
+  /**
+   * Build the run result; data is the output of the last declared step that produced one
+   */
+  private createResult(nodes: PipelineNode[], state: RunState, startTime: number): ETLResult {
+    const order = new Map(nodes.map(node => [node.id, node.index]));
+    const lastNode = [...nodes].reverse().find(node => state.outputs.has(node.id));
+
+    return {
+      data: lastNode ? state.outputs.get(lastNode.id) : null,
+      metadata: {
+        duration: performance.now() - startTime,
+        steps: [...state.stepResults].sort((a, b) => order.get(a.id)! - order.get(b.id)!),
+        cacheHits: state.cacheHits,
+        cacheMisses: state.cacheMisses
+      },
+      success: true,
+      ...(state.keep.size > 0 ? {
+        outputs: Object.fromEntries([...state.keep]
+          .filter(id => state.outputs.has(id))
+          .map(id => [id, state.outputs.get(id)]))
+      } : {})
+    };
+  }
+
   /**
    * Execute an extract step
    */
-  private async executeExtractStep(step: ETLStep): Promise<any> {
+  private async executeExtractStep(step: ETLStep, state: RunState, execute: StepExecutor): Promise<any> {
     const extractor = this.extractors.get(step.name);
     if (!extractor) {
       throw new Error(`Extractor '${step.name}' not found`);
     }
 
+    // Streamed extractions are never cached. The stream is read after execute() returns, so it
+    // gets its own link to the run signal and timeout, held until it ends.
+    if ((this.config.enableStreaming || state.live) && extractor.stream && (!extractor.canStream || extractor.canStream(step.config))) {
+      return await execute(async context => DataStream.from(withStreamTimeout(
+        signal => DataStream.from(extractor.stream!(step.config, signal ? { ...context, signal } : context)),
+        step.timeout,
+        state.context.signal
+      )));
+    }
+
+    const cacheKey = this.generateCacheKey(step);
+    const useCache = step.cache !== undefined ? step.cache : this.config.enableCache;
+
     // Check cache if enabled
-    if (this.config.enableCache) {
-      const cacheKey = this.generateCacheKey(step);
-      const cachedData = this.getCachedData(cacheKey);
-      if (cachedData) {
-        cacheHits++;
+    if (useCache) {
+      const cachedData = await this.getCachedData(cacheKey);
+      if (cachedData !== null) {
+        state.cacheHits++;
         return cachedData;
       }
+
+      // Identical extractions running concurrently share a single request
+      const inflight = state.inflightExtracts.get(cacheKey);
+      if (inflight) {
+        const shared = await inflight;
+        state.cacheHits++;
+        return shared;
+      }
+    }
+
+    const extraction = execute(context => extractor.extract(step.config, context));
+    if (useCache) {
+      state.inflightExtracts.set(cacheKey, extraction);
+      // A failed extraction is not shared with steps that start after it settles
+      extraction.catch(() => {
+        if (state.inflightExtracts.get(cacheKey) === extraction) {
+          state.inflightExtracts.delete(cacheKey);
+        }
+      });
     }
 
-    const data = await extractor.extract(step.config);
+    const data = await extraction;
     
-    // Cache the result if enabled
-    if (this.config.enableCache) {
-      const cacheKey = this.generateCacheKey(step);
-      this.setCachedData(cacheKey, data);
-      cacheMisses++;
+    // Cache the result if enabled; a TTL of 0 only shares the in-flight request
+    if (useCache) {
+      const ttl = step.cacheTtl ?? this.config.cacheDuration;
+      if (ttl !== 0) {
+        await this.setCachedData(cacheKey, data, ttl);
+      }
+      state.cacheMisses++;
     }
 
     return data;
   }
 
   /**
-   * Execute a transform step
+   * Execute a transform step. Row-wise transformers process streamed data chunk by chunk,
+   * each chunk under the step's retry policy; other transformers receive the collected records,
+   * or each chunk in live runs.
    */
-  private async executeTransformStep(step: ETLStep, data: any): Promise<any> {
+  private async executeTransformStep(step: ETLStep, data: any, state: RunState, execute: StepExecutor): Promise<any> {
     const transformer = this.transformers.get(step.name);
     if (!transformer) {
       throw new Error(`Transformer '${step.name}' not found`);
     }
 
-    return await transformer.transform(data, step.config);
+    if (DataStream.isDataStream(data)) {
+      if (transformer.transformChunk) {
+        let processed = 0;
+        return data.map(chunk => execute(async context => {
+          throwIfAborted(context.signal);
+          const result = await transformer.transformChunk!(chunk, step.config, context);
+          processed += chunk.length;
+          context.progress?.(processed);
+          return result;
+        }));
+      }
+      if (state.live) {
+        return data.map(chunk => execute(async context => {
+          throwIfAborted(context.signal);
+          const result = await transformer.transform(chunk, step.config, context);
+          return Array.isArray(result) ? result : [result];
+        }));
+      }
+      data = await data.collect();
+    }
+
+    return await execute(context => transformer.transform(data, step.config, context));
   }
 
   /**
-   * Execute a load step
+   * Execute a load step and return its output: the loaded data, or null when it was streamed.
+   * In live runs, loaders without loadStream() load each chunk as it arrives.
    */
-  private async executeLoadStep(step: ETLStep, data: any): Promise<void> {
+  private async executeLoadStep(step: ETLStep, data: any, state: RunState, execute: StepExecutor): Promise<any> {
     const loader = this.loaders.get(step.name);
     if (!loader) {
       throw new Error(`Loader '${step.name}' not found`);
     }
 
-    await loader.load(data, step.config);
+    if (DataStream.isDataStream(data)) {
+      if (loader.loadStream) {
+        // A consumed stream cannot be replayed, so streamed loads are not retried
+        await execute(context => loader.loadStream!(data, step.config, context), false);
+        return null;
+      }
+      if (state.live) {
+        for await (const chunk of data) {
+          throwIfAborted(state.context.signal);
+          await execute(context => loader.load(chunk, step.config, context));
+        }
+        return null;
+      }
+      data = await data.collect();
+    }
+
+    await execute(context => loader.load(data, step.config, context));
+    return data;
   }
 
   /**
@@ -241,38 +1158,36 @@ export class ETLPipeline {
   }
 
   /**
-   * Get cached data
+   * Get cached data; backend failures are treated as cache misses
    */
-  private getCachedData(key: string): any | null {
-    const timestamp = this.cacheTimestamps.get(key);
-    if (!timestamp) {
-      return null;
-    }
-
-    const now = Date.now();
-    if (now - timestamp > this.config.cacheDuration!) {
-      this.cache.delete(key);
-      this.cacheTimestamps.delete(key);
+  private async getCachedData(key: string): Promise<any | null> {
+    try {
+      const data = await this.cacheBackend.get(key);
+      return data === undefined ? null : data;
+    } catch (error) {
+      console.warn(`Failed to read cache entry '${key}':`, error);
       return null;
     }
-
-    return this.cache.get(key) || null;
   }
 
   /**
-   * Set cached data
+   * Set cached data; backend failures do not fail the step
    */
-  private setCachedData(key: string, data: any): void {
-    this.cache.set(key, data);
-    this.cacheTimestamps.set(key, Date.now());
+  private async setCachedData(key: string, data: any, ttl?: number): Promise<void> {
+    try {
+      await this.cacheBackend.set(key, data, ttl);
+    } catch (error) {
+      console.warn(`Failed to write cache entry '${key}':`, error);
+    }
   }
 
   /**
-   * Clear cache
+   * Clear cache. Asynchronous backends are cleared in the background.
    */
   clearCache(): this {
-    this.cache.clear();
-    this.cacheTimestamps.clear();
+    Promise.resolve(this.cacheBackend.clear()).catch(error => {
+      console.warn('Failed to clear cache:', error);
+    });
     return this;
   }
 
@@ -0,0 +1,221 @@
+import { ETLFunctionReference, ETLPipelineSpec, ETLStep, ETLStepSpec } from '../types';
+import { FunctionRegistry } from '../utils/function-registry';
+
+/**
+ * Current pipeline spec format version
+ */
+export const PIPELINE_SPEC_VERSION = 1;
+
+const STEP_TYPES: Array<ETLStep['type']> = ['extract', 'transform', 'load'];
+
+/**
+ * Parse and validate a pipeline spec from JSON text or an already parsed object
+ * (for example the output of a YAML parser)
+ */
+export function parsePipelineSpec(input: string | ETLPipelineSpec): ETLPipelineSpec {
+  let spec: any = input;
+
+  if (typeof input === 'string') {
+    try {
+      spec = JSON.parse(input);
+    } catch {
+      throw new Error('Failed to parse pipeline spec as JSON');
+    }
+  }
+
+  if (!spec || typeof spec !== 'object') {
+    throw new Error('Pipeline spec must be an object');
+  }
+
+  if (spec.version !== PIPELINE_SPEC_VERSION) {
+    throw new Error(`Unsupported pipeline spec version: ${spec.version}`);
+  }
+
+  if (!Array.isArray(spec.steps)) {
+    throw new Error('Pipeline spec must have a steps array');
+  }
+
+  spec.steps.forEach((step: any, index: number) => {
+    if (!step || !STEP_TYPES.includes(step.type)) {
+      throw new Error(`Invalid type for steps[${index}]: ${step ? step.type : step}`);
+    }
+    if (typeof step.name !== 'string' || !step.name) {
+      throw new Error(`steps[${index}] must have a name`);
+    }
+    if (step.inputs !== undefined && !Array.isArray(step.inputs)) {
+      throw new Error(`steps[${index}].inputs must be an array of step ids`);
+    }
+  });
+
+  return spec;
+}
+
+export interface SerializeOptions {
+  /**
+   * Keep structured-cloneable values such as files and buffers instead of rejecting them,
+   * for specs posted to a worker rather than converted to JSON
+   */
+  cloneable?: boolean;
+}
+
+/**
+ * Convert a pipeline step into its serializable spec
+ */
+export function serializeStep(
+  step: ETLStep,
+  index: number,
+  functions: FunctionRegistry,
+  options: SerializeOptions = {}
+): ETLStepSpec {
+  const spec: ETLStepSpec = {
+    type: step.type,
+    name: step.name,
+    config: serializeValue(step.config, `steps[${index}].config`, functions, options)
+  };
+
+  if (step.id !== undefined) {
+    spec.id = step.id;
+  }
+  if (step.inputs) {
+    spec.inputs = [...step.inputs];
+  }
+  if (step.optional !== undefined) {
+    spec.optional = step.optional;
+  }
+  if (step.cache !== undefined) {
+    spec.cache = step.cache;
+  }
+  if (step.cacheTtl !== undefined) {
+    spec.cacheTtl = step.cacheTtl;
+  }
+  if (step.retry !== undefined) {
+    spec.retry = serializeValue(step.retry, `steps[${index}].retry`, functions, options);
+  }
+  if (step.timeout !== undefined) {
+    spec.timeout = step.timeout;
+  }
+
+  return spec;
+}
+
+/**
+ * Convert a step spec back into a pipeline step, resolving function references
+ */
+export function deserializeStep(spec: ETLStepSpec, index: number, functions: FunctionRegistry): ETLStep {
+  const step: ETLStep = {
+    type: spec.type,
+    name: spec.name,
+    config: deserializeValue(spec.config || {}, `steps[${index}].config`, functions)
+  };
+
+  if (spec.id !== undefined) {
+    step.id = spec.id;
+  }
+  if (spec.inputs) {
+    step.inputs = [...spec.inputs];
+  }
+  if (spec.optional !== undefined) {
+    step.optional = spec.optional;
+  }
+  if (spec.cache !== undefined) {
+    step.cache = spec.cache;
+  }
+  if (spec.cacheTtl !== undefined) {
+    step.cacheTtl = spec.cacheTtl;
+  }
+  if (spec.retry !== undefined) {
+    step.retry = deserializeValue(spec.retry, `steps[${index}].retry`, functions);
+  }
+  if (spec.timeout !== undefined) {
+    step.timeout = spec.timeout;
+  }
+
+  return step;
+}
+
+/**
+ * Check if a value is a reference to a registered function
+ */
+export function isFunctionReference(value: any): value is ETLFunctionReference {
+  return isPlainObject(value) && Object.keys(value).length === 1 && typeof value.$fn === 'string';
+}
+
+function serializeValue(value: any, path: string, functions: FunctionRegistry, options: SerializeOptions): any {
+  if (typeof value === 'function') {
+    const name = functions.nameOf(value);
+    if (!name) {
+      throw new Error(`Cannot serialize function at ${path}: register it with registerFunction()`);
+    }
+    return { $fn: name };
+  }
+
+  if (typeof value === 'bigint' || typeof value === 'symbol') {
+    throw new Error(`Cannot serialize ${typeof value} at ${path}`);
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => serializeValue(item, `${path}[${index}]`, functions, options));
+  }
+
+  if (options.cloneable && isCloneable(value)) {
+    return value;
+  }
+
+  if (!isPlainObject(value)) {
+    const typeName = value.constructor ? value.constructor.name : 'object';
+    throw new Error(`Cannot serialize ${typeName} at ${path}`);
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (item !== undefined) {
+      result[key] = serializeValue(item, `${path}.${key}`, functions, options);
+    }
+  }
+  return result;
+}
+
+function deserializeValue(value: any, path: string, functions: FunctionRegistry): any {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => deserializeValue(item, `${path}[${index}]`, functions));
+  }
+
+  if (isFunctionReference(value)) {
+    const fn = functions.get(value.$fn);
+    if (!fn) {
+      throw new Error(`Unknown function '${value.$fn}' referenced at ${path}`);
+    }
+    return fn;
+  }
+
+  if (isPlainObject(value)) {
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = deserializeValue(item, `${path}.${key}`, functions);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+function isCloneable(value: object): boolean {
+  return value instanceof Blob ||
+    value instanceof ArrayBuffer ||
+    ArrayBuffer.isView(value) ||
+    value instanceof Date ||
+    value instanceof RegExp;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,152 @@
+import { ETLEvents } from '../types';
+import { RegisteredFunction } from '../utils/function-registry';
+import { ETL } from './etl';
+import { ETLPipeline } from './pipeline';
+import { WorkerRequest, WorkerResponse, serializeError } from './worker-runner';
+
+export interface WorkerHostOptions {
+  /**
+   * Functions that specs sent to this worker may reference
+   */
+  functions?: Record<string, RegisteredFunction>;
+
+  /**
+   * Called with each pipeline before it runs, e.g. to register custom components
+   */
+  setup?: (pipeline: ETLPipeline) => void;
+}
+
+/**
+ * The part of a worker's global scope used by serveWorker()
+ */
+export interface WorkerScope {
+  postMessage(message: any, transfer?: Transferable[]): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<WorkerRequest>) => void): void;
+}
+
+const FORWARDED_EVENTS: (keyof ETLEvents)[] = ['stepStart', 'stepEnd', 'retry', 'error'];
+
+/**
+ * Serve pipeline runs requested by a WorkerRunner. Call this from the worker script.
+ */
+export function serveWorker(options: WorkerHostOptions = {}, scope: WorkerScope = self as unknown as WorkerScope): void {
+  const controllers: Map<number, AbortController> = new Map();
+
+  scope.addEventListener('message', event => {
+    const request = event.data;
+    if (!request) {
+      return;
+    }
+
+    if (request.type === 'abort') {
+      controllers.get(request.id)?.abort();
+      return;
+    }
+
+    if (request.type === 'run') {
+      const controller = new AbortController();
+      controllers.set(request.id, controller);
+      runRequest(request, controller.signal, options, scope)
+        .finally(() => controllers.delete(request.id));
+    }
+  });
+}
+
+/**
+ * Run one spec and post its events and result back to the runner
+ */
+async function runRequest(
+  request: Extract<WorkerRequest, { type: 'run' }>,
+  signal: AbortSignal,
+  options: WorkerHostOptions,
+  scope: WorkerScope
+): Promise<void> {
+  const { id, spec, outputs } = request;
+  const post = (message: WorkerResponse, transfer: Transferable[] = []) => scope.postMessage(message, transfer);
+
+  let pipeline: ETLPipeline;
+  try {
+    pipeline = ETL.fromSpec(spec, options.functions).getPipeline();
+    options.setup?.(pipeline);
+  } catch (error) {
+    post({ type: 'result', id, ...emptyResult(), error: serializeError(error) });
+    return;
+  }
+
+  FORWARDED_EVENTS.forEach(name => {
+    pipeline.on(name, (payload: any) => {
+      post({ type: 'event', id, event: name, payload: toClonablePayload(payload) });
+    });
+  });
+  // Run-level progress is reported by the main thread
+  pipeline.on('progress', payload => {
+    if (payload.stepId !== undefined) {
+      post({ type: 'event', id, event: 'progress', payload });
+    }
+  });
+
+  const result = await pipeline.run({ signal, outputs });
+  const response: WorkerResponse = {
+    type: 'result',
+    id,
+    success: result.success,
+    outputs: result.outputs || {},
+    steps: result.metadata.steps,
+    cacheHits: result.metadata.cacheHits,
+    cacheMisses: result.metadata.cacheMisses,
+    ...(result.aborted ? { aborted: true } : {}),
+    ...(result.error ? { error: serializeError(result.error) } : {})
+  };
+
+  try {
+    post(response, collectTransferables(response.outputs));
+  } catch (error) {
+    post({
+      type: 'result',
+      id,
+      ...emptyResult(),
+      error: {
+        name: 'DataCloneError',
+        message: `Step outputs could not be sent back from the worker: ${(error as Error).message}`
+      }
+    });
+  }
+}
+
+function emptyResult() {
+  return { success: false, outputs: {}, steps: [], cacheHits: 0, cacheMisses: 0 };
+}
+
+function toClonablePayload(payload: any): any {
+  return payload && payload.error ? { ...payload, error: serializeError(payload.error) } : payload;
+}
+
+/**
+ * Find the buffers in a value that can be transferred instead of copied
+ */
+export function collectTransferables(value: any): Transferable[] {
+  const found = new Set<Transferable>();
+  const seen = new Set<any>();
+
+  const visit = (item: any) => {
+    if (!item || typeof item !== 'object' || seen.has(item)) {
+      return;
+    }
+    seen.add(item);
+
+    if (item instanceof ArrayBuffer) {
+      found.add(item);
+    } else if (ArrayBuffer.isView(item)) {
+      if (item.buffer instanceof ArrayBuffer) {
+        found.add(item.buffer);
+      }
+    } else if (typeof ImageBitmap !== 'undefined' && item instanceof ImageBitmap) {
+      found.add(item);
+    } else if (Array.isArray(item) || Object.getPrototypeOf(item) === Object.prototype) {
+      Object.values(item).forEach(visit);
+    }
+  };
+
+  visit(value);
+  return Array.from(found);
+}
@@ -0,0 +1,200 @@
+import { ETLEvents, ETLPipelineSpec, ETLStepResult } from '../types';
+import { createAbortError } from '../utils/abort';
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+}
+
+export type WorkerRequest =
+  | { type: 'run'; id: number; spec: ETLPipelineSpec; outputs: string[] }
+  | { type: 'abort'; id: number };
+
+export interface WorkerRunResult {
+  success: boolean;
+  aborted?: boolean;
+  error?: SerializedError;
+  outputs: Record<string, any>;
+  steps: ETLStepResult[];
+  cacheHits: number;
+  cacheMisses: number;
+}
+
+export type WorkerResponse =
+  | ({ type: 'result'; id: number } & WorkerRunResult)
+  | { type: 'event'; id: number; event: keyof ETLEvents; payload: any };
+
+export interface WorkerRunOptions {
+  /**
+   * Signal that aborts the run inside the worker; the run rejects as soon as it aborts
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Ids of steps whose outputs are sent back
+   */
+  outputs?: string[];
+
+  /**
+   * Called for each pipeline event raised in the worker; errors are already deserialized
+   */
+  onEvent?: <K extends keyof ETLEvents>(event: K, payload: ETLEvents[K]) => void;
+}
+
+interface PendingRun {
+  resolve: (result: WorkerRunResult) => void;
+  reject: (error: Error) => void;
+  onEvent?: WorkerRunOptions['onEvent'];
+}
+
+/**
+ * Worker Runner - runs pipeline specs inside a Web Worker that called serveWorker().
+ * Several runs can share one worker. Pending runs reject if the worker fails to load,
+ * crashes or sends a message that cannot be read.
+ */
+export class WorkerRunner {
+  private worker: Worker;
+  private runs: Map<number, PendingRun> = new Map();
+  private nextId = 1;
+
+  constructor(worker: Worker | string | URL) {
+    if (typeof worker === 'string' || worker instanceof URL) {
+      if (typeof Worker === 'undefined') {
+        throw new Error('Web Workers are not available in this environment');
+      }
+      worker = new Worker(worker, { type: 'module' });
+    }
+
+    this.worker = worker;
+    this.worker.addEventListener('message', this.handleMessage);
+    this.worker.addEventListener('error', this.handleError);
+    this.worker.addEventListener('messageerror', this.handleMessageError);
+  }
+
+  /**
+   * Run a spec in the worker and resolve with its step results and requested outputs
+   */
+  run(spec: ETLPipelineSpec, options: WorkerRunOptions = {}): Promise<WorkerRunResult> {
+    const { signal, outputs = [], onEvent } = options;
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError(signal));
+        return;
+      }
+
+      // Settle without waiting for the worker, which may never answer
+      const onAbort = () => {
+        this.runs.delete(id);
+        reject(createAbortError(signal));
+        try {
+          this.worker.postMessage({ type: 'abort', id } as WorkerRequest);
+        } catch {
+          // The worker is gone; there is nothing left to stop
+        }
+      };
+
+      this.runs.set(id, {
+        resolve: result => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        ...(onEvent ? { onEvent } : {})
+      });
+
+      try {
+        this.worker.postMessage({ type: 'run', id, spec, outputs } as WorkerRequest);
+      } catch (error) {
+        this.runs.delete(id);
+        reject(new Error(`Failed to send the pipeline to the worker: ${(error as Error).message}`));
+        return;
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Stop listening to the worker but leave it running
+   */
+  detach(): void {
+    this.worker.removeEventListener('message', this.handleMessage);
+    this.worker.removeEventListener('error', this.handleError);
+    this.worker.removeEventListener('messageerror', this.handleMessageError);
+    this.runs.clear();
+  }
+
+  /**
+   * Stop listening to the worker and terminate it
+   */
+  terminate(): void {
+    this.detach();
+    this.worker.terminate();
+  }
+
+  private handleMessage = (event: MessageEvent<WorkerResponse>): void => {
+    const message = event.data;
+    const run = message && this.runs.get(message.id);
+    if (!run) {
+      return;
+    }
+
+    if (message.type === 'event') {
+      const payload = message.payload && message.payload.error
+        ? { ...message.payload, error: deserializeError(message.payload.error) }
+        : message.payload;
+      run.onEvent?.(message.event, payload);
+      return;
+    }
+
+    this.runs.delete(message.id);
+    run.resolve(message);
+  };
+
+  private handleError = (event: Event): void => {
+    const message = (event as ErrorEvent).message;
+    this.rejectAll(new Error(message
+      ? `The worker failed: ${message}`
+      : 'The worker failed to load or crashed'));
+  };
+
+  private handleMessageError = (): void => {
+    this.rejectAll(new Error('A message from the worker could not be deserialized'));
+  };
+
+  private rejectAll(error: Error): void {
+    const runs = Array.from(this.runs.values());
+    this.runs.clear();
+    runs.forEach(run => run.reject(error));
+  }
+}
+
+/**
+ * Convert an error into a structured-cloneable object
+ */
+export function serializeError(error: unknown): SerializedError {
+  // DOMExceptions, such as abort reasons, are not always Error instances
+  if (error instanceof Error || (typeof error === 'object' && error !== null && 'message' in error)) {
+    const { name = 'Error', message, stack } = error as Error;
+    return stack ? { name, message: String(message), stack } : { name, message: String(message) };
+  }
+  return { name: 'Error', message: String(error) };
+}
+
+/**
+ * Rebuild an error received from a worker
+ */
+export function deserializeError(serialized: SerializedError): Error {
+  const error = new Error(serialized.message);
+  error.name = serialized.name;
+  if (serialized.stack) {
+    error.stack = serialized.stack;
+  }
+  return error;
+}
@@ -1,5 +1,92 @@
-import { IExtractor } from '../types';
+import { IExtractor, ETLContext, ETLConfigSchema } from '../types';
+import { throwIfAborted } from '../utils/abort';
+import { InputCompression, compressionFromName, compressionFromType, decompressStream } from '../utils/compression';
 import { HttpClient } from '../utils/http-client';
+import { NdjsonBadLine, decodeTextStream, parseNdjson } from '../utils/ndjson';
+import { getValueAtPath, parseLinkHeader, resolveUrl, setQueryParams } from '../utils/pagination';
+import { fileTypeFromName } from './file';
+
+export interface ApiNextRequest {
+  url: string;
+  options?: RequestInit;
+}
+
+export interface ApiPaginationConfig {
+  /**
+   * How the next page is requested: page number or offset query parameters,
+   * a cursor read from the response, the `Link: rel="next"` header, or getNextRequest()
+   */
+  type: 'page' | 'offset' | 'cursor' | 'link' | 'custom';
+
+  /**
+   * Dot path of the records in each response body; the body itself when omitted
+   */
+  itemsPath?: string;
+
+  /**
+   * Records per page; a shorter page is the last one. Required for offset pagination.
+   */
+  pageSize?: number;
+
+  /**
+   * Query parameter holding the page number (page), `page` by default
+   */
+  pageParam?: string;
+
+  /**
+   * First page number (page), 1 by default
+   */
+  startPage?: number;
+
+  /**
+   * Query parameter holding the offset (offset), `offset` by default
+   */
+  offsetParam?: string;
+
+  /**
+   * Query parameter holding the page size; `limit` by default for offset pagination
+   */
+  limitParam?: string;
+
+  /**
+   * Dot paths of the total page or record count in the first response (page, offset)
+   */
+  totalPagesPath?: string;
+  totalItemsPath?: string;
+
+  /**
+   * Pages requested at once (page, offset)
+   */
+  concurrency?: number;
+
+  /**
+   * Dot path of the next cursor in each response body (cursor)
+   */
+  cursorPath?: string;
+
+  /**
+   * Query parameter receiving the cursor (cursor), `cursor` by default
+   */
+  cursorParam?: string;
+
+  /**
+   * Build the request for the page after the given response (custom); return null to stop
+   */
+  getNextRequest?: (
+    response: Response,
+    body: any
+  ) => ApiNextRequest | string | null | undefined | Promise<ApiNextRequest | string | null | undefined>;
+
+  /**
+   * Stop after this many pages, 100 by default
+   */
+  maxPages?: number;
+
+  /**
+   * Stop after this many records
+   */
+  maxItems?: number;
+}
 
 export interface ApiExtractorConfig {
   url: string;
@@ -8,54 +95,346 @@ export interface ApiExtractorConfig {
   method?: string;
   body?: any;
   timeout?: number;
+
+  /**
+   * Retries per request, 3 by default or 0 when the pipeline retries the step
+   */
   retries?: number;
+
+  pagination?: ApiPaginationConfig;
+
+  /**
+   * `auto` (the default) decompresses `application/gzip` bodies and URLs ending in `.gz` or
+   * `.deflate` that the browser did not already decode
+   */
+  compression?: 'auto' | InputCompression | 'none';
+
+  /**
+   * NDJSON: fail once more lines of a response than this are invalid; invalid lines are skipped by default
+   */
+  maxBadLines?: number;
+
+  /**
+   * NDJSON: called for each line that is not valid JSON
+   */
+  onBadLine?: (badLine: NdjsonBadLine) => void;
 }
 
+const DEFAULT_MAX_PAGES = 100;
+const NDJSON_CONTENT_TYPE = /application\/(x-)?(ndjson|jsonl|json-lines)/i;
+const CONTENT_TYPES: Record<string, string> = {
+  json: 'application/json',
+  ndjson: 'application/x-ndjson'
+};
+
 /**
- * API Extractor - extracts data from REST APIs
+ * API Extractor - extracts data from REST APIs, following pagination when configured
  */
 export class ApiExtractor implements IExtractor {
   readonly name = 'api';
+  readonly configSchema: ETLConfigSchema = {
+    url: { type: 'string', required: true },
+    options: { type: 'object' },
+    headers: { type: 'object' },
+    method: { type: 'string' },
+    timeout: { type: 'number' },
+    retries: { type: 'number' },
+    pagination: { type: 'object' },
+    compression: { type: 'string', enum: ['auto', 'gzip', 'deflate', 'none'] },
+    maxBadLines: { type: 'number' },
+    onBadLine: { type: 'function' }
+  };
   private httpClient: HttpClient;
 
   constructor() {
     this.httpClient = new HttpClient();
   }
 
-  async extract(config: ApiExtractorConfig): Promise<any> {
+  async extract(config: ApiExtractorConfig, context: ETLContext = {}): Promise<any> {
+    if (!config.url) {
+      throw new Error('URL is required for API extraction');
+    }
+
+    if (!config.pagination) {
+      const { body } = await this.fetchPage(config, { url: config.url }, context);
+      return body;
+    }
+
+    const records: any[] = [];
+    for await (const page of this.fetchPages(config, context)) {
+      for (const record of page) {
+        records.push(record);
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Emit each page of records as soon as it arrives
+   */
+  async *stream(config: ApiExtractorConfig, context: ETLContext = {}): AsyncGenerator<any[]> {
     if (!config.url) {
       throw new Error('URL is required for API extraction');
     }
 
+    if (!config.pagination) {
+      const { body } = await this.fetchPage(config, { url: config.url }, context);
+      yield Array.isArray(body) ? body : [body];
+      return;
+    }
+
+    yield* this.fetchPages(config, context);
+  }
+
+  /**
+   * Only paginated requests are streamed; single responses keep their shape
+   */
+  canStream(config: ApiExtractorConfig): boolean {
+    return Boolean(config && config.pagination);
+  }
+
+  supports(config: any): boolean {
+    return config && typeof config.url === 'string';
+  }
+
+  /**
+   * Fetch pages until the API runs out of them or a limit is reached
+   */
+  private async *fetchPages(config: ApiExtractorConfig, context: ETLContext): AsyncGenerator<any[]> {
+    const pagination = config.pagination!;
+    const maxItems = pagination.maxItems ?? Infinity;
+    const pages = pagination.type === 'page' || pagination.type === 'offset'
+      ? this.fetchNumberedPages(config, pagination, context)
+      : this.fetchLinkedPages(config, pagination, context);
+    let count = 0;
+
+    for await (const records of pages) {
+      const page = records.length > maxItems - count ? records.slice(0, maxItems - count) : records;
+      count += page.length;
+      context.progress?.(count);
+
+      if (page.length > 0) {
+        yield page;
+      }
+      if (count >= maxItems) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Page number and offset strategies: the request for any page is known up front,
+   * so up to `concurrency` pages are fetched at once
+   */
+  private async *fetchNumberedPages(
+    config: ApiExtractorConfig,
+    pagination: ApiPaginationConfig,
+    context: ETLContext
+  ): AsyncGenerator<any[]> {
+    const { type, pageSize } = pagination;
+    const maxPages = pagination.maxPages ?? DEFAULT_MAX_PAGES;
+    const concurrency = Math.max(1, pagination.concurrency || 1);
+
+    if (type === 'offset' && !pageSize) {
+      throw new Error('Offset pagination requires pageSize');
+    }
+
+    const requestFor = (index: number): ApiNextRequest => {
+      const params: Record<string, number> = {};
+      if (type === 'page') {
+        params[pagination.pageParam || 'page'] = (pagination.startPage ?? 1) + index;
+        if (pageSize && pagination.limitParam) {
+          params[pagination.limitParam] = pageSize;
+        }
+      } else {
+        params[pagination.offsetParam || 'offset'] = index * pageSize!;
+        params[pagination.limitParam || 'limit'] = pageSize!;
+      }
+      return { url: setQueryParams(config.url, params) };
+    };
+    const isLastPage = (records: any[]) => records.length === 0 || (pageSize !== undefined && records.length < pageSize);
+
+    const first = await this.fetchPage(config, requestFor(0), context);
+    const firstRecords = this.getRecords(first.body, pagination);
+    yield firstRecords;
+
+    if (isLastPage(firstRecords)) {
+      return;
+    }
+
+    const totalPages = this.getTotalPages(first.body, pagination);
+    const lastIndex = Math.min(maxPages, totalPages ?? Infinity);
+
+    for (let index = 1; index < lastIndex; index += concurrency) {
+      throwIfAborted(context.signal);
+
+      const batch = await Promise.all(
+        Array.from({ length: Math.min(concurrency, lastIndex - index) }, (_, offset) =>
+          this.fetchPage(config, requestFor(index + offset), context))
+      );
+
+      for (const { body } of batch) {
+        const records = this.getRecords(body, pagination);
+        yield records;
+        if (isLastPage(records)) {
+          return;
+        }
+      }
+    }
+  }
+
+  /**
+   * Cursor, Link header and custom strategies: each request depends on the previous response
+   */
+  private async *fetchLinkedPages(
+    config: ApiExtractorConfig,
+    pagination: ApiPaginationConfig,
+    context: ETLContext
+  ): AsyncGenerator<any[]> {
+    const maxPages = pagination.maxPages ?? DEFAULT_MAX_PAGES;
+
+    if (pagination.type === 'cursor' && !pagination.cursorPath) {
+      throw new Error('Cursor pagination requires cursorPath');
+    }
+    if (pagination.type === 'custom' && !pagination.getNextRequest) {
+      throw new Error('Custom pagination requires getNextRequest');
+    }
+
+    let request: ApiNextRequest | null = { url: config.url };
+    let previousCursor: unknown;
+
+    for (let page = 0; request && page < maxPages; page++) {
+      throwIfAborted(context.signal);
+
+      const { response, body }: { response: Response; body: any } = await this.fetchPage(config, request, context);
+      yield this.getRecords(body, pagination);
+
+      switch (pagination.type) {
+        case 'cursor': {
+          const cursor = getValueAtPath(body, pagination.cursorPath!);
+          // A repeated cursor would loop forever
+          request = cursor === null || cursor === undefined || cursor === '' || cursor === previousCursor
+            ? null
+            : { url: setQueryParams(config.url, { [pagination.cursorParam || 'cursor']: cursor }) };
+          previousCursor = cursor;
+          break;
+        }
+        case 'link': {
+          const next = parseLinkHeader(response.headers.get('link')).next;
+          request = next ? { url: resolveUrl(next, request.url) } : null;
+          break;
+        }
+        default: {
+          const next = await pagination.getNextRequest!(response, body);
+          request = typeof next === 'string' ? { url: next } : next || null;
+        }
+      }
+    }
+  }
+
+  /**
+   * Fetch one page and parse its body; NDJSON bodies become arrays of records
+   */
+  private async fetchPage(
+    config: ApiExtractorConfig,
+    request: ApiNextRequest,
+    context: ETLContext
+  ): Promise<{ response: Response; body: any }> {
     const {
-      url,
       options = {},
       headers = {},
       method = 'GET',
       body,
       timeout = 30000,
-      retries = 3
+      retries = context.retried ? 0 : 3
     } = config;
 
-    const response = await this.httpClient.request(url, {
+    const response = await this.httpClient.request(request.url, {
       method,
       headers,
       body,
       timeout,
       retries,
-      ...options
+      onRetry: context.retry,
+      ...options,
+      ...request.options,
+      ...(context.signal ? { signal: context.signal } : {})
     });
 
-    const contentType = response.headers.get('content-type');
+    const source = this.decompress(response, request.url, config.compression);
+    const contentType = source.headers.get('content-type');
     if (contentType && contentType.includes('application/json')) {
-      return await response.json();
+      return { response, body: await source.json() };
+    } else if (contentType && NDJSON_CONTENT_TYPE.test(contentType)) {
+      return { response, body: await this.readNdjson(source, config, context) };
     } else {
-      return await response.text();
+      return { response, body: await source.text() };
     }
   }
 
-  supports(config: any): boolean {
-    return config && typeof config.url === 'string';
+  /**
+   * Wrap a compressed body in a response decompressing it as it is read. Its content type
+   * comes from the extension before `.gz` where known, e.g. `users.json.gz`.
+   */
+  private decompress(response: Response, url: string, compression: ApiExtractorConfig['compression'] = 'auto'): Response {
+    const contentType = response.headers.get('content-type');
+    const path = url.split(/[?#]/)[0];
+    const format = compression === 'auto'
+      ? (response.headers.get('content-encoding') ? null : compressionFromType(contentType) || compressionFromName(path))
+      : compression === 'none' ? null : compression;
+
+    if (!format || !response.body) {
+      return response;
+    }
+
+    const type = CONTENT_TYPES[fileTypeFromName(path)]
+      || (contentType && !compressionFromType(contentType) ? contentType : 'text/plain');
+    return new Response(decompressStream(response.body, format), { headers: { 'content-type': type } });
   }
 
-}
\ No newline at end of file
+  /**
+   * Parse an NDJSON body line by line as it downloads
+   */
+  private async readNdjson(response: Response, config: ApiExtractorConfig, context: ETLContext): Promise<any[]> {
+    const { maxBadLines, onBadLine } = config;
+    const text = response.body ? decodeTextStream(response.body) : [await response.text()];
+    const records: any[] = [];
+
+    for await (const chunk of parseNdjson(text, {
+      ...(maxBadLines !== undefined ? { maxBadLines } : {}),
+      ...(onBadLine ? { onBadLine } : {}),
+      ...(context.signal ? { signal: context.signal } : {})
+    })) {
+      records.push(...chunk);
+    }
+    return records;
+  }
+
+  /**
+   * Read the records of a page from its body
+   */
+  private getRecords(body: any, pagination: ApiPaginationConfig): any[] {
+    const records = pagination.itemsPath ? getValueAtPath(body, pagination.itemsPath) : body;
+    if (records === null || records === undefined) {
+      return [];
+    }
+    return Array.isArray(records) ? records : [records];
+  }
+
+  /**
+   * Read the number of pages from the first response, when the API reports it
+   */
+  private getTotalPages(body: any, pagination: ApiPaginationConfig): number | undefined {
+    if (pagination.totalPagesPath) {
+      const pages = Number(getValueAtPath(body, pagination.totalPagesPath));
+      return Number.isFinite(pages) ? pages : undefined;
+    }
+
+    if (pagination.totalItemsPath && pagination.pageSize) {
+      const items = Number(getValueAtPath(body, pagination.totalItemsPath));
+      return Number.isFinite(items) ? Math.ceil(items / pagination.pageSize) : undefined;
+    }
+
+    return undefined;
+  }
+}
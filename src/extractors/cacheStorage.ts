@@ -0,0 +1,125 @@
+import { IExtractor, ETLContext, ETLConfigSchema, ETLDataShape } from '../types';
+import { throwIfAborted } from '../utils/abort';
+import { StorageKeySelector, filterKeys } from '../utils/storage-keys';
+
+export interface CacheStorageExtractorConfig extends Omit<StorageKeySelector, 'key'> {
+  /**
+   * Cache to read, every cache of the origin by default
+   */
+  cacheName?: string;
+
+  /**
+   * Read the response cached for this URL only
+   */
+  url?: string;
+
+  /**
+   * How bodies are read: `auto` (the default) parses JSON responses and reads others as text,
+   * `none` skips them
+   */
+  body?: 'auto' | 'json' | 'text' | 'blob' | 'none';
+}
+
+export interface CachedResponseRecord {
+  cache: string;
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body: any;
+}
+
+/**
+ * Cache Storage Extractor - reads responses stored with the Cache API. `prefix` and `pattern`
+ * match request URLs; when they start with `/` they are relative to the page origin.
+ */
+export class CacheStorageExtractor implements IExtractor {
+  readonly name = 'cacheStorage';
+  readonly configSchema: ETLConfigSchema = {
+    cacheName: { type: 'string' },
+    url: { type: 'string' },
+    prefix: { type: 'string' },
+    pattern: { type: 'string' },
+    body: { type: 'string', enum: ['auto', 'json', 'text', 'blob', 'none'] }
+  };
+
+  async extract(config: CacheStorageExtractorConfig = {}, context: ETLContext = {}): Promise<CachedResponseRecord[]> {
+    const { cacheName, url, body = 'auto' } = config;
+
+    if (typeof caches === 'undefined') {
+      throw new Error('Cache Storage is not available in this environment');
+    }
+
+    // caches.open() would create a missing cache
+    if (cacheName !== undefined && !(await caches.has(cacheName))) {
+      throw new Error(`Cache not found: ${cacheName}`);
+    }
+
+    const names = cacheName !== undefined ? [cacheName] : await caches.keys();
+    const selector = {
+      ...(config.prefix !== undefined ? { prefix: this.resolve(config.prefix) } : {}),
+      ...(config.pattern !== undefined ? { pattern: this.resolve(config.pattern) } : {})
+    };
+    const records: CachedResponseRecord[] = [];
+
+    for (const name of names) {
+      throwIfAborted(context.signal);
+      const cache = await caches.open(name);
+      const requests = await cache.keys();
+      const urls = filterKeys(requests.map(request => request.url), selector);
+      const selected = requests.filter(request => urls.includes(request.url)
+        && (url === undefined || request.url === new URL(url, location.href).href));
+
+      for (const request of selected) {
+        const response = await cache.match(request);
+        if (response) {
+          records.push({
+            cache: name,
+            url: request.url,
+            status: response.status,
+            headers: Object.fromEntries(response.headers.entries()),
+            body: await this.readBody(response, body)
+          });
+        }
+      }
+    }
+
+    return records;
+  }
+
+  outputShape(): ETLDataShape {
+    return 'records';
+  }
+
+  supports(config: any): boolean {
+    return config !== null && typeof config === 'object';
+  }
+
+  private resolve(pattern: string): string {
+    return pattern.startsWith('/') ? `${location.origin}${pattern}` : pattern;
+  }
+
+  private async readBody(response: Response, mode: NonNullable<CacheStorageExtractorConfig['body']>): Promise<any> {
+    switch (mode) {
+      case 'none':
+        return null;
+      case 'json':
+        return response.json();
+      case 'text':
+        return response.text();
+      case 'blob':
+        return response.blob();
+      default: {
+        const text = await response.text();
+        const json = /\bjson\b/.test(response.headers.get('content-type') || '');
+        if (!json) {
+          return text;
+        }
+        try {
+          return JSON.parse(text);
+        } catch {
+          return text;
+        }
+      }
+    }
+  }
+}
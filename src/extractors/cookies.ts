@@ -0,0 +1,75 @@
+import { IExtractor, ETLConfigSchema, ETLDataShape } from '../types';
+import { StorageEntry, StorageKeySelector, filterKeys, parseStoredValue, selectsManyKeys } from '../utils/storage-keys';
+
+export interface CookieExtractorConfig extends StorageKeySelector {
+  /**
+   * Parse JSON values, false by default
+   */
+  parse?: boolean;
+}
+
+/**
+ * Cookie Extractor - reads the cookies visible to scripts from `document.cookie`.
+ * Returns the value of `key`, or `{ key, value }` entries for all or the selected cookies.
+ */
+export class CookieExtractor implements IExtractor {
+  readonly name = 'cookies';
+  readonly configSchema: ETLConfigSchema = {
+    key: { type: 'string' },
+    prefix: { type: 'string' },
+    pattern: { type: 'string' },
+    parse: { type: 'boolean' }
+  };
+
+  async extract(config: CookieExtractorConfig = {}): Promise<any> {
+    const { key, parse = false } = config;
+
+    if (typeof document === 'undefined') {
+      throw new Error('Cookies are not available in this environment');
+    }
+
+    const cookies = this.parseCookies(document.cookie);
+
+    if (key !== undefined && !selectsManyKeys(config)) {
+      const cookie = cookies.find(entry => entry.key === key);
+      return cookie ? parseStoredValue(cookie.value, parse) : null;
+    }
+
+    const selected = new Set(filterKeys(cookies.map(cookie => cookie.key), config));
+    return cookies
+      .filter(cookie => selected.has(cookie.key))
+      .map(cookie => ({ key: cookie.key, value: parseStoredValue(cookie.value, parse) }));
+  }
+
+  outputShape(config?: CookieExtractorConfig): ETLDataShape {
+    return config?.key !== undefined && !selectsManyKeys(config) ? 'unknown' : 'records';
+  }
+
+  supports(config: any): boolean {
+    return config !== null && typeof config === 'object';
+  }
+
+  /**
+   * Split `name=value; name2=value2`, decoding percent-encoded names and values
+   */
+  private parseCookies(header: string): StorageEntry<string>[] {
+    return header.split(';')
+      .map(part => part.trim())
+      .filter(Boolean)
+      .map(part => {
+        const separator = part.indexOf('=');
+        // A cookie without `=` has an empty name
+        const name = separator === -1 ? '' : part.slice(0, separator).trim();
+        const value = separator === -1 ? part : part.slice(separator + 1).trim();
+        return { key: decode(name), value: decode(value.replace(/^"(.*)"$/, '$1')) };
+      });
+  }
+}
+
+function decode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
@@ -1,14 +1,20 @@
-import { IExtractor } from '../types';
-import { parseCSV } from '../utils/csv-parser';
+import { IExtractor, ETLContext, ETLConfigSchema, ETLDataShape } from '../types';
+import { throwIfAborted } from '../utils/abort';
+import { CSVParser, CSVParserOptions, parseCSV } from '../utils/csv-parser';
 
 export interface CsvExtractorConfig {
   data: string | File;
-  options?: {
-    header?: boolean;
-    delimiter?: string;
-    skipEmptyLines?: boolean;
-    transform?: (row: any) => any;
-  };
+
+  /**
+   * Bytes read at a time where files cannot be streamed, 1 MB by default
+   */
+  chunkSize?: number;
+
+  /**
+   * Read only the first rows, without reading the rest of the file
+   */
+  preview?: number;
+  options?: CSVParserOptions;
 }
 
 /**
@@ -16,14 +22,28 @@ export interface CsvExtractorConfig {
  */
 export class CsvExtractor implements IExtractor {
   readonly name = 'csv';
+  readonly configSchema: ETLConfigSchema = {
+    data: { type: ['string', 'file'], required: true },
+    chunkSize: { type: 'number' },
+    preview: { type: 'number' },
+    options: { type: 'object' }
+  };
 
-  async extract(config: CsvExtractorConfig): Promise<any> {
-    const { data, options = {} } = config;
+  async extract(config: CsvExtractorConfig, context: ETLContext = {}): Promise<any> {
+    const { data, preview, options = {} } = config;
 
     if (!data) {
       throw new Error('Data is required for CSV extraction');
     }
 
+    if (preview !== undefined) {
+      const rows: any[] = [];
+      for await (const chunk of this.stream(config, context)) {
+        rows.push(...chunk);
+      }
+      return rows;
+    }
+
     let csvString: string;
 
     if (data instanceof File) {
@@ -35,10 +55,118 @@ export class CsvExtractor implements IExtractor {
     return parseCSV(csvString, options);
   }
 
+  /**
+   * Stream parsed rows in batches while the file is read, reporting the bytes read as progress
+   */
+  async *stream(config: CsvExtractorConfig, context: ETLContext = {}): AsyncGenerator<any[]> {
+    const { data, chunkSize = 1024 * 1024, preview = Infinity, options = {} } = config;
+    const batchSize = context.batchSize || 1000;
+
+    if (!data) {
+      throw new Error('Data is required for CSV extraction');
+    }
+
+    const parser = new CSVParser(options);
+    const texts = data instanceof File ? this.readFileText(data, chunkSize, context) : [data];
+    const batch: any[] = [];
+    let remaining = preview;
+
+    // Rows beyond the preview are dropped, and the file is no longer read once it is reached
+    const take = (rows: any[]) => {
+      for (let index = 0; index < rows.length && remaining > 0; index++, remaining--) {
+        batch.push(rows[index]);
+      }
+    };
+
+    for await (const text of texts) {
+      throwIfAborted(context.signal);
+      take(parser.push(text));
+
+      while (batch.length >= batchSize) {
+        yield batch.splice(0, batchSize);
+      }
+      if (remaining <= 0) {
+        break;
+      }
+    }
+
+    if (remaining > 0) {
+      take(parser.flush());
+    }
+    while (batch.length > 0) {
+      yield batch.splice(0, batchSize);
+    }
+  }
+
+  outputShape(): ETLDataShape {
+    return 'records';
+  }
+
   supports(config: any): boolean {
     return config && (typeof config.data === 'string' || config.data instanceof File);
   }
 
+  /**
+   * Decode the file as it is read, through `File.stream()` where the browser supports it
+   */
+  private async *readFileText(file: File, chunkSize: number, context: ETLContext): AsyncGenerator<string> {
+    if (typeof file.stream !== 'function' || typeof TextDecoderStream === 'undefined') {
+      yield* this.readFileChunks(file, chunkSize, context);
+      return;
+    }
+
+    let bytesRead = 0;
+    const counter = new TransformStream<Uint8Array, BufferSource>({
+      transform(bytes, controller) {
+        bytesRead += bytes.byteLength;
+        controller.enqueue(bytes as BufferSource);
+      }
+    });
+    const reader = file.stream().pipeThrough(counter).pipeThrough(new TextDecoderStream()).getReader();
+    let done = false;
+
+    try {
+      for (;;) {
+        const result = await reader.read();
+        if (result.done) {
+          done = true;
+          break;
+        }
+        context.progress?.(bytesRead, file.size, 'bytes');
+        yield result.value;
+      }
+    } finally {
+      if (!done) {
+        await reader.cancel();
+      }
+      reader.releaseLock();
+    }
+  }
+
+  private async *readFileChunks(file: File, chunkSize: number, context: ETLContext): AsyncGenerator<string> {
+    const decoder = new TextDecoder();
+
+    for (let offset = 0; offset < file.size; offset += chunkSize) {
+      const bytes = await this.readBytes(file.slice(offset, offset + chunkSize));
+      context.progress?.(Math.min(offset + chunkSize, file.size), file.size, 'bytes');
+      yield decoder.decode(bytes, { stream: true });
+    }
+
+    const rest = decoder.decode();
+    if (rest) {
+      yield rest;
+    }
+  }
+
+  private async readBytes(blob: Blob): Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as ArrayBuffer);
+      reader.onerror = () => reject(new Error('Failed to read file'));
+      reader.readAsArrayBuffer(blob);
+    });
+  }
+
   private async readFile(file: File): Promise<string> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
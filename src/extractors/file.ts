@@ -1,10 +1,81 @@
-import { IExtractor } from '../types';
+import { IExtractor, ETLContext, ETLConfigSchema, ETLDataShape } from '../types';
+import { throwIfAborted } from '../utils/abort';
+import { InputCompression, compressionFromName, compressionFromType, decompressBytes, decompressStream, stripCompressionExtension } from '../utils/compression';
 import { parseCSV } from '../utils/csv-parser';
+import { globToRegExp } from '../utils/glob';
+import { NdjsonBadLine, decodeTextStream, parseNdjson } from '../utils/ndjson';
+import { readXlsx } from '../utils/xlsx';
+import { readZip } from '../utils/zip';
 
 export interface FileExtractorConfig {
   file: File;
-  type?: 'text' | 'json' | 'csv' | 'binary';
+  type?: 'text' | 'json' | 'csv' | 'binary' | 'ndjson' | 'xlsx' | 'zip';
   encoding?: string;
+
+  /**
+   * `auto` (the default) decompresses files named `.gz` or `.deflate` or typed `application/gzip`
+   */
+  compression?: 'auto' | InputCompression | 'none';
+
+  /**
+   * NDJSON: fail once more lines than this are invalid; invalid lines are skipped by default
+   */
+  maxBadLines?: number;
+
+  /**
+   * NDJSON: called for each line that is not valid JSON
+   */
+  onBadLine?: (badLine: NdjsonBadLine) => void;
+
+  /**
+   * XLSX: sheet name or 0-based index, the first sheet by default
+   */
+  sheet?: string | number;
+
+  /**
+   * XLSX: 1-based header row; `auto` (the default) skips title rows, `false` returns rows as arrays
+   */
+  headerRow?: number | 'auto' | false;
+
+  /**
+   * ZIP: glob selecting the entries to read, e.g. `data/**\/*.csv`; every file by default
+   */
+  entries?: string;
+
+  /**
+   * ZIP: how the entries are read, guessed from their extension by default
+   */
+  entryType?: Exclude<FileExtractorConfig['type'], 'zip'>;
+
+  /**
+   * ZIP: list the entries without reading them
+   */
+  listEntries?: boolean;
+}
+
+export interface ZipEntryRecord {
+  path: string;
+  size: number;
+  compressedSize: number;
+  content?: any;
+}
+
+const TYPES_BY_EXTENSION: Record<string, NonNullable<FileExtractorConfig['type']>> = {
+  json: 'json',
+  csv: 'csv',
+  ndjson: 'ndjson',
+  jsonl: 'ndjson',
+  xlsx: 'xlsx',
+  zip: 'zip'
+};
+
+/**
+ * File type from a file name, ignoring compression extensions; `text` when unknown
+ */
+export function fileTypeFromName(name: string): NonNullable<FileExtractorConfig['type']> {
+  const base = stripCompressionExtension(name);
+  const extension = base.includes('.') ? base.slice(base.lastIndexOf('.') + 1).toLowerCase() : '';
+  return TYPES_BY_EXTENSION[extension] || 'text';
 }
 
 /**
@@ -12,14 +83,40 @@ export interface FileExtractorConfig {
  */
 export class FileExtractor implements IExtractor {
   readonly name = 'file';
+  readonly configSchema: ETLConfigSchema = {
+    file: { type: 'file', required: true },
+    type: { type: 'string', enum: ['text', 'json', 'csv', 'binary', 'ndjson', 'xlsx', 'zip'] },
+    encoding: { type: 'string' },
+    compression: { type: 'string', enum: ['auto', 'gzip', 'deflate', 'none'] },
+    maxBadLines: { type: 'number' },
+    onBadLine: { type: 'function' },
+    sheet: { type: ['string', 'number'] },
+    headerRow: { type: ['number', 'string', 'boolean'] },
+    entries: { type: 'string' },
+    entryType: { type: 'string', enum: ['text', 'json', 'csv', 'binary', 'ndjson', 'xlsx'] },
+    listEntries: { type: 'boolean' }
+  };
 
-  async extract(config: FileExtractorConfig): Promise<any> {
-    const { file, type = 'text', encoding = 'utf-8' } = config;
+  async extract(config: FileExtractorConfig, context: ETLContext = {}): Promise<any> {
+    const { type = 'text', encoding = 'utf-8' } = config;
 
-    if (!file) {
+    if (!config.file) {
       throw new Error('File is required for file extraction');
     }
 
+    // NDJSON is decompressed while it is read rather than up front
+    if (type === 'ndjson') {
+      const records: any[] = [];
+      for await (const chunk of this.readAsNdjson(config, context)) {
+        records.push(...chunk);
+      }
+      return records;
+    }
+
+    const compression = this.compressionOf(config.file, config.compression);
+    const file = compression ? await this.decompress(config.file, compression) : config.file;
+    config = { ...config, file };
+
     switch (type) {
       case 'text':
         return await this.readAsText(file, encoding);
@@ -29,11 +126,54 @@ export class FileExtractor implements IExtractor {
         return await this.readAsCSV(file, encoding);
       case 'binary':
         return await this.readAsBinary(file);
+      case 'xlsx':
+        return await this.readAsXlsx(config);
+      case 'zip':
+        return await this.readAsZip(config, context);
       default:
         throw new Error(`Unsupported file type: ${type}`);
     }
   }
 
+  /**
+   * Emit NDJSON records in chunks while the file is read; other types are read at once
+   */
+  async *stream(config: FileExtractorConfig, context: ETLContext = {}): AsyncGenerator<any[]> {
+    if (config.type !== 'ndjson') {
+      const data = await this.extract(config, context);
+      yield Array.isArray(data) ? data : [data];
+      return;
+    }
+
+    if (!config.file) {
+      throw new Error('File is required for file extraction');
+    }
+    yield* this.readAsNdjson(config, context);
+  }
+
+  /**
+   * Only NDJSON files are streamed
+   */
+  canStream(config: FileExtractorConfig): boolean {
+    return Boolean(config && config.type === 'ndjson');
+  }
+
+  outputShape(config?: FileExtractorConfig): ETLDataShape {
+    switch (config?.type || 'text') {
+      case 'text':
+        return 'text';
+      case 'csv':
+      case 'ndjson':
+      case 'xlsx':
+      case 'zip':
+        return 'records';
+      case 'binary':
+        return 'binary';
+      default:
+        return 'unknown';
+    }
+  }
+
   supports(config: any): boolean {
     return config && config.file instanceof File;
   }
@@ -61,7 +201,77 @@ export class FileExtractor implements IExtractor {
     return this.parseCSV(text);
   }
 
-  private async readAsBinary(file: File): Promise<ArrayBuffer> {
+  /**
+   * Parse the file line by line, reading and decompressing it as a stream where the browser supports it
+   */
+  private async *readAsNdjson(config: FileExtractorConfig, context: ETLContext): AsyncGenerator<any[]> {
+    const { file, encoding = 'utf-8', maxBadLines, onBadLine } = config;
+    const compression = this.compressionOf(file, config.compression);
+    const text = typeof file.stream === 'function'
+      ? decodeTextStream(compression ? decompressStream(file.stream(), compression) : file.stream(), encoding)
+      : [await this.readAsText(compression ? await this.decompress(file, compression) : file, encoding)];
+    let count = 0;
+
+    for await (const chunk of parseNdjson(text, {
+      ...(maxBadLines !== undefined ? { maxBadLines } : {}),
+      ...(onBadLine ? { onBadLine } : {}),
+      ...(context.batchSize ? { batchSize: context.batchSize } : {}),
+      ...(context.signal ? { signal: context.signal } : {})
+    })) {
+      count += chunk.length;
+      context.progress?.(count);
+      yield chunk;
+    }
+  }
+
+  private async readAsXlsx(config: FileExtractorConfig): Promise<any[]> {
+    const { file, sheet, headerRow } = config;
+    return readXlsx(await this.readAsBinary(file), {
+      ...(sheet !== undefined ? { sheet } : {}),
+      ...(headerRow !== undefined ? { headerRow } : {})
+    });
+  }
+
+  /**
+   * Read the entries selected by the `entries` glob, each with the type of its extension
+   */
+  private async readAsZip(config: FileExtractorConfig, context: ETLContext): Promise<ZipEntryRecord[]> {
+    const { file, entries: pattern = '**', entryType, listEntries = false, ...settings } = config;
+    const glob = globToRegExp(pattern, { separator: '/' });
+    const entries = readZip(await this.readAsBinary(file)).filter(entry => !entry.directory && glob.test(entry.name));
+    const records: ZipEntryRecord[] = [];
+
+    for (const entry of entries) {
+      throwIfAborted(context.signal);
+      const record: ZipEntryRecord = { path: entry.name, size: entry.size, compressedSize: entry.compressedSize };
+
+      if (!listEntries) {
+        const name = entry.name.slice(entry.name.lastIndexOf('/') + 1);
+        const entryFile = new File([await entry.read() as BlobPart], name);
+        record.content = await this.extract({ ...settings, file: entryFile, type: entryType || fileTypeFromName(name) }, context);
+      }
+      records.push(record);
+    }
+
+    return records;
+  }
+
+  private compressionOf(file: File, compression: FileExtractorConfig['compression'] = 'auto'): InputCompression | null {
+    if (compression === 'auto') {
+      return compressionFromName(file.name) || compressionFromType(file.type);
+    }
+    return compression === 'none' ? null : compression;
+  }
+
+  /**
+   * Replace a gzip or deflate file with its decompressed contents
+   */
+  private async decompress(file: File, format: InputCompression): Promise<File> {
+    const bytes = await decompressBytes(new Uint8Array(await this.readAsBinary(file)), format);
+    return new File([bytes as BlobPart], stripCompressionExtension(file.name), { lastModified: file.lastModified });
+  }
+
+  private async readAsBinary(file: Blob): Promise<ArrayBuffer> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
       reader.onload = () => resolve(reader.result as ArrayBuffer);
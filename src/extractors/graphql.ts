@@ -0,0 +1,284 @@
+import { IExtractor, ETLContext, ETLConfigSchema, ETLDataShape } from '../types';
+import { throwIfAborted } from '../utils/abort';
+import { HttpClient } from '../utils/http-client';
+import { getValueAtPath } from '../utils/pagination';
+
+export interface GraphQLPaginationConfig {
+  /**
+   * Dot path of the Relay connection under `data`; `dataPath` by default
+   */
+  connectionPath?: string;
+
+  /**
+   * Variable receiving `pageInfo.endCursor`, `after` by default
+   */
+  cursorVariable?: string;
+
+  /**
+   * Stop after this many pages, 100 by default
+   */
+  maxPages?: number;
+
+  /**
+   * Stop after this many records
+   */
+  maxItems?: number;
+}
+
+export interface GraphQLExtractorConfig {
+  endpoint: string;
+  query: string;
+  variables?: Record<string, any>;
+  operationName?: string;
+
+  /**
+   * Dot path of the result under `data`, e.g. `repository.issues`; all of `data` when omitted
+   */
+  dataPath?: string;
+
+  /**
+   * Follow a Relay connection (`pageInfo.hasNextPage` / `endCursor`) and return its nodes
+   */
+  pagination?: boolean | GraphQLPaginationConfig;
+  headers?: Record<string, string>;
+  options?: RequestInit;
+  timeout?: number;
+
+  /**
+   * Retries per request, 3 by default or 0 when the pipeline retries the step
+   */
+  retries?: number;
+}
+
+export interface GraphQLErrorDetail {
+  message: string;
+  path?: (string | number)[];
+  locations?: { line: number; column: number }[];
+  extensions?: Record<string, any>;
+}
+
+/**
+ * Error raised when a GraphQL response contains an `errors` array
+ */
+export interface GraphQLError extends Error {
+  name: 'GraphQLError';
+  errors: GraphQLErrorDetail[];
+
+  /**
+   * Partial data returned next to the errors, if any
+   */
+  data?: any;
+}
+
+const DEFAULT_MAX_PAGES = 100;
+
+/**
+ * GraphQL Extractor - runs GraphQL queries, following Relay connections when configured
+ */
+export class GraphQLExtractor implements IExtractor {
+  readonly name = 'graphql';
+  readonly configSchema: ETLConfigSchema = {
+    endpoint: { type: 'string', required: true },
+    query: { type: 'string', required: true },
+    variables: { type: 'object' },
+    operationName: { type: 'string' },
+    dataPath: { type: 'string' },
+    pagination: { type: ['boolean', 'object'] },
+    headers: { type: 'object' },
+    options: { type: 'object' },
+    timeout: { type: 'number' },
+    retries: { type: 'number' }
+  };
+  private httpClient: HttpClient;
+
+  constructor() {
+    this.httpClient = new HttpClient();
+  }
+
+  async extract(config: GraphQLExtractorConfig, context: ETLContext = {}): Promise<any> {
+    this.assertConfig(config);
+
+    if (!config.pagination) {
+      const data = await this.request(config, config.variables || {}, context);
+      return config.dataPath ? getValueAtPath(data, config.dataPath) : data;
+    }
+
+    const records: any[] = [];
+    for await (const page of this.fetchPages(config, context)) {
+      for (const record of page) {
+        records.push(record);
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Emit the nodes of each connection page as soon as it arrives
+   */
+  async *stream(config: GraphQLExtractorConfig, context: ETLContext = {}): AsyncGenerator<any[]> {
+    this.assertConfig(config);
+
+    if (!config.pagination) {
+      const result = await this.extract(config, context);
+      yield Array.isArray(result) ? result : [result];
+      return;
+    }
+
+    yield* this.fetchPages(config, context);
+  }
+
+  /**
+   * Only paginated queries are streamed
+   */
+  canStream(config: GraphQLExtractorConfig): boolean {
+    return Boolean(config && config.pagination);
+  }
+
+  outputShape(config?: GraphQLExtractorConfig): ETLDataShape {
+    return config && config.pagination ? 'records' : 'unknown';
+  }
+
+  supports(config: any): boolean {
+    return config && typeof config.endpoint === 'string' && typeof config.query === 'string';
+  }
+
+  private assertConfig(config: GraphQLExtractorConfig): void {
+    if (!config.endpoint) {
+      throw new Error('Endpoint is required for GraphQL extraction');
+    }
+    if (!config.query) {
+      throw new Error('Query is required for GraphQL extraction');
+    }
+  }
+
+  /**
+   * Request connection pages until `hasNextPage` is false or a limit is reached
+   */
+  private async *fetchPages(config: GraphQLExtractorConfig, context: ETLContext): AsyncGenerator<any[]> {
+    const pagination = config.pagination === true ? {} : config.pagination as GraphQLPaginationConfig;
+    const connectionPath = pagination.connectionPath || config.dataPath;
+    const cursorVariable = pagination.cursorVariable || 'after';
+    const maxPages = pagination.maxPages ?? DEFAULT_MAX_PAGES;
+    const maxItems = pagination.maxItems ?? Infinity;
+
+    if (!connectionPath) {
+      throw new Error('GraphQL pagination requires dataPath or connectionPath');
+    }
+
+    let variables = { ...config.variables };
+    let count = 0;
+
+    for (let page = 0; page < maxPages; page++) {
+      throwIfAborted(context.signal);
+
+      const data = await this.request(config, variables, context);
+      const connection = getValueAtPath(data, connectionPath);
+      if (!connection || typeof connection !== 'object') {
+        throw new Error(`No connection found at '${connectionPath}'`);
+      }
+
+      const nodes = this.getNodes(connection);
+      const records = nodes.length > maxItems - count ? nodes.slice(0, maxItems - count) : nodes;
+      count += records.length;
+      context.progress?.(count);
+
+      if (records.length > 0) {
+        yield records;
+      }
+
+      const { hasNextPage, endCursor } = connection.pageInfo || {};
+      // A repeated cursor would loop forever
+      if (!hasNextPage || !endCursor || endCursor === variables[cursorVariable] || count >= maxItems) {
+        return;
+      }
+      variables = { ...variables, [cursorVariable]: endCursor };
+    }
+  }
+
+  /**
+   * Read the records of a connection from `nodes` or `edges[].node`
+   */
+  private getNodes(connection: any): any[] {
+    if (Array.isArray(connection.nodes)) {
+      return connection.nodes;
+    }
+    if (Array.isArray(connection.edges)) {
+      return connection.edges.map((edge: any) => edge && edge.node);
+    }
+    return [];
+  }
+
+  /**
+   * Send one query and return its `data`, throwing when the response reports errors
+   */
+  private async request(config: GraphQLExtractorConfig, variables: Record<string, any>, context: ETLContext): Promise<any> {
+    const {
+      endpoint,
+      query,
+      operationName,
+      options = {},
+      headers = {},
+      timeout = 30000,
+      retries = context.retried ? 0 : 3
+    } = config;
+
+    const body = operationName ? { query, variables, operationName } : { query, variables };
+    const response = await this.httpClient.post(endpoint, body, {
+      ...options,
+      headers: { ...(options.headers as Record<string, string>), ...headers },
+      timeout,
+      retries,
+      onRetry: context.retry,
+      // Servers report invalid queries with a 4xx status and an `errors` body; retrying cannot help
+      acceptStatus: status => status >= 400 && status < 500,
+      ...(context.signal ? { signal: context.signal } : {})
+    });
+
+    const payload = await this.readPayload(response);
+
+    if (payload && Array.isArray(payload.errors) && payload.errors.length > 0) {
+      throw createGraphQLError(payload.errors, payload.data);
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return payload.data;
+  }
+
+  /**
+   * Read the JSON body; error responses may not have one
+   */
+  private async readPayload(response: Response): Promise<any> {
+    if (response.ok) {
+      return response.json();
+    }
+    try {
+      return await response.json();
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Create the error raised for a GraphQL `errors` array
+ */
+export function createGraphQLError(errors: GraphQLErrorDetail[], data?: any): GraphQLError {
+  const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : '';
+  const error = new Error(`GraphQL request failed: ${errors[0].message}${more}`) as GraphQLError;
+  error.name = 'GraphQLError';
+  error.errors = errors;
+  if (data !== undefined && data !== null) {
+    error.data = data;
+  }
+  return error;
+}
+
+/**
+ * Check whether an error was raised for a GraphQL `errors` array
+ */
+export function isGraphQLError(error: unknown): error is GraphQLError {
+  return typeof error === 'object' && error !== null && (error as Error).name === 'GraphQLError';
+}
@@ -1,12 +1,58 @@
-import { IExtractor } from '../types';
+import { IExtractor, ETLContext, ETLConfigSchema, ETLDataShape } from '../types';
 
 export interface HtmlExtractorConfig {
-  selector: string;
+  /**
+   * Elements to read; in the `jsonld`, `microdata` and `meta` modes, an optional scope
+   */
+  selector?: string;
   url?: string;
+
+  /**
+   * `element` (the default) reads the matched elements, `table` reads the matched table into
+   * row objects and `records` reads one object per matched element from `fields`.
+   * `jsonld`, `microdata` and `meta` read the page's structured data.
+   */
+  mode?: 'element' | 'table' | 'records' | StructuredDataMode;
   attribute?: string;
   text?: boolean;
   html?: boolean;
   multiple?: boolean;
+
+  /**
+   * Records mode: field names mapped to a sub-selector, `selector@attribute`, `@attribute`
+   * for the matched element itself, or a field config
+   */
+  fields?: Record<string, string | HtmlFieldConfig>;
+
+  /**
+   * JSON-LD and microdata: keep items of this type, e.g. `Product` or `https://schema.org/Product`
+   */
+  itemType?: string;
+}
+
+type StructuredDataMode = 'jsonld' | 'microdata' | 'meta';
+
+const STRUCTURED_DATA_MODES = ['jsonld', 'microdata', 'meta'];
+
+// Elements whose microdata value is an attribute rather than their text
+const MICRODATA_URL_ATTRIBUTES: Record<string, string> = {
+  A: 'href', AREA: 'href', LINK: 'href',
+  AUDIO: 'src', EMBED: 'src', IFRAME: 'src', IMG: 'src', SOURCE: 'src', TRACK: 'src', VIDEO: 'src',
+  OBJECT: 'data'
+};
+
+export interface HtmlFieldConfig {
+  /**
+   * Element within the record; the record element itself when omitted
+   */
+  selector?: string;
+  attribute?: string;
+  html?: boolean;
+
+  /**
+   * Collect the values of all matching elements into an array
+   */
+  multiple?: boolean;
 }
 
 /**
@@ -14,18 +60,33 @@ export interface HtmlExtractorConfig {
  */
 export class HtmlExtractor implements IExtractor {
   readonly name = 'html';
+  readonly configSchema: ETLConfigSchema = {
+    selector: { type: 'string' },
+    url: { type: 'string' },
+    attribute: { type: 'string' },
+    text: { type: 'boolean' },
+    html: { type: 'boolean' },
+    multiple: { type: 'boolean' },
+    mode: { type: 'string', enum: ['element', 'table', 'records', ...STRUCTURED_DATA_MODES] },
+    fields: { type: 'object' },
+    itemType: { type: 'string' }
+  };
 
-  async extract(config: HtmlExtractorConfig): Promise<any> {
+  async extract(config: HtmlExtractorConfig, context: ETLContext = {}): Promise<any> {
     const {
       selector,
       url,
+      mode = 'element',
+      fields,
+      itemType,
       attribute,
       text = false,
       html = false,
       multiple = false
     } = config;
 
-    if (!selector) {
+    const structured = STRUCTURED_DATA_MODES.includes(mode);
+    if (!selector && !structured) {
       throw new Error('Selector is required for HTML extraction');
     }
 
@@ -33,7 +94,9 @@ export class HtmlExtractor implements IExtractor {
 
     if (url) {
       // Fetch HTML from URL
-      const response = await fetch(url);
+      const response = context.signal
+        ? await fetch(url, { signal: context.signal })
+        : await fetch(url);
       if (!response.ok) {
         throw new Error(`Failed to fetch HTML from ${url}: ${response.statusText}`);
       }
@@ -45,7 +108,23 @@ export class HtmlExtractor implements IExtractor {
       document = window.document;
     }
 
-    const elements = document.querySelectorAll(selector);
+    if (structured) {
+      return this.readStructuredData(document, mode as StructuredDataMode, selector, itemType);
+    }
+
+    const elements = document.querySelectorAll(selector!);
+
+    if (mode === 'table') {
+      const table = elements[0] && (elements[0].matches('table') ? elements[0] : elements[0].querySelector('table'));
+      return table ? this.readTable(table as HTMLTableElement) : [];
+    }
+
+    if (mode === 'records') {
+      if (!fields) {
+        throw new Error('Fields are required for HTML record extraction');
+      }
+      return Array.from(elements).map(element => this.readRecord(element, fields));
+    }
 
     if (elements.length === 0) {
       return multiple ? [] : null;
@@ -66,8 +145,232 @@ export class HtmlExtractor implements IExtractor {
     }
   }
 
+  outputShape(config?: HtmlExtractorConfig): ETLDataShape {
+    switch (config?.mode) {
+      case 'table':
+      case 'records':
+      case 'jsonld':
+      case 'microdata':
+        return 'records';
+      case 'meta':
+        return 'object';
+      default:
+        return 'unknown';
+    }
+  }
+
   supports(config: any): boolean {
-    return config && typeof config.selector === 'string';
+    return config && (typeof config.selector === 'string' || STRUCTURED_DATA_MODES.includes(config.mode));
+  }
+
+  private readStructuredData(document: Document, mode: StructuredDataMode, scope: string | undefined, itemType: string | undefined): any {
+    const find = (selector: string): Element[] => scope
+      ? Array.from(document.querySelectorAll(scope))
+        .flatMap(element => (element.matches(selector) ? [element] : Array.from(element.querySelectorAll(selector))))
+      : Array.from(document.querySelectorAll(selector));
+    const ofType = (item: any) => !itemType || this.matchesType(item?.['@type'], itemType);
+
+    switch (mode) {
+      case 'jsonld':
+        return find('script[type="application/ld+json"]').flatMap(script => this.readJsonLd(script)).filter(ofType);
+      case 'microdata':
+        return find('[itemscope]:not([itemprop])').map(item => this.readMicrodataItem(item)).filter(ofType);
+      case 'meta':
+        return this.readMeta(find('meta[property], meta[name]'));
+    }
+  }
+
+  /**
+   * Parse a JSON-LD block into its items, flattening arrays and `@graph` lists.
+   * Invalid blocks are skipped with a warning.
+   */
+  private readJsonLd(script: Element): any[] {
+    let data: any;
+    try {
+      data = JSON.parse(script.textContent || '');
+    } catch (error) {
+      console.warn('Skipped invalid JSON-LD block:', (error as Error).message);
+      return [];
+    }
+
+    const items = Array.isArray(data) ? data : [data];
+    return items.flatMap(item => (item && Array.isArray(item['@graph'])
+      ? item['@graph'].map((node: any) => (item['@context'] && !node['@context'] ? { '@context': item['@context'], ...node } : node))
+      : [item]));
+  }
+
+  /**
+   * Read an `itemscope` element into an object of its properties; nested items become nested objects
+   */
+  private readMicrodataItem(item: Element): Record<string, any> {
+    const result: Record<string, any> = {};
+    const types = (item.getAttribute('itemtype') || '').split(/\s+/).filter(Boolean);
+    const id = item.getAttribute('itemid');
+
+    if (types.length > 0) {
+      result['@type'] = types.length === 1 ? types[0] : types;
+    }
+    if (id) {
+      result['@id'] = id;
+    }
+
+    const collect = (element: Element) => {
+      Array.from(element.children).forEach(child => {
+        const names = (child.getAttribute('itemprop') || '').split(/\s+/).filter(Boolean);
+        const value = names.length > 0 ? this.readMicrodataValue(child) : undefined;
+
+        names.forEach(name => {
+          if (!Object.prototype.hasOwnProperty.call(result, name)) {
+            result[name] = value;
+          } else if (Array.isArray(result[name])) {
+            result[name].push(value);
+          } else {
+            result[name] = [result[name], value];
+          }
+        });
+        // Properties below a nested item belong to that item
+        if (!child.hasAttribute('itemscope')) {
+          collect(child);
+        }
+      });
+    };
+    collect(item);
+
+    return result;
+  }
+
+  private readMicrodataValue(element: Element): any {
+    if (element.hasAttribute('itemscope')) {
+      return this.readMicrodataItem(element);
+    }
+
+    const attribute = element.tagName === 'META'
+      ? 'content'
+      : element.tagName === 'TIME'
+        ? 'datetime'
+        : element.tagName === 'DATA' || element.tagName === 'METER'
+          ? 'value'
+          : MICRODATA_URL_ATTRIBUTES[element.tagName];
+    const value = attribute ? element.getAttribute(attribute) : null;
+
+    return value ?? (element.textContent || '').trim();
+  }
+
+  /**
+   * Collect `<meta>` tags by `property` (OpenGraph) or `name` (Twitter cards and others);
+   * repeated tags, such as several `og:image`, become arrays
+   */
+  private readMeta(tags: Element[]): Record<string, string | string[]> {
+    const result: Record<string, string | string[]> = {};
+
+    tags.forEach(tag => {
+      const key = tag.getAttribute('property') || tag.getAttribute('name');
+      const content = tag.getAttribute('content');
+      if (!key || content === null) {
+        return;
+      }
+
+      const existing = result[key];
+      result[key] = existing === undefined
+        ? content
+        : [...(Array.isArray(existing) ? existing : [existing]), content];
+    });
+
+    return result;
+  }
+
+  /**
+   * Match a type by name or full URL, e.g. `Product` against `https://schema.org/Product`
+   */
+  private matchesType(types: unknown, itemType: string): boolean {
+    return (Array.isArray(types) ? types : [types]).some(type => typeof type === 'string'
+      && (type === itemType || type.endsWith(`/${itemType}`) || type.endsWith(`:${itemType}`) || itemType.endsWith(`/${type}`)));
+  }
+
+  /**
+   * Read body rows into objects keyed by the header rows, repeating the text of cells
+   * spanning several columns or rows in each of them. Footer rows are left out.
+   */
+  private readTable(table: HTMLTableElement): Record<string, string | null>[] {
+    const rows = Array.from(table.rows).filter(row => row.parentElement !== table.tFoot);
+    const headerCount = table.tHead
+      ? table.tHead.rows.length
+      : rows.findIndex(row => Array.from(row.cells).some(cell => cell.tagName !== 'TH'));
+    const headerRows = headerCount === -1 ? rows : rows.slice(0, headerCount);
+    const header = this.expandCells(headerRows);
+    const body = this.expandCells(rows.slice(headerRows.length));
+    const width = Math.max(0, ...header.map(row => row.length), ...body.map(row => row.length));
+    const seen = new Map<string, number>();
+
+    // Stacked header rows are joined, e.g. "Scores Math" below a "Scores" cell spanning two columns
+    const names = Array.from({ length: width }, (_, column) => {
+      const parts = header.map(row => row[column]).filter((part): part is string => Boolean(part));
+      const name = parts.filter((part, index) => part !== parts[index - 1]).join(' ') || `column${column + 1}`;
+      const count = (seen.get(name) || 0) + 1;
+      seen.set(name, count);
+      return count > 1 ? `${name}_${count}` : name;
+    });
+
+    return body.map(row => Object.fromEntries(names.map((name, column) => [name, row[column] ?? null])));
+  }
+
+  /**
+   * Lay out the text of the rows' cells on a grid, expanding `colspan` and `rowspan`
+   */
+  private expandCells(rows: HTMLTableRowElement[]): string[][] {
+    const grid: string[][] = rows.map(() => []);
+
+    rows.forEach((row, rowIndex) => {
+      let column = 0;
+
+      Array.from(row.cells).forEach(cell => {
+        while (grid[rowIndex][column] !== undefined) {
+          column++;
+        }
+
+        const text = (cell.textContent || '').replace(/\s+/g, ' ').trim();
+        const colSpan = Math.max(1, cell.colSpan || 1);
+        // rowspan="0" spans the rest of the section
+        const rowSpan = cell.rowSpan === 0 ? rows.length - rowIndex : Math.max(1, cell.rowSpan || 1);
+
+        for (let rowOffset = 0; rowOffset < rowSpan && rowIndex + rowOffset < rows.length; rowOffset++) {
+          for (let columnOffset = 0; columnOffset < colSpan; columnOffset++) {
+            grid[rowIndex + rowOffset][column + columnOffset] = text;
+          }
+        }
+        column += colSpan;
+      });
+    });
+
+    return grid;
+  }
+
+  private readRecord(element: Element, fields: Record<string, string | HtmlFieldConfig>): Record<string, any> {
+    return Object.fromEntries(Object.entries(fields).map(([name, field]) => {
+      const { selector, attribute, html = false, multiple = false } = typeof field === 'string'
+        ? this.parseField(field)
+        : field;
+      const targets = !selector
+        ? [element]
+        : multiple
+          ? Array.from(element.querySelectorAll(selector))
+          : [element.querySelector(selector)].filter((target): target is Element => target !== null);
+      const values = targets.map(target => this.extractElementData(target, { attribute, html }));
+
+      return [name, multiple ? values : values[0] ?? null];
+    }));
+  }
+
+  /**
+   * Split `selector@attribute` shorthands
+   */
+  private parseField(field: string): HtmlFieldConfig {
+    const at = field.lastIndexOf('@');
+    if (at === -1) {
+      return { selector: field };
+    }
+    const selector = field.slice(0, at).trim();
+    return { ...(selector ? { selector } : {}), attribute: field.slice(at + 1) };
   }
 
   private extractElementData(element: Element, options: {
@@ -1,23 +1,64 @@
-import { IExtractor } from '../types';
+import { IExtractor, ETLContext, ETLConfigSchema, ETLDataShape } from '../types';
+import { raceAbort, throwIfAborted } from '../utils/abort';
+import { IndexedDBKeyQuery, toKeyRange } from '../utils/indexeddb-query';
 
-export interface IndexedDBExtractorConfig {
-  storeName: string;
-  query?: IDBKeyRange | any;
+export interface IndexedDBStoreQuery {
   index?: string;
+
+  /**
+   * Key, range or compound key query on the store or `index`, see `IndexedDBKeyQuery`
+   */
+  query?: IndexedDBKeyQuery;
   direction?: IDBCursorDirection;
+
+  /**
+   * Number of matching records to skip
+   */
+  offset?: number;
   limit?: number;
 }
 
+export interface IndexedDBExtractorConfig extends IndexedDBStoreQuery {
+  /**
+   * Database to read, `browser-etl-db` by default
+   */
+  dbName?: string;
+
+  /**
+   * Version to open, the current one by default. Databases are never created or upgraded.
+   */
+  version?: number;
+  storeName?: string;
+
+  /**
+   * Read several stores in one transaction and return their records by store name
+   */
+  stores?: string[] | Record<string, IndexedDBStoreQuery>;
+}
+
+const DEFAULT_DB_NAME = 'browser-etl-db';
+
 /**
  * IndexedDB Extractor - extracts data from IndexedDB
  */
 export class IndexedDBExtractor implements IExtractor {
   readonly name = 'indexedDB';
+  readonly configSchema: ETLConfigSchema = {
+    dbName: { type: 'string' },
+    version: { type: 'number' },
+    storeName: { type: 'string' },
+    stores: { type: ['array', 'object'] },
+    index: { type: 'string' },
+    direction: { type: 'string', enum: ['next', 'nextunique', 'prev', 'prevunique'] },
+    offset: { type: 'number' },
+    limit: { type: 'number' }
+  };
 
-  async extract(config: IndexedDBExtractorConfig): Promise<any> {
-    const { storeName, query, index, direction = 'next', limit } = config;
+  async extract(config: IndexedDBExtractorConfig, context: ETLContext = {}): Promise<any> {
+    const { dbName = DEFAULT_DB_NAME, version, storeName, stores } = config;
+    const { signal } = context;
 
-    if (!storeName) {
+    if (!storeName && !stores) {
       throw new Error('Store name is required for IndexedDB extraction');
     }
 
@@ -25,52 +66,120 @@ export class IndexedDBExtractor implements IExtractor {
       throw new Error('IndexedDB is not available in this environment');
     }
 
-    return new Promise((resolve, reject) => {
-      const request = window.indexedDB.open('browser-etl-db', 1);
+    throwIfAborted(signal);
+
+    const queries: Record<string, IndexedDBStoreQuery> = !stores
+      ? { [storeName!]: config }
+      : Array.isArray(stores) ? Object.fromEntries(stores.map(name => [name, {}])) : stores;
+    const ranges = Object.fromEntries(Object.entries(queries).map(([name, query]) => [name, toKeyRange(query.query)]));
 
-      request.onerror = () => reject(new Error('Failed to open IndexedDB'));
+    let activeTransaction: IDBTransaction | null = null;
+    const extraction = new Promise<Record<string, any[]>>((resolve, reject) => {
+      const request = version === undefined ? window.indexedDB.open(dbName) : window.indexedDB.open(dbName, version);
+      let upgradeNeeded = false;
+
+      request.onerror = () => reject(new Error(upgradeNeeded
+        ? `IndexedDB database '${dbName}' ${version === undefined ? 'does not exist' : `has no version ${version}`}`
+        : `Failed to open IndexedDB database '${dbName}'`));
       request.onsuccess = () => {
         const db = request.result;
-        const transaction = db.transaction([storeName], 'readonly');
-        const store = transaction.objectStore(storeName);
-        
-        let objectStore: IDBObjectStore | IDBIndex = store;
-        if (index) {
-          objectStore = store.index(index);
+        const names = Object.keys(queries);
+        const missing = names.find(name => !db.objectStoreNames.contains(name));
+
+        if (missing) {
+          db.close();
+          reject(new Error(`Object store '${missing}' not found in IndexedDB database '${dbName}'`));
+          return;
         }
 
-        const results: any[] = [];
-        const cursorRequest = objectStore.openCursor(query, direction);
+        const transaction = db.transaction(names, 'readonly');
+        const results: Record<string, any[]> = {};
+        let pending = names.length;
 
-        cursorRequest.onsuccess = (event) => {
-          const cursor = (event.target as IDBRequest).result;
-          if (cursor) {
-            results.push(cursor.value);
-            
-            if (limit && results.length >= limit) {
+        activeTransaction = transaction;
+
+        names.forEach(name => {
+          this.readStore(transaction.objectStore(name), queries[name], ranges[name], records => {
+            results[name] = records;
+            if (--pending === 0) {
+              db.close();
               resolve(results);
-              return;
             }
-            
-            cursor.continue();
-          } else {
-            resolve(results);
-          }
-        };
-
-        cursorRequest.onerror = () => reject(new Error('Failed to read from IndexedDB'));
+          }, reject);
+        });
       };
 
+      // Reading must not change the schema: abort instead of creating or upgrading the database
       request.onupgradeneeded = () => {
-        const db = request.result;
-        if (!db.objectStoreNames.contains(storeName)) {
-          db.createObjectStore(storeName, { keyPath: 'id', autoIncrement: true });
-        }
+        upgradeNeeded = true;
+        request.transaction?.abort();
       };
     });
+
+    const results = await raceAbort(extraction, signal, () => {
+      try {
+        activeTransaction?.abort();
+      } catch {
+        // The transaction may already be finished
+      }
+    });
+
+    return stores ? results : results[storeName!];
+  }
+
+  outputShape(config?: IndexedDBExtractorConfig): ETLDataShape {
+    return config?.stores ? 'object' : 'records';
   }
 
   supports(config: any): boolean {
-    return config && typeof config.storeName === 'string';
+    return config && (typeof config.storeName === 'string' || (typeof config.stores === 'object' && config.stores !== null));
   }
-}
\ No newline at end of file
+
+  /**
+   * Collect the records of one store or index with a cursor, skipping `offset` records first
+   */
+  private readStore(
+    store: IDBObjectStore,
+    settings: IndexedDBStoreQuery,
+    range: IDBKeyRange | IDBValidKey | undefined,
+    onDone: (records: any[]) => void,
+    onError: (error: Error) => void
+  ): void {
+    const { index, direction = 'next', offset = 0, limit } = settings;
+    if (limit !== undefined && limit <= 0) {
+      onDone([]);
+      return;
+    }
+
+    const source: IDBObjectStore | IDBIndex = index ? store.index(index) : store;
+    const records: any[] = [];
+    let skipped = offset <= 0;
+
+    const cursorRequest = source.openCursor(range, direction);
+
+    cursorRequest.onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) {
+        onDone(records);
+        return;
+      }
+
+      if (!skipped) {
+        skipped = true;
+        cursor.advance(offset);
+        return;
+      }
+
+      records.push(cursor.value);
+
+      if (limit !== undefined && records.length >= limit) {
+        onDone(records);
+        return;
+      }
+
+      cursor.continue();
+    };
+
+    cursorRequest.onerror = () => onError(new Error('Failed to read from IndexedDB'));
+  }
+}
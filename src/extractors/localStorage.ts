@@ -1,7 +1,7 @@
-import { IExtractor } from '../types';
+import { IExtractor, ETLConfigSchema, ETLDataShape } from '../types';
+import { StorageKeySelector, readWebStorage, selectsManyKeys } from '../utils/storage-keys';
 
-export interface LocalStorageExtractorConfig {
-  key: string;
+export interface LocalStorageExtractorConfig extends StorageKeySelector {
   parse?: boolean;
 }
 
@@ -10,37 +10,32 @@ export interface LocalStorageExtractorConfig {
  */
 export class LocalStorageExtractor implements IExtractor {
   readonly name = 'localStorage';
+  readonly configSchema: ETLConfigSchema = {
+    key: { type: 'string' },
+    prefix: { type: 'string' },
+    pattern: { type: 'string' },
+    parse: { type: 'boolean' }
+  };
 
   async extract(config: LocalStorageExtractorConfig): Promise<any> {
     const { key, parse = true } = config;
 
-    if (!key) {
-      throw new Error('Key is required for localStorage extraction');
+    if (!key && !selectsManyKeys(config)) {
+      throw new Error('Key is required for localStorage extraction, or a prefix or pattern');
     }
 
     if (typeof window === 'undefined' || !window.localStorage) {
       throw new Error('localStorage is not available in this environment');
     }
 
-    const value = window.localStorage.getItem(key);
-
-    if (value === null) {
-      return null;
-    }
-
-    if (parse) {
-      try {
-        return JSON.parse(value);
-      } catch {
-        // Return as string if parsing fails
-        return value;
-      }
-    }
+    return readWebStorage(window.localStorage, config, parse);
+  }
 
-    return value;
+  outputShape(config?: LocalStorageExtractorConfig): ETLDataShape {
+    return config && selectsManyKeys(config) ? 'records' : 'unknown';
   }
 
   supports(config: any): boolean {
-    return config && typeof config.key === 'string';
+    return config && (typeof config.key === 'string' || typeof config.prefix === 'string' || typeof config.pattern === 'string');
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,143 @@
+import { IExtractor, ETLContext, ETLConfigSchema, ETLDataShape } from '../types';
+import { throwIfAborted } from '../utils/abort';
+import { globToRegExp } from '../utils/glob';
+import { FileExtractor, FileExtractorConfig, fileTypeFromName } from './file';
+
+export interface OpfsExtractorConfig {
+  /**
+   * Path of a file from the root, e.g. `exports/users.json`; its contents are returned
+   */
+  path?: string;
+
+  /**
+   * Glob over file paths, e.g. `exports/**\/*.json`; one record is returned per file
+   */
+  pattern?: string;
+
+  /**
+   * How files are read, as in the file extractor; guessed from the extension by default
+   */
+  type?: FileExtractorConfig['type'];
+
+  /**
+   * With `pattern`, read file contents into `content`; true by default
+   */
+  content?: boolean;
+}
+
+export interface OpfsFileRecord {
+  path: string;
+  name: string;
+  size: number;
+  lastModified: number;
+  content?: any;
+}
+
+/**
+ * OPFS Extractor - reads files from the Origin Private File System
+ */
+export class OpfsExtractor implements IExtractor {
+  readonly name = 'opfs';
+  readonly configSchema: ETLConfigSchema = {
+    path: { type: 'string' },
+    pattern: { type: 'string' },
+    type: { type: 'string', enum: ['text', 'json', 'csv', 'binary', 'ndjson', 'xlsx', 'zip'] },
+    content: { type: 'boolean' }
+  };
+  private fileExtractor = new FileExtractor();
+
+  async extract(config: OpfsExtractorConfig, context: ETLContext = {}): Promise<any> {
+    const { path, pattern, content = true } = config;
+
+    if (!path && !pattern) {
+      throw new Error('Path or pattern is required for OPFS extraction');
+    }
+
+    if (typeof navigator === 'undefined' || !navigator.storage || !navigator.storage.getDirectory) {
+      throw new Error('The Origin Private File System is not available in this environment');
+    }
+
+    const root = await navigator.storage.getDirectory();
+
+    if (path) {
+      const file = await this.openFile(root, path);
+      return this.readFile(file, path, config, context);
+    }
+
+    const glob = globToRegExp(pattern!, { separator: '/' });
+    const records: OpfsFileRecord[] = [];
+
+    for await (const [filePath, handle] of this.walk(root, '')) {
+      throwIfAborted(context.signal);
+      if (!glob.test(filePath)) {
+        continue;
+      }
+
+      const file = await handle.getFile();
+      records.push({
+        path: filePath,
+        name: file.name,
+        size: file.size,
+        lastModified: file.lastModified,
+        ...(content ? { content: await this.readFile(file, filePath, config, context) } : {})
+      });
+    }
+
+    return records;
+  }
+
+  outputShape(config?: OpfsExtractorConfig): ETLDataShape {
+    if (!config?.path) {
+      return 'records';
+    }
+    return this.fileExtractor.outputShape({ type: this.fileType(config.path, config.type) } as FileExtractorConfig);
+  }
+
+  supports(config: any): boolean {
+    return config && (typeof config.path === 'string' || typeof config.pattern === 'string');
+  }
+
+  private async openFile(root: FileSystemDirectoryHandle, path: string): Promise<File> {
+    const parts = path.split('/').filter(Boolean);
+    const name = parts.pop()!;
+
+    try {
+      let directory = root;
+      for (const part of parts) {
+        directory = await directory.getDirectoryHandle(part);
+      }
+      const handle = await directory.getFileHandle(name);
+      return await handle.getFile();
+    } catch (error) {
+      if ((error as Error).name === 'NotFoundError' || (error as Error).name === 'TypeMismatchError') {
+        throw new Error(`File not found in the Origin Private File System: ${path}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List the files below a directory with their paths, depth first
+   */
+  private async *walk(directory: FileSystemDirectoryHandle, prefix: string): AsyncGenerator<[string, FileSystemFileHandle]> {
+    // The async iteration methods are missing from the DOM typings in use
+    const handles = (directory as unknown as { values(): AsyncIterable<FileSystemHandle> }).values();
+
+    for await (const handle of handles) {
+      const path = `${prefix}${handle.name}`;
+      if (handle.kind === 'directory') {
+        yield* this.walk(handle as FileSystemDirectoryHandle, `${path}/`);
+      } else {
+        yield [path, handle as FileSystemFileHandle];
+      }
+    }
+  }
+
+  private readFile(file: File, path: string, config: OpfsExtractorConfig, context: ETLContext): Promise<any> {
+    return this.fileExtractor.extract({ file, type: this.fileType(path, config.type) }, context);
+  }
+
+  private fileType(path: string, type?: FileExtractorConfig['type']): NonNullable<FileExtractorConfig['type']> {
+    return type || fileTypeFromName(path);
+  }
+}
@@ -0,0 +1,41 @@
+import { IExtractor, ETLConfigSchema, ETLDataShape } from '../types';
+import { StorageKeySelector, readWebStorage, selectsManyKeys } from '../utils/storage-keys';
+
+export interface SessionStorageExtractorConfig extends StorageKeySelector {
+  parse?: boolean;
+}
+
+/**
+ * SessionStorage Extractor - extracts data from browser sessionStorage
+ */
+export class SessionStorageExtractor implements IExtractor {
+  readonly name = 'sessionStorage';
+  readonly configSchema: ETLConfigSchema = {
+    key: { type: 'string' },
+    prefix: { type: 'string' },
+    pattern: { type: 'string' },
+    parse: { type: 'boolean' }
+  };
+
+  async extract(config: SessionStorageExtractorConfig): Promise<any> {
+    const { key, parse = true } = config;
+
+    if (!key && !selectsManyKeys(config)) {
+      throw new Error('Key is required for sessionStorage extraction, or a prefix or pattern');
+    }
+
+    if (typeof window === 'undefined' || !window.sessionStorage) {
+      throw new Error('sessionStorage is not available in this environment');
+    }
+
+    return readWebStorage(window.sessionStorage, config, parse);
+  }
+
+  outputShape(config?: SessionStorageExtractorConfig): ETLDataShape {
+    return config && selectsManyKeys(config) ? 'records' : 'unknown';
+  }
+
+  supports(config: any): boolean {
+    return config && (typeof config.key === 'string' || typeof config.prefix === 'string' || typeof config.pattern === 'string');
+  }
+}
@@ -0,0 +1,82 @@
+import { IExtractor, ETLContext, ETLConfigSchema, ETLDataShape } from '../types';
+import { LiveSourceConfig, assertBoundedLiveSource, readLiveSource } from '../utils/live';
+
+export interface SseExtractorConfig extends LiveSourceConfig {
+  url: string;
+
+  /**
+   * Event types to read, `message` by default
+   */
+  events?: string[];
+  withCredentials?: boolean;
+}
+
+const EVENT_SOURCE_CLOSED = 2;
+
+/**
+ * SSE Extractor - reads a Server-Sent Events stream
+ */
+export class SseExtractor implements IExtractor {
+  readonly name = 'sse';
+  readonly configSchema: ETLConfigSchema = {
+    url: { type: 'string', required: true },
+    events: { type: 'array' },
+    withCredentials: { type: 'boolean' },
+    format: { type: 'string', enum: ['json', 'text'] },
+    window: { type: 'object' },
+    reconnect: { type: ['boolean', 'object'] },
+    maxMessages: { type: 'number' },
+    duration: { type: 'number' }
+  };
+
+  /**
+   * Collect messages until maxMessages or duration is reached
+   */
+  async extract(config: SseExtractorConfig, context: ETLContext = {}): Promise<any[]> {
+    assertBoundedLiveSource(config, 'an event stream');
+
+    const messages: any[] = [];
+    for await (const chunk of this.stream(config, context)) {
+      messages.push(...chunk);
+    }
+    return messages;
+  }
+
+  /**
+   * Emit windows of messages as they arrive
+   */
+  async *stream(config: SseExtractorConfig, context: ETLContext = {}): AsyncGenerator<any[]> {
+    const { url, events = ['message'], withCredentials = false } = config;
+
+    if (!url) {
+      throw new Error('URL is required for SSE extraction');
+    }
+    if (typeof EventSource === 'undefined') {
+      throw new Error('EventSource is not available in this environment');
+    }
+
+    yield* readLiveSource(handlers => {
+      const source = new EventSource(url, { withCredentials });
+      const onMessage = (event: Event) => handlers.message((event as MessageEvent).data);
+
+      source.onopen = () => handlers.open();
+      // The browser reconnects by itself unless the connection is closed for good
+      source.onerror = () => {
+        if (source.readyState === EVENT_SOURCE_CLOSED) {
+          handlers.close(new Error(`Event stream '${url}' was closed`));
+        }
+      };
+      events.forEach(type => source.addEventListener(type, onMessage));
+
+      return () => source.close();
+    }, config, context);
+  }
+
+  outputShape(): ETLDataShape {
+    return 'records';
+  }
+
+  supports(config: any): boolean {
+    return config && typeof config.url === 'string';
+  }
+}
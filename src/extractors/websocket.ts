@@ -0,0 +1,88 @@
+import { IExtractor, ETLContext, ETLConfigSchema, ETLDataShape } from '../types';
+import { LiveSourceConfig, assertBoundedLiveSource, readLiveSource } from '../utils/live';
+
+export interface WebSocketExtractorConfig extends LiveSourceConfig {
+  url: string;
+  protocols?: string | string[];
+
+  /**
+   * Message sent each time the connection opens, e.g. a subscription; objects are sent as JSON
+   */
+  send?: any;
+}
+
+const NORMAL_CLOSURE = 1000;
+
+/**
+ * WebSocket Extractor - reads the messages received on a WebSocket
+ */
+export class WebSocketExtractor implements IExtractor {
+  readonly name = 'websocket';
+  readonly configSchema: ETLConfigSchema = {
+    url: { type: 'string', required: true },
+    protocols: { type: ['string', 'array'] },
+    format: { type: 'string', enum: ['json', 'text'] },
+    window: { type: 'object' },
+    reconnect: { type: ['boolean', 'object'] },
+    maxMessages: { type: 'number' },
+    duration: { type: 'number' }
+  };
+
+  /**
+   * Collect messages until maxMessages or duration is reached, or the server closes the socket
+   */
+  async extract(config: WebSocketExtractorConfig, context: ETLContext = {}): Promise<any[]> {
+    assertBoundedLiveSource(config, 'a WebSocket');
+
+    const messages: any[] = [];
+    for await (const chunk of this.stream(config, context)) {
+      messages.push(...chunk);
+    }
+    return messages;
+  }
+
+  /**
+   * Emit windows of messages as they arrive; a normal closure by the server ends the stream
+   */
+  async *stream(config: WebSocketExtractorConfig, context: ETLContext = {}): AsyncGenerator<any[]> {
+    const { url, protocols, send } = config;
+
+    if (!url) {
+      throw new Error('URL is required for WebSocket extraction');
+    }
+    if (typeof WebSocket === 'undefined') {
+      throw new Error('WebSocket is not available in this environment');
+    }
+
+    yield* readLiveSource(handlers => {
+      const socket = new WebSocket(url, protocols);
+      socket.binaryType = 'arraybuffer';
+
+      socket.onopen = () => {
+        if (send !== undefined) {
+          socket.send(typeof send === 'string' ? send : JSON.stringify(send));
+        }
+        handlers.open();
+      };
+      socket.onmessage = event => handlers.message(event.data);
+      socket.onclose = event => {
+        handlers.close(event.code === NORMAL_CLOSURE
+          ? undefined
+          : new Error(`WebSocket '${url}' closed with code ${event.code}`));
+      };
+
+      return () => {
+        socket.onclose = null;
+        socket.close();
+      };
+    }, config, context);
+  }
+
+  outputShape(): ETLDataShape {
+    return 'records';
+  }
+
+  supports(config: any): boolean {
+    return config && typeof config.url === 'string';
+  }
+}
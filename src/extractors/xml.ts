@@ -0,0 +1,92 @@
+import { IExtractor, ETLContext, ETLConfigSchema, ETLDataShape } from '../types';
+import { parseFeed } from '../utils/feed';
+import { XmlMappingOptions, parseXml, selectElements, xmlToObject } from '../utils/xml';
+
+export interface XmlExtractorConfig extends XmlMappingOptions {
+  /**
+   * XML text or file; `url` is fetched when omitted
+   */
+  data?: string | File;
+  url?: string;
+
+  /**
+   * Slash-separated path of the repeating elements to return as records, e.g. `catalog/book`
+   */
+  recordPath?: string;
+
+  /**
+   * `feed` reads RSS 2.0, RSS 1.0 and Atom items into normalized objects
+   */
+  preset?: 'feed';
+}
+
+/**
+ * XML Extractor - maps XML documents, RSS and Atom feeds to plain objects
+ */
+export class XmlExtractor implements IExtractor {
+  readonly name = 'xml';
+  readonly configSchema: ETLConfigSchema = {
+    data: { type: ['string', 'file'] },
+    url: { type: 'string' },
+    recordPath: { type: 'string' },
+    preset: { type: 'string', enum: ['feed'] },
+    attributePrefix: { type: 'string' },
+    textKey: { type: 'string' },
+    ignoreNamespaces: { type: 'boolean' },
+    alwaysArray: { type: 'array' }
+  };
+
+  async extract(config: XmlExtractorConfig, context: ETLContext = {}): Promise<any> {
+    const { recordPath, preset } = config;
+    const document = parseXml(await this.readSource(config, context));
+
+    if (preset === 'feed') {
+      return parseFeed(document);
+    }
+
+    if (recordPath) {
+      return selectElements(document, recordPath).map(element => xmlToObject(element, config));
+    }
+
+    return xmlToObject(document.documentElement, config);
+  }
+
+  outputShape(config?: XmlExtractorConfig): ETLDataShape {
+    return config && (config.preset || config.recordPath) ? 'records' : 'object';
+  }
+
+  supports(config: any): boolean {
+    return config && (typeof config.data === 'string' || config.data instanceof File || typeof config.url === 'string');
+  }
+
+  private async readSource(config: XmlExtractorConfig, context: ETLContext): Promise<string> {
+    const { data, url } = config;
+
+    if (typeof data === 'string') {
+      return data;
+    }
+    if (data instanceof File) {
+      return this.readFile(data);
+    }
+    if (!url) {
+      throw new Error('Data or URL is required for XML extraction');
+    }
+
+    const response = context.signal
+      ? await fetch(url, { signal: context.signal })
+      : await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch XML from ${url}: ${response.statusText}`);
+    }
+    return response.text();
+  }
+
+  private async readFile(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(new Error('Failed to read file'));
+      reader.readAsText(file);
+    });
+  }
+}
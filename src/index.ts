@@ -1,6 +1,11 @@
 // Core exports
 export { ETL, etl } from './core/etl';
 export { ETLPipeline } from './core/pipeline';
+export { PIPELINE_SPEC_VERSION, parsePipelineSpec } from './core/spec';
+export { WorkerRunner } from './core/worker-runner';
+export type { WorkerRunOptions, WorkerRunResult } from './core/worker-runner';
+export { serveWorker } from './core/worker-host';
+export type { WorkerHostOptions, WorkerScope } from './core/worker-host';
 
 // Type exports
 export type {
@@ -10,10 +15,35 @@ export type {
   IPlugin,
   ETLConfig,
   ETLStep,
+  ETLStepOptions,
+  ETLStepResult,
+  ETLStepAttempt,
+  ETLRetryPolicy,
+  ETLRecord,
+  ETLContext,
+  ETLRunOptions,
+  ETLLiveRun,
+  ETLEvents,
+  ETLStepStartEvent,
+  ETLStepEndEvent,
+  ETLProgressEvent,
+  ETLProgressUnit,
+  ETLRetryEvent,
+  ETLErrorEvent,
+  ETLPipelineSpec,
+  ETLStepSpec,
+  ETLFunctionReference,
+  ETLDataShape,
+  ETLConfigSchema,
+  ETLConfigField,
+  ETLConfigFieldType,
+  ETLDiagnostic,
+  ETLValidationResult,
   ETLPipeline as ETLPipelineType,
   ETLResult,
   JoinConfig,
   CacheEntry,
+  CacheBackend,
   StreamConfig,
   ErrorRecoveryConfig,
   PermalinkOptions,
@@ -22,33 +52,112 @@ export type {
 
 // Extractor exports
 export { ApiExtractor } from './extractors/api';
+export type { ApiExtractorConfig, ApiPaginationConfig, ApiNextRequest } from './extractors/api';
+export { GraphQLExtractor, createGraphQLError, isGraphQLError } from './extractors/graphql';
+export type {
+  GraphQLExtractorConfig,
+  GraphQLPaginationConfig,
+  GraphQLError,
+  GraphQLErrorDetail
+} from './extractors/graphql';
 export { HtmlExtractor } from './extractors/html';
+export type { HtmlExtractorConfig, HtmlFieldConfig } from './extractors/html';
+export { SseExtractor } from './extractors/sse';
+export type { SseExtractorConfig } from './extractors/sse';
+export { WebSocketExtractor } from './extractors/websocket';
+export type { WebSocketExtractorConfig } from './extractors/websocket';
+export { XmlExtractor } from './extractors/xml';
+export type { XmlExtractorConfig } from './extractors/xml';
 export { CsvExtractor } from './extractors/csv';
 export { LocalStorageExtractor } from './extractors/localStorage';
+export type { LocalStorageExtractorConfig } from './extractors/localStorage';
+export { SessionStorageExtractor } from './extractors/sessionStorage';
+export type { SessionStorageExtractorConfig } from './extractors/sessionStorage';
+export { CookieExtractor } from './extractors/cookies';
+export type { CookieExtractorConfig } from './extractors/cookies';
+export { CacheStorageExtractor } from './extractors/cacheStorage';
+export type { CacheStorageExtractorConfig, CachedResponseRecord } from './extractors/cacheStorage';
+export { OpfsExtractor } from './extractors/opfs';
+export type { OpfsExtractorConfig, OpfsFileRecord } from './extractors/opfs';
 export { IndexedDBExtractor } from './extractors/indexedDB';
-export { FileExtractor } from './extractors/file';
+export type { IndexedDBExtractorConfig, IndexedDBStoreQuery } from './extractors/indexedDB';
+export { FileExtractor, fileTypeFromName } from './extractors/file';
+export type { FileExtractorConfig, ZipEntryRecord } from './extractors/file';
 
 // Transformer exports
 export { FilterTransformer } from './transformers/filter';
 export { MapTransformer } from './transformers/map';
 export { JoinTransformer } from './transformers/join';
 export { EnrichTransformer } from './transformers/enrich';
+export { SortTransformer } from './transformers/sort';
+export type { SortTransformerConfig, SortKey, SortKeyFunction } from './transformers/sort';
 
 // Loader exports
 export { ChartLoader } from './loaders/chart';
 export { TableLoader } from './loaders/table';
 export { FileLoader } from './loaders/file';
+export type { FileLoaderConfig } from './loaders/file';
 export { ApiLoader } from './loaders/api';
+export { IndexedDBLoader } from './loaders/indexedDB';
+export type { IndexedDBLoaderConfig, IndexedDBStoreSchema, IndexedDBIndexSchema, IndexedDBMigration } from './loaders/indexedDB';
+export { LocalStorageLoader } from './loaders/localStorage';
+export type { LocalStorageLoaderConfig, StorageWriteMode } from './loaders/localStorage';
 
 // Plugin exports
 export { PluginManager } from './plugins/plugin-manager';
 
 // Utility exports
 export { Cache } from './utils/cache';
-export { StreamProcessor } from './utils/stream';
+export { IndexedDBCache } from './utils/indexeddb-cache';
+export { StreamProcessor, DataStream } from './utils/stream';
 export { ErrorRecovery } from './utils/error-recovery';
+export type { RetryOptions } from './utils/error-recovery';
 export { HttpClient } from './utils/http-client';
-export { parseCSV } from './utils/csv-parser';
+export { parseCSV, CSVParser, detectDelimiter } from './utils/csv-parser';
+export type { CSVParserOptions, CSVRowError } from './utils/csv-parser';
+export { parseLinkHeader } from './utils/pagination';
+export { parseNdjson, toNdjson } from './utils/ndjson';
+export type { NdjsonBadLine, NdjsonParseOptions } from './utils/ndjson';
+export { parseXml, xmlToObject } from './utils/xml';
+export type { XmlMappingOptions } from './utils/xml';
+export { toKeyRange } from './utils/indexeddb-query';
+export { compileExpression, parseExpression, createExpressionError, isExpressionError } from './utils/expression';
+export type { ExpressionError, ExpressionNode } from './utils/expression';
+export { globToRegExp, matchesGlob } from './utils/glob';
+export type { GlobOptions } from './utils/glob';
+export type { StorageKeySelector, StorageEntry } from './utils/storage-keys';
+export type { IndexedDBKeyQuery, IndexedDBKeyRangeQuery, IndexedDBKeyCondition } from './utils/indexeddb-query';
+export { parseFeed } from './utils/feed';
+export type { FeedItem, FeedEnclosure } from './utils/feed';
+export { readXlsx, writeXlsx, listXlsxSheets } from './utils/xlsx';
+export { readZip, writeZip } from './utils/zip';
+export type { ZipEntry, ZipFileInput, ZipWriteOptions } from './utils/zip';
+export {
+  compressionFromName,
+  compressionFromType,
+  stripCompressionExtension,
+  compressStream,
+  decompressStream,
+  compressBytes,
+  decompressBytes
+} from './utils/compression';
+export type { InputCompression } from './utils/compression';
+export type { XlsxReadOptions, XlsxWriteOptions, XlsxSheet, XlsxColumn, XlsxHeaderStyle } from './utils/xlsx';
+export { readLiveSource } from './utils/live';
+export type {
+  LiveSourceConfig,
+  LiveWindowConfig,
+  LiveReconnectConfig,
+  LiveConnect,
+  LiveConnectionHandlers
+} from './utils/live';
+export { validateConfig } from './utils/config-schema';
+export type { ConfigIssue } from './utils/config-schema';
+export { EventEmitter } from './utils/events';
+export { FunctionRegistry } from './utils/function-registry';
+export { createAbortError, createTimeoutError, isAbortError, throwIfAborted } from './utils/abort';
+export { createStorageQuotaError, isStorageQuotaError } from './utils/quota';
+export type { StorageQuotaError } from './utils/quota';
 export { 
   generatePermalink, 
   createHtmlPermalink, 
@@ -1,4 +1,5 @@
-import { ILoader } from '../types';
+import { ILoader, ETLContext, ETLConfigSchema } from '../types';
+import { throwIfAborted } from '../utils/abort';
 import { HttpClient } from '../utils/http-client';
 
 export interface ApiLoaderConfig {
@@ -8,6 +9,10 @@ export interface ApiLoaderConfig {
   method?: string;
   body?: any;
   timeout?: number;
+
+  /**
+   * Retries per request, 3 by default or 0 when the pipeline retries the step
+   */
   retries?: number;
 }
 
@@ -16,13 +21,21 @@ export interface ApiLoaderConfig {
  */
 export class ApiLoader implements ILoader {
   readonly name = 'api';
+  readonly configSchema: ETLConfigSchema = {
+    url: { type: 'string', required: true },
+    options: { type: 'object' },
+    headers: { type: 'object' },
+    method: { type: 'string' },
+    timeout: { type: 'number' },
+    retries: { type: 'number' }
+  };
   private httpClient: HttpClient;
 
   constructor() {
     this.httpClient = new HttpClient();
   }
 
-  async load(data: any, config: ApiLoaderConfig): Promise<void> {
+  async load(data: any, config: ApiLoaderConfig, context: ETLContext = {}): Promise<void> {
     const {
       url,
       options = {},
@@ -30,7 +43,7 @@ export class ApiLoader implements ILoader {
       method = 'POST',
       body,
       timeout = 30000,
-      retries = 3
+      retries = context.retried ? 0 : 3
     } = config;
 
     if (!url) {
@@ -46,10 +59,22 @@ export class ApiLoader implements ILoader {
       body: requestBody,
       timeout,
       retries,
-      ...options
+      onRetry: context.retry,
+      ...options,
+      ...(context.signal ? { signal: context.signal } : {})
     });
   }
 
+  /**
+   * Send each streamed chunk as its own request
+   */
+  async loadStream(chunks: AsyncIterable<any[]>, config: ApiLoaderConfig, context: ETLContext = {}): Promise<void> {
+    for await (const chunk of chunks) {
+      throwIfAborted(context.signal);
+      await this.load(chunk, config, context);
+    }
+  }
+
   supports(config: any): boolean {
     return config && typeof config.url === 'string';
   }
@@ -1,4 +1,5 @@
-import { ILoader } from '../types';
+import { ILoader, ETLContext, ETLConfigSchema, ETLDataShape } from '../types';
+import { throwIfAborted } from '../utils/abort';
 
 export interface ChartLoaderConfig {
   type: string;
@@ -6,6 +7,11 @@ export interface ChartLoaderConfig {
   container?: string | HTMLElement;
   width?: number;
   height?: number;
+
+  /**
+   * When streaming, keep only the most recent records on the chart
+   */
+  maxPoints?: number;
 }
 
 /**
@@ -13,8 +19,57 @@ export interface ChartLoaderConfig {
  */
 export class ChartLoader implements ILoader {
   readonly name = 'chart';
+  readonly configSchema: ETLConfigSchema = {
+    type: { type: 'string', required: true },
+    config: { type: 'object', required: true },
+    container: { type: ['string', 'element'] },
+    width: { type: 'number' },
+    height: { type: 'number' },
+    maxPoints: { type: 'number' }
+  };
+  readonly accepts: ETLDataShape[] = ['records', 'object'];
 
   async load(data: any, config: ChartLoaderConfig): Promise<void> {
+    this.render(data, config);
+  }
+
+  /**
+   * Draw the chart with the first streamed chunk, then update it as more records arrive
+   */
+  async loadStream(chunks: AsyncIterable<any[]>, config: ChartLoaderConfig, context: ETLContext = {}): Promise<void> {
+    const { type, config: chartConfig, maxPoints = Infinity } = config;
+    let chart: any = null;
+    let records: any[] = [];
+
+    for await (const chunk of chunks) {
+      throwIfAborted(context.signal);
+
+      records = records.concat(chunk);
+      if (records.length > maxPoints) {
+        records = records.slice(records.length - maxPoints);
+      }
+
+      if (!chart) {
+        chart = this.render(records, config);
+      } else {
+        chart.data = this.prepareChartData(records, type, chartConfig);
+        chart.update();
+      }
+    }
+
+    if (!chart) {
+      this.render([], config);
+    }
+  }
+
+  supports(config: any): boolean {
+    return config && config.type && config.config;
+  }
+
+  /**
+   * Create a Chart.js chart for the data and return it
+   */
+  private render(data: any, config: ChartLoaderConfig): any {
     const { type, config: chartConfig, container, width = 400, height = 300 } = config;
 
     if (!type) {
@@ -33,17 +88,13 @@ export class ChartLoader implements ILoader {
     const chartData = this.prepareChartData(data, type, chartConfig);
     const options = this.prepareChartOptions(chartConfig);
 
-    new Chart(ctx, {
+    return new Chart(ctx, {
       type,
       data: chartData,
       options
     });
   }
 
-  supports(config: any): boolean {
-    return config && config.type && config.config;
-  }
-
   private createCanvas(container?: string | HTMLElement, width: number = 400, height: number = 300): HTMLCanvasElement {
     const canvas = document.createElement('canvas');
     canvas.width = width;
@@ -1,17 +1,53 @@
-import { ILoader } from '../types';
+import { ILoader, ETLContext, ETLConfigSchema } from '../types';
+import { throwIfAborted } from '../utils/abort';
+import { compressStream, stripCompressionExtension } from '../utils/compression';
+import { toNdjson } from '../utils/ndjson';
+import { XLSX_MIME_TYPE, XlsxColumn, XlsxHeaderStyle, XlsxSheet, writeXlsx } from '../utils/xlsx';
 
 export interface FileLoaderConfig {
   filename: string;
-  format?: 'json' | 'csv' | 'txt' | 'xml';
+  format?: 'json' | 'csv' | 'txt' | 'xml' | 'ndjson' | 'xlsx';
   mimeType?: string;
   download?: boolean;
+
+  /**
+   * XLSX: name of the sheet written from an array, `Sheet1` by default
+   */
+  sheetName?: string;
+
+  /**
+   * XLSX: columns with headers and widths, or columns per sheet name
+   */
+  columns?: XlsxColumn[] | Record<string, XlsxColumn[]>;
+
+  /**
+   * XLSX: style of the header row, bold by default; `false` leaves it unstyled
+   */
+  headerStyle?: XlsxHeaderStyle | false;
+
+  /**
+   * `gzip` compresses the file and appends `.gz` to its name; `none` by default
+   */
+  compression?: 'gzip' | 'none';
 }
 
+const GZIP_MIME_TYPE = 'application/gzip';
+
 /**
  * File Loader - loads data into downloadable files
  */
 export class FileLoader implements ILoader {
   readonly name = 'file';
+  readonly configSchema: ETLConfigSchema = {
+    filename: { type: 'string', required: true },
+    format: { type: 'string', enum: ['json', 'csv', 'txt', 'xml', 'ndjson', 'xlsx'] },
+    mimeType: { type: 'string' },
+    download: { type: 'boolean' },
+    sheetName: { type: 'string' },
+    columns: { type: ['array', 'object'] },
+    headerStyle: { type: ['object', 'boolean'] },
+    compression: { type: 'string', enum: ['gzip', 'none'] }
+  };
 
   async load(data: any, config: FileLoaderConfig): Promise<void | any> {
     const {
@@ -25,18 +61,119 @@ export class FileLoader implements ILoader {
       throw new Error('Filename is required for file loading');
     }
 
-    const content = this.formatData(data, format);
+    const content = format.toLowerCase() === 'xlsx'
+      ? await this.toXlsx(data, config)
+      : this.formatData(data, format);
     const finalMimeType = mimeType || this.getMimeType(format);
     const finalFilename = this.ensureExtension(filename, format);
 
+    if (config.compression === 'gzip') {
+      return this.saveGzip([content], this.ensureExtension(stripCompressionExtension(filename), format), download);
+    }
+
     if (download) {
-      this.downloadFile(content, finalFilename, finalMimeType);
+      this.downloadFile([content], finalFilename, finalMimeType);
     } else {
       // Store in memory or return the content
       return Promise.resolve(content);
     }
   }
 
+  /**
+   * Serialize streamed chunks one at a time into the parts of a single file
+   */
+  async loadStream(chunks: AsyncIterable<any[]>, config: FileLoaderConfig, context: ETLContext = {}): Promise<void | any> {
+    const {
+      filename,
+      format = 'json',
+      mimeType,
+      download = true
+    } = config;
+
+    if (!filename) {
+      throw new Error('Filename is required for file loading');
+    }
+
+    const lowerFormat = format.toLowerCase();
+    if (lowerFormat === 'xlsx') {
+      // Workbooks are zipped, so the records are written once all chunks have arrived
+      const records: any[] = [];
+      for await (const chunk of chunks) {
+        throwIfAborted(context.signal);
+        records.push(...chunk);
+      }
+      return this.load(records, config);
+    }
+
+    const parts: string[] = [];
+    let headers: string[] | null = null;
+    let count = 0;
+
+    for await (const chunk of chunks) {
+      throwIfAborted(context.signal);
+      if (chunk.length === 0) {
+        continue;
+      }
+
+      let separator = count === 0 ? '' : '\n';
+      let part: string;
+
+      switch (lowerFormat) {
+        case 'json':
+          separator = count === 0 ? '[\n' : ',\n';
+          part = chunk.map(item => this.indent(JSON.stringify(item, null, 2))).join(',\n');
+          break;
+
+        case 'csv':
+          if (count === 0 && typeof chunk[0] === 'object' && chunk[0] !== null) {
+            headers = Object.keys(chunk[0]);
+            separator = `${headers.join(',')}\n`;
+          }
+          if (headers) {
+            part = chunk.map(item => this.toCSVRow(item, headers!)).join('\n');
+          } else {
+            separator = count === 0 ? '' : ',';
+            part = chunk.join(',');
+          }
+          break;
+
+        case 'xml':
+          separator = count === 0 ? '<?xml version="1.0" encoding="UTF-8"?>\n<root>\n' : '\n';
+          part = chunk.map(item => this.objectToXML(item, 'item')).join('\n');
+          break;
+
+        case 'ndjson':
+          separator = '';
+          part = toNdjson(chunk);
+          break;
+
+        default:
+          part = chunk.map(item => String(item)).join('\n');
+      }
+
+      parts.push(separator + part);
+      count += chunk.length;
+    }
+
+    if (count === 0) {
+      parts.push(this.formatData([], lowerFormat));
+    } else if (lowerFormat === 'json') {
+      parts.push('\n]');
+    } else if (lowerFormat === 'xml') {
+      parts.push('\n</root>');
+    }
+
+    if (config.compression === 'gzip') {
+      return this.saveGzip(parts, this.ensureExtension(stripCompressionExtension(filename), format), download);
+    }
+
+    if (download) {
+      this.downloadFile(parts, this.ensureExtension(filename, format), mimeType || this.getMimeType(format));
+    } else {
+      return parts.join('');
+    }
+  }
+
   supports(config: any): boolean {
     return config && typeof config.filename === 'string';
   }
@@ -55,11 +192,34 @@ export class FileLoader implements ILoader {
       case 'xml':
         return this.convertToXML(data);
       
+      case 'ndjson':
+        return toNdjson(data);
+      
       default:
         return String(data);
     }
   }
 
+  /**
+   * Write an array to one sheet, or an object of arrays to one sheet per key
+   */
+  private async toXlsx(data: any, config: FileLoaderConfig): Promise<Blob> {
+    const { sheetName = 'Sheet1', columns, headerStyle } = config;
+    const isSheetMap = typeof data === 'object' && data !== null && !Array.isArray(data)
+      && Object.values(data).length > 0 && Object.values(data).every(Array.isArray);
+    const entries: [string, any[]][] = isSheetMap
+      ? Object.entries(data as Record<string, any[]>)
+      : [[sheetName, Array.isArray(data) ? data : [data]]];
+
+    const sheets = entries.map(([name, rows]): XlsxSheet => {
+      const sheetColumns = Array.isArray(columns) ? columns : columns?.[name];
+      return { name, rows, ...(sheetColumns ? { columns: sheetColumns } : {}) };
+    });
+    const bytes = await writeXlsx(sheets, headerStyle !== undefined ? { headerStyle } : {});
+
+    return new Blob([bytes as BlobPart], { type: XLSX_MIME_TYPE });
+  }
+
   private convertToCSV(data: any): string {
     if (Array.isArray(data)) {
       if (data.length === 0) return '';
@@ -71,16 +231,7 @@ export class FileLoader implements ILoader {
         const csvRows = [headers.join(',')];
         
         data.forEach(item => {
-          const values = headers.map(header => {
-            const value = item[header];
-            // Escape commas and quotes
-            const stringValue = String(value || '');
-            if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
-              return `"${stringValue.replace(/"/g, '""')}"`;
-            }
-            return stringValue;
-          });
-          csvRows.push(values.join(','));
+          csvRows.push(this.toCSVRow(item, headers));
         });
         
         return csvRows.join('\n');
@@ -94,21 +245,29 @@ export class FileLoader implements ILoader {
       // Single object
       const headers = Object.keys(data);
       const csvRows = [headers.join(',')];
-      const values = headers.map(header => {
-        const value = data[header];
-        const stringValue = String(value || '');
-        if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
-          return `"${stringValue.replace(/"/g, '""')}"`;
-        }
-        return stringValue;
-      });
-      csvRows.push(values.join(','));
+      csvRows.push(this.toCSVRow(data, headers));
       return csvRows.join('\n');
     }
     
     return String(data);
   }
 
+  private toCSVRow(item: any, headers: string[]): string {
+    return headers.map(header => {
+      const value = item[header];
+      // Escape commas and quotes
+      const stringValue = String(value || '');
+      if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
+        return `"${stringValue.replace(/"/g, '""')}"`;
+      }
+      return stringValue;
+    }).join(',');
+  }
+
+  private indent(text: string): string {
+    return text.split('\n').map(line => `  ${line}`).join('\n');
+  }
+
   private convertToText(data: any): string {
     if (Array.isArray(data)) {
       return data.map(item => String(item)).join('\n');
@@ -162,14 +321,32 @@ export class FileLoader implements ILoader {
         return 'text/plain';
       case 'xml':
         return 'application/xml';
+      case 'ndjson':
+        return 'application/x-ndjson';
+      case 'xlsx':
+        return XLSX_MIME_TYPE;
       default:
         return 'text/plain';
     }
   }
 
+  /**
+   * Gzip the parts of a file, then download it as `<filename>.gz` or return the compressed blob
+   */
+  private async saveGzip(parts: BlobPart[], filename: string, download: boolean): Promise<Blob | void> {
+    const stream = compressStream(new Blob(parts).stream() as ReadableStream<Uint8Array>, 'gzip');
+    const bytes = await new Response(stream as ReadableStream<BufferSource>).arrayBuffer();
+    const blob = new Blob([bytes], { type: GZIP_MIME_TYPE });
+
+    if (!download) {
+      return blob;
+    }
+    this.downloadFile([blob], `${filename}.gz`, GZIP_MIME_TYPE);
+  }
+
   private ensureExtension(filename: string, format: string): string {
     const extension = this.getExtension(format);
-    if (filename.endsWith(extension)) {
+    if (filename.endsWith(extension) || (extension === 'ndjson' && filename.endsWith('.jsonl'))) {
       return filename;
     }
     return `${filename}.${extension}`;
@@ -185,13 +362,17 @@ export class FileLoader implements ILoader {
         return 'txt';
       case 'xml':
         return 'xml';
+      case 'ndjson':
+        return 'ndjson';
+      case 'xlsx':
+        return 'xlsx';
       default:
         return 'txt';
     }
   }
 
-  private downloadFile(content: string, filename: string, mimeType: string): void {
-    const blob = new Blob([content], { type: mimeType });
+  private downloadFile(parts: BlobPart[], filename: string, mimeType: string): void {
+    const blob = new Blob(parts, { type: mimeType });
     const url = URL.createObjectURL(blob);
     
     const link = document.createElement('a');
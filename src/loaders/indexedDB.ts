@@ -0,0 +1,247 @@
+import { ILoader, ETLContext, ETLConfigSchema } from '../types';
+import { throwIfAborted } from '../utils/abort';
+import { createStorageQuotaError, isQuotaExceeded } from '../utils/quota';
+import { StorageWriteMode } from './localStorage';
+
+export interface IndexedDBIndexSchema {
+  keyPath: string | string[];
+  unique?: boolean;
+  multiEntry?: boolean;
+}
+
+export interface IndexedDBStoreSchema {
+  keyPath?: string | string[];
+  autoIncrement?: boolean;
+  indexes?: Record<string, IndexedDBIndexSchema>;
+}
+
+/**
+ * Upgrade step run inside the `versionchange` transaction
+ */
+export type IndexedDBMigration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+export interface IndexedDBLoaderConfig {
+  /**
+   * Database to write, `browser-etl-db` by default
+   */
+  dbName?: string;
+
+  /**
+   * Version to open, the current one by default
+   */
+  version?: number;
+  storeName: string;
+
+  /**
+   * `put` inserts or overwrites, `add` fails on existing keys, `upsert` merges into the
+   * stored records and `replace` clears the store first; `put` by default. `load()` replaces
+   * in a single transaction; streamed loads clear with the first batch, so a failure later on
+   * leaves the store with only the batches written so far.
+   */
+  mode?: StorageWriteMode;
+
+  /**
+   * Path of the record key for stores with out-of-line keys, e.g. `id` or `['country', 'code']`
+   */
+  keyPath?: string | string[];
+
+  /**
+   * Records written per transaction, 1000 by default; ignored by `load()` in `replace` mode
+   */
+  batchSize?: number;
+
+  /**
+   * Stores and indexes created when the database is created or upgraded to `version`.
+   * Without `schema` or `migrations`, the loader never changes the database schema.
+   */
+  schema?: Record<string, IndexedDBStoreSchema>;
+
+  /**
+   * Migrations by the version they upgrade to, run after the schema is applied
+   */
+  migrations?: Record<number, IndexedDBMigration>;
+}
+
+const DEFAULT_DB_NAME = 'browser-etl-db';
+const DEFAULT_BATCH_SIZE = 1000;
+
+/**
+ * IndexedDB Loader - writes records to an IndexedDB object store
+ */
+export class IndexedDBLoader implements ILoader {
+  readonly name = 'indexedDB';
+  readonly configSchema: ETLConfigSchema = {
+    dbName: { type: 'string' },
+    version: { type: 'number' },
+    storeName: { type: 'string', required: true },
+    mode: { type: 'string', enum: ['put', 'add', 'upsert', 'replace'] },
+    keyPath: { type: ['string', 'array'] },
+    batchSize: { type: 'number' },
+    schema: { type: 'object' },
+    migrations: { type: 'object' }
+  };
+
+  async load(data: any, config: IndexedDBLoaderConfig, context: ETLContext = {}): Promise<void> {
+    const records = Array.isArray(data) ? data : [data];
+
+    // Clear and write in one transaction so a failed replace leaves the store untouched
+    await this.write([records], config.mode === 'replace' ? { ...config, batchSize: Math.max(records.length, 1) } : config, context);
+  }
+
+  /**
+   * Write each streamed chunk in its own batches; `replace` only clears the store before the first
+   * one and is not atomic, since a transaction cannot stay open while the next chunk is read
+   */
+  async loadStream(chunks: AsyncIterable<any[]>, config: IndexedDBLoaderConfig, context: ETLContext = {}): Promise<void> {
+    await this.write(chunks, config, context);
+  }
+
+  supports(config: any): boolean {
+    return config && typeof config.storeName === 'string';
+  }
+
+  private async write(chunks: Iterable<any[]> | AsyncIterable<any[]>, config: IndexedDBLoaderConfig, context: ETLContext): Promise<void> {
+    const { storeName, mode = 'put', batchSize = DEFAULT_BATCH_SIZE } = config;
+
+    if (!storeName) {
+      throw new Error('Store name is required for IndexedDB loading');
+    }
+
+    if (typeof window === 'undefined' || !window.indexedDB) {
+      throw new Error('IndexedDB is not available in this environment');
+    }
+
+    throwIfAborted(context.signal);
+
+    const db = await this.openDatabase(config);
+    let written = 0;
+    let clear = mode === 'replace';
+
+    try {
+      if (!db.objectStoreNames.contains(storeName)) {
+        throw new Error(`Object store '${storeName}' not found in IndexedDB database '${db.name}'`);
+      }
+
+      for await (const chunk of chunks) {
+        for (let start = 0; start < chunk.length || clear; start += batchSize) {
+          throwIfAborted(context.signal);
+          const batch = chunk.slice(start, start + batchSize);
+
+          await this.writeBatch(db, batch, config, clear, written);
+          clear = false;
+          written += batch.length;
+          context.progress?.(written);
+        }
+      }
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Open the database, applying `schema` and `migrations` on upgrade. Upgrades are
+   * aborted when neither is configured.
+   */
+  private openDatabase(config: IndexedDBLoaderConfig): Promise<IDBDatabase> {
+    const { dbName = DEFAULT_DB_NAME, version, schema, migrations } = config;
+
+    return new Promise((resolve, reject) => {
+      const request = version === undefined ? window.indexedDB.open(dbName) : window.indexedDB.open(dbName, version);
+      let failure: Error | null = null;
+
+      request.onerror = () => reject(failure || new Error(`Failed to open IndexedDB database '${dbName}'`));
+      request.onsuccess = () => resolve(request.result);
+      request.onupgradeneeded = (event) => {
+        const transaction = request.transaction!;
+
+        if (!schema && !migrations) {
+          failure = new Error(version === undefined
+            ? `IndexedDB database '${dbName}' does not exist; pass a schema to create it`
+            : `IndexedDB database '${dbName}' has no version ${version}; pass a schema or migrations to upgrade it`);
+          transaction.abort();
+          return;
+        }
+
+        try {
+          this.upgrade(request.result, transaction, event.oldVersion, config);
+        } catch (error) {
+          failure = new Error(`Failed to upgrade IndexedDB database '${dbName}': ${(error as Error).message}`);
+          transaction.abort();
+        }
+      };
+    });
+  }
+
+  private upgrade(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number, config: IndexedDBLoaderConfig): void {
+    Object.entries(config.schema || {}).forEach(([name, { keyPath, autoIncrement, indexes = {} }]) => {
+      const store = db.objectStoreNames.contains(name)
+        ? transaction.objectStore(name)
+        : db.createObjectStore(name, { keyPath: keyPath ?? null, autoIncrement: autoIncrement === true });
+
+      Object.entries(indexes).forEach(([indexName, index]) => {
+        if (!store.indexNames.contains(indexName)) {
+          store.createIndex(indexName, index.keyPath, { unique: index.unique === true, multiEntry: index.multiEntry === true });
+        }
+      });
+    });
+
+    Object.keys(config.migrations || {})
+      .map(Number)
+      .filter(version => version > oldVersion && version <= db.version)
+      .sort((a, b) => a - b)
+      .forEach(version => config.migrations![version](db, transaction));
+  }
+
+  /**
+   * Write one batch in its own readwrite transaction
+   */
+  private writeBatch(db: IDBDatabase, records: any[], config: IndexedDBLoaderConfig, clear: boolean, written: number): Promise<void> {
+    const { storeName, mode = 'put', keyPath } = config;
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([storeName], 'readwrite');
+      const store = transaction.objectStore(storeName);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onabort = () => {
+        const error = transaction.error;
+        reject(isQuotaExceeded(error)
+          ? createStorageQuotaError(`IndexedDB store '${storeName}'`, written)
+          : new Error(`Failed to write to IndexedDB store '${storeName}': ${error ? error.message : 'transaction aborted'}`));
+      };
+
+      if (clear) {
+        store.clear();
+      }
+
+      records.forEach(record => {
+        const key = store.keyPath === null && keyPath ? readKeyPath(record, keyPath) : undefined;
+        const lookup = store.keyPath === null ? key : readKeyPath(record, store.keyPath);
+
+        if (mode === 'add') {
+          store.add(record, key);
+        } else if (mode === 'upsert' && lookup !== undefined) {
+          const current = store.get(lookup);
+          current.onsuccess = () => {
+            const stored = current.result;
+            store.put(isPlainObject(stored) && isPlainObject(record) ? { ...stored, ...record } : record, key);
+          };
+        } else {
+          store.put(record, key);
+        }
+      });
+    });
+  }
+}
+
+function readKeyPath(record: any, keyPath: string | string[]): IDBValidKey | undefined {
+  if (Array.isArray(keyPath)) {
+    const keys = keyPath.map(path => readKeyPath(record, path));
+    return keys.includes(undefined) ? undefined : keys as IDBValidKey[];
+  }
+  return keyPath.split('.').reduce((current, part) => current?.[part], record);
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,112 @@
+import { ILoader, ETLContext, ETLConfigSchema } from '../types';
+import { createStorageQuotaError, isQuotaExceeded } from '../utils/quota';
+
+export type StorageWriteMode = 'put' | 'add' | 'upsert' | 'replace';
+
+export interface LocalStorageLoaderConfig {
+  /**
+   * Storage key of the data, or with `keyPath` the prefix of the record keys
+   */
+  key: string;
+
+  /**
+   * Store each record under `key` followed by the value at this path, e.g. `id` stores `user:1`
+   */
+  keyPath?: string;
+
+  /**
+   * `put` overwrites, `add` fails when a key exists, `upsert` merges into the stored objects
+   * and `replace` first removes every key starting with `key`; `put` by default
+   */
+  mode?: StorageWriteMode;
+}
+
+/**
+ * LocalStorage Loader - saves data as JSON in browser localStorage
+ */
+export class LocalStorageLoader implements ILoader {
+  readonly name = 'localStorage';
+  readonly configSchema: ETLConfigSchema = {
+    key: { type: 'string', required: true },
+    keyPath: { type: 'string' },
+    mode: { type: 'string', enum: ['put', 'add', 'upsert', 'replace'] }
+  };
+
+  async load(data: any, config: LocalStorageLoaderConfig, context: ETLContext = {}): Promise<void> {
+    const { key, keyPath, mode = 'put' } = config;
+
+    if (!key) {
+      throw new Error('Key is required for localStorage loading');
+    }
+
+    if (typeof window === 'undefined' || !window.localStorage) {
+      throw new Error('localStorage is not available in this environment');
+    }
+
+    const storage = window.localStorage;
+    const entries: [string, any][] = keyPath
+      ? (Array.isArray(data) ? data : [data]).map(record => [`${key}${this.readKey(record, keyPath)}`, record])
+      : [[key, data]];
+
+    if (mode === 'add') {
+      const existing = entries.find(([itemKey]) => storage.getItem(itemKey) !== null);
+      if (existing) {
+        throw new Error(`Key already exists in localStorage: ${existing[0]}`);
+      }
+    }
+
+    if (mode === 'replace') {
+      this.storageKeys(storage)
+        .filter(itemKey => keyPath ? itemKey.startsWith(key) : itemKey === key)
+        .forEach(itemKey => storage.removeItem(itemKey));
+    }
+
+    entries.forEach(([itemKey, value], index) => {
+      const merged = mode === 'upsert' ? this.merge(storage.getItem(itemKey), value) : value;
+
+      try {
+        storage.setItem(itemKey, JSON.stringify(merged));
+      } catch (error) {
+        throw isQuotaExceeded(error) ? createStorageQuotaError('localStorage', index) : error;
+      }
+      context.progress?.(index + 1, entries.length);
+    });
+  }
+
+  supports(config: any): boolean {
+    return config && typeof config.key === 'string';
+  }
+
+  private readKey(record: any, keyPath: string): string {
+    const value = keyPath.split('.').reduce((current, part) => current?.[part], record);
+    if (value === undefined || value === null) {
+      throw new Error(`Record has no value at key path '${keyPath}'`);
+    }
+    return String(value);
+  }
+
+  /**
+   * Shallow-merge objects into the stored value; other values replace it
+   */
+  private merge(stored: string | null, value: any): any {
+    if (stored === null || !isPlainObject(value)) {
+      return value;
+    }
+
+    try {
+      const current = JSON.parse(stored);
+      return isPlainObject(current) ? { ...current, ...value } : value;
+    } catch {
+      return value;
+    }
+  }
+
+  private storageKeys(storage: Storage): string[] {
+    return Array.from({ length: storage.length }, (_, index) => storage.key(index))
+      .filter((itemKey): itemKey is string => itemKey !== null);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,4 +1,5 @@
-import { ILoader } from '../types';
+import { ILoader, ETLContext, ETLConfigSchema } from '../types';
+import { throwIfAborted } from '../utils/abort';
 
 export interface TableLoaderConfig {
   container: string | HTMLElement;
@@ -16,6 +17,16 @@ export interface TableLoaderConfig {
  */
 export class TableLoader implements ILoader {
   readonly name = 'table';
+  readonly configSchema: ETLConfigSchema = {
+    container: { type: ['string', 'element'], required: true },
+    headers: { type: 'array' },
+    sortable: { type: 'boolean' },
+    searchable: { type: 'boolean' },
+    pagination: { type: 'boolean' },
+    pageSize: { type: 'number' },
+    className: { type: 'string' },
+    style: { type: 'object' }
+  };
 
   async load(data: any, config: TableLoaderConfig): Promise<void> {
     const {
@@ -33,16 +44,7 @@ export class TableLoader implements ILoader {
       throw new Error('Container is required for table loading');
     }
 
-    let targetContainer: HTMLElement;
-
-    if (typeof container === 'string') {
-      targetContainer = document.querySelector(container) as HTMLElement;
-      if (!targetContainer) {
-        throw new Error(`Container element '${container}' not found`);
-      }
-    } else {
-      targetContainer = container;
-    }
+    const targetContainer = this.resolveContainer(container);
 
     // Clear existing content
     targetContainer.innerHTML = '';
@@ -127,10 +129,56 @@ export class TableLoader implements ILoader {
     }
   }
 
+  /**
+   * Render the first streamed chunk, then append the rows of the following ones
+   */
+  async loadStream(chunks: AsyncIterable<any[]>, config: TableLoaderConfig, context: ETLContext = {}): Promise<void> {
+    const {
+      pagination = false,
+      pageSize = 10,
+      className = 'browser-etl-table'
+    } = config;
+    let tbody: HTMLElement | null = null;
+    let rowCount = 0;
+
+    for await (const chunk of chunks) {
+      throwIfAborted(context.signal);
+
+      if (!tbody) {
+        await this.load(chunk, { ...config, pagination: false });
+        tbody = this.resolveContainer(config.container).querySelector(`.${className} tbody`);
+      } else {
+        this.populateTableBody(tbody, chunk, rowCount);
+      }
+      rowCount += chunk.length;
+    }
+
+    if (!tbody) {
+      await this.load([], config);
+      return;
+    }
+
+    if (pagination && rowCount > pageSize) {
+      tbody.closest(`.${className}-wrapper`)?.appendChild(this.createPagination(rowCount, pageSize, className));
+    }
+  }
+
   supports(config: any): boolean {
     return config && config.container;
   }
 
+  private resolveContainer(container: string | HTMLElement): HTMLElement {
+    if (typeof container !== 'string') {
+      return container;
+    }
+
+    const element = document.querySelector(container) as HTMLElement;
+    if (!element) {
+      throw new Error(`Container element '${container}' not found`);
+    }
+    return element;
+  }
+
   private prepareTableData(data: any): any[] {
     if (Array.isArray(data)) {
       return data;
@@ -160,11 +208,11 @@ export class TableLoader implements ILoader {
     return ['Value'];
   }
 
-  private populateTableBody(tbody: HTMLElement, data: any[]): void {
+  private populateTableBody(tbody: HTMLElement, data: any[], offset = 0): void {
     data.forEach((item, index) => {
       const row = document.createElement('tr');
       row.style.cssText = `
-        background-color: ${index % 2 === 0 ? '#f9f9f9' : 'white'};
+        background-color: ${(offset + index) % 2 === 0 ? '#f9f9f9' : 'white'};
       `;
 
       if (typeof item === 'object' && item !== null) {
@@ -1,7 +1,12 @@
-import { ITransformer } from '../types';
+import { ITransformer, ETLContext, ETLConfigSchema, ETLDataShape } from '../types';
+import { throwIfAborted } from '../utils/abort';
+import { compileExpression } from '../utils/expression';
 
 export interface EnrichTransformerConfig {
-  fn: (item: any) => Promise<any>;
+  /**
+   * Async enrichment function, or an expression computing the enriched item
+   */
+  fn: ((item: any) => Promise<any>) | string;
   parallel?: boolean;
   batchSize?: number;
 }
@@ -11,19 +16,27 @@ export interface EnrichTransformerConfig {
  */
 export class EnrichTransformer implements ITransformer {
   readonly name = 'enrich';
+  readonly configSchema: ETLConfigSchema = {
+    fn: { type: ['function', 'expression'], required: true },
+    parallel: { type: 'boolean' },
+    batchSize: { type: 'number' }
+  };
 
-  async transform(data: any, config: EnrichTransformerConfig): Promise<any> {
-    const { fn, parallel = true, batchSize = 10 } = config;
+  async transform(data: any, config: EnrichTransformerConfig, context: ETLContext = {}): Promise<any> {
+    const { parallel = true, batchSize = 10 } = config;
+    const { signal, progress } = context;
 
-    if (!fn) {
+    if (!config.fn) {
       throw new Error('Enrichment function is required');
     }
 
+    const fn = typeof config.fn === 'string' ? compileExpression(config.fn) : config.fn;
+
     if (Array.isArray(data)) {
       if (parallel) {
-        return await this.enrichParallel(data, fn, batchSize);
+        return await this.enrichParallel(data, fn, batchSize, signal, progress);
       } else {
-        return await this.enrichSequential(data, fn);
+        return await this.enrichSequential(data, fn, signal, progress);
       }
     }
 
@@ -32,12 +45,13 @@ export class EnrichTransformer implements ITransformer {
       
       if (parallel) {
         const entries = Object.entries(data);
-        const enrichedEntries = await this.enrichParallel(entries, fn, batchSize);
+        const enrichedEntries = await this.enrichParallel(entries, fn, batchSize, signal, progress);
         enrichedEntries.forEach(([key, value]) => {
           enriched[key] = value;
         });
       } else {
         for (const [key, value] of Object.entries(data)) {
+          throwIfAborted(signal);
           enriched[key] = await fn({ key, value });
         }
       }
@@ -49,29 +63,53 @@ export class EnrichTransformer implements ITransformer {
     return await fn(data);
   }
 
+  async transformChunk(chunk: any[], config: EnrichTransformerConfig, context: ETLContext = {}): Promise<any[]> {
+    // Progress of streamed data is reported per chunk by the pipeline
+    return this.transform(chunk, config, context.signal ? { signal: context.signal } : {});
+  }
+
+  outputShape(input: ETLDataShape): ETLDataShape {
+    return input === 'records' || input === 'object' ? input : 'unknown';
+  }
+
   supports(config: any): boolean {
-    return config && typeof config.fn === 'function';
+    return config && (typeof config.fn === 'function' || typeof config.fn === 'string');
   }
 
-  private async enrichParallel(data: any[], fn: (item: any) => Promise<any>, batchSize: number): Promise<any[]> {
+  private async enrichParallel(
+    data: any[],
+    fn: (item: any) => Promise<any>,
+    batchSize: number,
+    signal?: AbortSignal,
+    progress?: ETLContext['progress']
+  ): Promise<any[]> {
     const results: any[] = [];
     
     for (let i = 0; i < data.length; i += batchSize) {
+      throwIfAborted(signal);
       const batch = data.slice(i, i + batchSize);
       const batchPromises = batch.map(item => fn(item));
       const batchResults = await Promise.all(batchPromises);
       results.push(...batchResults);
+      progress?.(results.length, data.length);
     }
     
     return results;
   }
 
-  private async enrichSequential(data: any[], fn: (item: any) => Promise<any>): Promise<any[]> {
+  private async enrichSequential(
+    data: any[],
+    fn: (item: any) => Promise<any>,
+    signal?: AbortSignal,
+    progress?: ETLContext['progress']
+  ): Promise<any[]> {
     const results: any[] = [];
     
     for (const item of data) {
+      throwIfAborted(signal);
       const result = await fn(item);
       results.push(result);
+      progress?.(results.length, data.length);
     }
     
     return results;
@@ -1,7 +1,11 @@
-import { ITransformer } from '../types';
+import { ITransformer, ETLConfigSchema, ETLDataShape } from '../types';
+import { compileExpression } from '../utils/expression';
 
 export interface FilterTransformerConfig {
-  fn: (item: any) => boolean;
+  /**
+   * Predicate, or an expression such as `age >= 18 && country == "FR"`
+   */
+  fn: ((item: any) => boolean) | string;
 }
 
 /**
@@ -9,14 +13,17 @@ export interface FilterTransformerConfig {
  */
 export class FilterTransformer implements ITransformer {
   readonly name = 'filter';
+  readonly configSchema: ETLConfigSchema = {
+    fn: { type: ['function', 'expression'], required: true }
+  };
 
   async transform(data: any, config: FilterTransformerConfig): Promise<any> {
-    const { fn } = config;
-
-    if (!fn) {
+    if (!config.fn) {
       throw new Error('Filter function is required');
     }
 
+    const fn = typeof config.fn === 'string' ? compileExpression<boolean>(config.fn) : config.fn;
+
     if (Array.isArray(data)) {
       return data.filter(fn);
     }
@@ -35,7 +42,15 @@ export class FilterTransformer implements ITransformer {
     return fn(data) ? data : null;
   }
 
+  async transformChunk(chunk: any[], config: FilterTransformerConfig): Promise<any[]> {
+    return this.transform(chunk, config);
+  }
+
+  outputShape(input: ETLDataShape): ETLDataShape {
+    return input;
+  }
+
   supports(config: any): boolean {
-    return config && typeof config.fn === 'function';
+    return config && (typeof config.fn === 'function' || typeof config.fn === 'string');
   }
 }
\ No newline at end of file
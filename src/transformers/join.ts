@@ -1,11 +1,13 @@
-import { ITransformer } from '../types';
+import { ITransformer, ETLContext, ETLConfigSchema, ETLDataShape } from '../types';
 
 export interface JoinTransformerConfig {
   key: string;
   mode: 'nested' | 'parallel';
-  type: 'api' | 'data';
+  type: 'api' | 'data' | 'inputs';
   url?: string;
   data?: any;
+  left?: string;
+  right?: string;
   options?: RequestInit;
   joinFn?: (left: any, right: any) => any;
 }
@@ -15,41 +17,61 @@ export interface JoinTransformerConfig {
  */
 export class JoinTransformer implements ITransformer {
   readonly name = 'join';
-
-  async transform(data: any, config: JoinTransformerConfig): Promise<any> {
-    const { key, mode, type, url, data: joinData, options, joinFn } = config;
+  readonly configSchema: ETLConfigSchema = {
+    key: { type: 'string', required: true },
+    mode: { type: 'string', enum: ['nested', 'parallel'] },
+    type: { type: 'string', required: true, enum: ['api', 'data', 'inputs'] },
+    url: { type: 'string' },
+    left: { type: 'string' },
+    right: { type: 'string' },
+    options: { type: 'object' },
+    joinFn: { type: 'function' }
+  };
+  readonly accepts: ETLDataShape[] = ['records', 'object'];
+
+  async transform(data: any, config: JoinTransformerConfig, context: ETLContext = {}): Promise<any> {
+    const { key, mode, type, url, data: joinData, left, right, options, joinFn } = config;
 
     if (!key) {
       throw new Error('Join key is required');
     }
 
+    let leftData: any = data;
     let rightData: any;
 
     if (type === 'api' && url) {
-      rightData = await this.fetchJoinData(url, options);
+      rightData = await this.fetchJoinData(url, options, context.signal);
     } else if (type === 'data' && joinData) {
       rightData = joinData;
+    } else if (type === 'inputs' && left && right && data && typeof data === 'object') {
+      // Multi-input steps receive an object keyed by input step id
+      leftData = data[left];
+      rightData = data[right];
     } else {
       throw new Error('Invalid join configuration');
     }
 
     if (mode === 'nested') {
-      return this.nestedJoin(data, rightData, key, joinFn);
+      return this.nestedJoin(leftData, rightData, key, joinFn);
     } else {
-      return this.parallelJoin(data, rightData, key, joinFn);
+      return this.parallelJoin(leftData, rightData, key, joinFn);
     }
   }
 
+  outputShape(): ETLDataShape {
+    return 'records';
+  }
+
   supports(config: any): boolean {
     return config && 
            config.key && 
            config.mode && 
            config.type && 
-           (config.url || config.data);
+           (config.url || config.data || (config.left && config.right));
   }
 
-  private async fetchJoinData(url: string, options?: RequestInit): Promise<any> {
-    const response = await fetch(url, options);
+  private async fetchJoinData(url: string, options?: RequestInit, signal?: AbortSignal): Promise<any> {
+    const response = await fetch(url, signal ? { ...options, signal } : options);
     if (!response.ok) {
       throw new Error(`Failed to fetch join data: ${response.statusText}`);
     }
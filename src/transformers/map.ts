@@ -1,7 +1,11 @@
-import { ITransformer } from '../types';
+import { ITransformer, ETLConfigSchema, ETLDataShape } from '../types';
+import { compileExpression } from '../utils/expression';
 
 export interface MapTransformerConfig {
-  fn: (item: any) => any;
+  /**
+   * Mapping function, or an expression such as `{ name: upper(name), adult: age >= 18 }`
+   */
+  fn: ((item: any) => any) | string;
 }
 
 /**
@@ -9,14 +13,17 @@ export interface MapTransformerConfig {
  */
 export class MapTransformer implements ITransformer {
   readonly name = 'map';
+  readonly configSchema: ETLConfigSchema = {
+    fn: { type: ['function', 'expression'], required: true }
+  };
 
   async transform(data: any, config: MapTransformerConfig): Promise<any> {
-    const { fn } = config;
-
-    if (!fn) {
+    if (!config.fn) {
       throw new Error('Map function is required');
     }
 
+    const fn = typeof config.fn === 'string' ? compileExpression(config.fn) : config.fn;
+
     if (Array.isArray(data)) {
       return data.map(fn);
     }
@@ -38,7 +45,15 @@ export class MapTransformer implements ITransformer {
     return fn(data);
   }
 
+  async transformChunk(chunk: any[], config: MapTransformerConfig): Promise<any[]> {
+    return this.transform(chunk, config);
+  }
+
+  outputShape(input: ETLDataShape): ETLDataShape {
+    return input === 'records' ? 'records' : 'unknown';
+  }
+
   supports(config: any): boolean {
-    return config && typeof config.fn === 'function';
+    return config && (typeof config.fn === 'function' || typeof config.fn === 'string');
   }
 }
\ No newline at end of file
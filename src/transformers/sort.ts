@@ -0,0 +1,88 @@
+import { ITransformer, ETLConfigSchema, ETLDataShape } from '../types';
+import { compileExpression } from '../utils/expression';
+
+export type SortKeyFunction = (item: any) => any;
+
+export interface SortKey {
+  /**
+   * Function or expression computing the value to sort on, e.g. `lower(lastName)`
+   */
+  by: SortKeyFunction | string;
+  order?: 'asc' | 'desc';
+}
+
+export interface SortTransformerConfig {
+  /**
+   * Sort key, or several keys compared in turn
+   */
+  by: SortKeyFunction | string | Array<SortKeyFunction | string | SortKey>;
+
+  /**
+   * Order of keys that do not set their own, `asc` by default
+   */
+  order?: 'asc' | 'desc';
+}
+
+/**
+ * Sort Transformer - sorts records by one or more keys. Missing values sort last
+ * and records with equal keys keep their order.
+ */
+export class SortTransformer implements ITransformer {
+  readonly name = 'sort';
+  readonly configSchema: ETLConfigSchema = {
+    by: { type: ['function', 'expression', 'array', 'object'], required: true },
+    order: { type: 'string', enum: ['asc', 'desc'] }
+  };
+  readonly accepts: ETLDataShape[] = ['records'];
+
+  async transform(data: any, config: SortTransformerConfig): Promise<any> {
+    if (!config.by) {
+      throw new Error('Sort key is required');
+    }
+
+    if (!Array.isArray(data)) {
+      return data;
+    }
+
+    const keys = (Array.isArray(config.by) ? config.by : [config.by]).map(key => {
+      const { by, order = config.order || 'asc' } = typeof key === 'object' ? key : { by: key };
+      return { value: typeof by === 'string' ? compileExpression(by) : by, direction: order === 'desc' ? -1 : 1 };
+    });
+
+    return data
+      .map(item => ({ item, values: keys.map(key => key.value(item)) }))
+      .sort((a, b) => {
+        for (let index = 0; index < keys.length; index++) {
+          const result = compareValues(a.values[index], b.values[index], keys[index].direction);
+          if (result !== 0) {
+            return result;
+          }
+        }
+        return 0;
+      })
+      .map(entry => entry.item);
+  }
+
+  outputShape(input: ETLDataShape): ETLDataShape {
+    return input;
+  }
+
+  supports(config: any): boolean {
+    return config && config.by !== undefined && config.by !== null;
+  }
+}
+
+function compareValues(a: any, b: any, direction: number): number {
+  const aMissing = a === null || a === undefined;
+  const bMissing = b === null || b === undefined;
+  if (aMissing || bMissing) {
+    return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+  }
+
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left.localeCompare(right) * direction;
+  }
+  return (left < right ? -1 : left > right ? 1 : 0) * direction;
+}
@@ -2,13 +2,30 @@
  * Core types for Browser ETL library
  */
 
+/**
+ * Record type of a dataset: the element type of arrays, the type itself otherwise
+ */
+export type ETLRecord<T> = T extends readonly (infer R)[] ? R : T;
+
 export interface IExtractor<T = any> {
   /**
    * Extract data from a source
    * @param config Configuration for the extraction
+   * @param context Run context, including the abort signal
    * @returns Promise resolving to extracted data
    */
-  extract(config?: any): Promise<T>;
+  extract(config?: any, context?: ETLContext): Promise<T>;
+  
+  /**
+   * Extract data as a stream of record chunks.
+   * Used instead of extract() when streaming is enabled.
+   */
+  stream?(config?: any, context?: ETLContext): AsyncIterable<ETLRecord<T>[]> | ReadableStream<ETLRecord<T>[]>;
+  
+  /**
+   * Check whether stream() should be used for the given config; assumed when omitted
+   */
+  canStream?(config?: any): boolean;
   
   /**
    * Get the name of this extractor
@@ -19,6 +36,16 @@ export interface IExtractor<T = any> {
    * Check if this extractor supports the given configuration
    */
   supports(config: any): boolean;
+  
+  /**
+   * Schema of the step config, checked by ETLPipeline.validate()
+   */
+  readonly configSchema?: ETLConfigSchema;
+  
+  /**
+   * Shape of the data extracted with the given config
+   */
+  outputShape?(config?: any): ETLDataShape;
 }
 
 export interface ITransformer<TInput = any, TOutput = any> {
@@ -26,9 +53,16 @@ export interface ITransformer<TInput = any, TOutput = any> {
    * Transform input data
    * @param data Input data to transform
    * @param config Configuration for the transformation
+   * @param context Run context, including the abort signal
    * @returns Promise resolving to transformed data
    */
-  transform(data: TInput, config?: any): Promise<TOutput>;
+  transform(data: TInput, config?: any, context?: ETLContext): Promise<TOutput>;
+  
+  /**
+   * Transform a chunk of records independently of the others.
+   * Implemented by row-wise transformers so streamed data never has to be materialized.
+   */
+  transformChunk?(chunk: ETLRecord<TInput>[], config?: any, context?: ETLContext): Promise<ETLRecord<TOutput>[]>;
   
   /**
    * Get the name of this transformer
@@ -39,6 +73,21 @@ export interface ITransformer<TInput = any, TOutput = any> {
    * Check if this transformer supports the given configuration
    */
   supports(config: any): boolean;
+  
+  /**
+   * Schema of the step config, checked by ETLPipeline.validate()
+   */
+  readonly configSchema?: ETLConfigSchema;
+  
+  /**
+   * Input shapes this transformer can handle; any shape when omitted
+   */
+  readonly accepts?: ETLDataShape[];
+  
+  /**
+   * Shape of the data produced from an input of the given shape
+   */
+  outputShape?(input: ETLDataShape, config?: any): ETLDataShape;
 }
 
 export interface ILoader<T = any> {
@@ -46,9 +95,15 @@ export interface ILoader<T = any> {
    * Load data to a destination
    * @param data Data to load
    * @param config Configuration for the loading
+   * @param context Run context, including the abort signal
    * @returns Promise resolving when loading is complete
    */
-  load(data: T, config?: any): Promise<void | any>;
+  load(data: T, config?: any, context?: ETLContext): Promise<void | any>;
+  
+  /**
+   * Load a stream of record chunks incrementally
+   */
+  loadStream?(chunks: AsyncIterable<ETLRecord<T>[]>, config?: any, context?: ETLContext): Promise<void | any>;
   
   /**
    * Get the name of this loader
@@ -59,6 +114,251 @@ export interface ILoader<T = any> {
    * Check if this loader supports the given configuration
    */
   supports(config: any): boolean;
+  
+  /**
+   * Schema of the step config, checked by ETLPipeline.validate()
+   */
+  readonly configSchema?: ETLConfigSchema;
+  
+  /**
+   * Input shapes this loader can handle; any shape when omitted
+   */
+  readonly accepts?: ETLDataShape[];
+}
+
+/**
+ * Coarse shape of the data flowing between steps, used to lint pipelines
+ */
+export type ETLDataShape = 'records' | 'object' | 'text' | 'binary' | 'unknown';
+
+/**
+ * `expression` is a string that must parse as an expression, see compileExpression()
+ */
+export type ETLConfigFieldType = 'string' | 'number' | 'boolean' | 'function' | 'object' | 'array' | 'element' | 'file' | 'expression';
+
+export interface ETLConfigField {
+  /**
+   * Accepted value types
+   */
+  type: ETLConfigFieldType | ETLConfigFieldType[];
+  
+  /**
+   * Whether the field must be present
+   */
+  required?: boolean;
+  
+  /**
+   * Allowed values
+   */
+  enum?: readonly any[];
+}
+
+/**
+ * Describes the config fields a component reads, keyed by field name
+ */
+export type ETLConfigSchema = Record<string, ETLConfigField>;
+
+export interface ETLDiagnostic {
+  /**
+   * Errors make the run fail; warnings point at likely mistakes
+   */
+  severity: 'error' | 'warning';
+  
+  /**
+   * Machine-readable diagnostic code, e.g. `unknown-component`
+   */
+  code: string;
+  
+  /**
+   * Human-readable description
+   */
+  message: string;
+  
+  /**
+   * Id of the step the diagnostic refers to
+   */
+  stepId?: string;
+  
+  /**
+   * Path of the offending value within the step, e.g. `config.key`
+   */
+  path?: string;
+}
+
+export interface ETLValidationResult {
+  /**
+   * Whether no errors were found
+   */
+  valid: boolean;
+  
+  /**
+   * Errors and warnings in step order
+   */
+  diagnostics: ETLDiagnostic[];
+}
+
+export interface ETLContext {
+  /**
+   * Signal aborted when the run is cancelled
+   */
+  signal?: AbortSignal;
+  
+  /**
+   * Signal aborted when a live run is stopped; live sources end their streams gracefully
+   */
+  stopSignal?: AbortSignal;
+  
+  /**
+   * Report progress of the current step, in items unless another unit is given
+   */
+  progress?: (processed: number, total?: number, unit?: ETLProgressUnit) => void;
+  
+  /**
+   * Report a retry of the current step
+   */
+  retry?: (attempt: number, delay: number, error: Error) => void;
+  
+  /**
+   * Set when the pipeline retries the step itself; components then do not retry on their own
+   */
+  retried?: boolean;
+  
+  /**
+   * Preferred number of records per chunk when streaming
+   */
+  batchSize?: number;
+}
+
+export interface ETLStepStartEvent {
+  /**
+   * Step identifier
+   */
+  stepId: string;
+  
+  /**
+   * Component name
+   */
+  name: string;
+  
+  /**
+   * Step type
+   */
+  type: ETLStep['type'];
+}
+
+export interface ETLStepEndEvent extends ETLStepStartEvent {
+  /**
+   * Execution duration in milliseconds
+   */
+  duration: number;
+  
+  /**
+   * Whether the step succeeded
+   */
+  success: boolean;
+  
+  /**
+   * Error if the step failed
+   */
+  error?: Error;
+}
+
+export interface ETLProgressEvent {
+  /**
+   * Step reporting progress; absent for overall run progress
+   */
+  stepId?: string;
+  
+  /**
+   * Number of items (or steps, for the run) processed so far
+   */
+  processed: number;
+  
+  /**
+   * Total number of items, when known
+   */
+  total?: number;
+  
+  /**
+   * Unit of `processed` and `total` when they do not count items, e.g. bytes of a file read
+   */
+  unit?: ETLProgressUnit;
+}
+
+export type ETLProgressUnit = 'items' | 'bytes';
+
+export interface ETLRetryEvent {
+  /**
+   * Step being retried
+   */
+  stepId?: string;
+  
+  /**
+   * Retry attempt number, starting at 1
+   */
+  attempt: number;
+  
+  /**
+   * Delay before the retry in milliseconds
+   */
+  delay: number;
+  
+  /**
+   * Error that caused the retry
+   */
+  error: Error;
+}
+
+export interface ETLErrorEvent {
+  /**
+   * Step that failed
+   */
+  stepId?: string;
+  
+  /**
+   * Error raised by the step
+   */
+  error: Error;
+}
+
+export interface ETLEvents {
+  stepStart: ETLStepStartEvent;
+  stepEnd: ETLStepEndEvent;
+  progress: ETLProgressEvent;
+  retry: ETLRetryEvent;
+  error: ETLErrorEvent;
+}
+
+export interface ETLRunOptions {
+  /**
+   * Signal used to cancel the run
+   */
+  signal?: AbortSignal;
+  
+  /**
+   * Run extract and transform steps in a Web Worker: `true` starts one from
+   * `workerUrl` for this run, a Worker instance is reused and left running.
+   * Load steps always run on the main thread.
+   */
+  worker?: boolean | Worker;
+  
+  /**
+   * Ids of steps whose outputs are returned in `result.outputs`
+   */
+  outputs?: string[];
+}
+
+export interface ETLLiveRun {
+  /**
+   * Settles once the run is stopped, fails or its sources end
+   */
+  result: Promise<ETLResult>;
+  
+  /**
+   * Stop the run: live sources end their streams and downstream steps
+   * finish with the messages already received
+   */
+  stop(): Promise<ETLResult>;
 }
 
 export interface IPlugin {
@@ -130,7 +430,7 @@ export interface ETLConfig {
   batchSize?: number;
   
   /**
-   * Enable error recovery
+   * Enable error recovery: retry extract steps that have no retry policy of their own
    */
   enableErrorRecovery?: boolean;
   
@@ -138,6 +438,11 @@ export interface ETLConfig {
    * Maximum number of retry attempts
    */
   maxRetries?: number;
+  
+  /**
+   * URL of the worker script used by `run({ worker: true })`
+   */
+  workerUrl?: string | URL;
 }
 
 export interface ETLStep {
@@ -160,6 +465,161 @@ export interface ETLStep {
    * Whether this step is optional
    */
   optional?: boolean;
+  
+  /**
+   * Unique step identifier, used to reference this step as an input
+   */
+  id?: string;
+  
+  /**
+   * Ids of the steps whose output feeds this step.
+   * Defaults to the previous step for transforms and loads, and to none for extracts.
+   */
+  inputs?: string[];
+  
+  /**
+   * Whether to cache this extract step, overriding `enableCache`
+   */
+  cache?: boolean;
+  
+  /**
+   * Cache duration for this extract step in milliseconds, overriding `cacheDuration`; 0 skips storing the result
+   */
+  cacheTtl?: number;
+  
+  /**
+   * Retry policy for this step, overriding `enableErrorRecovery` and `maxRetries`
+   */
+  retry?: ETLRetryPolicy;
+  
+  /**
+   * Timeout for each attempt of this step in milliseconds
+   */
+  timeout?: number;
+}
+
+export interface ETLRetryPolicy {
+  /**
+   * Total number of attempts, including the first one
+   */
+  attempts?: number;
+  
+  /**
+   * Delay before the first retry in milliseconds
+   */
+  delay?: number;
+  
+  /**
+   * Exponential backoff multiplier
+   */
+  backoffMultiplier?: number;
+  
+  /**
+   * Maximum delay between attempts in milliseconds
+   */
+  maxDelay?: number;
+  
+  /**
+   * Decide whether an error is worth retrying.
+   * Defaults to `ErrorRecovery.isRecoverableError`.
+   */
+  retryIf?: (error: Error) => boolean;
+}
+
+export interface ETLStepOptions {
+  /**
+   * Unique step identifier
+   */
+  id?: string;
+  
+  /**
+   * Ids of the steps whose output feeds this step
+   */
+  inputs?: string[];
+  
+  /**
+   * Whether this step is optional
+   */
+  optional?: boolean;
+  
+  /**
+   * Whether to cache this extract step
+   */
+  cache?: boolean;
+  
+  /**
+   * Cache duration for this extract step in milliseconds
+   */
+  cacheTtl?: number;
+  
+  /**
+   * Retry policy for this step
+   */
+  retry?: ETLRetryPolicy;
+  
+  /**
+   * Timeout for each attempt of this step in milliseconds
+   */
+  timeout?: number;
+}
+
+export interface ETLStepResult {
+  /**
+   * Step identifier
+   */
+  id: string;
+  
+  /**
+   * Component name
+   */
+  name: string;
+  
+  /**
+   * Ids of the steps this step consumed
+   */
+  inputs: string[];
+  
+  /**
+   * Execution duration in milliseconds
+   */
+  duration: number;
+  
+  /**
+   * Whether the step succeeded
+   */
+  success: boolean;
+  
+  /**
+   * Error message if the step failed
+   */
+  error?: string;
+  
+  /**
+   * Every attempt made to run the step
+   */
+  attempts: ETLStepAttempt[];
+}
+
+export interface ETLStepAttempt {
+  /**
+   * Attempt number, starting at 1
+   */
+  attempt: number;
+  
+  /**
+   * Attempt duration in milliseconds
+   */
+  duration: number;
+  
+  /**
+   * Whether the attempt succeeded
+   */
+  success: boolean;
+  
+  /**
+   * Error message if the attempt failed
+   */
+  error?: string;
 }
 
 export interface ETLPipeline {
@@ -179,6 +639,87 @@ export interface ETLPipeline {
   name: string;
 }
 
+export interface ETLFunctionReference {
+  /**
+   * Name of a function in the pipeline's function registry
+   */
+  $fn: string;
+}
+
+export interface ETLStepSpec {
+  /**
+   * Step type
+   */
+  type: ETLStep['type'];
+  
+  /**
+   * Component name
+   */
+  name: string;
+  
+  /**
+   * Step configuration; functions are replaced by registry references
+   */
+  config?: Record<string, any>;
+  
+  /**
+   * Unique step identifier
+   */
+  id?: string;
+  
+  /**
+   * Ids of the steps whose output feeds this step
+   */
+  inputs?: string[];
+  
+  /**
+   * Whether this step is optional
+   */
+  optional?: boolean;
+  
+  /**
+   * Whether to cache this extract step
+   */
+  cache?: boolean;
+  
+  /**
+   * Cache duration for this extract step in milliseconds
+   */
+  cacheTtl?: number;
+  
+  /**
+   * Retry policy; a `retryIf` function is replaced by a registry reference
+   */
+  retry?: Record<string, any>;
+  
+  /**
+   * Timeout for each attempt of this step in milliseconds
+   */
+  timeout?: number;
+}
+
+export interface ETLPipelineSpec {
+  /**
+   * Spec format version
+   */
+  version: number;
+  
+  /**
+   * Pipeline name
+   */
+  name?: string;
+  
+  /**
+   * Pipeline configuration
+   */
+  config?: ETLConfig;
+  
+  /**
+   * Pipeline steps
+   */
+  steps: ETLStepSpec[];
+}
+
 export interface ETLResult<T = any> {
   /**
    * Result data
@@ -190,12 +731,7 @@ export interface ETLResult<T = any> {
    */
   metadata: {
     duration: number;
-    steps: Array<{
-      name: string;
-      duration: number;
-      success: boolean;
-      error?: string;
-    }>;
+    steps: ETLStepResult[];
     cacheHits: number;
     cacheMisses: number;
   };
@@ -205,6 +741,16 @@ export interface ETLResult<T = any> {
    */
   success: boolean;
   
+  /**
+   * Whether the run was cancelled through its abort signal
+   */
+  aborted?: boolean;
+  
+  /**
+   * Outputs of the steps requested with the `outputs` run option, keyed by step id
+   */
+  outputs?: Record<string, any>;
+  
   /**
    * Error if any occurred
    */
@@ -255,6 +801,28 @@ export interface CacheEntry<T = any> {
   ttl: number;
 }
 
+export interface CacheBackend {
+  /**
+   * Get a cached value, or null if missing or expired
+   */
+  get<T = any>(key: string): T | null | Promise<T | null>;
+  
+  /**
+   * Cache a value for the given time to live in milliseconds
+   */
+  set<T = any>(key: string, data: T, ttl?: number): void | Promise<void>;
+  
+  /**
+   * Delete a cached value, resolving to whether it existed
+   */
+  delete(key: string): boolean | Promise<boolean>;
+  
+  /**
+   * Delete all cached values
+   */
+  clear(): void | Promise<void>;
+}
+
 export interface StreamConfig {
   /**
    * Enable streaming
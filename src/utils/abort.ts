@@ -0,0 +1,165 @@
+/**
+ * Abort utilities for Browser ETL
+ */
+
+/**
+ * Create the error thrown when an operation is aborted
+ */
+export function createAbortError(signal?: AbortSignal): Error {
+  if (signal && signal.reason instanceof Error) {
+    return signal.reason;
+  }
+
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Create the error thrown when an operation exceeds its timeout
+ */
+export function createTimeoutError(timeout: number): Error {
+  const error = new Error(`Operation timed out after ${timeout}ms`);
+  error.name = 'TimeoutError';
+  return error;
+}
+
+/**
+ * Check if an error was caused by an abort
+ */
+export function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as Error).name === 'AbortError';
+}
+
+/**
+ * Throw an abort error if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal && signal.aborted) {
+    throw createAbortError(signal);
+  }
+}
+
+/**
+ * Wait for the given duration, rejecting early if the signal is aborted
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal && signal.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(createAbortError(signal));
+    };
+
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Settle with the promise, or reject with an abort error as soon as the signal is aborted
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal, onAbort?: () => void): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      onAbort?.();
+      reject(createAbortError(signal));
+    };
+
+    if (signal.aborted) {
+      abort();
+      return;
+    }
+
+    signal.addEventListener('abort', abort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', abort));
+  });
+}
+
+/**
+ * Run an operation with its own signal, aborted when the parent signal aborts
+ * or with a timeout error once the timeout elapses
+ */
+export function withTimeout<T>(
+  operation: (signal?: AbortSignal) => Promise<T>,
+  timeout?: number,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!timeout) {
+    return operation(signal);
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(createAbortError(signal));
+  const timeoutId = setTimeout(() => controller.abort(createTimeoutError(timeout)), timeout);
+
+  if (signal && signal.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return raceAbort(operation(controller.signal), controller.signal).finally(() => {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  });
+}
+
+/**
+ * Read a stream with its own signal, like withTimeout(). The signal stays linked to the
+ * parent signal, and the timeout keeps running, until the stream ends or is cancelled.
+ */
+export async function* withStreamTimeout<T>(
+  source: (signal?: AbortSignal) => AsyncIterable<T>,
+  timeout?: number,
+  signal?: AbortSignal
+): AsyncGenerator<T> {
+  if (!timeout) {
+    yield* source(signal);
+    return;
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(createAbortError(signal));
+  const timeoutId = setTimeout(() => controller.abort(createTimeoutError(timeout)), timeout);
+
+  if (signal && signal.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const iterator = source(controller.signal)[Symbol.asyncIterator]();
+  let done = false;
+
+  try {
+    while (!done) {
+      const next = await raceAbort(iterator.next(), controller.signal);
+      done = Boolean(next.done);
+      if (!done) {
+        yield next.value;
+      }
+    }
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+    if (!done) {
+      // Not awaited: a source stuck on a pending read would never settle
+      iterator.return?.()?.catch(() => undefined);
+    }
+  }
+}
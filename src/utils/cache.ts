@@ -1,9 +1,9 @@
-import { CacheEntry } from '../types';
+import { CacheBackend, CacheEntry } from '../types';
 
 /**
- * Cache utility for Browser ETL
+ * Cache utility for Browser ETL - in-memory cache backend
  */
-export class Cache {
+export class Cache implements CacheBackend {
   private storage: Map<string, CacheEntry> = new Map();
   private defaultTTL: number = 300000; // 5 minutes
 
@@ -0,0 +1,80 @@
+/**
+ * gzip and deflate through the native CompressionStream and DecompressionStream
+ */
+
+/**
+ * Formats read transparently by the extractors
+ */
+export type InputCompression = 'gzip' | 'deflate';
+
+const EXTENSIONS: Record<string, InputCompression> = {
+  gz: 'gzip',
+  gzip: 'gzip',
+  deflate: 'deflate',
+  zz: 'deflate'
+};
+
+const GZIP_TYPES = /^application\/(x-)?gzip\b/i;
+
+/**
+ * Compression of a file or URL path, from its extension, e.g. `users.csv.gz`
+ */
+export function compressionFromName(name: string): InputCompression | null {
+  const extension = name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+  return name.includes('.') ? EXTENSIONS[extension] || null : null;
+}
+
+/**
+ * Compression of a body from its MIME type, e.g. `application/gzip`
+ */
+export function compressionFromType(type: string | null | undefined): InputCompression | null {
+  return type && GZIP_TYPES.test(type) ? 'gzip' : null;
+}
+
+/**
+ * Drop the compression extension from a name, e.g. `users.csv.gz` becomes `users.csv`
+ */
+export function stripCompressionExtension(name: string): string {
+  return compressionFromName(name) ? name.slice(0, name.lastIndexOf('.')) : name;
+}
+
+/**
+ * Decompress a byte stream as it is read
+ */
+export function decompressStream(stream: ReadableStream<Uint8Array>, format: CompressionFormat): ReadableStream<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('DecompressionStream is not available in this environment');
+  }
+  return stream.pipeThrough(new DecompressionStream(format) as ReadableWritablePair<Uint8Array, Uint8Array>);
+}
+
+/**
+ * Compress a byte stream as it is read
+ */
+export function compressStream(stream: ReadableStream<Uint8Array>, format: CompressionFormat): ReadableStream<Uint8Array> {
+  if (typeof CompressionStream === 'undefined') {
+    throw new Error('CompressionStream is not available in this environment');
+  }
+  return stream.pipeThrough(new CompressionStream(format) as ReadableWritablePair<Uint8Array, Uint8Array>);
+}
+
+export async function decompressBytes(bytes: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
+  return readBytes(decompressStream(toStream(bytes), format));
+}
+
+export async function compressBytes(bytes: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
+  return readBytes(compressStream(toStream(bytes), format));
+}
+
+function toStream(bytes: Uint8Array): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes);
+      controller.close();
+    }
+  });
+}
+
+async function readBytes(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(stream as ReadableStream<BufferSource>).arrayBuffer());
+}
@@ -0,0 +1,84 @@
+import { ETLConfigFieldType, ETLConfigSchema } from '../types';
+import { parseExpression } from './expression';
+
+export interface ConfigIssue {
+  /**
+   * Name of the offending field
+   */
+  field: string;
+  message: string;
+}
+
+/**
+ * Check a step config against a component's schema. Fields missing from the schema are ignored.
+ */
+export function validateConfig(config: any, schema: ETLConfigSchema): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const values = config && typeof config === 'object' ? config : {};
+
+  Object.entries(schema).forEach(([field, rule]) => {
+    const value = values[field];
+
+    if (value === undefined || value === null) {
+      if (rule.required) {
+        issues.push({ field, message: `'${field}' is required` });
+      }
+      return;
+    }
+
+    const types = Array.isArray(rule.type) ? rule.type : [rule.type];
+    if (!types.some(type => matchesType(value, type))) {
+      issues.push({ field, message: `'${field}' must be ${describeTypes(types)}, got ${describeValue(value)}` });
+      return;
+    }
+
+    if (typeof value === 'string' && types.includes('expression') && !types.includes('string')) {
+      try {
+        parseExpression(value);
+      } catch (error) {
+        issues.push({ field, message: `'${field}' is not a valid expression: ${(error as Error).message}` });
+        return;
+      }
+    }
+
+    if (rule.enum && !rule.enum.includes(value)) {
+      issues.push({
+        field,
+        message: `'${field}' must be one of ${rule.enum.map(item => JSON.stringify(item)).join(', ')}`
+      });
+    }
+  });
+
+  return issues;
+}
+
+function matchesType(value: any, type: ETLConfigFieldType): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value);
+    case 'element':
+      return typeof Element !== 'undefined' && value instanceof Element;
+    case 'file':
+      return typeof Blob !== 'undefined' && value instanceof Blob;
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    case 'expression':
+      return typeof value === 'string';
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeTypes(types: ETLConfigFieldType[]): string {
+  const names = types.map(type => (['array', 'object', 'element', 'expression'].includes(type) ? `an ${type}` : `a ${type}`));
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}` : names[0];
+}
+
+function describeValue(value: any): string {
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  return typeof value;
+}
@@ -4,95 +4,379 @@
 
 export interface CSVParserOptions {
   header?: boolean;
+
+  /**
+   * Field delimiter, `,` by default; `auto` detects `,`, tab, `;` or `|` from the first lines
+   */
   delimiter?: string;
+
+  /**
+   * Quote character, `"` by default
+   */
+  quote?: string;
+
+  /**
+   * Character escaping the next one inside quoted fields, e.g. `\`. Doubled quotes are always accepted.
+   */
+  escape?: string;
+
+  /**
+   * Lines starting with this character are skipped, e.g. `#`
+   */
+  comment?: string;
   skipEmptyLines?: boolean;
+
+  /**
+   * Convert numbers, booleans, `null`, empty fields (to `null`) and ISO 8601 dates
+   */
+  dynamicTyping?: boolean;
+
+  /**
+   * Called for each malformed row. Without it, the lines of malformed rows are logged.
+   */
+  onError?: (error: CSVRowError) => void;
+
+  /**
+   * Throw on the first malformed row instead of reading it as well as possible
+   */
+  strict?: boolean;
   transform?: (row: any) => any;
 }
 
+export interface CSVRowError {
+  /**
+   * 1-based line the row starts on
+   */
+  line: number;
+  type: 'UnclosedQuote' | 'InvalidQuote' | 'FieldCount';
+  message: string;
+}
+
+type ParserState = 'fieldStart' | 'unquoted' | 'quoted' | 'escaped' | 'quoteInQuoted' | 'comment';
+
+const DELIMITER_CANDIDATES = [',', '\t', ';', '|'];
+const DETECTION_SAMPLE_LINES = 10;
+const DETECTION_SAMPLE_SIZE = 64 * 1024;
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][-+]?\d+)?$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
 /**
  * Parse CSV string into array of objects or arrays
  */
 export function parseCSV(csvString: string, options: CSVParserOptions = {}): any[] {
-  const {
-    header = true,
-    delimiter = ',',
-    skipEmptyLines = true,
-    transform
-  } = options;
-
-  const lines = csvString.split('\n');
-  const rows: any[] = [];
-
-  let headers: string[] = [];
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
-    
-    if (skipEmptyLines && !line) {
-      continue;
+  const parser = new CSVParser(options);
+  return parser.push(csvString).concat(parser.flush());
+}
+
+/**
+ * Incremental RFC 4180 parser. Text can be pushed in pieces of any size; fields and
+ * rows spanning pieces are completed when the following pieces arrive.
+ */
+export class CSVParser {
+  private delimiter: string | null;
+  private readonly quote: string;
+  private readonly escape: string;
+  private state: ParserState = 'fieldStart';
+  private field = '';
+  private row: string[] = [];
+  private rowStarted = false;
+  private rowLine = 1;
+  private line = 1;
+  private previous = '';
+  private headers: string[] | null = null;
+  private sample = '';
+  private started = false;
+  private output: any[] = [];
+  private malformed: CSVRowError[] = [];
+
+  constructor(private readonly options: CSVParserOptions = {}) {
+    const { delimiter = ',', quote = '"', escape = quote } = options;
+
+    if (delimiter !== 'auto' && delimiter.length !== 1) {
+      throw new Error(`CSV delimiter must be a single character or 'auto', got '${delimiter}'`);
+    }
+    if (quote.length !== 1 || escape.length !== 1) {
+      throw new Error('CSV quote and escape must be single characters');
     }
 
-    const values = parseCSVLine(line, delimiter);
+    this.delimiter = delimiter === 'auto' ? null : delimiter;
+    this.quote = quote;
+    this.escape = escape;
+  }
 
-    if (i === 0 && header) {
-      headers = values;
-      continue;
+  /**
+   * Malformed rows found so far
+   */
+  get errors(): CSVRowError[] {
+    return this.malformed;
+  }
+
+  /**
+   * Parse the next piece of text and return the rows it completes
+   */
+  push(text: string): any[] {
+    if (!this.started) {
+      this.started = true;
+      text = text.replace(/^\uFEFF/, '');
     }
 
-    let row: any;
+    if (this.delimiter === null) {
+      this.sample += text;
+      if (countLineBreaks(this.sample) < DETECTION_SAMPLE_LINES && this.sample.length < DETECTION_SAMPLE_SIZE) {
+        return [];
+      }
+      text = this.detect();
+    }
+
+    this.parse(text);
+    return this.take();
+  }
+
+  /**
+   * Complete the last row at the end of the input and return the remaining rows
+   */
+  flush(): any[] {
+    if (this.delimiter === null) {
+      this.parse(this.detect());
+    }
+
+    if (this.state === 'quoted' || this.state === 'escaped') {
+      this.report('UnclosedQuote', 'Quoted field is not closed');
+    }
+    if (this.state !== 'comment' && (this.rowStarted || this.row.length > 0)) {
+      this.endRow();
+    }
+
+    if (this.malformed.length > 0 && !this.options.onError) {
+      console.warn(`Found ${this.malformed.length} malformed CSV row(s) on line(s):`, this.malformed.map(error => error.line));
+    }
+    return this.take();
+  }
+
+  private parse(text: string): void {
+    const { delimiter, quote, escape } = this;
+    const comment = this.options.comment;
+
+    for (let index = 0; index < text.length; index++) {
+      const char = text[index];
+      const newline = char === '\n' || char === '\r';
+      const lineBreak = char === '\r' || (char === '\n' && this.previous !== '\r');
+      this.previous = char;
+
+      if (!this.rowStarted && this.row.length === 0 && this.state === 'fieldStart') {
+        // The LF of a CRLF that ended the previous row
+        if (char === '\n' && !lineBreak) {
+          continue;
+        }
+        this.rowLine = this.line;
+      }
+      if (lineBreak) {
+        this.line++;
+      }
+
+      switch (this.state) {
+        case 'fieldStart':
+          if (newline) {
+            this.endRow();
+          } else if (char === comment && this.row.length === 0 && !this.rowStarted) {
+            this.state = 'comment';
+          } else {
+            this.rowStarted = true;
+            if (char === quote) {
+              this.state = 'quoted';
+            } else if (char === delimiter) {
+              this.endField();
+            } else {
+              this.field = char;
+              this.state = 'unquoted';
+            }
+          }
+          break;
+
+        case 'unquoted':
+          if (char === delimiter) {
+            this.endField();
+          } else if (newline) {
+            this.endRow();
+          } else {
+            this.field += char;
+          }
+          break;
+
+        case 'quoted':
+          if (char === escape && escape !== quote) {
+            this.state = 'escaped';
+          } else if (char === quote) {
+            this.state = 'quoteInQuoted';
+          } else {
+            this.field += char;
+          }
+          break;
+
+        case 'escaped':
+          this.field += char;
+          this.state = 'quoted';
+          break;
 
-    if (header && headers.length > 0) {
+        case 'quoteInQuoted':
+          if (char === quote) {
+            this.field += char;
+            this.state = 'quoted';
+          } else if (char === delimiter) {
+            this.endField();
+          } else if (newline) {
+            this.endRow();
+          } else {
+            this.report('InvalidQuote', `Unexpected '${char}' after closing quote`);
+            this.field += char;
+            this.state = 'unquoted';
+          }
+          break;
+
+        case 'comment':
+          if (newline) {
+            this.state = 'fieldStart';
+          }
+          break;
+      }
+    }
+  }
+
+  private endField(): void {
+    this.row.push(this.field);
+    this.field = '';
+    this.state = 'fieldStart';
+  }
+
+  private endRow(): void {
+    const empty = !this.rowStarted && this.row.length === 0;
+    this.endField();
+    const values = this.row;
+    this.row = [];
+    this.rowStarted = false;
+
+    if (empty && this.options.skipEmptyLines !== false) {
+      return;
+    }
+    this.emit(values, empty);
+  }
+
+  private emit(values: string[], empty: boolean): void {
+    const { header = true, transform } = this.options;
+
+    if (header && this.headers === null) {
+      this.headers = values;
+      return;
+    }
+
+    let row: any;
+    if (header) {
+      const headers = this.headers!;
+      if (!empty && values.length !== headers.length) {
+        this.report('FieldCount', `Expected ${headers.length} fields but found ${values.length}`);
+      }
       row = {};
-      headers.forEach((header, index) => {
-        row[header] = values[index] || '';
+      headers.forEach((name, index) => {
+        row[name] = this.convert(values[index] || '');
       });
     } else {
-      row = values;
+      row = values.map(value => this.convert(value));
     }
 
-    if (transform) {
-      row = transform(row);
+    this.output.push(transform ? transform(row) : row);
+  }
+
+  private convert(value: string): any {
+    return this.options.dynamicTyping ? inferType(value) : value;
+  }
+
+  private report(type: CSVRowError['type'], message: string): void {
+    const error: CSVRowError = { line: this.rowLine, type, message };
+    if (this.options.strict) {
+      throw new Error(`Malformed CSV on line ${error.line}: ${message}`);
     }
+    this.malformed.push(error);
+    this.options.onError?.(error);
+  }
 
-    rows.push(row);
+  /**
+   * Pick the delimiter from the buffered sample and return the sample for parsing
+   */
+  private detect(): string {
+    const sample = this.sample;
+    this.sample = '';
+    this.delimiter = detectDelimiter(sample, this.quote, this.options.comment);
+    return sample;
   }
 
-  return rows;
+  private take(): any[] {
+    const rows = this.output;
+    this.output = [];
+    return rows;
+  }
 }
 
 /**
- * Parse a single CSV line handling quoted values
+ * Choose the candidate found the same number of times on most of the first lines
  */
-function parseCSVLine(line: string, delimiter: string): string[] {
-  const values: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  let i = 0;
-
-  while (i < line.length) {
-    const char = line[i];
-    const nextChar = line[i + 1];
-
-    if (char === '"') {
-      if (inQuotes && nextChar === '"') {
-        // Escaped quote
-        current += '"';
-        i += 2;
-        continue;
-      } else {
-        // Toggle quote state
-        inQuotes = !inQuotes;
-      }
-    } else if (char === delimiter && !inQuotes) {
-      values.push(current);
-      current = '';
-    } else {
-      current += char;
+export function detectDelimiter(sample: string, quote = '"', comment?: string): string {
+  const lines = sample.split(/\r\n|\n|\r/)
+    .filter(line => line.trim() && !(comment && line.startsWith(comment)))
+    .slice(0, DETECTION_SAMPLE_LINES);
+  let best = { delimiter: ',', consistent: 0, count: 0 };
+
+  DELIMITER_CANDIDATES.forEach(delimiter => {
+    const counts = lines.map(line => countOutsideQuotes(line, delimiter, quote));
+    const consistent = counts.filter(count => count === counts[0]).length;
+
+    if (counts[0] > 0 && (consistent > best.consistent || (consistent === best.consistent && counts[0] > best.count))) {
+      best = { delimiter, consistent, count: counts[0] };
     }
+  });
+
+  return best.delimiter;
+}
 
-    i++;
+function countOutsideQuotes(line: string, delimiter: string, quote: string): number {
+  let count = 0;
+  let quoted = false;
+  for (const char of line) {
+    if (char === quote) {
+      quoted = !quoted;
+    } else if (char === delimiter && !quoted) {
+      count++;
+    }
   }
+  return count;
+}
 
-  values.push(current);
-  return values;
-}
\ No newline at end of file
+function countLineBreaks(text: string): number {
+  return text.split(/\r\n|\n|\r/).length - 1;
+}
+
+/**
+ * Numbers (keeping leading zeros and unsafe integers as text), booleans, `null` and ISO dates
+ */
+function inferType(value: string): any {
+  if (value === '' || value === 'null' || value === 'NULL') {
+    return null;
+  }
+
+  const lower = value.toLowerCase();
+  if (lower === 'true' || lower === 'false') {
+    return lower === 'true';
+  }
+
+  if (NUMBER_PATTERN.test(value)) {
+    const number = Number(value);
+    const unsafe = Number.isInteger(number) && !Number.isSafeInteger(number) && !/[.eE]/.test(value);
+    return unsafe ? value : number;
+  }
+
+  if (ISO_DATE_PATTERN.test(value)) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date;
+  }
+
+  return value;
+}
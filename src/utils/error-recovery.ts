@@ -1,4 +1,22 @@
 import { ErrorRecoveryConfig } from '../types';
+import { abortableDelay } from './abort';
+
+export interface RetryOptions {
+  /**
+   * Decide whether an error is worth retrying; defaults to isRecoverableError()
+   */
+  shouldRetry?: (error: Error) => boolean;
+
+  /**
+   * Called before waiting for the next attempt
+   */
+  onRetry?: (attempt: number, delay: number, error: Error) => void;
+
+  /**
+   * Signal that cancels the wait between attempts
+   */
+  signal?: AbortSignal;
+}
 
 /**
  * Error Recovery utility for Browser ETL
@@ -49,6 +67,33 @@ export class ErrorRecovery {
     );
   }
 
+  /**
+   * Execute a function, retrying only the errors accepted by `shouldRetry`.
+   * Unlike executeWithRecovery(), the last error is rethrown as is.
+   */
+  async executeWithRetries<T>(
+    fn: (attempt: number) => Promise<T>,
+    options: RetryOptions = {}
+  ): Promise<T> {
+    const maxRetries = this.config.enabled ? this.config.maxRetries : 0;
+    const shouldRetry = options.shouldRetry || ((error: Error) => this.isRecoverableError(error));
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fn(attempt);
+      } catch (error) {
+        const lastError = error instanceof Error ? error : new Error(String(error));
+        if (attempt > maxRetries || !shouldRetry(lastError)) {
+          throw error;
+        }
+
+        const delay = this.calculateDelay(attempt);
+        options.onRetry?.(attempt, delay, lastError);
+        await abortableDelay(delay, options.signal);
+      }
+    }
+  }
+
   /**
    * Execute multiple functions with error recovery
    */
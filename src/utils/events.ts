@@ -0,0 +1,70 @@
+/**
+ * Event emitter utility for Browser ETL
+ */
+
+export type EventListener<T> = (event: T) => void;
+
+/**
+ * Minimal typed event emitter
+ */
+export class EventEmitter<Events extends object> {
+  private listeners: Map<keyof Events, Set<EventListener<any>>> = new Map();
+
+  /**
+   * Register a listener for an event
+   */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): this {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+
+    this.listeners.get(event)!.add(listener);
+    return this;
+  }
+
+  /**
+   * Remove a listener for an event
+   */
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): this {
+    this.listeners.get(event)?.delete(listener);
+    return this;
+  }
+
+  /**
+   * Emit an event to all of its listeners.
+   * A throwing listener is logged and does not affect the others.
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in '${String(event)}' listener:`, error);
+      }
+    }
+  }
+
+  /**
+   * Remove all listeners, or all listeners of one event
+   */
+  removeAllListeners(event?: keyof Events): this {
+    if (event === undefined) {
+      this.listeners.clear();
+    } else {
+      this.listeners.delete(event);
+    }
+    return this;
+  }
+
+  /**
+   * Get the number of listeners registered for an event
+   */
+  listenerCount(event: keyof Events): number {
+    return this.listeners.get(event)?.size || 0;
+  }
+}
@@ -0,0 +1,666 @@
+/**
+ * Expression language for declarative filter, map and sort steps, e.g.
+ * `age >= 18 && country == "FR"`. Expressions are parsed, never evaluated as
+ * JavaScript, so they work under a strict Content Security Policy.
+ */
+
+export interface ExpressionError extends Error {
+  name: 'ExpressionError';
+
+  /**
+   * Source text of the expression
+   */
+  expression: string;
+
+  /**
+   * 0-based offset of the offending character
+   */
+  position: number;
+}
+
+export type ExpressionNode =
+  | { type: 'literal'; value: any }
+  | { type: 'item' }
+  | { type: 'field'; name: string }
+  | { type: 'member'; object: ExpressionNode; property: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] }
+  | { type: 'unary'; operator: '!' | '-'; operand: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'logical'; operator: '&&' | '||' | '??'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'array'; items: ExpressionNode[] }
+  | { type: 'object'; entries: Array<[string, ExpressionNode]> };
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in';
+
+interface Token {
+  type: 'number' | 'string' | 'name' | 'punctuation' | 'end';
+  value: string;
+  position: number;
+}
+
+interface ExpressionFunction {
+  /**
+   * Accepted argument counts; `max` is omitted for variadic functions
+   */
+  min: number;
+  max?: number;
+  call: (...args: any[]) => any;
+}
+
+/**
+ * Create the error thrown for an invalid expression, pointing at the offending position
+ */
+export function createExpressionError(message: string, expression: string, position: number): ExpressionError {
+  const pointer = `${' '.repeat(position)}^`;
+  const error = new Error(`${message} at position ${position}\n  ${expression}\n  ${pointer}`) as ExpressionError;
+  error.name = 'ExpressionError';
+  error.expression = expression;
+  error.position = position;
+  return error;
+}
+
+/**
+ * Check whether an error was raised for an invalid expression
+ */
+export function isExpressionError(error: unknown): error is ExpressionError {
+  return typeof error === 'object' && error !== null && (error as Error).name === 'ExpressionError';
+}
+
+/**
+ * Parse an expression into its syntax tree
+ */
+export function parseExpression(expression: string): ExpressionNode {
+  return new Parser(expression).parse();
+}
+
+/**
+ * Compile an expression into a function of the current item. Field names refer to the
+ * item's own properties and `$` to the item itself.
+ */
+export function compileExpression<R = any>(expression: string): (item: any) => R {
+  const tree = parseExpression(expression);
+  return (item: any) => evaluate(tree, item);
+}
+
+const PUNCTUATION = ['?.', '??', '&&', '||', '==', '!=', '<=', '>=', '(', ')', '[', ']', '{', '}', ',', ':', '.', '?',
+  '!', '<', '>', '+', '-', '*', '/', '%'];
+const KEYWORDS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+const LITERALS: Record<string, any> = { true: true, false: false, null: null };
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '\\': '\\', '"': '"', "'": "'" };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const char = expression[index];
+    const start = index;
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(expression[index + 1] || ''))) {
+      const match = /^(?:[0-9]*\.?[0-9]+|[0-9]+\.)(?:[eE][+-]?[0-9]+)?/.exec(expression.slice(index))!;
+      index += match[0].length;
+      tokens.push({ type: 'number', value: match[0], position: start });
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      index++;
+      while (expression[index] !== char) {
+        if (index >= expression.length) {
+          throw createExpressionError('Unterminated string', expression, start);
+        }
+        if (expression[index] === '\\') {
+          const escaped = expression[index + 1];
+          if (escaped === undefined || !hasOwn(ESCAPES, escaped)) {
+            throw createExpressionError('Invalid escape sequence', expression, index);
+          }
+          value += ESCAPES[escaped];
+          index += 2;
+        } else {
+          value += expression[index++];
+        }
+      }
+      index++;
+      tokens.push({ type: 'string', value, position: start });
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const name = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(expression.slice(index))![0];
+      index += name.length;
+      if (hasOwn(KEYWORDS, name)) {
+        tokens.push({ type: 'punctuation', value: KEYWORDS[name], position: start });
+      } else {
+        tokens.push({ type: 'name', value: name, position: start });
+      }
+    } else {
+      let punctuation = PUNCTUATION.find(candidate => expression.startsWith(candidate, index));
+      // `a?.5:1` is a conditional, not optional chaining
+      if (punctuation === '?.' && /[0-9]/.test(expression[index + 2] || '')) {
+        punctuation = '?';
+      }
+      if (!punctuation) {
+        throw createExpressionError(`Unexpected character '${char}'`, expression, start);
+      }
+      index += punctuation.length;
+      tokens.push({ type: 'punctuation', value: punctuation, position: start });
+    }
+  }
+
+  tokens.push({ type: 'end', value: '', position: expression.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser, one method per precedence level from lowest to highest
+ */
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private expression: string) {
+    this.tokens = tokenize(expression);
+  }
+
+  parse(): ExpressionNode {
+    if (this.peek().type === 'end') {
+      throw createExpressionError('Empty expression', this.expression, 0);
+    }
+    const node = this.conditional();
+    if (this.peek().type !== 'end') {
+      throw this.unexpected(this.peek());
+    }
+    return node;
+  }
+
+  private conditional(): ExpressionNode {
+    const test = this.coalesce();
+    if (!this.accept('?')) {
+      return test;
+    }
+    const consequent = this.conditional();
+    this.expect(':');
+    return { type: 'conditional', test, consequent, alternate: this.conditional() };
+  }
+
+  private coalesce(): ExpressionNode {
+    let left = this.or();
+    while (this.accept('??')) {
+      left = { type: 'logical', operator: '??', left, right: this.or() };
+    }
+    return left;
+  }
+
+  private or(): ExpressionNode {
+    let left = this.and();
+    while (this.accept('||')) {
+      left = { type: 'logical', operator: '||', left, right: this.and() };
+    }
+    return left;
+  }
+
+  private and(): ExpressionNode {
+    let left = this.equality();
+    while (this.accept('&&')) {
+      left = { type: 'logical', operator: '&&', left, right: this.equality() };
+    }
+    return left;
+  }
+
+  private equality(): ExpressionNode {
+    return this.binary(['==', '!='], () => this.comparison());
+  }
+
+  private comparison(): ExpressionNode {
+    return this.binary(['<', '<=', '>', '>=', 'in'], () => this.additive());
+  }
+
+  private additive(): ExpressionNode {
+    return this.binary(['+', '-'], () => this.multiplicative());
+  }
+
+  private multiplicative(): ExpressionNode {
+    return this.binary(['*', '/', '%'], () => this.unary());
+  }
+
+  private binary(operators: BinaryOperator[], operand: () => ExpressionNode): ExpressionNode {
+    let left = operand();
+    for (;;) {
+      const token = this.peek();
+      const isOperator = token.type === 'punctuation' || (token.type === 'name' && token.value === 'in');
+      if (!isOperator || !operators.includes(token.value as BinaryOperator)) {
+        return left;
+      }
+      this.index++;
+      left = { type: 'binary', operator: token.value as BinaryOperator, left, right: operand() };
+    }
+  }
+
+  private unary(): ExpressionNode {
+    if (this.accept('!')) {
+      return { type: 'unary', operator: '!', operand: this.unary() };
+    }
+    if (this.accept('-')) {
+      return { type: 'unary', operator: '-', operand: this.unary() };
+    }
+    return this.postfix();
+  }
+
+  private postfix(): ExpressionNode {
+    let node = this.primary();
+    for (;;) {
+      if (this.accept('.') || this.accept('?.')) {
+        const token = this.next();
+        if (token.type !== 'name') {
+          throw this.unexpected(token, 'Expected a field name');
+        }
+        node = { type: 'member', object: node, property: { type: 'literal', value: token.value } };
+      } else if (this.accept('[')) {
+        node = { type: 'member', object: node, property: this.conditional() };
+        this.expect(']');
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private primary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'name':
+        if (hasOwn(LITERALS, token.value)) {
+          return { type: 'literal', value: LITERALS[token.value] };
+        }
+        if (this.peek().value === '(' && this.peek().type === 'punctuation') {
+          return this.call(token);
+        }
+        return token.value === '$' ? { type: 'item' } : { type: 'field', name: token.value };
+      case 'punctuation':
+        if (token.value === '(') {
+          const node = this.conditional();
+          this.expect(')');
+          return node;
+        }
+        if (token.value === '[') {
+          return { type: 'array', items: this.list(']', () => this.conditional()) };
+        }
+        if (token.value === '{') {
+          return { type: 'object', entries: this.list('}', () => this.entry()) };
+        }
+        throw this.unexpected(token);
+      default:
+        throw this.unexpected(token);
+    }
+  }
+
+  private call(name: Token): ExpressionNode {
+    const fn = hasOwn(FUNCTIONS, name.value) ? FUNCTIONS[name.value] : undefined;
+    if (!fn) {
+      throw createExpressionError(`Unknown function '${name.value}'`, this.expression, name.position);
+    }
+
+    this.expect('(');
+    const args = this.list(')', () => this.conditional());
+    if (args.length < fn.min || (fn.max !== undefined && args.length > fn.max)) {
+      const expected = fn.max === undefined ? `at least ${fn.min}` : fn.min === fn.max ? `${fn.min}` : `${fn.min} to ${fn.max}`;
+      throw createExpressionError(
+        `Function '${name.value}' expects ${expected} argument(s), got ${args.length}`,
+        this.expression,
+        name.position
+      );
+    }
+    return { type: 'call', name: name.value, args };
+  }
+
+  /**
+   * Object entry: `key: value`, `"quoted key": value` or a field name alone
+   */
+  private entry(): [string, ExpressionNode] {
+    const token = this.next();
+    if (token.type !== 'name' && token.type !== 'string') {
+      throw this.unexpected(token, 'Expected a key');
+    }
+    if (this.accept(':')) {
+      return [token.value, this.conditional()];
+    }
+    if (token.type === 'string') {
+      throw this.unexpected(this.peek(), "Expected ':'");
+    }
+    return [token.value, { type: 'field', name: token.value }];
+  }
+
+  /**
+   * Comma-separated items up to a closing bracket, allowing a trailing comma
+   */
+  private list<I>(close: string, item: () => I): I[] {
+    const items: I[] = [];
+    while (!this.accept(close)) {
+      items.push(item());
+      if (!this.accept(',')) {
+        this.expect(close);
+        break;
+      }
+    }
+    return items;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private accept(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punctuation' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string): void {
+    if (!this.accept(value)) {
+      throw this.unexpected(this.peek(), `Expected '${value}'`);
+    }
+  }
+
+  private unexpected(token: Token, message?: string): ExpressionError {
+    const found = token.type === 'end' ? 'end of expression' : token.type === 'string' ? 'string' : `'${token.value}'`;
+    return createExpressionError(message ? `${message}, found ${found}` : `Unexpected ${found}`, this.expression, token.position);
+  }
+}
+
+function evaluate(node: ExpressionNode, item: any): any {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'item':
+      return item;
+    case 'field':
+      return getProperty(item, node.name);
+    case 'member':
+      return getProperty(evaluate(node.object, item), evaluate(node.property, item));
+    case 'call':
+      return FUNCTIONS[node.name].call(...node.args.map(arg => evaluate(arg, item)));
+    case 'unary': {
+      const value = evaluate(node.operand, item);
+      if (node.operator === '!') {
+        return !value;
+      }
+      return isNull(value) ? null : -toNumber(value);
+    }
+    case 'logical': {
+      const left = evaluate(node.left, item);
+      if (node.operator === '&&') {
+        return left ? evaluate(node.right, item) : left;
+      }
+      if (node.operator === '||') {
+        return left ? left : evaluate(node.right, item);
+      }
+      return isNull(left) ? evaluate(node.right, item) : left;
+    }
+    case 'conditional':
+      return evaluate(node.test, item) ? evaluate(node.consequent, item) : evaluate(node.alternate, item);
+    case 'array':
+      return node.items.map(entry => evaluate(entry, item));
+    case 'object':
+      // fromEntries defines properties, so a `__proto__` key cannot change the prototype
+      return Object.fromEntries(node.entries.map(([key, value]) => [key, evaluate(value, item)]));
+    case 'binary':
+      return applyBinary(node.operator, evaluate(node.left, item), evaluate(node.right, item));
+  }
+}
+
+function applyBinary(operator: BinaryOperator, left: any, right: any): any {
+  switch (operator) {
+    case '==':
+      return equals(left, right);
+    case '!=':
+      return !equals(left, right);
+    case '<':
+    case '<=':
+    case '>':
+    case '>=':
+      return compare(operator, left, right);
+    case 'in':
+      if (Array.isArray(right)) {
+        return right.some(value => equals(value, left));
+      }
+      return typeof right === 'string' && !isNull(left) ? right.includes(String(left)) : false;
+    default:
+      break;
+  }
+
+  // Arithmetic on a missing value yields null instead of NaN
+  if (isNull(left) || isNull(right)) {
+    return null;
+  }
+
+  switch (operator) {
+    case '+':
+      return typeof left === 'string' || typeof right === 'string'
+        ? toText(left) + toText(right)
+        : toNumber(left) + toNumber(right);
+    case '-':
+      return toNumber(left) - toNumber(right);
+    case '*':
+      return toNumber(left) * toNumber(right);
+    case '/':
+      return toNumber(left) / toNumber(right);
+    default:
+      return toNumber(left) % toNumber(right);
+  }
+}
+
+/**
+ * Strict equality, except that dates compare by time and numeric text equals its number
+ */
+function equals(left: any, right: any): boolean {
+  if (isNull(left) || isNull(right)) {
+    return isNull(left) && isNull(right);
+  }
+  if (left instanceof Date || right instanceof Date) {
+    return toNumber(left) === toNumber(right);
+  }
+  if (typeof left === 'number' && typeof right === 'string') {
+    return right.trim() !== '' && left === Number(right);
+  }
+  if (typeof left === 'string' && typeof right === 'number') {
+    return left.trim() !== '' && Number(left) === right;
+  }
+  return left === right;
+}
+
+/**
+ * Ordering comparison; a missing value is neither less nor greater than anything
+ */
+function compare(operator: '<' | '<=' | '>' | '>=', left: any, right: any): boolean {
+  if (isNull(left) || isNull(right)) {
+    return false;
+  }
+  const a = left instanceof Date ? left.getTime() : left;
+  const b = right instanceof Date ? right.getTime() : right;
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    default:
+      return a >= b;
+  }
+}
+
+/**
+ * Read an own property only, so expressions cannot reach prototypes
+ */
+function getProperty(object: any, key: any): any {
+  if (isNull(object) || isNull(key)) {
+    return null;
+  }
+  if ((typeof object === 'string' || Array.isArray(object)) && key === 'length') {
+    return object.length;
+  }
+  if (typeof object !== 'object' && typeof object !== 'string') {
+    return null;
+  }
+  const value = hasOwn(object, key) ? object[key] : undefined;
+  return value === undefined ? null : value;
+}
+
+function hasOwn(object: any, key: PropertyKey): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function isNull(value: any): value is null | undefined {
+  return value === null || value === undefined;
+}
+
+function toNumber(value: any): number {
+  return value instanceof Date ? value.getTime() : Number(value);
+}
+
+function toText(value: any): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function toDate(value: any): Date | null {
+  if (isNull(value) || value === '') {
+    return null;
+  }
+  const date = value instanceof Date ? new Date(value.getTime()) : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Wrap a function so that a missing first argument returns null
+ */
+function nullSafe(call: (value: any, ...args: any[]) => any): (value: any, ...args: any[]) => any {
+  return (value, ...args) => (isNull(value) ? null : call(value, ...args));
+}
+
+function dateFunction(call: (date: Date, ...args: any[]) => any): (value: any, ...args: any[]) => any {
+  return (value, ...args) => {
+    const date = toDate(value);
+    return date ? call(date, ...args) : null;
+  };
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+  // Text
+  lower: { min: 1, max: 1, call: nullSafe(value => String(value).toLowerCase()) },
+  upper: { min: 1, max: 1, call: nullSafe(value => String(value).toUpperCase()) },
+  trim: { min: 1, max: 1, call: nullSafe(value => String(value).trim()) },
+  length: { min: 1, max: 1, call: nullSafe(value => (Array.isArray(value) ? value.length : String(value).length)) },
+  contains: {
+    min: 2,
+    max: 2,
+    call: nullSafe((value, search) => (Array.isArray(value)
+      ? value.some(entry => equals(entry, search))
+      : String(value).includes(String(search))))
+  },
+  startsWith: { min: 2, max: 2, call: nullSafe((value, search) => String(value).startsWith(String(search))) },
+  endsWith: { min: 2, max: 2, call: nullSafe((value, search) => String(value).endsWith(String(search))) },
+  replace: {
+    min: 3,
+    max: 3,
+    call: nullSafe((value, search, replacement) => String(value).split(String(search)).join(String(replacement)))
+  },
+  substring: {
+    min: 2,
+    max: 3,
+    call: nullSafe((value, start, end) => String(value).substring(toNumber(start), isNull(end) ? undefined : toNumber(end)))
+  },
+  split: { min: 2, max: 2, call: nullSafe((value, separator) => String(value).split(String(separator))) },
+  join: { min: 1, max: 2, call: nullSafe((value, separator = ',') => (Array.isArray(value) ? value : [value]).join(String(separator))) },
+  concat: { min: 1, call: (...values) => values.filter(value => !isNull(value)).map(toText).join('') },
+
+  // Numbers
+  number: {
+    min: 1,
+    max: 1,
+    call: nullSafe(value => {
+      const number = typeof value === 'string' && value.trim() === '' ? NaN : toNumber(value);
+      return Number.isNaN(number) ? null : number;
+    })
+  },
+  string: { min: 1, max: 1, call: nullSafe(toText) },
+  abs: { min: 1, max: 1, call: nullSafe(value => Math.abs(toNumber(value))) },
+  floor: { min: 1, max: 1, call: nullSafe(value => Math.floor(toNumber(value))) },
+  ceil: { min: 1, max: 1, call: nullSafe(value => Math.ceil(toNumber(value))) },
+  round: {
+    min: 1,
+    max: 2,
+    call: nullSafe((value, digits = 0) => {
+      const factor = Math.pow(10, toNumber(digits));
+      return Math.round(toNumber(value) * factor) / factor;
+    })
+  },
+  min: { min: 1, call: (...values) => extreme(values, Math.min) },
+  max: { min: 1, call: (...values) => extreme(values, Math.max) },
+  sum: {
+    min: 1,
+    max: 1,
+    call: nullSafe(values => (Array.isArray(values) ? values : [values])
+      .filter(value => !isNull(value))
+      .reduce((total, value) => total + toNumber(value), 0))
+  },
+
+  // Missing values
+  coalesce: { min: 1, call: (...values) => values.find(value => !isNull(value)) ?? null },
+  isNull: { min: 1, max: 1, call: value => isNull(value) },
+
+  // Dates, in UTC
+  date: { min: 1, max: 1, call: toDate },
+  now: { min: 0, max: 0, call: () => new Date() },
+  year: { min: 1, max: 1, call: dateFunction(date => date.getUTCFullYear()) },
+  month: { min: 1, max: 1, call: dateFunction(date => date.getUTCMonth() + 1) },
+  day: { min: 1, max: 1, call: dateFunction(date => date.getUTCDate()) },
+  weekday: { min: 1, max: 1, call: dateFunction(date => date.getUTCDay()) },
+  hour: { min: 1, max: 1, call: dateFunction(date => date.getUTCHours()) },
+  addDays: { min: 2, max: 2, call: dateFunction((date, days) => new Date(date.getTime() + toNumber(days) * DAY)) },
+  daysBetween: {
+    min: 2,
+    max: 2,
+    call: (from, to) => {
+      const start = toDate(from);
+      const end = toDate(to);
+      return start && end ? Math.floor((end.getTime() - start.getTime()) / DAY) : null;
+    }
+  },
+  formatDate: { min: 2, max: 2, call: dateFunction((date, format) => formatDate(date, String(format))) }
+};
+
+function extreme(values: any[], pick: (...numbers: number[]) => number): number | null {
+  const numbers = values.flat().filter(value => !isNull(value)).map(toNumber);
+  return numbers.length > 0 ? pick(...numbers) : null;
+}
+
+/**
+ * Format a date with `YYYY`, `MM`, `DD`, `HH`, `mm` and `ss` placeholders
+ */
+function formatDate(date: Date, format: string): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const parts: Record<string, string> = {
+    YYYY: pad(date.getUTCFullYear(), 4),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds())
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, token => parts[token]);
+}
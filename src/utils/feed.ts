@@ -0,0 +1,116 @@
+/**
+ * RSS and Atom feed normalization for Browser ETL
+ */
+
+import { childElements, childText } from './xml';
+
+export interface FeedItem {
+  id?: string;
+  title?: string;
+  link?: string;
+  summary?: string;
+  content?: string;
+  author?: string;
+
+  /**
+   * ISO 8601 date, or the original text when it cannot be parsed
+   */
+  published?: string;
+  updated?: string;
+  categories: string[];
+  enclosure?: FeedEnclosure;
+}
+
+export interface FeedEnclosure {
+  url: string;
+  type?: string;
+
+  /**
+   * Size in bytes
+   */
+  length?: number;
+}
+
+/**
+ * Read the items of an RSS 2.0, RSS 1.0 (RDF) or Atom feed
+ */
+export function parseFeed(document: Document): FeedItem[] {
+  const root = document.documentElement;
+
+  switch (root.localName) {
+    case 'rss': {
+      const channel = childElements(root, 'channel')[0];
+      return channel ? childElements(channel, 'item').map(parseRssItem) : [];
+    }
+    case 'RDF':
+      return childElements(root, 'item').map(parseRssItem);
+    case 'feed':
+      return childElements(root, 'entry').map(parseAtomEntry);
+    default:
+      throw new Error(`Unsupported feed format: <${root.nodeName}>`);
+  }
+}
+
+function parseRssItem(item: Element): FeedItem {
+  const link = childText(item, 'link');
+  const enclosure = childElements(item, 'enclosure')[0];
+  const length = Number(enclosure?.getAttribute('length') || NaN);
+
+  return compact<FeedItem>({
+    id: childText(item, 'guid') || link,
+    title: childText(item, 'title'),
+    link,
+    summary: childText(item, 'description'),
+    content: childText(item, 'content:encoded'),
+    author: childText(item, 'author') || childText(item, 'dc:creator'),
+    published: toIsoDate(childText(item, 'pubDate') || childText(item, 'dc:date')),
+    categories: childElements(item, 'category').map(category => (category.textContent || '').trim()),
+    enclosure: enclosure && enclosure.getAttribute('url') ? compact<FeedEnclosure>({
+      url: enclosure.getAttribute('url')!,
+      type: enclosure.getAttribute('type') || undefined,
+      length: Number.isFinite(length) ? length : undefined
+    }) : undefined
+  });
+}
+
+function parseAtomEntry(entry: Element): FeedItem {
+  const links = childElements(entry, 'link');
+  const link = links.find(candidate => (candidate.getAttribute('rel') || 'alternate') === 'alternate') || links[0];
+  const enclosure = links.find(candidate => candidate.getAttribute('rel') === 'enclosure');
+  const author = childElements(entry, 'author')[0];
+  const length = Number(enclosure?.getAttribute('length') || NaN);
+  const updated = toIsoDate(childText(entry, 'updated'));
+
+  return compact<FeedItem>({
+    id: childText(entry, 'id'),
+    title: childText(entry, 'title'),
+    link: link ? link.getAttribute('href') || undefined : undefined,
+    summary: childText(entry, 'summary'),
+    content: childText(entry, 'content'),
+    author: author ? childText(author, 'name') : undefined,
+    published: toIsoDate(childText(entry, 'published')) || updated,
+    updated,
+    categories: childElements(entry, 'category')
+      .map(category => category.getAttribute('term') || (category.textContent || '').trim()),
+    enclosure: enclosure && enclosure.getAttribute('href') ? compact<FeedEnclosure>({
+      url: enclosure.getAttribute('href')!,
+      type: enclosure.getAttribute('type') || undefined,
+      length: Number.isFinite(length) ? length : undefined
+    }) : undefined
+  });
+}
+
+function toIsoDate(text: string | undefined): string | undefined {
+  if (!text) {
+    return undefined;
+  }
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? text : date.toISOString();
+}
+
+/**
+ * Drop undefined fields so items only carry what the feed provides
+ */
+function compact<T>(value: Record<string, unknown>): T {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
+}
@@ -0,0 +1,69 @@
+/**
+ * Function registry utility for Browser ETL
+ */
+
+export type RegisteredFunction = (...args: any[]) => any;
+
+/**
+ * Registry of named functions, used to reference filter/map/enrich
+ * functions from serializable pipeline specs
+ */
+export class FunctionRegistry {
+  private functions: Map<string, RegisteredFunction> = new Map();
+
+  constructor(functions: Record<string, RegisteredFunction> = {}) {
+    Object.entries(functions).forEach(([name, fn]) => this.register(name, fn));
+  }
+
+  /**
+   * Register a function under a name
+   */
+  register(name: string, fn: RegisteredFunction): this {
+    if (typeof fn !== 'function') {
+      throw new Error(`Cannot register '${name}': value is not a function`);
+    }
+
+    this.functions.set(name, fn);
+    return this;
+  }
+
+  /**
+   * Remove a registered function
+   */
+  unregister(name: string): boolean {
+    return this.functions.delete(name);
+  }
+
+  /**
+   * Get a function by name
+   */
+  get(name: string): RegisteredFunction | undefined {
+    return this.functions.get(name);
+  }
+
+  /**
+   * Check if a function is registered under a name
+   */
+  has(name: string): boolean {
+    return this.functions.has(name);
+  }
+
+  /**
+   * Find the name a function was registered under
+   */
+  nameOf(fn: RegisteredFunction): string | undefined {
+    for (const [name, registered] of Array.from(this.functions.entries())) {
+      if (registered === fn) {
+        return name;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get all registered function names
+   */
+  names(): string[] {
+    return Array.from(this.functions.keys());
+  }
+}
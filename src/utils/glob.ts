@@ -0,0 +1,68 @@
+/**
+ * Glob patterns for storage keys, URLs and file paths
+ */
+
+export interface GlobOptions {
+  /**
+   * Path separator not matched by `*` and `?`, e.g. `/` for paths and URLs.
+   * Without it, `*` matches any text.
+   */
+  separator?: string;
+}
+
+/**
+ * Compile a glob to an anchored regular expression. `*` matches any text within a
+ * path segment, `**` across segments, `?` one character and `{a,b}` either alternative.
+ */
+export function globToRegExp(pattern: string, options: GlobOptions = {}): RegExp {
+  const separator = options.separator ? escapeRegExp(options.separator) : '';
+  const any = separator ? `[^${separator}]` : '.';
+  let source = '';
+  let alternatives = 0;
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+
+    if (char === '*') {
+      const double = pattern[index + 1] === '*';
+      if (!double) {
+        source += `${any}*`;
+      } else if (options.separator && pattern[index + 2] === options.separator) {
+        // `**/` also matches no directory at all
+        index += 2;
+        source += `(?:.*${separator})?`;
+      } else {
+        index++;
+        source += '.*';
+      }
+    } else if (char === '?') {
+      source += any;
+    } else if (char === '{') {
+      alternatives++;
+      source += '(?:';
+    } else if (char === '}' && alternatives > 0) {
+      alternatives--;
+      source += ')';
+    } else if (char === ',' && alternatives > 0) {
+      source += '|';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  if (alternatives > 0) {
+    throw new Error(`Unclosed '{' in glob pattern: ${pattern}`);
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a value matches a glob pattern
+ */
+export function matchesGlob(value: string, pattern: string, options: GlobOptions = {}): boolean {
+  return globToRegExp(pattern, options).test(value);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
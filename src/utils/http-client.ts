@@ -2,10 +2,18 @@
  * HTTP Client utility for Browser ETL
  */
 
+import { abortableDelay, createAbortError, throwIfAborted } from './abort';
+
 export interface HttpClientOptions {
   timeout?: number;
   retries?: number;
   headers?: Record<string, string>;
+  onRetry?: ((attempt: number, delay: number, error: Error) => void) | undefined;
+
+  /**
+   * Error statuses returned as responses for the caller to read instead of being thrown and retried
+   */
+  acceptStatus?: ((status: number) => boolean) | undefined;
 }
 
 /**
@@ -61,6 +69,9 @@ export class HttpClient {
       timeout = this.defaultOptions.timeout,
       retries = this.defaultOptions.retries,
       headers = {},
+      signal,
+      onRetry,
+      acceptStatus,
       ...requestOptions
     } = options;
 
@@ -77,45 +88,62 @@ export class HttpClient {
       requestInit.body = JSON.stringify(requestInit.body);
     }
 
-    return this.fetchWithRetry(url, requestInit, retries!, timeout!);
+    return this.fetchWithRetry(url, requestInit, retries!, timeout!, signal || undefined, onRetry, acceptStatus);
   }
 
   /**
-   * Fetch with retry logic and exponential backoff
+   * Fetch with retry logic and exponential backoff.
+   * Aborting the caller's signal cancels the in-flight request and any pending retry.
    */
   private async fetchWithRetry(
     url: string,
     options: RequestInit,
     retries: number,
-    timeout: number
+    timeout: number,
+    signal?: AbortSignal,
+    onRetry?: (attempt: number, delay: number, error: Error) => void,
+    acceptStatus?: (status: number) => boolean
   ): Promise<Response> {
     let lastError: Error;
 
     for (let attempt = 0; attempt <= retries; attempt++) {
+      throwIfAborted(signal);
+
       try {
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), timeout);
+        const onAbort = () => controller.abort();
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        let response: Response;
+        try {
+          response = await fetch(url, {
+            ...options,
+            signal: controller.signal
+          });
+        } finally {
+          clearTimeout(timeoutId);
+          signal?.removeEventListener('abort', onAbort);
+        }
 
-        const response = await fetch(url, {
-          ...options,
-          signal: controller.signal
-        });
-
-        clearTimeout(timeoutId);
-
-        if (!response.ok) {
+        if (!response.ok && !acceptStatus?.(response.status)) {
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
         }
 
         return response;
 
       } catch (error) {
+        if (signal && signal.aborted) {
+          throw createAbortError(signal);
+        }
+
         lastError = error instanceof Error ? error : new Error(String(error));
         
         if (attempt < retries) {
           // Exponential backoff
           const delay = Math.pow(2, attempt) * 1000;
-          await new Promise(resolve => setTimeout(resolve, delay));
+          onRetry?.(attempt + 1, delay, lastError);
+          await abortableDelay(delay, signal);
         }
       }
     }
@@ -0,0 +1,136 @@
+import { CacheBackend, CacheEntry } from '../types';
+
+export interface IndexedDBCacheOptions {
+  dbName?: string;
+  storeName?: string;
+  defaultTTL?: number;
+}
+
+/**
+ * IndexedDB Cache - persistent cache backend that survives page reloads.
+ * Cached data must be structured-cloneable.
+ */
+export class IndexedDBCache implements CacheBackend {
+  private dbName: string;
+  private storeName: string;
+  private defaultTTL: number;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(options: IndexedDBCacheOptions = {}) {
+    this.dbName = options.dbName || 'browser-etl-cache';
+    this.storeName = options.storeName || 'entries';
+    this.defaultTTL = options.defaultTTL || 300000; // 5 minutes
+  }
+
+  /**
+   * Get a cache entry
+   */
+  async get<T>(key: string): Promise<T | null> {
+    const entry = await this.request<CacheEntry<T> | undefined>('readonly', store => store.get(key));
+
+    if (!entry) {
+      return null;
+    }
+
+    if (Date.now() - entry.timestamp > entry.ttl) {
+      await this.delete(key);
+      return null;
+    }
+
+    return entry.data;
+  }
+
+  /**
+   * Set a cache entry
+   */
+  async set<T>(key: string, data: T, ttl?: number): Promise<void> {
+    const entry: CacheEntry<T> = {
+      data,
+      timestamp: Date.now(),
+      key,
+      ttl: ttl || this.defaultTTL
+    };
+
+    await this.request('readwrite', store => store.put(entry));
+  }
+
+  /**
+   * Delete a cache entry
+   */
+  async delete(key: string): Promise<boolean> {
+    const count = await this.request<number>('readonly', store => store.count(key));
+    if (count === 0) {
+      return false;
+    }
+
+    await this.request('readwrite', store => store.delete(key));
+    return true;
+  }
+
+  /**
+   * Clear all cache entries
+   */
+  async clear(): Promise<void> {
+    await this.request('readwrite', store => store.clear());
+  }
+
+  /**
+   * Close the underlying database connection
+   */
+  async close(): Promise<void> {
+    if (this.dbPromise) {
+      const db = await this.dbPromise;
+      db.close();
+      this.dbPromise = null;
+    }
+  }
+
+  /**
+   * Open the cache database, creating its object store on first use
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (this.dbPromise) {
+      return this.dbPromise;
+    }
+
+    if (typeof window === 'undefined' || !window.indexedDB) {
+      return Promise.reject(new Error('IndexedDB is not available in this environment'));
+    }
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(this.dbName, 1);
+
+      request.onerror = () => {
+        this.dbPromise = null;
+        reject(new Error(`Failed to open cache database '${this.dbName}'`));
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(this.storeName)) {
+          db.createObjectStore(this.storeName, { keyPath: 'key' });
+        }
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  /**
+   * Run a single request against the cache store
+   */
+  private async request<T = unknown>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.openDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.storeName], mode);
+      const request = operation(transaction.objectStore(this.storeName));
+
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error || new Error('Cache database request failed'));
+    });
+  }
+}
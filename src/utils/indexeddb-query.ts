@@ -0,0 +1,97 @@
+/**
+ * Key query DSL for IndexedDB stores and indexes
+ */
+
+/**
+ * Range on a key. `prefix` matches string keys starting with the given text
+ * and cannot be combined with the other operators.
+ */
+export interface IndexedDBKeyRangeQuery {
+  gt?: IDBValidKey;
+  gte?: IDBValidKey;
+  lt?: IDBValidKey;
+  lte?: IDBValidKey;
+  prefix?: string;
+}
+
+export type IndexedDBKeyCondition = IDBValidKey | IndexedDBKeyRangeQuery;
+
+/**
+ * A key, a range, or for compound indexes an array of keys whose last item may be a range,
+ * e.g. `['Smith', { gte: 18 }]`
+ */
+export type IndexedDBKeyQuery = IDBKeyRange | IndexedDBKeyCondition | IndexedDBKeyCondition[];
+
+const RANGE_OPERATORS = ['gt', 'gte', 'lt', 'lte', 'prefix'];
+
+/**
+ * Compile a key query to the key or `IDBKeyRange` accepted by `openCursor`
+ */
+export function toKeyRange(query?: IndexedDBKeyQuery | null): IDBKeyRange | IDBValidKey | undefined {
+  if (query === undefined || query === null) {
+    return undefined;
+  }
+  if (typeof IDBKeyRange !== 'undefined' && query instanceof IDBKeyRange) {
+    return query;
+  }
+
+  if (Array.isArray(query)) {
+    const keys = query.slice(0, -1);
+    const last = query[query.length - 1];
+    if (keys.some(isRangeQuery)) {
+      throw new Error('Only the last item of a compound key query can be a range');
+    }
+    return isRangeQuery(last) ? compileRange(last, keys as IDBValidKey[]) : query as IDBValidKey[];
+  }
+
+  return isRangeQuery(query) ? compileRange(query, []) : query as IDBValidKey;
+}
+
+function isRangeQuery(value: unknown): value is IndexedDBKeyRangeQuery {
+  if (typeof value !== 'object' || value === null || Object.getPrototypeOf(value) !== Object.prototype) {
+    return false;
+  }
+
+  const operators = Object.keys(value);
+  const unknown = operators.filter(operator => !RANGE_OPERATORS.includes(operator));
+  if (operators.length === 0 || unknown.length > 0) {
+    throw new Error(`Invalid IndexedDB key query: unknown operator(s) ${unknown.join(', ') || '(none)'}`);
+  }
+  return true;
+}
+
+/**
+ * Bounds of compound keys keep the equal leading items; a missing upper bound
+ * becomes `[...keys, []]` since arrays sort after every other key.
+ */
+function compileRange(range: IndexedDBKeyRangeQuery, keys: IDBValidKey[]): IDBKeyRange {
+  const { gt, gte, lt, lte, prefix } = range;
+  const compound = keys.length > 0;
+  const key = (value: IDBValidKey): IDBValidKey => compound ? [...keys, value] : value;
+
+  if (prefix !== undefined) {
+    if (Object.keys(range).length > 1) {
+      throw new Error('Invalid IndexedDB key query: prefix cannot be combined with other operators');
+    }
+    return IDBKeyRange.bound(key(prefix), key(`${prefix}\uffff`));
+  }
+
+  const lower = gt !== undefined ? gt : gte;
+  const upper = lt !== undefined ? lt : lte;
+
+  if (compound) {
+    return IDBKeyRange.bound(
+      lower !== undefined ? key(lower) : keys,
+      upper !== undefined ? key(upper) : key([]),
+      gt !== undefined,
+      upper === undefined || lt !== undefined
+    );
+  }
+
+  if (lower !== undefined && upper !== undefined) {
+    return IDBKeyRange.bound(lower, upper, gt !== undefined, lt !== undefined);
+  }
+  return lower !== undefined
+    ? IDBKeyRange.lowerBound(lower, gt !== undefined)
+    : IDBKeyRange.upperBound(upper!, lt !== undefined);
+}
@@ -0,0 +1,239 @@
+import { ETLContext } from '../types';
+import { throwIfAborted } from './abort';
+
+export interface LiveWindowConfig {
+  /**
+   * Emit a chunk once this many messages are buffered
+   */
+  count?: number;
+
+  /**
+   * Emit a chunk this many milliseconds after its first message
+   */
+  time?: number;
+}
+
+export interface LiveReconnectConfig {
+  /**
+   * Reconnections attempted after a connection is lost, 5 by default.
+   * The count resets once a connection opens.
+   */
+  attempts?: number;
+
+  /**
+   * Delay before the first reconnection in milliseconds, 1000 by default
+   */
+  delay?: number;
+  backoffMultiplier?: number;
+  maxDelay?: number;
+}
+
+export interface LiveSourceConfig {
+  /**
+   * How text messages are parsed, `json` by default; messages that are not valid JSON are skipped
+   */
+  format?: 'json' | 'text';
+
+  /**
+   * How messages are grouped into chunks; each message is its own chunk by default
+   */
+  window?: LiveWindowConfig;
+
+  /**
+   * Reconnect with exponential backoff when the connection is lost; enabled by default
+   */
+  reconnect?: boolean | LiveReconnectConfig;
+
+  /**
+   * End the stream after this many messages
+   */
+  maxMessages?: number;
+
+  /**
+   * End the stream after this many milliseconds
+   */
+  duration?: number;
+}
+
+export interface LiveConnectionHandlers {
+  open(): void;
+  message(data: any): void;
+
+  /**
+   * The connection ended: cleanly without an error, or lost with one
+   */
+  close(error?: Error): void;
+}
+
+/**
+ * Open a connection to a live source and return a function that closes it
+ */
+export type LiveConnect = (handlers: LiveConnectionHandlers) => () => void;
+
+const DEFAULT_RECONNECT: Required<LiveReconnectConfig> = {
+  attempts: 5,
+  delay: 1000,
+  backoffMultiplier: 2,
+  maxDelay: 30000
+};
+
+/**
+ * Read a live source as a stream of message windows. The stream ends when the source
+ * closes cleanly, a limit is reached or the context's stopSignal fires, and fails when
+ * the connection is lost for good or the run is aborted.
+ */
+export async function* readLiveSource(
+  connect: LiveConnect,
+  config: LiveSourceConfig = {},
+  context: ETLContext = {}
+): AsyncGenerator<any[]> {
+  const { signal, stopSignal } = context;
+  const windowTime = config.window?.time;
+  const windowCount = config.window?.count ?? (windowTime !== undefined ? Infinity : 1);
+  const maxMessages = config.maxMessages ?? Infinity;
+  const deadline = config.duration !== undefined ? Date.now() + config.duration : Infinity;
+  const reconnect = resolveReconnect(config.reconnect);
+
+  const buffer: any[] = [];
+  let received = 0;
+  let ended = false;
+  let failure = null as Error | null;
+  let attempt = 0;
+  let disconnect = null as (() => void) | null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let wake: (() => void) | null = null;
+
+  const notify = () => {
+    const resolve = wake;
+    wake = null;
+    resolve?.();
+  };
+
+  const open = () => {
+    disconnect = connect({
+      open: () => {
+        attempt = 0;
+      },
+      message: data => {
+        if (ended || received >= maxMessages) {
+          return;
+        }
+
+        const parsed = parseMessage(data, config.format);
+        if (parsed === SKIP) {
+          return;
+        }
+
+        buffer.push(parsed);
+        received++;
+        notify();
+      },
+      close: error => {
+        disconnect = null;
+        if (ended) {
+          return;
+        }
+
+        if (!error) {
+          ended = true;
+        } else if (attempt < reconnect.attempts) {
+          const delay = Math.min(reconnect.delay * Math.pow(reconnect.backoffMultiplier, attempt), reconnect.maxDelay);
+          attempt++;
+          context.retry?.(attempt, delay, error);
+          reconnectTimer = setTimeout(open, delay);
+        } else {
+          failure = error;
+        }
+        notify();
+      }
+    });
+  };
+
+  signal?.addEventListener('abort', notify);
+  stopSignal?.addEventListener('abort', notify);
+
+  try {
+    open();
+    let windowEnd = Infinity;
+
+    for (;;) {
+      throwIfAborted(signal);
+
+      const now = Date.now();
+      const finished = ended || received >= maxMessages || now >= deadline || Boolean(stopSignal && stopSignal.aborted);
+
+      if (buffer.length > 0 && windowEnd === Infinity && windowTime !== undefined) {
+        windowEnd = now + windowTime;
+      }
+
+      if (buffer.length >= windowCount || (buffer.length > 0 && (finished || failure || now >= windowEnd))) {
+        const chunk = buffer.splice(0, Math.min(windowCount, buffer.length));
+        windowEnd = Infinity;
+        context.progress?.(received);
+        yield chunk;
+        continue;
+      }
+
+      if (finished) {
+        return;
+      }
+      if (failure) {
+        throw failure;
+      }
+
+      await wait(Math.min(windowEnd, deadline) - now, resolve => {
+        wake = resolve;
+      });
+    }
+  } finally {
+    ended = true;
+    clearTimeout(reconnectTimer);
+    disconnect?.();
+    signal?.removeEventListener('abort', notify);
+    stopSignal?.removeEventListener('abort', notify);
+  }
+}
+
+/**
+ * Fail unless a live source config ends by itself, so that extract() can return
+ */
+export function assertBoundedLiveSource(config: LiveSourceConfig, source: string): void {
+  if (config.maxMessages === undefined && config.duration === undefined) {
+    throw new Error(`Extracting from ${source} requires maxMessages or duration outside live runs`);
+  }
+}
+
+const SKIP = Symbol('skip');
+
+function parseMessage(data: any, format: LiveSourceConfig['format'] = 'json'): any {
+  if (typeof data !== 'string' || format === 'text') {
+    return data;
+  }
+
+  try {
+    return JSON.parse(data);
+  } catch {
+    console.warn('Skipping live message that is not valid JSON:', data);
+    return SKIP;
+  }
+}
+
+function resolveReconnect(reconnect: LiveSourceConfig['reconnect'] = true): Required<LiveReconnectConfig> {
+  if (reconnect === false) {
+    return { ...DEFAULT_RECONNECT, attempts: 0 };
+  }
+  return reconnect === true ? DEFAULT_RECONNECT : { ...DEFAULT_RECONNECT, ...reconnect };
+}
+
+/**
+ * Wait until woken up or until the timeout elapses
+ */
+function wait(timeout: number, register: (resolve: () => void) => void): Promise<void> {
+  return new Promise(resolve => {
+    const timeoutId = Number.isFinite(timeout) ? setTimeout(resolve, Math.max(0, timeout)) : undefined;
+    register(() => {
+      clearTimeout(timeoutId);
+      resolve();
+    });
+  });
+}
@@ -0,0 +1,151 @@
+/**
+ * NDJSON (newline-delimited JSON, JSON Lines) utilities for Browser ETL
+ */
+
+import { throwIfAborted } from './abort';
+
+export interface NdjsonBadLine {
+  /**
+   * 1-based line number
+   */
+  line: number;
+  text: string;
+
+  /**
+   * Why the line could not be parsed
+   */
+  error: string;
+}
+
+export interface NdjsonParseOptions {
+  /**
+   * Fail once more lines than this are invalid; invalid lines are skipped without limit by default
+   */
+  maxBadLines?: number;
+
+  /**
+   * Called for each invalid line. Without it, a summary of the skipped lines is logged.
+   */
+  onBadLine?: (badLine: NdjsonBadLine) => void;
+
+  /**
+   * Records per emitted chunk, 1000 by default
+   */
+  batchSize?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Parse NDJSON text, given as a whole or in arbitrary pieces, into chunks of records.
+ * Blank lines are ignored.
+ */
+export async function* parseNdjson(
+  text: AsyncIterable<string> | Iterable<string>,
+  options: NdjsonParseOptions = {}
+): AsyncGenerator<any[]> {
+  const batchSize = options.batchSize || 1000;
+  // Only line numbers are kept, for the summary logged without onBadLine
+  const skippedLines: number[] = [];
+  let badLineCount = 0;
+  let batch: any[] = [];
+  let lineNumber = 0;
+
+  for await (const line of splitLines(text)) {
+    lineNumber++;
+    if (lineNumber % batchSize === 0) {
+      throwIfAborted(options.signal);
+    }
+
+    const trimmed = line.trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    try {
+      batch.push(JSON.parse(trimmed));
+    } catch (error) {
+      const message = (error as Error).message;
+      badLineCount++;
+      if (options.onBadLine) {
+        options.onBadLine({ line: lineNumber, text: line, error: message });
+      } else {
+        skippedLines.push(lineNumber);
+      }
+
+      if (options.maxBadLines !== undefined && badLineCount > options.maxBadLines) {
+        throw new Error(`Invalid NDJSON on line ${lineNumber}: ${message}`);
+      }
+      continue;
+    }
+
+    if (batch.length >= batchSize) {
+      yield batch;
+      batch = [];
+    }
+  }
+
+  if (batch.length > 0) {
+    yield batch;
+  }
+
+  if (skippedLines.length > 0) {
+    console.warn(`Skipped ${skippedLines.length} invalid NDJSON line(s):`, skippedLines);
+  }
+}
+
+/**
+ * Serialize records as NDJSON, one record per line
+ */
+export function toNdjson(data: any): string {
+  const records = Array.isArray(data) ? data : [data];
+  return records.map(record => `${JSON.stringify(record) ?? 'null'}\n`).join('');
+}
+
+/**
+ * Decode a byte stream into text pieces
+ */
+export async function* decodeTextStream(stream: ReadableStream<Uint8Array>, encoding = 'utf-8'): AsyncGenerator<string> {
+  const decoder = new TextDecoder(encoding);
+  const reader = stream.getReader();
+  let done = false;
+
+  try {
+    for (;;) {
+      const result = await reader.read();
+      if (result.done) {
+        done = true;
+        break;
+      }
+      yield decoder.decode(result.value, { stream: true });
+    }
+  } finally {
+    if (!done) {
+      await reader.cancel();
+    }
+    reader.releaseLock();
+  }
+
+  const rest = decoder.decode();
+  if (rest) {
+    yield rest;
+  }
+}
+
+/**
+ * Split text pieces into lines, accepting `\n` and `\r\n` line endings
+ */
+async function* splitLines(text: AsyncIterable<string> | Iterable<string>): AsyncGenerator<string> {
+  let pending = '';
+
+  for await (const piece of text) {
+    const lines = (pending + piece).split('\n');
+    pending = lines.pop()!;
+    for (const line of lines) {
+      yield line.endsWith('\r') ? line.slice(0, -1) : line;
+    }
+  }
+
+  if (pending) {
+    yield pending;
+  }
+}
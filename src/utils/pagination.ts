@@ -0,0 +1,67 @@
+/**
+ * Helpers for following paginated HTTP APIs
+ */
+
+/**
+ * Parse an RFC 5988 `Link` header into a map of relation to URL
+ */
+export function parseLinkHeader(header: string | null | undefined): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) {
+    return links;
+  }
+
+  header.split(/,(?=\s*<)/).forEach(part => {
+    const match = part.match(/<([^>]*)>(.*)/);
+    if (!match) {
+      return;
+    }
+
+    const rel = match[2].match(/;\s*rel\s*=\s*(?:"([^"]*)"|([^\s;]+))/i);
+    if (!rel) {
+      return;
+    }
+
+    // A link may carry several space-separated relations
+    (rel[1] || rel[2]).split(/\s+/).forEach(name => {
+      if (name && !(name.toLowerCase() in links)) {
+        links[name.toLowerCase()] = match[1].trim();
+      }
+    });
+  });
+
+  return links;
+}
+
+/**
+ * Read a value at a dot-separated path, e.g. `meta.next_cursor`
+ */
+export function getValueAtPath(value: any, path: string): any {
+  return path.split('.').reduce((current, key) => {
+    return current !== null && current !== undefined ? current[key] : undefined;
+  }, value);
+}
+
+/**
+ * Return the URL with the given query parameters set
+ */
+export function setQueryParams(url: string, params: Record<string, string | number>): string {
+  const absolute = /^[a-z][a-z\d+.-]*:/i.test(url);
+  const parsed = new URL(url, documentBase());
+
+  Object.entries(params).forEach(([name, value]) => parsed.searchParams.set(name, String(value)));
+
+  // Relative URLs stay relative
+  return absolute ? parsed.href : `${parsed.pathname}${parsed.search}${parsed.hash}`;
+}
+
+/**
+ * Resolve a URL found in a response against the URL of the request
+ */
+export function resolveUrl(url: string, requestUrl: string): string {
+  return new URL(url, new URL(requestUrl, documentBase())).href;
+}
+
+function documentBase(): string {
+  return typeof location !== 'undefined' ? location.href : 'http://localhost/';
+}
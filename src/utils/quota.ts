@@ -0,0 +1,47 @@
+/**
+ * Storage quota errors for Browser ETL loaders
+ */
+
+export interface StorageQuotaError extends Error {
+  name: 'StorageQuotaError';
+
+  /**
+   * Storage being written, e.g. `localStorage` or `IndexedDB store 'users'`
+   */
+  storage: string;
+
+  /**
+   * Records written before the quota was reached
+   */
+  written: number;
+}
+
+/**
+ * Create the error thrown when a loader runs out of storage quota
+ */
+export function createStorageQuotaError(storage: string, written: number): StorageQuotaError {
+  const error = new Error(`Storage quota exceeded while writing to ${storage} after ${written} record(s)`) as StorageQuotaError;
+  error.name = 'StorageQuotaError';
+  error.storage = storage;
+  error.written = written;
+  return error;
+}
+
+/**
+ * Check whether an error was raised by a loader running out of storage quota
+ */
+export function isStorageQuotaError(error: unknown): error is StorageQuotaError {
+  return typeof error === 'object' && error !== null && (error as Error).name === 'StorageQuotaError';
+}
+
+/**
+ * Check whether a browser storage API failed for lack of quota. Firefox and
+ * older browsers use their own names and codes.
+ */
+export function isQuotaExceeded(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+  const { name, code } = error as { name?: string; code?: number };
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22 || code === 1014;
+}
@@ -0,0 +1,81 @@
+/**
+ * Key selection shared by the key-value storage extractors
+ */
+
+import { globToRegExp } from './glob';
+
+export interface StorageKeySelector {
+  /**
+   * Read this key only and return its value
+   */
+  key?: string;
+
+  /**
+   * Read every key starting with this text
+   */
+  prefix?: string;
+
+  /**
+   * Read every key matching this glob, e.g. `app:settings:*`
+   */
+  pattern?: string;
+}
+
+/**
+ * Entry returned when several keys are read
+ */
+export interface StorageEntry<T = any> {
+  key: string;
+  value: T;
+}
+
+/**
+ * Check whether a selector reads several keys
+ */
+export function selectsManyKeys(selector: StorageKeySelector): boolean {
+  return selector.prefix !== undefined || selector.pattern !== undefined;
+}
+
+/**
+ * Keep the keys matching both `prefix` and `pattern`, in their original order
+ */
+export function filterKeys(keys: string[], selector: StorageKeySelector): string[] {
+  const { prefix, pattern } = selector;
+  const glob = pattern !== undefined ? globToRegExp(pattern) : null;
+
+  return keys.filter(key => (prefix === undefined || key.startsWith(prefix)) && (!glob || glob.test(key)));
+}
+
+/**
+ * Parse stored JSON, keeping text that is not JSON as is
+ */
+export function parseStoredValue(value: string, parse: boolean): any {
+  if (!parse) {
+    return value;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    // Return as string if parsing fails
+    return value;
+  }
+}
+
+/**
+ * Read one key of a Web Storage area, or entries for every key selected by `prefix` and `pattern`
+ */
+export function readWebStorage(storage: Storage, selector: StorageKeySelector, parse: boolean): any {
+  if (!selectsManyKeys(selector)) {
+    const value = storage.getItem(selector.key!);
+    return value === null ? null : parseStoredValue(value, parse);
+  }
+
+  const keys = Array.from({ length: storage.length }, (_, index) => storage.key(index))
+    .filter((key): key is string => key !== null);
+
+  return filterKeys(keys, selector).map((key): StorageEntry => ({
+    key,
+    value: parseStoredValue(storage.getItem(key) || '', parse)
+  }));
+}
@@ -1,4 +1,4 @@
-import { StreamConfig } from '../types';
+import { StreamConfig, ETLContext } from '../types';
 
 /**
  * Stream utility for Browser ETL
@@ -11,12 +11,13 @@ export class StreamProcessor<T> {
   }
 
   /**
-   * Process data in streams
+   * Process data in streams, reporting progress after each batch
    */
   async process(
     data: T[],
     processor: (batch: T[]) => Promise<any>,
-    onBatch?: (batch: any) => void
+    onBatch?: (batch: any) => void,
+    context: ETLContext = {}
   ): Promise<any[]> {
     if (!this.config.enabled) {
       // Process all data at once
@@ -47,6 +48,8 @@ export class StreamProcessor<T> {
         console.error(`Error processing batch ${i / batchSize + 1}:`, error);
         // Continue with next batch
       }
+
+      context.progress?.(Math.min(i + batchSize, data.length), data.length);
     }
 
     return results;
@@ -190,4 +193,108 @@ export class StreamProcessor<T> {
       }
     });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Single-use stream of record chunks flowing between pipeline steps.
+ * Chunks are pulled on demand, so a slow consumer slows down the producer.
+ */
+export class DataStream<T = any> implements AsyncIterable<T[]> {
+  private source: AsyncIterable<T[] | T>;
+  private consumed = false;
+
+  constructor(source: AsyncIterable<T[] | T>) {
+    this.source = source;
+  }
+
+  /**
+   * Wrap an async iterable or a ReadableStream of chunks
+   */
+  static from<T>(source: AsyncIterable<T[] | T> | ReadableStream<T[] | T>): DataStream<T> {
+    if (source instanceof DataStream) {
+      return source;
+    }
+
+    return new DataStream(isReadableStream(source) ? readStream(source) : source);
+  }
+
+  /**
+   * Check if a value is a data stream
+   */
+  static isDataStream(value: unknown): value is DataStream {
+    return value instanceof DataStream;
+  }
+
+  /**
+   * Lazily transform each chunk
+   */
+  map<U>(fn: (chunk: T[]) => Promise<U[]>): DataStream<U> {
+    return new DataStream(mapChunks(this, fn));
+  }
+
+  /**
+   * Read every chunk into a single array
+   */
+  async collect(): Promise<T[]> {
+    const records: T[] = [];
+    for await (const chunk of this) {
+      for (const record of chunk) {
+        records.push(record);
+      }
+    }
+    return records;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T[]> {
+    if (this.consumed) {
+      throw new Error('A data stream can only be consumed once');
+    }
+    this.consumed = true;
+
+    const iterator = this.source[Symbol.asyncIterator]();
+    return {
+      next: async () => {
+        const result = await iterator.next();
+        if (result.done) {
+          return { done: true, value: undefined };
+        }
+        return { done: false, value: Array.isArray(result.value) ? result.value : [result.value] };
+      },
+      return: async () => {
+        await iterator.return?.();
+        return { done: true, value: undefined };
+      }
+    };
+  }
+}
+
+async function* mapChunks<T, U>(chunks: AsyncIterable<T[]>, fn: (chunk: T[]) => Promise<U[]>): AsyncGenerator<U[]> {
+  for await (const chunk of chunks) {
+    yield await fn(chunk);
+  }
+}
+
+function isReadableStream<T>(value: any): value is ReadableStream<T> {
+  return value !== null && typeof value === 'object' && typeof value.getReader === 'function';
+}
+
+async function* readStream<T>(stream: ReadableStream<T>): AsyncGenerator<T> {
+  const reader = stream.getReader();
+  let done = false;
+
+  try {
+    while (true) {
+      const result = await reader.read();
+      if (result.done) {
+        done = true;
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    if (!done) {
+      await reader.cancel();
+    }
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,507 @@
+/**
+ * XLSX (Office Open XML spreadsheet) reading and writing for Browser ETL
+ */
+
+import { childElements, parseXml } from './xml';
+import { ZipEntry, readZip, writeZip } from './zip';
+
+export interface XlsxReadOptions {
+  /**
+   * Sheet name or 0-based index, the first sheet by default
+   */
+  sheet?: string | number;
+
+  /**
+   * 1-based row holding the column names. `auto` (the default) picks the first row that
+   * fills the table's width with text, skipping title rows; `false` returns rows as arrays.
+   */
+  headerRow?: number | 'auto' | false;
+}
+
+export interface XlsxColumn {
+  /**
+   * Record field written to the column
+   */
+  key: string;
+  header?: string;
+
+  /**
+   * Width in characters; fitted to the content by default
+   */
+  width?: number;
+}
+
+export interface XlsxSheet {
+  name: string;
+  rows: any[];
+
+  /**
+   * Columns in order, the keys of the first record by default
+   */
+  columns?: XlsxColumn[];
+}
+
+export interface XlsxHeaderStyle {
+  bold?: boolean;
+
+  /**
+   * Background and text colors as RGB hex, e.g. `D9E1F2`
+   */
+  fill?: string;
+  color?: string;
+}
+
+export interface XlsxWriteOptions {
+  /**
+   * Style of the header row, bold by default; `false` leaves it unstyled
+   */
+  headerStyle?: XlsxHeaderStyle | false;
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// Built-in number formats that display dates or times
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57]);
+const DAY_MS = 86400000;
+const EPOCH_1900 = Date.UTC(1899, 11, 30);
+const EPOCH_1904 = Date.UTC(1904, 0, 1);
+
+/**
+ * Read a worksheet into records keyed by the header row. Numbers, booleans and text keep
+ * their types, date-formatted cells become `Date`s and formulas yield their cached values.
+ */
+export async function readXlsx(data: ArrayBuffer | Uint8Array, options: XlsxReadOptions = {}): Promise<any[]> {
+  const entries = new Map(readZip(data).map(entry => [entry.name, entry]));
+  const workbook = await readXmlEntry(entries, 'xl/workbook.xml');
+  if (!workbook) {
+    throw new Error('Invalid XLSX file: workbook not found');
+  }
+
+  const relationships = await readRelationships(entries, 'xl/_rels/workbook.xml.rels');
+  const sheets = Array.from(workbook.getElementsByTagNameNS(MAIN_NS, 'sheet'));
+  const { sheet = 0, headerRow = 'auto' } = options;
+  const selected = typeof sheet === 'number' ? sheets[sheet] : sheets.find(element => element.getAttribute('name') === sheet);
+  if (!selected) {
+    throw new Error(`Sheet not found: ${sheet}`);
+  }
+
+  const sharedStringsTarget = Array.from(relationships.values()).find(target => target.endsWith('sharedStrings.xml'));
+  const sheetTarget = relationships.get(selected.getAttributeNS(RELATIONSHIPS_NS, 'id') || '');
+  const sheetDocument = sheetTarget && await readXmlEntry(entries, sheetTarget);
+  if (!sheetDocument) {
+    throw new Error(`Invalid XLSX file: data of sheet ${selected.getAttribute('name')} not found`);
+  }
+
+  const properties = workbook.getElementsByTagNameNS(MAIN_NS, 'workbookPr')[0];
+  const date1904 = ['1', 'true'].includes(properties?.getAttribute('date1904') || '');
+  const context: CellContext = {
+    sharedStrings: await readSharedStrings(entries, sharedStringsTarget || 'xl/sharedStrings.xml'),
+    dateStyles: await readDateStyles(entries),
+    epoch: date1904 ? EPOCH_1904 : EPOCH_1900
+  };
+
+  const rows = readRows(sheetDocument, context);
+  if (headerRow === false) {
+    return rows.filter(row => row.some(isFilled));
+  }
+
+  const headerIndex = headerRow === 'auto' ? detectHeaderRow(rows) : headerRow - 1;
+  const records = rows.slice(headerIndex + 1).filter(row => row.some(isFilled));
+  const width = Math.max((rows[headerIndex] || []).length, ...records.map(row => row.length));
+  const headers = uniqueHeaders(rows[headerIndex] || [], width);
+
+  return records.map(row => Object.fromEntries(headers.map((header, index) => [header, row[index] ?? null])));
+}
+
+/**
+ * List the sheet names of a workbook
+ */
+export async function listXlsxSheets(data: ArrayBuffer | Uint8Array): Promise<string[]> {
+  const workbook = await readXmlEntry(new Map(readZip(data).map(entry => [entry.name, entry])), 'xl/workbook.xml');
+  if (!workbook) {
+    throw new Error('Invalid XLSX file: workbook not found');
+  }
+  return Array.from(workbook.getElementsByTagNameNS(MAIN_NS, 'sheet')).map(sheet => sheet.getAttribute('name') || '');
+}
+
+/**
+ * Write records to a workbook with one worksheet per sheet
+ */
+export async function writeXlsx(sheets: XlsxSheet[], options: XlsxWriteOptions = {}): Promise<Uint8Array> {
+  if (sheets.length === 0) {
+    throw new Error('At least one sheet is required to write an XLSX file');
+  }
+
+  const { headerStyle = { bold: true } } = options;
+  const names = sheets.map(sheet => sanitizeSheetName(sheet.name));
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new Error(`Duplicate sheet name: ${duplicate}`);
+  }
+
+  const overrides = sheets.map((_, index) =>
+    `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+  ).join('');
+
+  return writeZip([
+    {
+      name: '[Content_Types].xml',
+      data: xmlDeclaration('<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+        + `${overrides}</Types>`)
+    },
+    {
+      name: '_rels/.rels',
+      data: xmlDeclaration(`<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">`
+        + `<Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`)
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: xmlDeclaration(`<workbook xmlns="${MAIN_NS}" xmlns:r="${RELATIONSHIPS_NS}"><sheets>`
+        + names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')
+        + '</sheets></workbook>')
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: xmlDeclaration(`<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">`
+        + sheets.map((_, index) =>
+          `<Relationship Id="rId${index + 1}" Type="${RELATIONSHIPS_NS}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+        ).join('')
+        + `<Relationship Id="rId${sheets.length + 1}" Type="${RELATIONSHIPS_NS}/styles" Target="styles.xml"/>`
+        + '</Relationships>')
+    },
+    { name: 'xl/styles.xml', data: writeStyles(headerStyle) },
+    ...sheets.map((sheet, index) => ({
+      name: `xl/worksheets/sheet${index + 1}.xml`,
+      data: writeWorksheet(sheet, headerStyle !== false)
+    }))
+  ]);
+}
+
+interface CellContext {
+  sharedStrings: string[];
+
+  /**
+   * Indexes of cell formats that display dates
+   */
+  dateStyles: Set<number>;
+  epoch: number;
+}
+
+async function readXmlEntry(entries: Map<string, ZipEntry>, name: string): Promise<Document | null> {
+  const entry = entries.get(name.replace(/^\//, ''));
+  return entry ? parseXml(new TextDecoder().decode(await entry.read())) : null;
+}
+
+/**
+ * Map relationship ids to package paths
+ */
+async function readRelationships(entries: Map<string, ZipEntry>, name: string): Promise<Map<string, string>> {
+  const document = await readXmlEntry(entries, name);
+  const relationships = new Map<string, string>();
+
+  Array.from(document?.getElementsByTagNameNS(PACKAGE_RELATIONSHIPS_NS, 'Relationship') || []).forEach(relationship => {
+    const target = relationship.getAttribute('Target') || '';
+    relationships.set(
+      relationship.getAttribute('Id') || '',
+      target.startsWith('/') ? target.slice(1) : `xl/${target}`
+    );
+  });
+
+  return relationships;
+}
+
+async function readSharedStrings(entries: Map<string, ZipEntry>, name: string): Promise<string[]> {
+  const document = await readXmlEntry(entries, name);
+  return Array.from(document?.getElementsByTagNameNS(MAIN_NS, 'si') || []).map(readRichText);
+}
+
+/**
+ * Text of a string item, joining the runs of rich text and leaving out phonetic hints
+ */
+function readRichText(element: Element): string {
+  return Array.from(element.getElementsByTagNameNS(MAIN_NS, 't'))
+    .filter(text => (text.parentNode as Element).localName !== 'rPh')
+    .map(text => text.textContent || '')
+    .join('');
+}
+
+async function readDateStyles(entries: Map<string, ZipEntry>): Promise<Set<number>> {
+  const document = await readXmlEntry(entries, 'xl/styles.xml');
+  const dateStyles = new Set<number>();
+  if (!document) {
+    return dateStyles;
+  }
+
+  const customDateFormats = new Set(
+    Array.from(document.getElementsByTagNameNS(MAIN_NS, 'numFmt'))
+      .filter(format => isDateFormat(format.getAttribute('formatCode') || ''))
+      .map(format => Number(format.getAttribute('numFmtId')))
+  );
+  const cellFormats = document.getElementsByTagNameNS(MAIN_NS, 'cellXfs')[0];
+  if (!cellFormats) {
+    return dateStyles;
+  }
+
+  childElements(cellFormats, 'xf').forEach((format, index) => {
+    const id = Number(format.getAttribute('numFmtId') || 0);
+    if (DATE_FORMAT_IDS.has(id) || customDateFormats.has(id)) {
+      dateStyles.add(index);
+    }
+  });
+
+  return dateStyles;
+}
+
+/**
+ * Whether a number format code displays a date or time, ignoring literals and colors
+ */
+function isDateFormat(code: string): boolean {
+  const stripped = code
+    .replace(/"[^"]*"/g, '')
+    .replace(/\\./g, '')
+    .replace(/\[(?![hms]+\])[^\]]*\]/gi, '');
+  return /[dmyhs]/i.test(stripped) && !/^general$/i.test(stripped.trim());
+}
+
+/**
+ * Read the rows of a worksheet as arrays indexed by column
+ */
+function readRows(document: Document, context: CellContext): any[][] {
+  const rows: any[][] = [];
+
+  Array.from(document.getElementsByTagNameNS(MAIN_NS, 'row')).forEach(row => {
+    const rowNumber = Number(row.getAttribute('r')) || rows.length + 1;
+    const values: any[] = [];
+
+    childElements(row, 'c').forEach(cell => {
+      const reference = cell.getAttribute('r');
+      const column = reference ? columnIndex(reference) : values.length;
+      values[column] = readCell(cell, context);
+    });
+
+    rows[rowNumber - 1] = values;
+  });
+
+  // Rows missing from the sheet data are empty
+  return Array.from(rows, row => row || []);
+}
+
+function readCell(cell: Element, context: CellContext): any {
+  const type = cell.getAttribute('t') || 'n';
+  const value = childElements(cell, 'v')[0]?.textContent ?? null;
+
+  switch (type) {
+    case 's':
+      return value === null ? null : context.sharedStrings[Number(value)] ?? null;
+    case 'inlineStr': {
+      const inline = childElements(cell, 'is')[0];
+      return inline ? readRichText(inline) : null;
+    }
+    case 'str':
+    case 'e':
+      return value;
+    case 'b':
+      return value === null ? null : value === '1' || value === 'true';
+    case 'd':
+      return value === null ? null : new Date(value);
+    default: {
+      if (value === null || value === '') {
+        return null;
+      }
+      const number = Number(value);
+      return context.dateStyles.has(Number(cell.getAttribute('s') || 0))
+        ? fromSerialDate(number, context.epoch)
+        : number;
+    }
+  }
+}
+
+/**
+ * Spreadsheet dates have no time zone; they are read and written as local time
+ */
+function fromSerialDate(serial: number, epoch: number): Date {
+  const date = new Date(epoch + Math.round(serial * DAY_MS));
+  return new Date(
+    date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(),
+    date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds(), date.getUTCMilliseconds()
+  );
+}
+
+function toSerialDate(date: Date): number {
+  const local = Date.UTC(
+    date.getFullYear(), date.getMonth(), date.getDate(),
+    date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()
+  );
+  return (local - EPOCH_1900) / DAY_MS;
+}
+
+/**
+ * Pick the first of the leading rows that spans the table's width with text only
+ */
+function detectHeaderRow(rows: any[][]): number {
+  const candidates = rows
+    .map((row, index) => ({ index, filled: row.filter(isFilled) }))
+    .filter(candidate => candidate.filled.length > 0)
+    .slice(0, 10);
+  if (candidates.length === 0) {
+    return 0;
+  }
+
+  const width = Math.max(...candidates.map(candidate => candidate.filled.length));
+  const header = candidates.find(candidate =>
+    candidate.filled.length === width && candidate.filled.every(value => typeof value === 'string')
+  );
+  return (header || candidates[0]).index;
+}
+
+/**
+ * Name blank headers after their column letter and number repeated ones
+ */
+function uniqueHeaders(row: any[], width: number): string[] {
+  const seen = new Map<string, number>();
+
+  return Array.from({ length: width }, (_, index) => {
+    const value = row[index];
+    const name = isFilled(value) ? String(value instanceof Date ? value.toISOString() : value).trim() : columnName(index);
+    const count = (seen.get(name) || 0) + 1;
+    seen.set(name, count);
+    return count > 1 ? `${name}_${count}` : name;
+  });
+}
+
+function isFilled(value: any): boolean {
+  return value !== null && value !== undefined && value !== '';
+}
+
+/**
+ * 0-based column index of a cell reference such as `AB12`
+ */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+  return Array.from(letters).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let value = index + 1; value > 0; value = Math.floor((value - 1) / 26)) {
+    name = String.fromCharCode(65 + ((value - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function writeStyles(headerStyle: XlsxHeaderStyle | false): string {
+  const { bold = true, fill, color } = headerStyle || {};
+  const headerFont = `<font>${bold ? '<b/>' : ''}<sz val="11"/>${color ? `<color rgb="FF${color}"/>` : ''}<name val="Calibri"/></font>`;
+  const headerFill = fill
+    ? `<fill><patternFill patternType="solid"><fgColor rgb="FF${fill}"/><bgColor indexed="64"/></patternFill></fill>`
+    : '';
+
+  return xmlDeclaration(`<styleSheet xmlns="${MAIN_NS}">`
+    + '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>'
+    + `<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>${headerFont}</fonts>`
+    + `<fills count="${fill ? 3 : 2}"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>${headerFill}</fills>`
+    + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+    + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+    + '<cellXfs count="3">'
+    + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+    + `<xf numFmtId="0" fontId="1" fillId="${fill ? 2 : 0}" borderId="0" xfId="0" applyFont="1"${fill ? ' applyFill="1"' : ''}/>`
+    + '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+    + '</cellXfs></styleSheet>');
+}
+
+function writeWorksheet(sheet: XlsxSheet, styleHeader: boolean): string {
+  const records = sheet.rows.map(row => (typeof row === 'object' && row !== null ? row : { value: row }));
+  const columns: XlsxColumn[] = sheet.columns || Object.keys(records[0] || {}).map(key => ({ key }));
+  const headers = columns.map(column => column.header ?? column.key);
+
+  const headerRow = `<row r="1">${headers.map((header, index) =>
+    writeCell(header, `${columnName(index)}1`, styleHeader ? 1 : 0)
+  ).join('')}</row>`;
+  const dataRows = records.map((record, rowIndex) => `<row r="${rowIndex + 2}">${columns.map((column, index) =>
+    writeCell(record[column.key], `${columnName(index)}${rowIndex + 2}`, 0)
+  ).join('')}</row>`);
+
+  const widths = columns.map((column, index) => column.width ?? fitWidth(headers[index], records, column.key));
+  const cols = columns.length > 0
+    ? `<cols>${widths.map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+
+  return xmlDeclaration(`<worksheet xmlns="${MAIN_NS}">${cols}<sheetData>${headerRow}${dataRows.join('')}</sheetData></worksheet>`);
+}
+
+function writeCell(value: any, reference: string, style: number): string {
+  const styleAttribute = style ? ` s="${style}"` : '';
+
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${reference}"${styleAttribute}><v>${value}</v></c>` : '';
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${reference}"${styleAttribute} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  if (value instanceof Date) {
+    const serial = toSerialDate(value);
+    return Number.isNaN(serial) ? '' : `<c r="${reference}" s="${style || 2}"><v>${serial}</v></c>`;
+  }
+
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  const space = text !== text.trim() ? ' xml:space="preserve"' : '';
+  return `<c r="${reference}"${styleAttribute} t="inlineStr"><is><t${space}>${escapeXml(text)}</t></is></c>`;
+}
+
+/**
+ * Width in characters that fits the header and the first rows
+ */
+function fitWidth(header: string, records: any[], key: string): number {
+  const lengths = records.slice(0, 1000).map(record => {
+    const value = record[key];
+    if (value instanceof Date) {
+      return 19;
+    }
+    return value === null || value === undefined ? 0 : (typeof value === 'object' ? JSON.stringify(value) : String(value)).length;
+  });
+  return Math.min(Math.max(header.length, ...lengths, 6) + 2, 60);
+}
+
+/**
+ * Excel limits sheet names to 31 characters without `[]:*?/\`
+ */
+function sanitizeSheetName(name: string): string {
+  return (name.replace(/[[\]:*?/\\]/g, '_').slice(0, 31)) || 'Sheet';
+}
+
+function escapeXml(text: string): string {
+  return stripControlCharacters(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Drop the control characters XML 1.0 does not allow; tabs and line breaks are kept
+ */
+function stripControlCharacters(text: string): string {
+  let result = '';
+  for (let index = 0; index < text.length; index++) {
+    const code = text.charCodeAt(index);
+    if (code >= 32 || code === 9 || code === 10 || code === 13) {
+      result += text[index];
+    }
+  }
+  return result;
+}
+
+function xmlDeclaration(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`;
+}
@@ -0,0 +1,144 @@
+/**
+ * XML utilities for Browser ETL
+ */
+
+export interface XmlMappingOptions {
+  /**
+   * Prefix of keys holding attributes, `@` by default
+   */
+  attributePrefix?: string;
+
+  /**
+   * Key holding the text of elements that also have attributes or children, `#text` by default
+   */
+  textKey?: string;
+
+  /**
+   * Drop namespace prefixes from element and attribute names
+   */
+  ignoreNamespaces?: boolean;
+
+  /**
+   * Element names always mapped to arrays, even when they occur once
+   */
+  alwaysArray?: string[];
+}
+
+/**
+ * Parse an XML document, failing with the parser's message when it is malformed
+ */
+export function parseXml(text: string): Document {
+  if (typeof DOMParser === 'undefined') {
+    throw new Error('DOMParser is not available in this environment');
+  }
+
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  const error = document.getElementsByTagName('parsererror')[0];
+  if (error) {
+    throw new Error(`Invalid XML: ${(error.textContent || '').trim()}`);
+  }
+  return document;
+}
+
+/**
+ * Map an element to a plain object. Attributes become prefixed keys, children become
+ * keys (arrays when repeated) and elements holding only text become strings.
+ */
+export function xmlToObject(element: Element, options: XmlMappingOptions = {}): any {
+  const {
+    attributePrefix = '@',
+    textKey = '#text',
+    ignoreNamespaces = false,
+    alwaysArray = []
+  } = options;
+  const result: Record<string, any> = {};
+  let text = '';
+  let hasContent = false;
+
+  Array.from(element.attributes).forEach(attribute => {
+    // Namespace declarations are not data
+    if (attribute.name === 'xmlns' || attribute.prefix === 'xmlns') {
+      return;
+    }
+    result[attributePrefix + nameOf(attribute, ignoreNamespaces)] = attribute.value;
+    hasContent = true;
+  });
+
+  Array.from(element.childNodes).forEach(node => {
+    if (node.nodeType === 3 || node.nodeType === 4) {
+      // Text and CDATA
+      text += node.nodeValue || '';
+      return;
+    }
+    if (node.nodeType !== 1) {
+      return;
+    }
+
+    const child = node as Element;
+    const name = nameOf(child, ignoreNamespaces);
+    const value = xmlToObject(child, options);
+    hasContent = true;
+
+    if (!Object.prototype.hasOwnProperty.call(result, name)) {
+      result[name] = alwaysArray.includes(name) ? [value] : value;
+    } else if (Array.isArray(result[name])) {
+      result[name].push(value);
+    } else {
+      result[name] = [result[name], value];
+    }
+  });
+
+  text = text.trim();
+  if (!hasContent) {
+    return text;
+  }
+  if (text) {
+    result[textKey] = text;
+  }
+  return result;
+}
+
+/**
+ * Select the elements at a slash-separated path of element names from the document root,
+ * e.g. `rss/channel/item`; `*` matches any element
+ */
+export function selectElements(document: Document, path: string): Element[] {
+  const segments = path.split('/').filter(Boolean);
+  let elements: Element[] = [document.documentElement];
+
+  if (segments.length === 0 || !matchesName(document.documentElement, segments[0])) {
+    return [];
+  }
+
+  segments.slice(1).forEach(segment => {
+    elements = elements.flatMap(element => Array.from(element.children).filter(child => matchesName(child, segment)));
+  });
+
+  return elements;
+}
+
+/**
+ * Child elements with the given name, e.g. `title` or `content:encoded`
+ */
+export function childElements(element: Element, name: string): Element[] {
+  return Array.from(element.children).filter(child => matchesName(child, name));
+}
+
+/**
+ * Trimmed text of the first child element with the given name
+ */
+export function childText(element: Element, name: string): string | undefined {
+  const child = childElements(element, name)[0];
+  return child ? (child.textContent || '').trim() : undefined;
+}
+
+/**
+ * Match a qualified name, or the local name when the name has no prefix
+ */
+function matchesName(element: Element, name: string): boolean {
+  return name === '*' || element.nodeName === name || (!name.includes(':') && element.localName === name);
+}
+
+function nameOf(node: Element | Attr, ignoreNamespaces: boolean): string {
+  return ignoreNamespaces ? node.localName : node.nodeName;
+}
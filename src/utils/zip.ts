@@ -0,0 +1,231 @@
+/**
+ * Minimal ZIP archive reading and writing for Browser ETL
+ */
+
+import { compressBytes, decompressBytes } from './compression';
+
+export interface ZipEntry {
+  /**
+   * Path of the entry inside the archive, e.g. `xl/workbook.xml`
+   */
+  name: string;
+  directory: boolean;
+
+  /**
+   * Uncompressed size in bytes
+   */
+  size: number;
+  compressedSize: number;
+
+  /**
+   * Decompress the entry's contents
+   */
+  read(): Promise<Uint8Array>;
+}
+
+export interface ZipFileInput {
+  name: string;
+  data: string | Uint8Array;
+}
+
+export interface ZipWriteOptions {
+  /**
+   * Deflate entries where `CompressionStream` is available, true by default; entries are stored otherwise
+   */
+  compress?: boolean;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+/**
+ * List the entries of a ZIP archive. Entries are only decompressed when read.
+ */
+export function readZip(data: ArrayBuffer | Uint8Array): ZipEntry[] {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = findEndOfCentralDirectory(view);
+  const count = view.getUint16(end + 10, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let offset = view.getUint32(end + 16, true);
+
+  if (offset === 0xffffffff || count === 0xffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  for (let index = 0; index < count; index++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER) {
+      throw new Error('Invalid ZIP archive: corrupt central directory');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.push({
+      name,
+      directory: name.endsWith('/'),
+      size,
+      compressedSize,
+      read: async () => {
+        if (flags & 0x1) {
+          throw new Error(`Cannot read encrypted ZIP entry: ${name}`);
+        }
+        if (view.getUint32(localOffset, true) !== LOCAL_HEADER) {
+          throw new Error(`Invalid ZIP archive: corrupt entry ${name}`);
+        }
+
+        const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const content = bytes.subarray(start, start + compressedSize);
+
+        switch (method) {
+          case 0:
+            return content.slice();
+          case 8:
+            return inflateRaw(content);
+          default:
+            throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+        }
+      }
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Build a ZIP archive from text and binary files
+ */
+export async function writeZip(files: ZipFileInput[], options: ZipWriteOptions = {}): Promise<Uint8Array> {
+  const compress = options.compress !== false && typeof CompressionStream !== 'undefined';
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(new Date());
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const content = typeof file.data === 'string' ? encoder.encode(file.data) : file.data;
+    const stored = compress ? await deflateRaw(content) : content;
+    const method = compress ? 8 : 0;
+    const checksum = crc32(content);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, 0x0800, true); // UTF-8 names
+    localView.setUint16(8, method, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, checksum, true);
+    localView.setUint32(18, stored.length, true);
+    localView.setUint32(22, content.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, checksum, true);
+    centralView.setUint32(20, stored.length, true);
+    centralView.setUint32(24, content.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, stored);
+    centralParts.push(central);
+    offset += local.length + stored.length;
+  }
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return concatBytes([...localParts, ...centralParts, end]);
+}
+
+/**
+ * CRC-32 checksum as used by ZIP and gzip
+ */
+export function crc32(bytes: Uint8Array): number {
+  const table = crcTable || (crcTable = buildCrcTable());
+  let crc = 0xffffffff;
+  for (let index = 0; index < bytes.length; index++) {
+    crc = table[(crc ^ bytes[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function buildCrcTable(): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index++) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value;
+  }
+  return table;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record sits at the end, followed by a comment of up to 64 KB
+  const last = view.byteLength - 22;
+  for (let offset = last; offset >= Math.max(0, last - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error('Invalid ZIP archive: end of central directory not found');
+}
+
+async function inflateRaw(bytes: Uint8Array): Promise<Uint8Array> {
+  return decompressBytes(bytes, 'deflate-raw');
+}
+
+async function deflateRaw(bytes: Uint8Array): Promise<Uint8Array> {
+  return compressBytes(bytes, 'deflate-raw');
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+function toDosDateTime(value: Date): { time: number; date: number } {
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: (Math.max(value.getFullYear() - 1980, 0) << 9) | ((value.getMonth() + 1) << 5) | value.getDate()
+  };
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ApiExtractor } from '../../src/extractors/api';
+import { compressBytes } from '../../src/utils/compression';
 
 // Mock fetch
 global.fetch = vi.fn();
@@ -55,6 +56,43 @@ describe('ApiExtractor', () => {
     expect(result).toBe(mockText);
   });
 
+  it('should parse NDJSON responses', async () => {
+    (fetch as any).mockResolvedValueOnce({
+      ok: true,
+      body: null,
+      text: () => Promise.resolve('{"id":1}\n{"id":2}\n'),
+      headers: {
+        get: () => 'application/x-ndjson; charset=utf-8'
+      }
+    });
+
+    const result = await extractor.extract({
+      url: 'https://api.example.com/export'
+    });
+
+    expect(result).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  it('should report invalid NDJSON lines and fail past maxBadLines', async () => {
+    const response = () => ({
+      ok: true,
+      body: null,
+      text: () => Promise.resolve('{"id":1}\n{oops\n{"id":2}\n[\n'),
+      headers: {
+        get: () => 'application/x-ndjson'
+      }
+    });
+    const onBadLine = vi.fn();
+    (fetch as any).mockResolvedValueOnce(response()).mockResolvedValueOnce(response());
+
+    const result = await extractor.extract({ url: 'https://api.example.com/export', onBadLine });
+
+    expect(result).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(onBadLine).toHaveBeenCalledWith(expect.objectContaining({ line: 2, text: '{oops' }));
+    await expect(extractor.extract({ url: 'https://api.example.com/export', maxBadLines: 1 }))
+      .rejects.toThrow('Invalid NDJSON on line 4');
+  });
+
   it('should handle POST requests with body', async () => {
     const mockData = { id: 1, name: 'Test' };
     const requestBody = { name: 'New Test' };
@@ -126,6 +164,49 @@ describe('ApiExtractor', () => {
     })).rejects.toThrow('HTTP 404: Not Found');
   });
 
+  it('should report retries to the run context', async () => {
+    const retry = vi.fn();
+    (fetch as any)
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({}),
+        headers: {
+          get: () => 'application/json'
+        }
+      });
+
+    await extractor.extract({
+      url: 'https://api.example.com/test',
+      retries: 1
+    }, { retry });
+
+    expect(retry).toHaveBeenCalledWith(1, 1000, expect.objectContaining({ message: 'Network error' }));
+  });
+
+  it('should leave retries to the pipeline when it retries the step', async () => {
+    (fetch as any).mockRejectedValue(new Error('Network error'));
+
+    await expect(extractor.extract({
+      url: 'https://api.example.com/test'
+    }, { retried: true })).rejects.toThrow('Network error');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry once the run is aborted', async () => {
+    const controller = new AbortController();
+    (fetch as any).mockImplementation(async () => {
+      controller.abort();
+      throw new Error('Network error');
+    });
+
+    await expect(extractor.extract({
+      url: 'https://api.example.com/test',
+      retries: 3
+    }, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
   it('should support configuration validation', () => {
     expect(extractor.supports({ url: 'https://api.example.com' })).toBe(true);
     expect(extractor.supports({})).toBe(false);
@@ -135,4 +216,231 @@ describe('ApiExtractor', () => {
   it('should have correct name', () => {
     expect(extractor.name).toBe('api');
   });
+
+  describe('pagination', () => {
+    const jsonResponse = (body: any, headers: Record<string, string> = {}) => {
+      const all: Record<string, string> = { 'content-type': 'application/json', ...headers };
+      return {
+        ok: true,
+        json: () => Promise.resolve(body),
+        headers: { get: (name: string) => all[name.toLowerCase()] ?? null }
+      };
+    };
+
+    const requestedUrls = () => (fetch as any).mock.calls.map((call: any[]) => call[0]);
+
+    beforeEach(() => {
+      (fetch as any).mockReset();
+    });
+
+    it('should follow page numbers until a short page', async () => {
+      (fetch as any).mockImplementation(async (url: string) => {
+        const page = Number(new URL(url).searchParams.get('page'));
+        return jsonResponse({ items: page < 3 ? [page * 10, page * 10 + 1] : [page * 10] });
+      });
+
+      const result = await extractor.extract({
+        url: 'https://api.example.com/items?sort=asc',
+        pagination: { type: 'page', itemsPath: 'items', pageSize: 2, limitParam: 'per_page' }
+      });
+
+      expect(result).toEqual([10, 11, 20, 21, 30]);
+      expect(requestedUrls()).toEqual([
+        'https://api.example.com/items?sort=asc&page=1&per_page=2',
+        'https://api.example.com/items?sort=asc&page=2&per_page=2',
+        'https://api.example.com/items?sort=asc&page=3&per_page=2'
+      ]);
+    });
+
+    it('should request offsets', async () => {
+      (fetch as any).mockImplementation(async (url: string) => {
+        const offset = Number(new URL(url).searchParams.get('offset'));
+        return jsonResponse(offset < 4 ? [offset, offset + 1] : []);
+      });
+
+      const result = await extractor.extract({
+        url: 'https://api.example.com/items',
+        pagination: { type: 'offset', pageSize: 2 }
+      });
+
+      expect(result).toEqual([0, 1, 2, 3]);
+      expect(requestedUrls()[1]).toBe('https://api.example.com/items?offset=2&limit=2');
+    });
+
+    it('should require a page size for offsets', async () => {
+      await expect(extractor.extract({
+        url: 'https://api.example.com/items',
+        pagination: { type: 'offset' }
+      })).rejects.toThrow('Offset pagination requires pageSize');
+    });
+
+    it('should fetch the remaining pages concurrently when the total is known', async () => {
+      let active = 0;
+      let maxActive = 0;
+      (fetch as any).mockImplementation(async (url: string) => {
+        const page = Number(new URL(url).searchParams.get('page'));
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        active--;
+        return jsonResponse({ data: [page], meta: { pages: 5 } });
+      });
+
+      const result = await extractor.extract({
+        url: 'https://api.example.com/items',
+        pagination: { type: 'page', itemsPath: 'data', totalPagesPath: 'meta.pages', concurrency: 3 }
+      });
+
+      expect(result).toEqual([1, 2, 3, 4, 5]);
+      expect(fetch).toHaveBeenCalledTimes(5);
+      expect(maxActive).toBe(3);
+    });
+
+    it('should pass cursors from the response', async () => {
+      const pages: Record<string, any> = {
+        first: { results: [1, 2], next: 'abc' },
+        abc: { results: [3], next: 'def' },
+        def: { results: [4], next: null }
+      };
+      (fetch as any).mockImplementation(async (url: string) =>
+        jsonResponse(pages[new URL(url).searchParams.get('after') || 'first']));
+
+      const result = await extractor.extract({
+        url: 'https://api.example.com/items',
+        pagination: { type: 'cursor', itemsPath: 'results', cursorPath: 'next', cursorParam: 'after' }
+      });
+
+      expect(result).toEqual([1, 2, 3, 4]);
+      expect(requestedUrls()[2]).toBe('https://api.example.com/items?after=def');
+    });
+
+    it('should stop when a cursor repeats', async () => {
+      (fetch as any).mockImplementation(async () => jsonResponse({ results: [1], next: 'same' }));
+
+      await extractor.extract({
+        url: 'https://api.example.com/items',
+        pagination: { type: 'cursor', itemsPath: 'results', cursorPath: 'next' }
+      });
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should follow Link headers', async () => {
+      (fetch as any)
+        .mockResolvedValueOnce(jsonResponse([1], {
+          link: '<https://api.example.com/items?page=2>; rel="next", <https://api.example.com/items?page=3>; rel="last"'
+        }))
+        .mockResolvedValueOnce(jsonResponse([2], { link: '</items?page=3>; rel="next"' }))
+        .mockResolvedValueOnce(jsonResponse([3], { link: '<https://api.example.com/items?page=1>; rel="first"' }));
+
+      const result = await extractor.extract({
+        url: 'https://api.example.com/items',
+        pagination: { type: 'link' }
+      });
+
+      expect(result).toEqual([1, 2, 3]);
+      expect(requestedUrls()).toEqual([
+        'https://api.example.com/items',
+        'https://api.example.com/items?page=2',
+        'https://api.example.com/items?page=3'
+      ]);
+    });
+
+    it('should build requests with a custom hook', async () => {
+      (fetch as any).mockImplementation(async (url: string) => jsonResponse({ rows: [url.length], more: url.endsWith('1') }));
+      const getNextRequest = vi.fn((_response: Response, body: any) =>
+        body.more ? { url: 'https://api.example.com/next2', options: { method: 'POST' } } : null);
+
+      const result = await extractor.extract({
+        url: 'https://api.example.com/next1',
+        pagination: { type: 'custom', itemsPath: 'rows', getNextRequest }
+      });
+
+      expect(result).toHaveLength(2);
+      expect(getNextRequest).toHaveBeenCalledTimes(2);
+      expect((fetch as any).mock.calls[1][1]).toMatchObject({ method: 'POST' });
+    });
+
+    it('should stop at maxPages and maxItems', async () => {
+      (fetch as any).mockImplementation(async (url: string) => {
+        const page = Number(new URL(url).searchParams.get('page'));
+        return jsonResponse([page * 10, page * 10 + 1, page * 10 + 2]);
+      });
+
+      const byPages = await extractor.extract({
+        url: 'https://api.example.com/items',
+        pagination: { type: 'page', maxPages: 2 }
+      });
+      expect(byPages).toEqual([10, 11, 12, 20, 21, 22]);
+
+      (fetch as any).mockClear();
+      const byItems = await extractor.extract({
+        url: 'https://api.example.com/items',
+        pagination: { type: 'page', maxItems: 4 }
+      });
+      expect(byItems).toEqual([10, 11, 12, 20]);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stream pages as they arrive and report progress', async () => {
+      (fetch as any).mockImplementation(async (url: string) => {
+        const page = Number(new URL(url).searchParams.get('page'));
+        return jsonResponse(page <= 2 ? [page, page] : []);
+      });
+      const progress = vi.fn();
+      const pages: any[][] = [];
+
+      for await (const page of extractor.stream({
+        url: 'https://api.example.com/items',
+        pagination: { type: 'page' }
+      }, { progress })) {
+        pages.push(page);
+      }
+
+      expect(pages).toEqual([[1, 1], [2, 2]]);
+      expect(progress).toHaveBeenLastCalledWith(4);
+      expect(extractor.canStream({ url: 'https://api.example.com/items' })).toBe(false);
+    });
+  });
+
+  describe('compression', () => {
+    const gzip = async (text: string) => compressBytes(new TextEncoder().encode(text), 'gzip');
+
+    it('should decompress gzip URLs and parse them by their inner extension', async () => {
+      const body = await gzip('{"id":1}\n{"id":2}\n');
+      (fetch as any).mockResolvedValueOnce(new Response(body as BodyInit, {
+        headers: { 'content-type': 'application/octet-stream' }
+      }));
+
+      const result = await extractor.extract({ url: 'https://example.com/dumps/events.ndjson.gz?v=2' });
+
+      expect(result).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    it('should decompress application/gzip bodies', async () => {
+      const body = await gzip('[1,2,3]');
+      (fetch as any).mockResolvedValueOnce(new Response(body as BodyInit, {
+        headers: { 'content-type': 'application/gzip' }
+      }));
+
+      expect(await extractor.extract({ url: 'https://example.com/export.json.gz' })).toEqual([1, 2, 3]);
+    });
+
+    it('should not decompress bodies the browser already decoded', async () => {
+      (fetch as any).mockResolvedValueOnce(new Response('{"ok":true}', {
+        headers: { 'content-type': 'application/json', 'content-encoding': 'gzip' }
+      }));
+
+      expect(await extractor.extract({ url: 'https://example.com/data.json.gz' })).toEqual({ ok: true });
+    });
+
+    it('should decompress when asked to, keeping the content type', async () => {
+      const body = await compressBytes(new TextEncoder().encode('{"ok":true}'), 'deflate');
+      (fetch as any).mockResolvedValueOnce(new Response(body as BodyInit, {
+        headers: { 'content-type': 'application/json' }
+      }));
+
+      expect(await extractor.extract({ url: 'https://example.com/data', compression: 'deflate' })).toEqual({ ok: true });
+    });
+  });
 });
\ No newline at end of file
@@ -1,6 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ApiLoader } from '../../src/loaders/api';
 
+async function* chunksOf(...chunks: any[][]) {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
+
 // Mock fetch
 global.fetch = vi.fn();
 
@@ -308,6 +314,19 @@ describe('ApiLoader', () => {
     });
   });
 
+  describe('loadStream method', () => {
+    it('should send one request per chunk', async () => {
+      (fetch as any).mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+
+      await loader.loadStream(chunksOf([{ id: 1 }, { id: 2 }], [{ id: 3 }]), {
+        url: 'https://api.example.com/users'
+      });
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect((fetch as any).mock.calls[1][1].body).toBe(JSON.stringify([{ id: 3 }]));
+    });
+  });
+
   describe('supports method', () => {
     it('should support config with URL', () => {
       expect(loader.supports({ url: 'https://api.example.com' })).toBe(true);
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CacheStorageExtractor } from '../../src/extractors/cacheStorage';
+
+describe('CacheStorageExtractor', () => {
+  let extractor: CacheStorageExtractor;
+  let mockCaches: any;
+  const origin = location.origin;
+
+  const json = (body: any) => () => new Response(JSON.stringify(body), { headers: { 'content-type': 'application/json' } });
+  const text = (body: string) => () => new Response(body, { headers: { 'content-type': 'text/html' } });
+
+  beforeEach(() => {
+    extractor = new CacheStorageExtractor();
+
+    const contents: Record<string, Record<string, () => Response>> = {
+      'api-v1': {
+        [`${origin}/api/users`]: json([{ id: 1 }]),
+        [`${origin}/api/orders?page=2`]: json({ total: 3 }),
+        [`${origin}/index.html`]: text('<h1>Home</h1>')
+      },
+      'images': {
+        'https://cdn.example.com/logo.svg': text('<svg/>')
+      }
+    };
+
+    mockCaches = {
+      has: vi.fn(async (name: string) => name in contents),
+      keys: vi.fn(async () => Object.keys(contents)),
+      open: vi.fn(async (name: string) => ({
+        keys: async () => Object.keys(contents[name]).map(url => ({ url })),
+        match: async (request: { url: string }) => contents[name][request.url]?.()
+      }))
+    };
+    vi.stubGlobal('caches', mockCaches);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('extract method', () => {
+    it('should read cached responses matching a pattern relative to the origin', async () => {
+      const records = await extractor.extract({ pattern: '/api/*' });
+
+      expect(records).toEqual([
+        { cache: 'api-v1', url: `${origin}/api/users`, status: 200, headers: { 'content-type': 'application/json' }, body: [{ id: 1 }] },
+        { cache: 'api-v1', url: `${origin}/api/orders?page=2`, status: 200, headers: { 'content-type': 'application/json' }, body: { total: 3 } }
+      ]);
+    });
+
+    it('should read every cache or one cache', async () => {
+      const all = await extractor.extract({ body: 'none' });
+      const images = await extractor.extract({ cacheName: 'images', prefix: 'https://cdn.example.com/' });
+
+      expect(all.map(record => record.url)).toHaveLength(4);
+      expect(all.every(record => record.body === null)).toBe(true);
+      expect(images).toEqual([expect.objectContaining({ cache: 'images', body: '<svg/>' })]);
+    });
+
+    it('should read the response of one URL', async () => {
+      const records = await extractor.extract({ url: '/index.html', body: 'text' });
+
+      expect(records).toEqual([expect.objectContaining({ url: `${origin}/index.html`, body: '<h1>Home</h1>' })]);
+    });
+
+    it('should not create missing caches', async () => {
+      await expect(extractor.extract({ cacheName: 'missing' })).rejects.toThrow('Cache not found: missing');
+      expect(mockCaches.open).not.toHaveBeenCalled();
+    });
+
+    it('should throw error when Cache Storage is not available', async () => {
+      vi.stubGlobal('caches', undefined);
+
+      await expect(extractor.extract({})).rejects.toThrow('Cache Storage is not available in this environment');
+    });
+  });
+});
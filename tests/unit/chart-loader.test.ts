@@ -289,6 +289,36 @@ describe('ChartLoader', () => {
     });
   });
 
+  describe('loadStream method', () => {
+    async function* chunks(...batches: any[][]) {
+      for (const batch of batches) {
+        yield batch;
+      }
+    }
+
+    it('should draw the first chunk and update the chart with later ones', async () => {
+      const chart = { data: null as any, update: vi.fn() };
+      mockChart.mockImplementation(() => chart);
+
+      await loader.loadStream(chunks([{ label: 'A', value: 1 }], [{ label: 'B', value: 2 }, { label: 'C', value: 3 }]), {
+        type: 'line',
+        config: {},
+        maxPoints: 2
+      });
+
+      expect(mockChart).toHaveBeenCalledTimes(1);
+      expect(chart.update).toHaveBeenCalledTimes(1);
+      expect(chart.data.labels).toEqual(['B', 'C']);
+      expect(chart.data.datasets[0].data).toEqual([2, 3]);
+    });
+
+    it('should draw an empty chart for an empty stream', async () => {
+      await loader.loadStream(chunks(), { type: 'bar', config: {} });
+
+      expect(mockChart).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('supports method', () => {
     it('should support valid config', () => {
       expect(loader.supports({
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compressBytes,
+  compressionFromName,
+  compressionFromType,
+  decompressBytes,
+  stripCompressionExtension
+} from '../../src/utils/compression';
+
+describe('compression', () => {
+  it('should detect compression from file extensions', () => {
+    expect(compressionFromName('users.csv.gz')).toBe('gzip');
+    expect(compressionFromName('https://example.com/dump.JSON.GZIP')).toBe('gzip');
+    expect(compressionFromName('events.ndjson.deflate')).toBe('deflate');
+    expect(compressionFromName('users.csv')).toBeNull();
+    expect(compressionFromName('gz')).toBeNull();
+  });
+
+  it('should detect gzip from MIME types', () => {
+    expect(compressionFromType('application/gzip')).toBe('gzip');
+    expect(compressionFromType('application/x-gzip; charset=binary')).toBe('gzip');
+    expect(compressionFromType('application/json')).toBeNull();
+    expect(compressionFromType(null)).toBeNull();
+  });
+
+  it('should strip the compression extension only', () => {
+    expect(stripCompressionExtension('users.csv.gz')).toBe('users.csv');
+    expect(stripCompressionExtension('users.csv')).toBe('users.csv');
+  });
+
+  it.each(['gzip', 'deflate'] as const)('should round-trip %s bytes', async format => {
+    const bytes = new TextEncoder().encode('a,b\n1,2\n'.repeat(50));
+
+    const compressed = await compressBytes(bytes, format);
+    expect(compressed.length).toBeLessThan(bytes.length);
+    expect(new TextDecoder().decode(await decompressBytes(compressed, format))).toBe('a,b\n1,2\n'.repeat(50));
+  });
+});
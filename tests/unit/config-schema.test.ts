@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { validateConfig } from '../../src/utils/config-schema';
+
+describe('validateConfig', () => {
+  const schema = {
+    url: { type: 'string' as const, required: true },
+    method: { type: 'string' as const, enum: ['GET', 'POST'] },
+    container: { type: ['string' as const, 'element' as const] },
+    headers: { type: 'object' as const },
+    fields: { type: 'array' as const }
+  };
+
+  it('should accept a matching config', () => {
+    const container = document.createElement('div');
+    expect(validateConfig({ url: '/users', method: 'GET', container, headers: {}, fields: [] }, schema)).toEqual([]);
+  });
+
+  it('should report missing required fields', () => {
+    expect(validateConfig({ url: null }, schema)).toEqual([{ field: 'url', message: "'url' is required" }]);
+    expect(validateConfig(undefined, schema)).toEqual([{ field: 'url', message: "'url' is required" }]);
+  });
+
+  it('should report wrong types', () => {
+    expect(validateConfig({ url: '/users', container: 3, headers: [], fields: {} }, schema)).toEqual([
+      { field: 'container', message: "'container' must be a string or an element, got number" },
+      { field: 'headers', message: "'headers' must be an object, got an array" },
+      { field: 'fields', message: "'fields' must be an array, got object" }
+    ]);
+  });
+
+  it('should report values outside the allowed set', () => {
+    expect(validateConfig({ url: '/users', method: 'PATCH' }, schema)).toEqual([
+      { field: 'method', message: "'method' must be one of \"GET\", \"POST\"" }
+    ]);
+  });
+
+  it('should report expressions that do not parse', () => {
+    const expressionSchema = { fn: { type: ['function' as const, 'expression' as const], required: true } };
+
+    expect(validateConfig({ fn: 'age >= 18' }, expressionSchema)).toEqual([]);
+    expect(validateConfig({ fn: 3 }, expressionSchema)).toEqual([
+      { field: 'fn', message: "'fn' must be a function or an expression, got number" }
+    ]);
+    expect(validateConfig({ fn: 'age >=' }, expressionSchema)).toEqual([{
+      field: 'fn',
+      message: "'fn' is not a valid expression: Unexpected end of expression at position 6\n  age >=\n        ^"
+    }]);
+  });
+
+  it('should ignore fields the schema does not describe', () => {
+    expect(validateConfig({ url: '/users', extra: 1 }, schema)).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { CookieExtractor } from '../../src/extractors/cookies';
+
+describe('CookieExtractor', () => {
+  let extractor: CookieExtractor;
+  const names = ['session', 'app:theme', 'app:prefs', 'greeting'];
+
+  beforeEach(() => {
+    extractor = new CookieExtractor();
+    document.cookie = 'session=abc123';
+    document.cookie = 'app:theme=dark';
+    document.cookie = `app:prefs=${encodeURIComponent('{"lang":"en"}')}`;
+    document.cookie = 'greeting="hello%20world"';
+  });
+
+  afterEach(() => {
+    names.forEach(name => {
+      document.cookie = `${name}=; expires=Thu, 01 Jan 1970 00:00:00 GMT`;
+    });
+  });
+
+  describe('extract method', () => {
+    it('should parse every cookie into entries', async () => {
+      expect(await extractor.extract()).toEqual([
+        { key: 'session', value: 'abc123' },
+        { key: 'app:theme', value: 'dark' },
+        { key: 'app:prefs', value: '{"lang":"en"}' },
+        { key: 'greeting', value: 'hello world' }
+      ]);
+    });
+
+    it('should read one cookie', async () => {
+      expect(await extractor.extract({ key: 'session' })).toBe('abc123');
+      expect(await extractor.extract({ key: 'missing' })).toBeNull();
+    });
+
+    it('should select cookies by prefix or pattern and parse JSON values', async () => {
+      expect(await extractor.extract({ pattern: 'app:*', parse: true })).toEqual([
+        { key: 'app:theme', value: 'dark' },
+        { key: 'app:prefs', value: { lang: 'en' } }
+      ]);
+      expect(await extractor.extract({ prefix: 'sess' })).toEqual([{ key: 'session', value: 'abc123' }]);
+      expect(extractor.outputShape({ key: 'session' })).toBe('unknown');
+      expect(extractor.outputShape({})).toBe('records');
+    });
+  });
+
+  describe('name property', () => {
+    it('should have correct name', () => {
+      expect(extractor.name).toBe('cookies');
+    });
+  });
+});
@@ -1,6 +1,7 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, expectTypeOf, vi, beforeEach } from 'vitest';
 import { ETL, etl } from '../../src/core/etl';
 import { ETLPipeline } from '../../src/core/pipeline';
+import { IExtractor, ILoader, ITransformer } from '../../src/types';
 
 // Mock the pipeline
 vi.mock('../../src/core/pipeline');
@@ -17,6 +18,15 @@ describe('ETL', () => {
       extract: vi.fn(),
       transform: vi.fn(),
       load: vi.fn(),
+      as: vi.fn(),
+      from: vi.fn(),
+      retry: vi.fn(),
+      timeout: vi.fn(),
+      on: vi.fn(),
+      off: vi.fn(),
+      registerFunction: vi.fn(),
+      loadSpec: vi.fn(),
+      toSpec: vi.fn().mockReturnValue({ version: 1, steps: [] }),
       run: vi.fn().mockResolvedValue({ success: true, data: 'test-data' })
     };
 
@@ -27,9 +37,9 @@ describe('ETL', () => {
   describe('constructor', () => {
     it('should create ETL instance with default config', () => {
       expect(ETLPipeline).toHaveBeenCalledWith(undefined);
-      expect(mockPipeline.registerExtractor).toHaveBeenCalledTimes(6); // 6 extractors
-      expect(mockPipeline.registerTransformer).toHaveBeenCalledTimes(4); // 4 transformers
-      expect(mockPipeline.registerLoader).toHaveBeenCalledTimes(4); // 4 loaders
+      expect(mockPipeline.registerExtractor).toHaveBeenCalledTimes(14); // 14 extractors
+      expect(mockPipeline.registerTransformer).toHaveBeenCalledTimes(5); // 5 transformers
+      expect(mockPipeline.registerLoader).toHaveBeenCalledTimes(6); // 6 loaders
     });
 
     it('should create ETL instance with custom config', () => {
@@ -48,6 +58,18 @@ describe('ETL', () => {
       });
     });
 
+    it('should extract from GraphQL', () => {
+      etlInstance.extract.graphql('https://api.example.com/graphql', '{ users { id } }', { first: 10 }, {
+        dataPath: 'users'
+      });
+      expect(mockPipeline.extract).toHaveBeenCalledWith('graphql', {
+        endpoint: 'https://api.example.com/graphql',
+        query: '{ users { id } }',
+        variables: { first: 10 },
+        dataPath: 'users'
+      });
+    });
+
     it('should extract HTML', () => {
       etlInstance.extract.html('.selector', 'https://example.com');
       expect(mockPipeline.extract).toHaveBeenCalledWith('html', {
@@ -56,6 +78,34 @@ describe('ETL', () => {
       });
     });
 
+    it('should extract HTML tables and records', () => {
+      etlInstance.extract.htmlTable('#prices');
+      expect(mockPipeline.extract).toHaveBeenCalledWith('html', { selector: '#prices', url: undefined, mode: 'table' });
+
+      etlInstance.extract.htmlRecords('.product', { name: 'h2' }, 'https://example.com');
+      expect(mockPipeline.extract).toHaveBeenCalledWith('html', {
+        selector: '.product',
+        fields: { name: 'h2' },
+        url: 'https://example.com',
+        mode: 'records'
+      });
+    });
+
+    it('should extract structured data', () => {
+      etlInstance.extract.jsonLd('https://example.com/product', { itemType: 'Product' });
+      expect(mockPipeline.extract).toHaveBeenCalledWith('html', {
+        url: 'https://example.com/product',
+        mode: 'jsonld',
+        itemType: 'Product'
+      });
+
+      etlInstance.extract.microdata();
+      expect(mockPipeline.extract).toHaveBeenCalledWith('html', { url: undefined, mode: 'microdata' });
+
+      etlInstance.extract.meta(undefined, { selector: 'head' });
+      expect(mockPipeline.extract).toHaveBeenCalledWith('html', { url: undefined, mode: 'meta', selector: 'head' });
+    });
+
     it('should extract CSV', () => {
       const csvData = 'name,age\nJohn,30';
       etlInstance.extract.csv(csvData, { delimiter: ',' });
@@ -65,6 +115,16 @@ describe('ETL', () => {
       });
     });
 
+    it('should pass CSV extractor settings', () => {
+      const file = new File(['a\n1'], 'data.csv');
+      etlInstance.extract.csv(file, { dynamicTyping: true }, { preview: 10 });
+      expect(mockPipeline.extract).toHaveBeenCalledWith('csv', {
+        data: file,
+        options: { dynamicTyping: true },
+        preview: 10
+      });
+    });
+
     it('should extract from localStorage', () => {
       etlInstance.extract.localStorage('myKey');
       expect(mockPipeline.extract).toHaveBeenCalledWith('localStorage', {
@@ -72,11 +132,49 @@ describe('ETL', () => {
       });
     });
 
+    it('should extract from browser storage', () => {
+      etlInstance.extract.sessionStorage({ pattern: 'app:settings:*' });
+      expect(mockPipeline.extract).toHaveBeenCalledWith('sessionStorage', { pattern: 'app:settings:*' });
+
+      etlInstance.extract.cookies();
+      expect(mockPipeline.extract).toHaveBeenCalledWith('cookies', {});
+
+      etlInstance.extract.cookies('session');
+      expect(mockPipeline.extract).toHaveBeenCalledWith('cookies', { key: 'session' });
+
+      etlInstance.extract.cacheStorage('/api/*', { cacheName: 'api-v1' });
+      expect(mockPipeline.extract).toHaveBeenCalledWith('cacheStorage', { pattern: '/api/*', cacheName: 'api-v1' });
+
+      etlInstance.extract.opfs('exports/users.csv');
+      expect(mockPipeline.extract).toHaveBeenCalledWith('opfs', { path: 'exports/users.csv' });
+
+      etlInstance.extract.opfsFiles('**/*.json', { content: false });
+      expect(mockPipeline.extract).toHaveBeenCalledWith('opfs', { pattern: '**/*.json', content: false });
+    });
+
     it('should extract from IndexedDB', () => {
-      etlInstance.extract.indexedDB('myStore', { id: 1 });
+      etlInstance.extract.indexedDB('myStore', 1);
       expect(mockPipeline.extract).toHaveBeenCalledWith('indexedDB', {
         storeName: 'myStore',
-        query: { id: 1 }
+        query: 1
+      });
+    });
+
+    it('should extract from IndexedDB databases and stores', () => {
+      etlInstance.extract.indexedDB('users', { prefix: 'a' }, { dbName: 'app-db', index: 'byName', limit: 10 });
+      expect(mockPipeline.extract).toHaveBeenCalledWith('indexedDB', {
+        storeName: 'users',
+        query: { prefix: 'a' },
+        dbName: 'app-db',
+        index: 'byName',
+        limit: 10
+      });
+
+      etlInstance.extract.indexedDBStores(['users', 'orders'], { dbName: 'app-db', version: 2 });
+      expect(mockPipeline.extract).toHaveBeenCalledWith('indexedDB', {
+        stores: ['users', 'orders'],
+        dbName: 'app-db',
+        version: 2
       });
     });
 
@@ -88,6 +186,44 @@ describe('ETL', () => {
         type: 'text'
       });
     });
+
+    it('should extract from zip archives', () => {
+      const file = new File(['zip'], 'dump.zip');
+      etlInstance.extract.zip(file, 'data/*.csv', { listEntries: true });
+      expect(mockPipeline.extract).toHaveBeenCalledWith('file', {
+        file,
+        type: 'zip',
+        entries: 'data/*.csv',
+        listEntries: true
+      });
+    });
+
+    it('should extract from live sources', () => {
+      etlInstance.extract.sse('/events', { events: ['price'] });
+      expect(mockPipeline.extract).toHaveBeenCalledWith('sse', { url: '/events', events: ['price'] });
+
+      etlInstance.extract.websocket('wss://example.com', { window: { count: 10 } });
+      expect(mockPipeline.extract).toHaveBeenCalledWith('websocket', {
+        url: 'wss://example.com',
+        window: { count: 10 }
+      });
+    });
+
+    it('should extract XML from markup or a URL', () => {
+      etlInstance.extract.xml('<catalog><book/></catalog>', { recordPath: 'catalog/book' });
+      expect(mockPipeline.extract).toHaveBeenCalledWith('xml', {
+        data: '<catalog><book/></catalog>',
+        recordPath: 'catalog/book'
+      });
+
+      etlInstance.extract.xml('/catalog.xml');
+      expect(mockPipeline.extract).toHaveBeenCalledWith('xml', { url: '/catalog.xml' });
+    });
+
+    it('should extract feed items', () => {
+      etlInstance.extract.feed('/feed.xml');
+      expect(mockPipeline.extract).toHaveBeenCalledWith('xml', { url: '/feed.xml', preset: 'feed' });
+    });
   });
 
   describe('transform methods', () => {
@@ -116,6 +252,31 @@ describe('ETL', () => {
       });
     });
 
+    it('should join the outputs of two steps', () => {
+      etlInstance.join.inputs('users', 'orders', { key: 'id', mode: 'nested' });
+      expect(mockPipeline.transform).toHaveBeenCalledWith('join', {
+        key: 'id',
+        mode: 'nested',
+        type: 'inputs',
+        left: 'users',
+        right: 'orders'
+      }, { inputs: ['users', 'orders'] });
+    });
+
+    it('should name steps and select inputs', () => {
+      const result = etlInstance.as('users').from('users', 'orders');
+      expect(mockPipeline.as).toHaveBeenCalledWith('users');
+      expect(mockPipeline.from).toHaveBeenCalledWith('users', 'orders');
+      expect(result).toBe(etlInstance);
+    });
+
+    it('should configure retries and timeouts of the previous step', () => {
+      const result = etlInstance.retry({ attempts: 5, delay: 500 }).timeout(10000);
+      expect(mockPipeline.retry).toHaveBeenCalledWith({ attempts: 5, delay: 500 });
+      expect(mockPipeline.timeout).toHaveBeenCalledWith(10000);
+      expect(result).toBe(etlInstance);
+    });
+
     it('should filter data', () => {
       const filterFn = (item: any) => item.active;
       etlInstance.filter(filterFn);
@@ -128,6 +289,19 @@ describe('ETL', () => {
       expect(mockPipeline.transform).toHaveBeenCalledWith('map', { fn: mapFn });
     });
 
+    it('should accept expressions in place of functions', () => {
+      etlInstance.filter('age >= 18').map('{ name: upper(name) }').transform('length($)');
+      expect(mockPipeline.transform).toHaveBeenCalledWith('filter', { fn: 'age >= 18' });
+      expect(mockPipeline.transform).toHaveBeenCalledWith('map', { fn: '{ name: upper(name) }' });
+      expect(mockPipeline.transform).toHaveBeenCalledWith('map', { fn: 'length($)' });
+    });
+
+    it('should sort data', () => {
+      const result = etlInstance.sort('lower(name)', 'desc');
+      expect(mockPipeline.transform).toHaveBeenCalledWith('sort', { by: 'lower(name)', order: 'desc' });
+      expect(result).toBe(etlInstance);
+    });
+
     it('should enrich data', async () => {
       const enrichFn = async (item: any) => ({ ...item, enriched: true });
       etlInstance.enrich(enrichFn);
@@ -169,6 +343,16 @@ describe('ETL', () => {
       });
     });
 
+    it('should pass file settings', () => {
+      etlInstance.load.file('report', 'xlsx', { sheetName: 'Sales', headerStyle: { fill: 'D9E1F2' } });
+      expect(mockPipeline.load).toHaveBeenCalledWith('file', {
+        filename: 'report',
+        format: 'xlsx',
+        sheetName: 'Sales',
+        headerStyle: { fill: 'D9E1F2' }
+      });
+    });
+
     it('should load to API', () => {
       etlInstance.load.api('https://api.example.com', { method: 'POST' });
       expect(mockPipeline.load).toHaveBeenCalledWith('api', {
@@ -176,6 +360,53 @@ describe('ETL', () => {
         options: { method: 'POST' }
       });
     });
+
+    it('should load to browser storage', () => {
+      etlInstance.load.indexedDB('users', { dbName: 'app-db', mode: 'upsert', batchSize: 200 });
+      expect(mockPipeline.load).toHaveBeenCalledWith('indexedDB', {
+        storeName: 'users',
+        dbName: 'app-db',
+        mode: 'upsert',
+        batchSize: 200
+      });
+
+      etlInstance.load.localStorage('user:', { keyPath: 'id' });
+      expect(mockPipeline.load).toHaveBeenCalledWith('localStorage', { key: 'user:', keyPath: 'id' });
+    });
+  });
+
+  describe('specs', () => {
+    it('should create an instance from a spec', () => {
+      const isAdult = (item: any) => item.age >= 18;
+      const spec = { version: 1, config: { maxParallel: 2 }, steps: [] };
+
+      const instance = ETL.fromSpec(spec, { isAdult });
+
+      expect(instance).toBeInstanceOf(ETL);
+      expect(ETLPipeline).toHaveBeenCalledWith({ maxParallel: 2 });
+      expect(mockPipeline.registerFunction).toHaveBeenCalledWith('isAdult', isAdult);
+      expect(mockPipeline.loadSpec).toHaveBeenCalledWith(spec);
+    });
+
+    it('should delegate toSpec to the pipeline', () => {
+      expect(etlInstance.toSpec('name')).toEqual({ version: 1, steps: [] });
+      expect(mockPipeline.toSpec).toHaveBeenCalledWith('name');
+    });
+  });
+
+  describe('event hooks', () => {
+    it('should register hooks on the pipeline', () => {
+      const listener = vi.fn();
+      const result = etlInstance
+        .onStepStart(listener)
+        .onProgress(listener)
+        .onError(listener);
+
+      expect(mockPipeline.on).toHaveBeenCalledWith('stepStart', listener);
+      expect(mockPipeline.on).toHaveBeenCalledWith('progress', listener);
+      expect(mockPipeline.on).toHaveBeenCalledWith('error', listener);
+      expect(result).toBe(etlInstance);
+    });
   });
 
   describe('run method', () => {
@@ -191,6 +422,14 @@ describe('ETL', () => {
       
       await expect(etlInstance.run()).rejects.toThrow('Pipeline failed');
     });
+
+    it('should start live runs', () => {
+      const liveRun = { result: Promise.resolve(), stop: vi.fn() };
+      mockPipeline.runLive = vi.fn().mockReturnValue(liveRun);
+
+      expect(etlInstance.live()).toBe(liveRun);
+      expect(mockPipeline.runLive).toHaveBeenCalled();
+    });
   });
 
   describe('getPipeline method', () => {
@@ -213,6 +452,50 @@ describe('ETL', () => {
       expect(mockPipeline.transform).toHaveBeenCalledTimes(2);
       expect(mockPipeline.load).toHaveBeenCalled();
     });
+
+    it('should register and use custom components', () => {
+      const extractor: IExtractor<{ id: number }[]> = {
+        name: 'custom-extractor',
+        extract: vi.fn(),
+        supports: vi.fn()
+      };
+      const transformer: ITransformer<{ id: number }[], string[]> = {
+        name: 'custom-transformer',
+        transform: vi.fn(),
+        supports: vi.fn()
+      };
+      const loader: ILoader<string[]> = {
+        name: 'custom-loader',
+        load: vi.fn(),
+        supports: vi.fn()
+      };
+
+      etlInstance
+        .extract.custom(extractor, { limit: 1 })
+        .transformWith(transformer)
+        .load.custom(loader, { target: 'x' });
+
+      expect(mockPipeline.registerExtractor).toHaveBeenCalledWith(extractor);
+      expect(mockPipeline.extract).toHaveBeenCalledWith('custom-extractor', { limit: 1 });
+      expect(mockPipeline.registerTransformer).toHaveBeenCalledWith(transformer);
+      expect(mockPipeline.transform).toHaveBeenCalledWith('custom-transformer', undefined);
+      expect(mockPipeline.registerLoader).toHaveBeenCalledWith(loader);
+      expect(mockPipeline.load).toHaveBeenCalledWith('custom-loader', { target: 'x' });
+    });
+
+    it('should carry record types through the steps', () => {
+      interface User { id: number; name: string }
+      interface Order { userId: number; total: number }
+
+      const users = etl().extract.api<User>('https://api.example.com/users');
+      expectTypeOf(users).toEqualTypeOf<ETL<User>>();
+      expectTypeOf(users.map(user => user.name)).toEqualTypeOf<ETL<string>>();
+      expectTypeOf(users.join.api<Order>('https://api.example.com/orders', {})).toEqualTypeOf<ETL<User & Order>>();
+      expectTypeOf(users.filter(user => user.id > 0).run()).toEqualTypeOf<Promise<User[]>>();
+
+      const extractor: IExtractor<Order[]> = { name: 'orders', extract: vi.fn(), supports: vi.fn() };
+      expectTypeOf(etl().extract.custom(extractor)).toEqualTypeOf<ETL<Order>>();
+    });
   });
 });
 
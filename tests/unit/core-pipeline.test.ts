@@ -1,6 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ETLPipeline } from '../../src/core/pipeline';
 import { IExtractor, ITransformer, ILoader, ETLConfig } from '../../src/types';
+import { CsvExtractor } from '../../src/extractors/csv';
+import { FileExtractor } from '../../src/extractors/file';
+import { FilterTransformer } from '../../src/transformers/filter';
+import { JoinTransformer } from '../../src/transformers/join';
+import { ChartLoader } from '../../src/loaders/chart';
+import { ApiExtractor } from '../../src/extractors/api';
 
 describe('ETLPipeline', () => {
   let pipeline: ETLPipeline;
@@ -142,9 +148,9 @@ describe('ETLPipeline', () => {
       expect(result.data).toBe('transformed-data');
       expect(result.metadata.steps).toHaveLength(3);
       expect(result.metadata.steps.every(step => step.success)).toBe(true);
-      expect(mockExtractor.extract).toHaveBeenCalledWith({ url: 'test-url' });
-      expect(mockTransformer.transform).toHaveBeenCalledWith('extracted-data', { fn: () => {} });
-      expect(mockLoader.load).toHaveBeenCalledWith('transformed-data', { container: '#test' });
+      expect(mockExtractor.extract).toHaveBeenCalledWith({ url: 'test-url' }, expect.any(Object));
+      expect(mockTransformer.transform).toHaveBeenCalledWith('extracted-data', { fn: () => {} }, expect.any(Object));
+      expect(mockLoader.load).toHaveBeenCalledWith('transformed-data', { container: '#test' }, expect.any(Object));
     });
 
     it('should handle extractor not found error', async () => {
@@ -280,6 +286,143 @@ describe('ETLPipeline', () => {
       const result = pipeline.clearCache();
       expect(result).toBe(pipeline);
     });
+
+    it('should skip the cache for opted-out steps', async () => {
+      pipeline.extract('test-extractor', { url: 'test-url' }).cache(false);
+
+      const result = await pipeline.run();
+      await pipeline.run();
+
+      expect(mockExtractor.extract).toHaveBeenCalledTimes(2);
+      expect(result.metadata.cacheMisses).toBe(0);
+      expect(result.metadata.cacheHits).toBe(0);
+    });
+
+    it('should cache opted-in steps when caching is disabled', async () => {
+      pipeline.updateConfig({ enableCache: false });
+      pipeline.extract('test-extractor', { url: 'test-url' }, { cache: true });
+
+      await pipeline.run();
+      await pipeline.run();
+
+      expect(mockExtractor.extract).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass per-step TTL overrides to the backend', async () => {
+      const backend = {
+        get: vi.fn().mockResolvedValue(null),
+        set: vi.fn().mockResolvedValue(undefined),
+        delete: vi.fn(),
+        clear: vi.fn()
+      };
+
+      pipeline
+        .setCacheBackend(backend)
+        .extract('test-extractor', { url: 'test-url' }).cache(60000);
+
+      await pipeline.run();
+
+      expect(backend.set).toHaveBeenCalledWith(expect.stringContaining('test-extractor'), 'extracted-data', 60000);
+    });
+
+    it('should read hits from a custom backend', async () => {
+      const backend = {
+        get: vi.fn().mockResolvedValue('cached-data'),
+        set: vi.fn(),
+        delete: vi.fn(),
+        clear: vi.fn()
+      };
+
+      pipeline
+        .setCacheBackend(backend)
+        .extract('test-extractor', { url: 'test-url' });
+
+      const result = await pipeline.run();
+
+      expect(result.data).toBe('cached-data');
+      expect(result.metadata.cacheHits).toBe(1);
+      expect(mockExtractor.extract).not.toHaveBeenCalled();
+    });
+
+    it('should not store results with a cache TTL of 0', async () => {
+      const backend = {
+        get: vi.fn().mockResolvedValue(null),
+        set: vi.fn().mockResolvedValue(undefined),
+        delete: vi.fn(),
+        clear: vi.fn()
+      };
+
+      pipeline
+        .setCacheBackend(backend)
+        .extract('test-extractor', { url: 'test-url' }).cache(0);
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(true);
+      expect(backend.set).not.toHaveBeenCalled();
+      expect(result.metadata.cacheMisses).toBe(1);
+    });
+
+    it('should not count a failed shared extraction as a cache hit', async () => {
+      mockExtractor.extract = vi.fn(async () => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        throw new Error('Extraction failed');
+      });
+
+      pipeline
+        .extract('test-extractor', { url: 'test-url' }, { retry: { attempts: 1 } })
+        .extract('test-extractor', { url: 'test-url' }, { retry: { attempts: 1 } });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(false);
+      expect(mockExtractor.extract).toHaveBeenCalledTimes(1);
+      expect(result.metadata.cacheHits).toBe(0);
+    });
+
+    it('should extract again after an identical extraction failed', async () => {
+      mockExtractor.extract = vi.fn()
+        .mockRejectedValueOnce(new Error('Extraction failed'))
+        .mockResolvedValue('extracted-data');
+
+      pipeline
+        .updateConfig({ maxParallel: 1 })
+        .extract('test-extractor', { url: 'test-url' }, { optional: true, retry: { attempts: 1 } })
+        .extract('test-extractor', { url: 'test-url' }, { optional: true, retry: { attempts: 1 } });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(true);
+      expect(mockExtractor.extract).toHaveBeenCalledTimes(2);
+      expect(result.data).toBe('extracted-data');
+      expect(result.metadata.cacheHits).toBe(0);
+    });
+
+    it('should treat backend failures as misses', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const backend = {
+        get: vi.fn().mockRejectedValue(new Error('Quota exceeded')),
+        set: vi.fn().mockRejectedValue(new Error('Quota exceeded')),
+        delete: vi.fn(),
+        clear: vi.fn()
+      };
+
+      pipeline
+        .setCacheBackend(backend)
+        .extract('test-extractor', { url: 'test-url' });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBe('extracted-data');
+      expect(warnSpy).toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+
+    it('should only configure caching on extract steps', () => {
+      pipeline.transform('test-transformer', {});
+      expect(() => pipeline.cache(false)).toThrow('Caching can only be configured on an extract step');
+    });
   });
 
   describe('configuration management', () => {
@@ -345,4 +488,908 @@ describe('ETLPipeline', () => {
       expect(result2.metadata.cacheHits).toBe(1);
     });
   });
+
+  describe('DAG execution', () => {
+    let secondExtractor: IExtractor;
+
+    beforeEach(() => {
+      secondExtractor = {
+        name: 'second-extractor',
+        extract: vi.fn().mockResolvedValue('second-data'),
+        supports: vi.fn().mockReturnValue(true)
+      };
+
+      pipeline
+        .registerExtractor(mockExtractor)
+        .registerExtractor(secondExtractor)
+        .registerTransformer(mockTransformer)
+        .registerLoader(mockLoader);
+    });
+
+    it('should pass an object keyed by input id to multi-input steps', async () => {
+      pipeline
+        .extract('test-extractor', {}, { id: 'first' })
+        .extract('second-extractor', {}, { id: 'second' })
+        .transform('test-transformer', {}, { id: 'combined', inputs: ['first', 'second'] });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(true);
+      expect(mockTransformer.transform).toHaveBeenCalledWith(
+        { first: 'extracted-data', second: 'second-data' },
+        {},
+        expect.any(Object)
+      );
+      expect(result.data).toBe('transformed-data');
+      expect(result.metadata.steps.map(step => step.id)).toEqual(['first', 'second', 'combined']);
+      expect(result.metadata.steps[2].inputs).toEqual(['first', 'second']);
+    });
+
+    it('should fan one output out to several branches', async () => {
+      pipeline
+        .extract('test-extractor', {}).as('raw')
+        .transform('test-transformer', {})
+        .load('test-loader', { container: '#table' })
+        .from('raw')
+        .load('test-loader', { container: '#chart' });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(true);
+      expect(mockLoader.load).toHaveBeenCalledWith('transformed-data', { container: '#table' }, expect.any(Object));
+      expect(mockLoader.load).toHaveBeenCalledWith('extracted-data', { container: '#chart' }, expect.any(Object));
+    });
+
+    it('should run independent branches concurrently up to maxParallel', async () => {
+      let active = 0;
+      let maxActive = 0;
+      const slowExtractor: IExtractor = {
+        name: 'slow-extractor',
+        extract: vi.fn(async () => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await new Promise(resolve => setTimeout(resolve, 10));
+          active--;
+          return 'slow-data';
+        }),
+        supports: vi.fn().mockReturnValue(true)
+      };
+
+      pipeline
+        .updateConfig({ enableCache: false, maxParallel: 2 })
+        .registerExtractor(slowExtractor)
+        .extract('slow-extractor', { n: 1 })
+        .extract('slow-extractor', { n: 2 })
+        .extract('slow-extractor', { n: 3 });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(true);
+      expect(slowExtractor.extract).toHaveBeenCalledTimes(3);
+      expect(maxActive).toBe(2);
+    });
+
+    it('should reject unknown inputs', async () => {
+      pipeline.transform('test-transformer', {}, { inputs: ['missing'] });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('unknown input \'missing\'');
+    });
+
+    it('should reject cycles', async () => {
+      pipeline
+        .transform('test-transformer', {}, { id: 'a', inputs: ['b'] })
+        .transform('test-transformer', {}, { id: 'b', inputs: ['a'] });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('cycle');
+      expect(mockTransformer.transform).not.toHaveBeenCalled();
+    });
+
+    it('should reject duplicate step ids', async () => {
+      pipeline
+        .extract('test-extractor', {}, { id: 'same' })
+        .extract('second-extractor', {}, { id: 'same' });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('Duplicate step id \'same\'');
+    });
+  });
+
+  describe('cancellation', () => {
+    beforeEach(() => {
+      pipeline
+        .registerExtractor(mockExtractor)
+        .registerTransformer(mockTransformer)
+        .registerLoader(mockLoader);
+    });
+
+    it('should pass the abort signal to every step', async () => {
+      const controller = new AbortController();
+      pipeline
+        .extract('test-extractor', {})
+        .transform('test-transformer', {})
+        .load('test-loader', {});
+
+      await pipeline.run({ signal: controller.signal });
+
+      const context = expect.objectContaining({ signal: controller.signal });
+      expect(mockExtractor.extract).toHaveBeenCalledWith({}, context);
+      expect(mockTransformer.transform).toHaveBeenCalledWith('extracted-data', {}, context);
+      expect(mockLoader.load).toHaveBeenCalledWith('transformed-data', {}, context);
+    });
+
+    it('should not start a run whose signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      pipeline.extract('test-extractor', {});
+
+      const result = await pipeline.run({ signal: controller.signal });
+
+      expect(result.success).toBe(false);
+      expect(result.aborted).toBe(true);
+      expect(result.error?.name).toBe('AbortError');
+      expect(mockExtractor.extract).not.toHaveBeenCalled();
+    });
+
+    it('should stop between steps when aborted', async () => {
+      const controller = new AbortController();
+      (mockExtractor.extract as any).mockImplementationOnce(async () => {
+        controller.abort();
+        return 'extracted-data';
+      });
+
+      pipeline
+        .extract('test-extractor', {})
+        .transform('test-transformer', {})
+        .load('test-loader', {});
+
+      const result = await pipeline.run({ signal: controller.signal });
+
+      expect(result.aborted).toBe(true);
+      expect(result.data).toBe('extracted-data');
+      expect(result.metadata.steps).toHaveLength(1);
+      expect(mockTransformer.transform).not.toHaveBeenCalled();
+    });
+
+    it('should pass through an optional step whose request timed out', async () => {
+      vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(Object.assign(new Error('The operation was aborted.'), { name: 'AbortError' })));
+      })));
+
+      pipeline
+        .registerExtractor(new ApiExtractor())
+        .extract('api', { url: 'https://example.com/slow', timeout: 10, retries: 0 }, { optional: true, retry: { attempts: 1 } })
+        .load('test-loader', {});
+
+      const result = await pipeline.run({ signal: new AbortController().signal });
+      vi.unstubAllGlobals();
+
+      expect(result.success).toBe(true);
+      expect(result.metadata.steps[0].success).toBe(false);
+      expect(mockLoader.load).toHaveBeenCalled();
+    });
+
+    it('should not let an optional step swallow an aborted run', async () => {
+      const controller = new AbortController();
+      (mockExtractor.extract as any).mockImplementationOnce(async () => {
+        controller.abort(new Error('Cancelled by the user'));
+        throw new Error('Extraction failed');
+      });
+
+      pipeline.extract('test-extractor', {}, { optional: true });
+
+      const result = await pipeline.run({ signal: controller.signal });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Extraction failed');
+    });
+
+    it('should not report ordinary failures as aborted', async () => {
+      (mockExtractor.extract as any).mockRejectedValueOnce(new Error('Extraction failed'));
+      pipeline.extract('test-extractor', {});
+
+      const result = await pipeline.run({ signal: new AbortController().signal });
+
+      expect(result.success).toBe(false);
+      expect(result.aborted).toBeUndefined();
+    });
+  });
+
+  describe('error recovery', () => {
+    beforeEach(() => {
+      pipeline
+        .registerExtractor(mockExtractor)
+        .registerTransformer(mockTransformer)
+        .registerLoader(mockLoader);
+    });
+
+    it('should retry recoverable errors and record each attempt', async () => {
+      (mockExtractor.extract as any)
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+      pipeline.extract('test-extractor', {}).retry({ attempts: 3, delay: 1 });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(true);
+      expect(mockExtractor.extract).toHaveBeenCalledTimes(3);
+      expect(result.metadata.steps[0].attempts.map(attempt => attempt.success)).toEqual([false, false, true]);
+      expect(result.metadata.steps[0].attempts[0]).toMatchObject({ attempt: 1, error: 'Failed to fetch' });
+    });
+
+    it('should not retry errors that are not recoverable', async () => {
+      (mockTransformer.transform as any).mockRejectedValueOnce(new Error('Invalid data'));
+
+      pipeline
+        .extract('test-extractor', {})
+        .transform('test-transformer', {}).retry({ attempts: 3, delay: 1 });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Invalid data');
+      expect(mockTransformer.transform).toHaveBeenCalledTimes(1);
+      expect(result.metadata.steps[1].attempts).toHaveLength(1);
+    });
+
+    it('should use retryIf to select retryable errors', async () => {
+      (mockLoader.load as any).mockRejectedValueOnce(new Error('HTTP 503'));
+
+      pipeline
+        .extract('test-extractor', {})
+        .load('test-loader', {}, { retry: { attempts: 2, delay: 1, retryIf: error => error.message.includes('503') } });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(true);
+      expect(mockLoader.load).toHaveBeenCalledTimes(2);
+    });
+
+    it('should default to maxRetries when error recovery is enabled', async () => {
+      pipeline.updateConfig({ maxRetries: 1 });
+      (mockExtractor.extract as any).mockRejectedValue(new TypeError('Failed to fetch'));
+      pipeline.extract('test-extractor', {});
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(false);
+      expect(mockExtractor.extract).toHaveBeenCalledTimes(2);
+    });
+
+    it('should run a failing load step once without a retry policy', async () => {
+      (mockLoader.load as any).mockRejectedValue(new TypeError('Failed to fetch'));
+      pipeline.extract('test-extractor', {}).load('test-loader', {});
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(false);
+      expect(mockLoader.load).toHaveBeenCalledTimes(1);
+    });
+
+    it('should tell components of retried steps not to retry on their own', async () => {
+      pipeline
+        .extract('test-extractor', {})
+        .load('test-loader', {});
+
+      await pipeline.run();
+
+      expect(mockExtractor.extract).toHaveBeenCalledWith({}, expect.objectContaining({ retried: true }));
+      expect((mockLoader.load as any).mock.calls[0][2].retried).toBeUndefined();
+    });
+
+    it('should not retry type and reference errors raised by user code', async () => {
+      (mockExtractor.extract as any).mockRejectedValue(new TypeError("Cannot read properties of undefined (reading 'id')"));
+      pipeline.extract('test-extractor', {}).retry({ attempts: 3, delay: 1 });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(false);
+      expect(mockExtractor.extract).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry when error recovery is disabled', async () => {
+      pipeline.updateConfig({ enableErrorRecovery: false });
+      (mockExtractor.extract as any).mockRejectedValue(new TypeError('Failed to fetch'));
+      pipeline.extract('test-extractor', {});
+
+      await pipeline.run();
+
+      expect(mockExtractor.extract).toHaveBeenCalledTimes(1);
+    });
+
+    it('should time out slow attempts and abort their signal', async () => {
+      const signals: AbortSignal[] = [];
+      (mockExtractor.extract as any).mockImplementation((_config: any, context: any) => {
+        signals.push(context.signal);
+        return new Promise(resolve => setTimeout(() => resolve('late-data'), 100));
+      });
+
+      pipeline.extract('test-extractor', {}).timeout(10).retry({ attempts: 2, delay: 1 });
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(false);
+      expect(result.error?.name).toBe('TimeoutError');
+      expect(result.metadata.steps[0].attempts).toHaveLength(2);
+      expect(signals.every(signal => signal.aborted)).toBe(true);
+    });
+
+    it('should emit retry events and never retry after the run is aborted', async () => {
+      const controller = new AbortController();
+      const onRetry = vi.fn(() => controller.abort());
+      (mockExtractor.extract as any).mockRejectedValue(new TypeError('Failed to fetch'));
+
+      pipeline
+        .onRetry(onRetry)
+        .extract('test-extractor', {}).as('source').retry({ attempts: 3, delay: 50 });
+
+      const result = await pipeline.run({ signal: controller.signal });
+
+      expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ stepId: 'source', attempt: 1, delay: 50 }));
+      expect(result.aborted).toBe(true);
+      expect(mockExtractor.extract).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('streaming', () => {
+    let streamingExtractor: IExtractor;
+    let rowTransformer: ITransformer;
+    let streamLoader: ILoader;
+    let loadedChunks: any[][];
+
+    beforeEach(() => {
+      loadedChunks = [];
+      streamingExtractor = {
+        name: 'rows',
+        extract: vi.fn().mockResolvedValue([1, 2, 3, 4, 5]),
+        stream: vi.fn(async function* () {
+          yield [1, 2];
+          yield [3, 4];
+          yield [5];
+        }),
+        supports: vi.fn().mockReturnValue(true)
+      };
+      rowTransformer = {
+        name: 'double',
+        transform: vi.fn(async (data: number[]) => data.map(x => x * 2)),
+        transformChunk: vi.fn(async (chunk: number[]) => chunk.map(x => x * 2)),
+        supports: vi.fn().mockReturnValue(true)
+      };
+      streamLoader = {
+        name: 'sink',
+        load: vi.fn().mockResolvedValue(undefined),
+        loadStream: vi.fn(async (chunks: AsyncIterable<any[]>) => {
+          for await (const chunk of chunks) {
+            loadedChunks.push(chunk);
+          }
+        }),
+        supports: vi.fn().mockReturnValue(true)
+      };
+
+      pipeline = new ETLPipeline({ enableStreaming: true, batchSize: 2 });
+      pipeline
+        .registerExtractor(streamingExtractor)
+        .registerTransformer(rowTransformer)
+        .registerTransformer(mockTransformer)
+        .registerLoader(streamLoader)
+        .registerLoader(mockLoader);
+    });
+
+    const waitForAbort = (signal?: AbortSignal) => new Promise<never>((_resolve, reject) => {
+      signal?.addEventListener('abort', () => reject(signal.reason));
+    });
+
+    it('should abort a stream mid-read when the step has a timeout', async () => {
+      const controller = new AbortController();
+      let streamSignal: AbortSignal | undefined;
+      streamingExtractor.stream = vi.fn(async function* (_config: any, context: any) {
+        streamSignal = context.signal;
+        yield [1, 2];
+        await waitForAbort(context.signal);
+      });
+      streamLoader.loadStream = vi.fn(async (chunks: AsyncIterable<any[]>) => {
+        for await (const chunk of chunks) {
+          loadedChunks.push(chunk);
+          controller.abort();
+        }
+      });
+      pipeline.extract('rows', {}).timeout(10000).load('sink', {});
+
+      const result = await pipeline.run({ signal: controller.signal });
+
+      expect(result.aborted).toBe(true);
+      expect(streamSignal?.aborted).toBe(true);
+      expect(loadedChunks).toEqual([[1, 2]]);
+    });
+
+    it('should apply the step timeout while the stream is read', async () => {
+      streamingExtractor.stream = vi.fn(async function* (_config: any, context: any) {
+        yield [1, 2];
+        await waitForAbort(context.signal);
+      });
+      pipeline.extract('rows', {}).timeout(20).load('sink', {});
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(false);
+      expect(result.error?.name).toBe('TimeoutError');
+      expect(loadedChunks).toEqual([[1, 2]]);
+    });
+
+    it('should extract without streaming when the extractor declines the config', async () => {
+      streamingExtractor.canStream = vi.fn().mockReturnValue(false);
+      pipeline.extract('rows', { single: true });
+
+      const result = await pipeline.run();
+
+      expect(streamingExtractor.canStream).toHaveBeenCalledWith({ single: true });
+      expect(streamingExtractor.stream).not.toHaveBeenCalled();
+      expect(result.data).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should pass chunks through row-wise transformers into streaming loaders', async () => {
+      pipeline
+        .extract('rows', {})
+        .transform('double', {})
+        .load('sink', {});
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBeNull();
+      expect(loadedChunks).toEqual([[2, 4], [6, 8], [10]]);
+      expect(streamingExtractor.extract).not.toHaveBeenCalled();
+      expect(streamingExtractor.stream).toHaveBeenCalledWith({}, expect.objectContaining({ batchSize: 2 }));
+      expect(rowTransformer.transformChunk).toHaveBeenCalledTimes(3);
+      expect(rowTransformer.transform).not.toHaveBeenCalled();
+    });
+
+    it('should collect streams for components without chunk support', async () => {
+      pipeline
+        .extract('rows', {})
+        .transform('test-transformer', {})
+        .load('test-loader', {});
+
+      const result = await pipeline.run();
+
+      expect(mockTransformer.transform).toHaveBeenCalledWith([1, 2, 3, 4, 5], {}, expect.any(Object));
+      expect(mockLoader.load).toHaveBeenCalledWith('transformed-data', {}, expect.any(Object));
+      expect(result.data).toBe('transformed-data');
+    });
+
+    it('should collect streams read by several steps', async () => {
+      pipeline
+        .extract('rows', {}).as('source')
+        .transform('double', {}).from('source')
+        .load('test-loader', {}).from('source');
+
+      const result = await pipeline.run();
+
+      expect(result.success).toBe(true);
+      expect(rowTransformer.transform).toHaveBeenCalledWith([1, 2, 3, 4, 5], {}, expect.any(Object));
+      expect(mockLoader.load).toHaveBeenCalledWith([1, 2, 3, 4, 5], {}, expect.any(Object));
+    });
+
+    it('should materialize a stream returned as the result', async () => {
+      pipeline.extract('rows', {}).transform('double', {});
+
+      const result = await pipeline.run();
+
+      expect(result.data).toEqual([2, 4, 6, 8, 10]);
+    });
+
+    it('should report progress of streamed steps', async () => {
+      const onProgress = vi.fn();
+      pipeline
+        .onProgress(onProgress)
+        .extract('rows', {})
+        .transform('double', {}).as('double')
+        .load('sink', {});
+
+      await pipeline.run();
+
+      expect(onProgress).toHaveBeenCalledWith({ stepId: 'double', processed: 2 });
+      expect(onProgress).toHaveBeenCalledWith({ stepId: 'double', processed: 5 });
+    });
+
+    it('should stop pulling chunks when aborted', async () => {
+      const controller = new AbortController();
+      (streamLoader.loadStream as any).mockImplementation(async (chunks: AsyncIterable<any[]>) => {
+        for await (const chunk of chunks) {
+          loadedChunks.push(chunk);
+          controller.abort();
+        }
+      });
+
+      pipeline
+        .extract('rows', {})
+        .transform('double', {})
+        .load('sink', {});
+
+      const result = await pipeline.run({ signal: controller.signal });
+
+      expect(result.aborted).toBe(true);
+      expect(loadedChunks).toEqual([[2, 4]]);
+    });
+
+    it('should use extract() when streaming is disabled', async () => {
+      pipeline.updateConfig({ enableStreaming: false });
+      pipeline.extract('rows', {}).transform('double', {});
+
+      const result = await pipeline.run();
+
+      expect(streamingExtractor.stream).not.toHaveBeenCalled();
+      expect(result.data).toEqual([2, 4, 6, 8, 10]);
+    });
+  });
+
+  describe('live runs', () => {
+    let liveExtractor: IExtractor;
+    let batchTransformer: ITransformer;
+    let loads: any[];
+
+    const waitFor = async (condition: () => boolean) => {
+      while (!condition()) {
+        await new Promise(resolve => setTimeout(resolve, 1));
+      }
+    };
+
+    beforeEach(() => {
+      loads = [];
+      liveExtractor = {
+        name: 'ticks',
+        extract: vi.fn(),
+        stream: vi.fn(async function* (_config: any, context: any) {
+          let tick = 0;
+          while (!context.stopSignal.aborted) {
+            yield [tick++];
+            await new Promise(resolve => setTimeout(resolve, 2));
+          }
+        }),
+        supports: vi.fn().mockReturnValue(true)
+      };
+      batchTransformer = {
+        name: 'scale',
+        transform: vi.fn(async (data: number[]) => data.map(x => x * 10)),
+        supports: vi.fn().mockReturnValue(true)
+      };
+      mockLoader.load = vi.fn(async (data: any) => {
+        loads.push(data);
+      });
+
+      pipeline
+        .registerExtractor(liveExtractor)
+        .registerTransformer(batchTransformer)
+        .registerLoader(mockLoader);
+    });
+
+    it('should transform and load each chunk until stopped', async () => {
+      pipeline.extract('ticks').transform('scale').load('test-loader');
+
+      const run = pipeline.runLive();
+      await waitFor(() => loads.length >= 3);
+      const result = await run.stop();
+
+      expect(result.success).toBe(true);
+      expect(liveExtractor.extract).not.toHaveBeenCalled();
+      expect(loads.slice(0, 3)).toEqual([[0], [10], [20]]);
+      expect(batchTransformer.transform).toHaveBeenCalledWith([0], expect.anything(), expect.anything());
+      expect(await run.result).toBe(result);
+    });
+
+    it('should collect a live stream read by the last step when stopped', async () => {
+      pipeline.extract('ticks').transform('scale');
+
+      const run = pipeline.runLive();
+      await waitFor(() => (batchTransformer.transform as any).mock.calls.length >= 2);
+      const result = await run.stop();
+
+      expect(result.success).toBe(true);
+      expect(result.data.slice(0, 2)).toEqual([0, 10]);
+    });
+
+    it('should fail when the run is aborted', async () => {
+      const controller = new AbortController();
+      pipeline.extract('ticks').load('test-loader');
+
+      const run = pipeline.runLive({ signal: controller.signal });
+      await waitFor(() => loads.length >= 1);
+      controller.abort();
+      const result = await run.result;
+
+      expect(result.success).toBe(false);
+      expect(result.aborted).toBe(true);
+    });
+  });
+
+  describe('events', () => {
+    beforeEach(() => {
+      pipeline
+        .registerExtractor(mockExtractor)
+        .registerTransformer(mockTransformer)
+        .registerLoader(mockLoader);
+    });
+
+    it('should emit step start and end events', async () => {
+      const events: string[] = [];
+      pipeline
+        .onStepStart(event => events.push(`start:${event.stepId}`))
+        .onStepEnd(event => events.push(`end:${event.stepId}:${event.success}`))
+        .extract('test-extractor', {}, { id: 'source' })
+        .load('test-loader', {}, { id: 'sink' });
+
+      await pipeline.run();
+
+      expect(events).toEqual(['start:source', 'end:source:true', 'start:sink', 'end:sink:true']);
+    });
+
+    it('should emit run progress after each step', async () => {
+      const onProgress = vi.fn();
+      pipeline
+        .onProgress(onProgress)
+        .extract('test-extractor', {})
+        .transform('test-transformer', {});
+
+      await pipeline.run();
+
+      expect(onProgress).toHaveBeenNthCalledWith(1, { processed: 1, total: 2 });
+      expect(onProgress).toHaveBeenNthCalledWith(2, { processed: 2, total: 2 });
+    });
+
+    it('should forward progress and retries reported by components', async () => {
+      const onProgress = vi.fn();
+      const onRetry = vi.fn();
+      const retryError = new Error('Temporary failure');
+      (mockTransformer.transform as any).mockImplementationOnce(async (_data: any, _config: any, context: any) => {
+        context.retry(1, 100, retryError);
+        context.progress(5, 10);
+        context.progress(2048, 4096, 'bytes');
+        return 'transformed-data';
+      });
+
+      pipeline
+        .onProgress(onProgress)
+        .onRetry(onRetry)
+        .extract('test-extractor', {})
+        .transform('test-transformer', {}, { id: 'shape' });
+
+      await pipeline.run();
+
+      expect(onRetry).toHaveBeenCalledWith({ stepId: 'shape', attempt: 1, delay: 100, error: retryError });
+      expect(onProgress).toHaveBeenCalledWith({ stepId: 'shape', processed: 5, total: 10 });
+      expect(onProgress).toHaveBeenCalledWith({ stepId: 'shape', processed: 2048, total: 4096, unit: 'bytes' });
+    });
+
+    it('should emit error events for failed steps', async () => {
+      const onError = vi.fn();
+      const extractorError = new Error('Extraction failed');
+      (mockExtractor.extract as any).mockRejectedValueOnce(extractorError);
+
+      pipeline
+        .onError(onError)
+        .extract('test-extractor', {}, { id: 'source' });
+
+      await pipeline.run();
+
+      expect(onError).toHaveBeenCalledWith({ stepId: 'source', error: extractorError });
+    });
+
+    it('should stop notifying removed listeners', async () => {
+      const onStepStart = vi.fn();
+      pipeline
+        .on('stepStart', onStepStart)
+        .off('stepStart', onStepStart)
+        .extract('test-extractor', {});
+
+      await pipeline.run();
+
+      expect(onStepStart).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('specs', () => {
+    const isAdult = (item: any) => item.age >= 18;
+
+    it('should describe the pipeline as a spec', () => {
+      pipeline
+        .registerFunction('isAdult', isAdult)
+        .extract('test-extractor', { url: 'test-url' }).as('users')
+        .transform('test-transformer', { fn: isAdult });
+
+      const spec = pipeline.toSpec('adults');
+
+      expect(spec.name).toBe('adults');
+      expect(spec.version).toBe(1);
+      expect(spec.config).toEqual(pipeline.getConfig());
+      expect(spec.steps).toEqual([
+        { type: 'extract', name: 'test-extractor', config: { url: 'test-url' }, id: 'users' },
+        { type: 'transform', name: 'test-transformer', config: { fn: { $fn: 'isAdult' } } }
+      ]);
+    });
+
+    it('should round-trip through JSON', async () => {
+      pipeline
+        .registerFunction('isAdult', isAdult)
+        .extract('test-extractor', { url: 'test-url' })
+        .transform('test-transformer', { fn: isAdult })
+        .load('test-loader', { container: '#test' }, { optional: true });
+
+      const json = JSON.stringify(pipeline.toSpec());
+      const restored = ETLPipeline.fromSpec(json, { isAdult });
+
+      expect(restored.toSpec()).toEqual(JSON.parse(json));
+
+      restored
+        .registerExtractor(mockExtractor)
+        .registerTransformer(mockTransformer)
+        .registerLoader(mockLoader);
+
+      const result = await restored.run();
+
+      expect(result.success).toBe(true);
+      expect(mockTransformer.transform).toHaveBeenCalledWith('extracted-data', { fn: isAdult }, expect.any(Object));
+    });
+
+    it('should serialize retry policies and timeouts', () => {
+      const isServerError = (error: Error) => error.message.includes('503');
+      pipeline
+        .registerFunction('isServerError', isServerError)
+        .extract('test-extractor', {}).retry({ attempts: 2, retryIf: isServerError }).timeout(5000);
+
+      const spec = pipeline.toSpec();
+      expect(spec.steps[0]).toMatchObject({
+        retry: { attempts: 2, retryIf: { $fn: 'isServerError' } },
+        timeout: 5000
+      });
+
+      const restored = ETLPipeline.fromSpec(spec, { isServerError });
+      expect(restored.toSpec().steps).toEqual(spec.steps);
+    });
+
+    it('should apply the spec configuration', () => {
+      const restored = ETLPipeline.fromSpec({ version: 1, config: { maxParallel: 2 }, steps: [] });
+      expect(restored.getConfig().maxParallel).toBe(2);
+    });
+  });
+
+  describe('validation', () => {
+    beforeEach(() => {
+      pipeline
+        .registerExtractor(new CsvExtractor())
+        .registerExtractor(new FileExtractor())
+        .registerTransformer(new FilterTransformer())
+        .registerTransformer(new JoinTransformer())
+        .registerLoader(new ChartLoader());
+    });
+
+    it('should accept a well-formed pipeline', () => {
+      pipeline
+        .extract('csv', { data: 'a,b\n1,2' })
+        .transform('filter', { fn: () => true })
+        .load('chart', { type: 'bar', config: {} });
+
+      expect(pipeline.validate()).toEqual({ valid: true, diagnostics: [] });
+    });
+
+    it('should report unknown components', () => {
+      pipeline.extract('missing', {});
+
+      const { valid, diagnostics } = pipeline.validate();
+
+      expect(valid).toBe(false);
+      expect(diagnostics).toEqual([
+        { severity: 'error', code: 'unknown-component', stepId: 'missing-0', message: "Extractor 'missing' not found" }
+      ]);
+    });
+
+    it('should check configs against component schemas', () => {
+      pipeline
+        .extract('csv', { data: 42 })
+        .transform('join', { type: 'data', data: [] })
+        .load('chart', { type: 'bar' });
+
+      const { valid, diagnostics } = pipeline.validate();
+
+      expect(valid).toBe(false);
+      expect(diagnostics.map(d => [d.code, d.stepId, d.path])).toEqual([
+        ['invalid-config', 'csv-0', 'config.data'],
+        ['invalid-config', 'join-1', 'config.key'],
+        ['invalid-config', 'chart-2', 'config.config']
+      ]);
+      expect(diagnostics[0].message).toBe("Step 'csv-0': 'data' must be a string or a file, got number");
+      expect(diagnostics[1].message).toBe("Step 'join-1': 'key' is required");
+    });
+
+    it('should call supports() when the schema finds nothing', () => {
+      pipeline
+        .extract('csv', { data: 'a\n1' })
+        .transform('join', { key: 'id', type: 'api' });
+
+      const { diagnostics } = pipeline.validate();
+
+      expect(diagnostics).toEqual([expect.objectContaining({
+        code: 'unsupported-config',
+        stepId: 'join-1',
+        message: "Step 'join-1': transform component 'join' does not support this config"
+      })]);
+    });
+
+    it('should use supports() for components without a schema', () => {
+      vi.mocked(mockExtractor.supports).mockReturnValue(false);
+      pipeline.registerExtractor(mockExtractor).extract('test-extractor', { url: 'x' });
+
+      const { diagnostics } = pipeline.validate();
+
+      expect(mockExtractor.supports).toHaveBeenCalledWith({ url: 'x' });
+      expect(diagnostics[0].code).toBe('unsupported-config');
+    });
+
+    it('should flag steps without an input', () => {
+      pipeline
+        .transform('filter', { fn: () => true })
+        .extract('csv', { data: 'a\n1' });
+
+      const { diagnostics } = pipeline.validate();
+
+      expect(diagnostics).toEqual([{
+        severity: 'error',
+        code: 'missing-input',
+        stepId: 'filter-0',
+        message: "The transform step 'filter-0' has no input; add an extract step before it"
+      }, {
+        severity: 'warning',
+        code: 'unused-output',
+        stepId: 'filter-0',
+        message: "The output of step 'filter-0' is never used"
+      }]);
+    });
+
+    it('should warn about loads whose input shape does not match', () => {
+      const file = new File(['hello'], 'notes.txt');
+      pipeline
+        .extract('file', { file, type: 'text' })
+        .transform('filter', { fn: () => true })
+        .load('chart', { type: 'bar', config: {} });
+
+      const { valid, diagnostics } = pipeline.validate();
+
+      expect(valid).toBe(true);
+      expect(diagnostics).toEqual([{
+        severity: 'warning',
+        code: 'shape-mismatch',
+        stepId: 'chart-2',
+        message: "Step 'chart-2' expects records or object data but receives text"
+      }]);
+    });
+
+    it('should report graph errors without running anything', () => {
+      pipeline
+        .extract('csv', { data: 'a\n1' })
+        .transform('filter', { fn: () => true }, { inputs: ['nope'] });
+
+      const { valid, diagnostics } = pipeline.validate();
+
+      expect(valid).toBe(false);
+      expect(diagnostics).toEqual([{
+        severity: 'error',
+        code: 'invalid-graph',
+        message: "Step 'filter-1' references unknown input 'nope'"
+      }]);
+    });
+
+    it('should warn about an empty pipeline', () => {
+      expect(pipeline.validate()).toEqual({
+        valid: true,
+        diagnostics: [{ severity: 'warning', code: 'empty-pipeline', message: 'The pipeline has no steps' }]
+      });
+    });
+  });
 });
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { CsvExtractor } from '../../src/extractors/csv';
 
+const OriginalFileReader = global.FileReader;
+
 describe('CsvExtractor', () => {
   let extractor: CsvExtractor;
 
@@ -156,6 +158,115 @@ describe('CsvExtractor', () => {
     });
   });
 
+  describe('stream method', () => {
+    beforeEach(() => {
+      global.FileReader = OriginalFileReader;
+    });
+
+    async function collectChunks(stream: AsyncIterable<any[]>) {
+      const chunks: any[][] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    }
+
+    it('should stream a CSV string in batches', async () => {
+      const csvData = 'name,age\nJohn,30\nJane,25\nBob,40';
+      const chunks = await collectChunks(extractor.stream({ data: csvData }, { batchSize: 2 }));
+
+      expect(chunks).toEqual([
+        [{ name: 'John', age: '30' }, { name: 'Jane', age: '25' }],
+        [{ name: 'Bob', age: '40' }]
+      ]);
+    });
+
+    it('should stream a file read in small chunks', async () => {
+      const file = new File(['name,city\nJohn,Zürich\nJane,London\n'], 'data.csv', { type: 'text/csv' });
+      const chunks = await collectChunks(extractor.stream({ data: file, chunkSize: 5 }, { batchSize: 10 }));
+
+      expect(chunks).toEqual([[
+        { name: 'John', city: 'Zürich' },
+        { name: 'Jane', city: 'London' }
+      ]]);
+    });
+
+    it('should stream rows without headers', async () => {
+      const chunks = await collectChunks(extractor.stream({
+        data: 'a,b\nc,d',
+        options: { header: false }
+      }, { batchSize: 1 }));
+
+      expect(chunks).toEqual([[['a', 'b']], [['c', 'd']]]);
+    });
+
+    it('should parse quoted fields split across streamed chunks', async () => {
+      const text = 'id,note\n1,"first line\nsecond, ""quoted"" line"\n2,Zürich\n';
+      const bytes = new TextEncoder().encode(text);
+      const size = bytes.length;
+      // Chunks end inside the quoted field, inside the escaped quote and inside the two bytes of ü
+      const splits = [0, 15, 31, 51, size];
+      const file = Object.assign(new File([text], 'data.csv'), {
+        stream: () => new ReadableStream({
+          start(controller) {
+            splits.slice(1).forEach((end, index) => controller.enqueue(bytes.slice(splits[index], end)));
+            controller.close();
+          }
+        })
+      });
+      const progress = vi.fn();
+
+      const chunks = await collectChunks(extractor.stream({ data: file }, { batchSize: 1, progress }));
+
+      expect(chunks).toEqual([
+        [{ id: '1', note: 'first line\nsecond, "quoted" line' }],
+        [{ id: '2', note: 'Zürich' }]
+      ]);
+      expect(progress).toHaveBeenLastCalledWith(size, size, 'bytes');
+    });
+
+    it('should stop reading once the preview is complete', async () => {
+      const cancel = vi.fn();
+      const encoder = new TextEncoder();
+      const file = Object.assign(new File([''], 'big.csv'), {
+        stream: () => new ReadableStream({
+          pull(controller) {
+            controller.enqueue(encoder.encode('a,b\n1,2\n3,4\n'));
+          },
+          cancel
+        })
+      });
+
+      const rows = await extractor.extract({ data: file, preview: 3, options: { header: false } });
+
+      expect(rows).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+      expect(cancel).toHaveBeenCalled();
+    });
+
+    it('should preview strings', async () => {
+      const chunks = await collectChunks(extractor.stream({ data: 'a\n1\n2\n3', preview: 2 }));
+
+      expect(chunks).toEqual([[{ a: '1' }, { a: '2' }]]);
+    });
+
+    it('should report the bytes read from files read in slices', async () => {
+      const file = new File(['a\n1\n2\n'], 'data.csv');
+      const progress = vi.fn();
+
+      await collectChunks(extractor.stream({ data: file, chunkSize: 4 }, { progress }));
+
+      expect(progress.mock.calls).toEqual([[4, 6, 'bytes'], [6, 6, 'bytes']]);
+    });
+
+    it('should stop when aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(collectChunks(extractor.stream({ data: 'a\n1' }, { signal: controller.signal })))
+        .rejects.toThrow('The operation was aborted');
+    });
+  });
+
   describe('supports method', () => {
     it('should support config with string data', () => {
       expect(extractor.supports({ data: 'test,data' })).toBe(true);
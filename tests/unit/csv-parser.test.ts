@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CSVParser, parseCSV, detectDelimiter } from '../../src/utils/csv-parser';
+
+describe('parseCSV', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should keep quoted newlines, delimiters and whitespace', () => {
+    const csv = 'name,note\r\n"Ada","line one\r\nline two"\r\n  Grace ,"say ""hi"", then go"\r\n';
+
+    expect(parseCSV(csv)).toEqual([
+      { name: 'Ada', note: 'line one\r\nline two' },
+      { name: '  Grace ', note: 'say "hi", then go' }
+    ]);
+  });
+
+  it('should accept CR, LF and CRLF line endings', () => {
+    expect(parseCSV('a,b\r1,2\n3,4\r\n5,6', { header: false })).toEqual([
+      ['a', 'b'], ['1', '2'], ['3', '4'], ['5', '6']
+    ]);
+  });
+
+  it('should strip a byte order mark and skip comment lines', () => {
+    const csv = '\uFEFFid,name\n# exported 2024-01-01\n1,Ada\n#2,Grace';
+
+    expect(parseCSV(csv, { comment: '#' })).toEqual([{ id: '1', name: 'Ada' }]);
+  });
+
+  it('should use custom quote and escape characters', () => {
+    const csv = "id,text\n1,'it\\'s, fine'";
+
+    expect(parseCSV(csv, { quote: "'", escape: '\\' })).toEqual([{ id: '1', text: "it's, fine" }]);
+  });
+
+  it('should detect the delimiter', () => {
+    expect(parseCSV('a;b;c\n1;"2;3";4', { delimiter: 'auto' })).toEqual([{ a: '1', b: '2;3', c: '4' }]);
+    expect(detectDelimiter('a\tb\n1\t2\n')).toBe('\t');
+    expect(detectDelimiter('a|b,c\n1|2,3\n4|5\n')).toBe('|');
+    expect(detectDelimiter('single column\n')).toBe(',');
+  });
+
+  it('should convert values with dynamic typing', () => {
+    const csv = 'n,f,b,z,zip,big,d,s,e\n42,-1.5e3,TRUE,null,007,12345678901234567890,2024-01-02T03:04:05Z,text,';
+
+    expect(parseCSV(csv, { dynamicTyping: true })).toEqual([{
+      n: 42,
+      f: -1500,
+      b: true,
+      z: null,
+      zip: '007',
+      big: '12345678901234567890',
+      d: new Date('2024-01-02T03:04:05Z'),
+      s: 'text',
+      e: null
+    }]);
+  });
+
+  it('should report malformed rows with their line numbers', () => {
+    const onError = vi.fn();
+    const csv = 'a,b\n1,2,3\n"multi\nline" x,4\n"open,5';
+
+    const rows = parseCSV(csv, { onError });
+
+    expect(rows).toEqual([{ a: '1', b: '2' }, { a: 'multi\nline x', b: '4' }, { a: 'open,5', b: '' }]);
+    expect(onError.mock.calls.map(([error]) => [error.line, error.type])).toEqual([
+      [2, 'FieldCount'],
+      [3, 'InvalidQuote'],
+      [5, 'UnclosedQuote'],
+      [5, 'FieldCount']
+    ]);
+  });
+
+  it('should log malformed rows without an error handler', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    parseCSV('a,b\n1\n2,3');
+
+    expect(warn).toHaveBeenCalledWith('Found 1 malformed CSV row(s) on line(s):', [2]);
+  });
+
+  it('should throw on malformed rows in strict mode', () => {
+    expect(() => parseCSV('a,b\n1,2\n3', { strict: true }))
+      .toThrow('Malformed CSV on line 3: Expected 2 fields but found 1');
+  });
+
+  it('should reject multi-character delimiters', () => {
+    expect(() => parseCSV('a', { delimiter: '||' })).toThrow("CSV delimiter must be a single character or 'auto', got '||'");
+  });
+});
+
+describe('CSVParser', () => {
+  it('should complete rows and quoted fields split across pieces', () => {
+    const parser = new CSVParser({ dynamicTyping: true });
+    const rows = [
+      ...parser.push('id,no'),
+      ...parser.push('te\r'),
+      ...parser.push('\n1,"a ""q'),
+      ...parser.push('uote""\n'),
+      ...parser.push('next"\r\n2,b'),
+      ...parser.flush()
+    ];
+
+    expect(rows).toEqual([{ id: 1, note: 'a "quote"\nnext' }, { id: 2, note: 'b' }]);
+    expect(parser.errors).toEqual([]);
+  });
+
+  it('should hold rows back until the delimiter is detected', () => {
+    const parser = new CSVParser({ delimiter: 'auto', header: false });
+
+    expect(parser.push('a;b\n1;2\n')).toEqual([]);
+    expect(parser.flush()).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
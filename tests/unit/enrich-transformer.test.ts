@@ -23,6 +23,34 @@ describe('EnrichTransformer', () => {
       expect(enrichFn).toHaveBeenCalledTimes(5);
     });
 
+    it('should stop between batches when aborted', async () => {
+      const controller = new AbortController();
+      const enrichFn = vi.fn().mockImplementation(async (item: number) => {
+        controller.abort();
+        return item * 2;
+      });
+
+      await expect(transformer.transform([1, 2, 3, 4], {
+        fn: enrichFn,
+        parallel: true,
+        batchSize: 2
+      }, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+      expect(enrichFn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report progress after each batch', async () => {
+      const progress = vi.fn();
+
+      await transformer.transform([1, 2, 3], {
+        fn: async (item: number) => item,
+        parallel: true,
+        batchSize: 2
+      }, { progress });
+
+      expect(progress).toHaveBeenCalledWith(2, 3);
+      expect(progress).toHaveBeenCalledWith(3, 3);
+    });
+
     it('should enrich array data sequentially', async () => {
       const data = [1, 2, 3];
       const enrichFn = vi.fn().mockImplementation(async (item: number) => item * 2);
@@ -214,7 +242,7 @@ describe('EnrichTransformer', () => {
     });
 
     it('should not support config with non-function', () => {
-      expect(transformer.supports({ fn: 'not a function' })).toBe(false);
+      expect(transformer.supports({ fn: 42 })).toBe(false);
     });
   });
 
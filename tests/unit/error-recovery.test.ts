@@ -152,6 +152,72 @@ describe('ErrorRecovery', () => {
     });
   });
 
+  describe('executeWithRetries', () => {
+    beforeEach(() => {
+      const config = {
+        enabled: true,
+        maxRetries: 2,
+        retryDelay: 10,
+        backoffMultiplier: 2,
+        maxRetryDelay: 1000
+      };
+
+      errorRecovery = new ErrorRecovery(config);
+    });
+
+    it('should retry recoverable errors and pass the attempt number', async () => {
+      const mockFn = vi.fn()
+        .mockRejectedValueOnce(new Error('NetworkError'))
+        .mockResolvedValueOnce('success');
+
+      const result = await errorRecovery.executeWithRetries(mockFn);
+
+      expect(result).toBe('success');
+      expect(mockFn).toHaveBeenNthCalledWith(1, 1);
+      expect(mockFn).toHaveBeenNthCalledWith(2, 2);
+    });
+
+    it('should rethrow unrecoverable errors without retrying', async () => {
+      const error = new Error('ValidationError');
+      const mockFn = vi.fn().mockRejectedValue(error);
+
+      await expect(errorRecovery.executeWithRetries(mockFn)).rejects.toBe(error);
+      expect(mockFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should rethrow the last error once retries are exhausted', async () => {
+      const onRetry = vi.fn();
+      const mockFn = vi.fn().mockRejectedValue(new Error('TimeoutError'));
+
+      await expect(errorRecovery.executeWithRetries(mockFn, { onRetry })).rejects.toThrow('TimeoutError');
+
+      expect(mockFn).toHaveBeenCalledTimes(3);
+      expect(onRetry.mock.calls.map(call => [call[0], call[1]])).toEqual([[1, 10], [2, 20]]);
+    });
+
+    it('should use a custom retry predicate', async () => {
+      const mockFn = vi.fn()
+        .mockRejectedValueOnce(new Error('HTTP 503'))
+        .mockResolvedValueOnce('success');
+
+      const result = await errorRecovery.executeWithRetries(mockFn, { shouldRetry: () => true });
+
+      expect(result).toBe('success');
+    });
+
+    it('should stop waiting when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const mockFn = vi.fn().mockRejectedValue(new Error('NetworkError'));
+
+      await expect(errorRecovery.executeWithRetries(mockFn, {
+        signal: controller.signal,
+        onRetry: () => controller.abort()
+      })).rejects.toThrow('The operation was aborted');
+
+      expect(mockFn).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('executeMultipleWithRecovery', () => {
     beforeEach(() => {
       const config = {
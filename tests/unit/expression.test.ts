@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { compileExpression, isExpressionError, parseExpression } from '../../src/utils/expression';
+
+const evaluate = (expression: string, item: any = {}) => compileExpression(expression)(item);
+
+describe('expressions', () => {
+  const user = {
+    name: ' Ada ',
+    age: 36,
+    country: 'FR',
+    tags: ['admin', 'beta'],
+    address: { city: 'Paris', zip: null },
+    'signed up': '2024-02-29T10:00:00Z'
+  };
+
+  it('should read fields, nested paths and the item itself', () => {
+    expect(evaluate('age', user)).toBe(36);
+    expect(evaluate('address.city', user)).toBe('Paris');
+    expect(evaluate('tags[1]', user)).toBe('beta');
+    expect(evaluate('$["signed up"]', user)).toBe('2024-02-29T10:00:00Z');
+    expect(evaluate('$ * 2', 21)).toBe(42);
+  });
+
+  it('should return null for missing paths instead of failing', () => {
+    expect(evaluate('address.zip.code', user)).toBeNull();
+    expect(evaluate('manager?.name', user)).toBeNull();
+    expect(evaluate('tags[5]', user)).toBeNull();
+    expect(evaluate('missing + 1', user)).toBeNull();
+    expect(evaluate('missing ?? "n/a"', user)).toBe('n/a');
+  });
+
+  it('should only read own properties', () => {
+    expect(evaluate('constructor', user)).toBeNull();
+    expect(evaluate('name.constructor', user)).toBeNull();
+    expect(evaluate('address["__proto__"]', user)).toBeNull();
+    expect(Object.getPrototypeOf(evaluate('{ "__proto__": 1 }'))).toBe(Object.prototype);
+  });
+
+  it('should apply arithmetic and precedence', () => {
+    expect(evaluate('1 + 2 * 3 - 4 / 2')).toBe(5);
+    expect(evaluate('(1 + 2) * 3 % 4')).toBe(1);
+    expect(evaluate('-age + 40', user)).toBe(4);
+    expect(evaluate('"n" + 1')).toBe('n1');
+  });
+
+  it('should compare values', () => {
+    expect(evaluate('age >= 18 && country == "FR"', user)).toBe(true);
+    expect(evaluate('age > 40 || country != "FR"', user)).toBe(false);
+    expect(evaluate('not (age < 18) and true', user)).toBe(true);
+    expect(evaluate('country in ["FR", "DE"]', user)).toBe(true);
+    expect(evaluate('"admin" in tags', user)).toBe(true);
+    expect(evaluate('"36" == age', user)).toBe(true);
+    expect(evaluate('missing < 5 || missing > 5', user)).toBe(false);
+    expect(evaluate('missing == null', user)).toBe(true);
+    expect(evaluate('age > 18 ? "adult" : "minor"', user)).toBe('adult');
+  });
+
+  it('should build objects and arrays', () => {
+    expect(evaluate('{ name: trim(name), age, "in city": address.city, list: [1, 2,] }', user)).toEqual({
+      name: 'Ada',
+      age: 36,
+      'in city': 'Paris',
+      list: [1, 2]
+    });
+  });
+
+  it('should call string functions', () => {
+    expect(evaluate('upper(trim(name))', user)).toBe('ADA');
+    expect(evaluate('length(tags) + length("abc")', user)).toBe(5);
+    expect(evaluate('contains(lower(name), "ad") && startsWith(country, "F")', user)).toBe(true);
+    expect(evaluate('replace("a-b-c", "-", "/")')).toBe('a/b/c');
+    expect(evaluate('join(split("a,b", ","), ";")')).toBe('a;b');
+    expect(evaluate('substring("browser", 0, 4)')).toBe('brow');
+    expect(evaluate('upper(missing)', user)).toBeNull();
+  });
+
+  it('should call number and null functions', () => {
+    expect(evaluate('round(2.345, 2)')).toBe(2.35);
+    expect(evaluate('max(1, 5, 3) + min([4, 2])')).toBe(7);
+    expect(evaluate('sum([1, 2, null, "3"])')).toBe(6);
+    expect(evaluate('number("12.5")')).toBe(12.5);
+    expect(evaluate('number("abc")')).toBeNull();
+    expect(evaluate('coalesce(missing, address.zip, "none")', user)).toBe('none');
+    expect(evaluate('isNull(address.zip)', user)).toBe(true);
+  });
+
+  it('should call date functions in UTC', () => {
+    expect(evaluate('year($["signed up"]) * 100 + month($["signed up"])', user)).toBe(202402);
+    expect(evaluate('formatDate(addDays($["signed up"], 1), "DD/MM/YYYY HH:mm")', user)).toBe('01/03/2024 10:00');
+    expect(evaluate('daysBetween("2024-01-01", "2024-03-01")')).toBe(60);
+    expect(evaluate('date("2024-01-01") < date($["signed up"])', user)).toBe(true);
+    expect(evaluate('date("2024-01-01") == date("2024-01-01T00:00:00Z")')).toBe(true);
+    expect(evaluate('date("not a date")')).toBeNull();
+  });
+
+  it('should point at the position of syntax errors', () => {
+    const cases: Array<[string, string, number]> = [
+      ['age >=', 'Unexpected end of expression', 6],
+      ['(age > 1', "Expected ')', found end of expression", 8],
+      ['age @ 1', "Unexpected character '@'", 4],
+      ['name == "Ada', 'Unterminated string', 8],
+      ['age 18', "Unexpected '18'", 4],
+      ['lower(name', "Expected ')', found end of expression", 10],
+      ['', 'Empty expression', 0]
+    ];
+
+    cases.forEach(([expression, message, position]) => {
+      try {
+        parseExpression(expression);
+        expect.unreachable(`'${expression}' should not parse`);
+      } catch (error: any) {
+        expect(isExpressionError(error)).toBe(true);
+        expect(error.message).toBe(`${message} at position ${position}\n  ${expression}\n  ${' '.repeat(position)}^`);
+        expect(error.position).toBe(position);
+        expect(error.expression).toBe(expression);
+      }
+    });
+  });
+
+  it('should reject unknown functions and wrong argument counts when parsing', () => {
+    expect(() => parseExpression('age > 1 && eval("x")')).toThrow("Unknown function 'eval' at position 11");
+    expect(() => parseExpression('constructor("x")')).toThrow("Unknown function 'constructor' at position 0");
+    expect(() => parseExpression('round()')).toThrow("Function 'round' expects 1 to 2 argument(s), got 0 at position 0");
+  });
+});
@@ -1,5 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { FileExtractor } from '../../src/extractors/file';
+import { FileExtractor, fileTypeFromName } from '../../src/extractors/file';
+import { compressBytes } from '../../src/utils/compression';
+import { writeXlsx } from '../../src/utils/xlsx';
+import { writeZip } from '../../src/utils/zip';
+
+const NativeFileReader = global.FileReader;
 
 describe('FileExtractor', () => {
   let extractor: FileExtractor;
@@ -195,6 +200,204 @@ describe('FileExtractor', () => {
     });
   });
 
+  describe('ndjson', () => {
+    const streamedFile = (...pieces: string[]) => {
+      const file = new File([pieces.join('')], 'logs.ndjson');
+      const encoder = new TextEncoder();
+      return Object.assign(file, {
+        stream: () => new ReadableStream({
+          start(controller) {
+            pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+            controller.close();
+          }
+        })
+      });
+    };
+
+    it('should parse lines split across stream chunks', async () => {
+      const file = streamedFile('{"id":1}\n{"i', 'd":2}\r\n\n', '{"id":3}');
+
+      const result = await extractor.extract({ file, type: 'ndjson' });
+
+      expect(result).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    });
+
+    it('should skip and report bad lines', async () => {
+      const onBadLine = vi.fn();
+      const file = streamedFile('{"id":1}\nnot json\n{"id":2}\n');
+
+      const result = await extractor.extract({ file, type: 'ndjson', onBadLine });
+
+      expect(result).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(onBadLine).toHaveBeenCalledWith(expect.objectContaining({ line: 2, text: 'not json' }));
+    });
+
+    it('should fail once maxBadLines is exceeded', async () => {
+      const file = streamedFile('{"id":1}\nnot json\n');
+
+      await expect(extractor.extract({ file, type: 'ndjson', maxBadLines: 0 }))
+        .rejects.toThrow(/^Invalid NDJSON on line 2/);
+    });
+
+    it('should stream chunks of batchSize records', async () => {
+      const file = streamedFile('1\n2\n3\n');
+      const progress = vi.fn();
+      const chunks: any[][] = [];
+
+      for await (const chunk of extractor.stream({ file, type: 'ndjson' }, { batchSize: 2, progress })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual([[1, 2], [3]]);
+      expect(progress).toHaveBeenLastCalledWith(3);
+      expect(extractor.canStream({ file, type: 'ndjson' })).toBe(true);
+      expect(extractor.canStream({ file, type: 'json' })).toBe(false);
+    });
+
+    it('should read the whole file where File.stream is unavailable', async () => {
+      const file = new File(['{"a":1}\n{"a":2}\n'], 'logs.jsonl');
+      const mockFileReader = {
+        readAsText: vi.fn(function (this: any) {
+          setTimeout(() => this.onload());
+        }),
+        result: '{"a":1}\n{"a":2}\n',
+        onload: null as any,
+        onerror: null as any
+      };
+      global.FileReader = vi.fn().mockImplementation(() => mockFileReader);
+
+      expect(await extractor.extract({ file, type: 'ndjson' })).toEqual([{ a: 1 }, { a: 2 }]);
+    });
+  });
+
+  describe('xlsx', () => {
+    it('should read the selected sheet as records', async () => {
+      const workbook = await writeXlsx([
+        { name: 'Ignored', rows: [{ a: 1 }] },
+        { name: 'People', rows: [{ name: 'Ada', age: 36 }, { name: 'Grace', age: 45 }] }
+      ]);
+      const file = new File(['xlsx'], 'people.xlsx');
+      const mockFileReader = {
+        readAsArrayBuffer: vi.fn(function (this: any) {
+          setTimeout(() => this.onload());
+        }),
+        result: workbook.buffer,
+        onload: null as any,
+        onerror: null as any
+      };
+      global.FileReader = vi.fn().mockImplementation(() => mockFileReader);
+
+      const result = await extractor.extract({ file, type: 'xlsx', sheet: 'People' });
+
+      expect(mockFileReader.readAsArrayBuffer).toHaveBeenCalledWith(file);
+      expect(result).toEqual([{ name: 'Ada', age: 36 }, { name: 'Grace', age: 45 }]);
+      expect(extractor.outputShape({ file, type: 'xlsx' })).toBe('records');
+    });
+  });
+
+  describe('compressed files and archives', () => {
+    const encode = (text: string) => new TextEncoder().encode(text);
+
+    beforeEach(() => {
+      global.FileReader = NativeFileReader;
+    });
+
+    it('should decompress gzip files by extension and parse the inner type', async () => {
+      const gzipped = await compressBytes(encode('{"name":"Ada"}'), 'gzip');
+      const file = new File([gzipped as BlobPart], 'user.json.gz');
+
+      expect(await extractor.extract({ file, type: 'json' })).toEqual({ name: 'Ada' });
+    });
+
+    it('should decompress by MIME type or when asked to', async () => {
+      const gzipped = await compressBytes(encode('name,age\nAda,36'), 'gzip');
+      const deflated = await compressBytes(encode('hello'), 'deflate');
+
+      const typed = new File([gzipped as BlobPart], 'export', { type: 'application/gzip' });
+      expect(await extractor.extract({ file: typed, type: 'csv' })).toEqual([['name', 'age'], ['Ada', '36']]);
+
+      const untyped = new File([deflated as BlobPart], 'greeting.bin');
+      expect(await extractor.extract({ file: untyped, compression: 'deflate' })).toBe('hello');
+    });
+
+    it('should stream gzipped NDJSON without reading the whole file', async () => {
+      const gzipped = await compressBytes(encode('{"id":1}\n{"id":2}\n{"id":3}\n'), 'gzip');
+      const file = Object.assign(new File([gzipped as BlobPart], 'events.ndjson.gz'), {
+        stream: () => new ReadableStream({
+          start(controller) {
+            controller.enqueue(gzipped.slice(0, 10));
+            controller.enqueue(gzipped.slice(10));
+            controller.close();
+          }
+        })
+      });
+      global.FileReader = vi.fn(() => {
+        throw new Error('The file should be streamed');
+      }) as any;
+      const chunks: any[][] = [];
+
+      for await (const chunk of extractor.stream({ file, type: 'ndjson' }, { batchSize: 2 })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }]]);
+    });
+
+    it('should leave files alone with compression none', async () => {
+      const file = new File(['plain'], 'notes.txt.gz');
+
+      expect(await extractor.extract({ file, compression: 'none' })).toBe('plain');
+    });
+
+    it('should read the zip entries selected by a glob with their own types', async () => {
+      const archive = await writeZip([
+        { name: 'data/users.json', data: '[{"id":1}]' },
+        { name: 'data/events.ndjson', data: '{"type":"a"}\n{"type":"b"}\n' },
+        { name: 'data/nested/skip.json', data: '{}' },
+        { name: 'README.txt', data: 'read me' }
+      ]);
+      const file = new File([archive as BlobPart], 'dump.zip');
+
+      const result = await extractor.extract({ file, type: 'zip', entries: 'data/*' });
+
+      expect(result).toEqual([
+        expect.objectContaining({ path: 'data/users.json', size: 10, content: [{ id: 1 }] }),
+        expect.objectContaining({ path: 'data/events.ndjson', content: [{ type: 'a' }, { type: 'b' }] })
+      ]);
+      expect(extractor.outputShape({ file, type: 'zip' })).toBe('records');
+    });
+
+    it('should list zip entries without reading them', async () => {
+      const archive = await writeZip([{ name: 'a.csv', data: 'x\n1' }, { name: 'b.txt', data: 'b' }], { compress: false });
+      const file = new File([archive as BlobPart], 'dump.zip');
+
+      const result = await extractor.extract({ file, type: 'zip', listEntries: true });
+
+      expect(result).toEqual([
+        { path: 'a.csv', size: 3, compressedSize: 3 },
+        { path: 'b.txt', size: 1, compressedSize: 1 }
+      ]);
+    });
+
+    it('should read entries with a forced type', async () => {
+      const archive = await writeZip([{ name: 'data.log', data: '{"ok":true}' }]);
+      const file = new File([archive as BlobPart], 'logs.zip');
+
+      const [entry] = await extractor.extract({ file, type: 'zip', entryType: 'json' });
+
+      expect(entry.content).toEqual({ ok: true });
+    });
+  });
+
+  describe('file type detection', () => {
+    it('should guess types from extensions, ignoring compression', () => {
+      expect(fileTypeFromName('users.csv.gz')).toBe('csv');
+      expect(fileTypeFromName('events.jsonl')).toBe('ndjson');
+      expect(fileTypeFromName('dump.ZIP')).toBe('zip');
+      expect(fileTypeFromName('notes')).toBe('text');
+    });
+  });
+
   describe('supports method', () => {
     it('should support config with File', () => {
       const file = new File([''], 'test.txt');
@@ -1,6 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { FileLoader } from '../../src/loaders/file';
 
+async function* chunksOf(...chunks: any[][]) {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
+
 describe('FileLoader', () => {
   let loader: FileLoader;
 
@@ -240,4 +246,42 @@ describe('FileLoader', () => {
       expect(loader.name).toBe('file');
     });
   });
-});
\ No newline at end of file
+});
+
+describe('FileLoader loadStream method', () => {
+  let loader: FileLoader;
+
+  beforeEach(() => {
+    loader = new FileLoader();
+    vi.restoreAllMocks();
+    vi.spyOn(document, 'createElement').mockReturnValue({ style: {}, click: vi.fn() } as any);
+    vi.spyOn(document.body, 'appendChild').mockImplementation(node => node);
+    vi.spyOn(document.body, 'removeChild').mockImplementation(node => node);
+    URL.createObjectURL = vi.fn().mockReturnValue('blob:mock-url');
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  const records = [
+    { name: 'John', note: 'a, b' },
+    { name: 'Jane', note: 'c' },
+    { name: 'Bob', note: 'd' }
+  ];
+
+  it.each(['json', 'csv', 'txt', 'xml'] as const)('should write the same %s content as load()', async format => {
+    const config = { filename: 'data', format, download: false };
+    const streamed = await loader.loadStream(chunksOf(records.slice(0, 2), records.slice(2)), config);
+
+    expect(streamed).toBe(await loader.load(records, config));
+  });
+
+  it('should write an empty file for an empty stream', async () => {
+    const config = { filename: 'data', format: 'json' as const, download: false };
+    expect(await loader.loadStream(chunksOf(), config)).toBe('[]');
+  });
+
+  it('should download the streamed file', async () => {
+    await loader.loadStream(chunksOf(records), { filename: 'data', format: 'csv' });
+
+    expect(URL.createObjectURL).toHaveBeenCalledWith(expect.any(Blob));
+  });
+});
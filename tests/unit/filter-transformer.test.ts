@@ -17,6 +17,14 @@ describe('FilterTransformer', () => {
     expect(result).toEqual([4, 5]);
   });
 
+  it('should filter chunks of records', async () => {
+    const result = await transformer.transformChunk([1, 2, 3, 4, 5], {
+      fn: (item: number) => item % 2 === 1
+    });
+
+    expect(result).toEqual([1, 3, 5]);
+  });
+
   it('should filter object data', async () => {
     const data = { a: 1, b: 2, c: 3 };
     const result = await transformer.transform(data, {
@@ -70,7 +78,24 @@ describe('FilterTransformer', () => {
   it('should support configuration validation', () => {
     expect(transformer.supports({ fn: () => true })).toBe(true);
     expect(transformer.supports({})).toBe(false);
-    expect(transformer.supports({ fn: 'not a function' })).toBe(false);
+    expect(transformer.supports({ fn: 'age >= 18' })).toBe(true);
+    expect(transformer.supports({ fn: 42 })).toBe(false);
+  });
+
+  it('should filter with an expression', async () => {
+    const data = [
+      { name: 'Ada', age: 36, country: 'FR' },
+      { name: 'Bob', age: 15, country: 'FR' },
+      { name: 'Eve', age: 40, country: 'DE' }
+    ];
+
+    const result = await transformer.transform(data, { fn: 'age >= 18 && country == "FR"' });
+
+    expect(result).toEqual([{ name: 'Ada', age: 36, country: 'FR' }]);
+  });
+
+  it('should report the position of expression syntax errors', async () => {
+    await expect(transformer.transform([1], { fn: '$ > ' })).rejects.toThrow('Unexpected end of expression at position 4');
   });
 
   it('should have correct name', () => {
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { FunctionRegistry } from '../../src/utils/function-registry';
+
+describe('FunctionRegistry', () => {
+  it('should register functions from the constructor', () => {
+    const double = (x: number) => x * 2;
+    const registry = new FunctionRegistry({ double });
+
+    expect(registry.get('double')).toBe(double);
+    expect(registry.has('double')).toBe(true);
+    expect(registry.names()).toEqual(['double']);
+  });
+
+  it('should find the name of a registered function', () => {
+    const double = (x: number) => x * 2;
+    const registry = new FunctionRegistry().register('double', double);
+
+    expect(registry.nameOf(double)).toBe('double');
+    expect(registry.nameOf(() => 0)).toBeUndefined();
+  });
+
+  it('should unregister functions', () => {
+    const registry = new FunctionRegistry({ noop: () => undefined });
+
+    expect(registry.unregister('noop')).toBe(true);
+    expect(registry.has('noop')).toBe(false);
+  });
+
+  it('should reject non-function values', () => {
+    expect(() => new FunctionRegistry().register('bad', 'x' as any)).toThrow('value is not a function');
+  });
+});
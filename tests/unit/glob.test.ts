@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { globToRegExp, matchesGlob } from '../../src/utils/glob';
+
+describe('glob', () => {
+  it('should match keys with wildcards', () => {
+    expect(matchesGlob('app:settings:theme', 'app:settings:*')).toBe(true);
+    expect(matchesGlob('app:settings', 'app:settings:*')).toBe(false);
+    expect(matchesGlob('user:7', 'user:?')).toBe(true);
+    expect(matchesGlob('a.b', 'a?b')).toBe(true);
+    expect(matchesGlob('axb', 'a.b')).toBe(false);
+  });
+
+  it('should keep single wildcards within path segments', () => {
+    const options = { separator: '/' };
+
+    expect(matchesGlob('exports/users.json', 'exports/*.json', options)).toBe(true);
+    expect(matchesGlob('exports/2024/users.json', 'exports/*.json', options)).toBe(false);
+    expect(matchesGlob('exports/2024/users.json', 'exports/**/*.json', options)).toBe(true);
+    expect(matchesGlob('exports/users.json', 'exports/**/*.json', options)).toBe(true);
+    expect(matchesGlob('exports/2024/users.json', 'exports/**', options)).toBe(true);
+  });
+
+  it('should match alternatives', () => {
+    const glob = globToRegExp('data/*.{csv,json}', { separator: '/' });
+
+    expect(glob.test('data/a.csv')).toBe(true);
+    expect(glob.test('data/a.json')).toBe(true);
+    expect(glob.test('data/a.xml')).toBe(false);
+    expect(() => globToRegExp('data/{a,b')).toThrow("Unclosed '{' in glob pattern: data/{a,b");
+  });
+});
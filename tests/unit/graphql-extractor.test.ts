@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GraphQLExtractor, createGraphQLError, isGraphQLError } from '../../src/extractors/graphql';
+
+// Mock fetch
+global.fetch = vi.fn();
+
+describe('GraphQLExtractor', () => {
+  let extractor: GraphQLExtractor;
+
+  const jsonResponse = (body: any) => ({
+    ok: true,
+    json: () => Promise.resolve(body),
+    headers: { get: () => 'application/json' }
+  });
+
+  const requestBodies = () => (fetch as any).mock.calls.map((call: any[]) => JSON.parse(call[1].body));
+
+  beforeEach(() => {
+    extractor = new GraphQLExtractor();
+    (fetch as any).mockReset();
+  });
+
+  it('should post the query with its variables', async () => {
+    (fetch as any).mockResolvedValueOnce(jsonResponse({ data: { user: { id: 1, name: 'Ada' } } }));
+
+    const result = await extractor.extract({
+      endpoint: 'https://api.example.com/graphql',
+      query: 'query User($id: ID!) { user(id: $id) { id name } }',
+      variables: { id: 1 },
+      operationName: 'User'
+    });
+
+    expect(result).toEqual({ user: { id: 1, name: 'Ada' } });
+    expect(fetch).toHaveBeenCalledWith(
+      'https://api.example.com/graphql',
+      expect.objectContaining({
+        method: 'POST',
+        headers: expect.objectContaining({ 'Content-Type': 'application/json' })
+      })
+    );
+    expect(requestBodies()[0]).toEqual({
+      query: 'query User($id: ID!) { user(id: $id) { id name } }',
+      variables: { id: 1 },
+      operationName: 'User'
+    });
+  });
+
+  it('should select the result with dataPath', async () => {
+    (fetch as any).mockResolvedValueOnce(jsonResponse({ data: { viewer: { repositories: [{ name: 'a' }] } } }));
+
+    const result = await extractor.extract({
+      endpoint: 'https://api.example.com/graphql',
+      query: '{ viewer { repositories { name } } }',
+      dataPath: 'viewer.repositories'
+    });
+
+    expect(result).toEqual([{ name: 'a' }]);
+  });
+
+  it('should throw a GraphQLError when the response has errors', async () => {
+    (fetch as any).mockResolvedValueOnce(jsonResponse({
+      data: { user: null },
+      errors: [
+        { message: 'Not authorized', path: ['user'] },
+        { message: 'Rate limited' }
+      ]
+    }));
+
+    const error = await extractor.extract({
+      endpoint: 'https://api.example.com/graphql',
+      query: '{ user { id } }'
+    }).catch(e => e);
+
+    expect(isGraphQLError(error)).toBe(true);
+    expect(error.message).toBe('GraphQL request failed: Not authorized (and 1 more)');
+    expect(error.errors).toHaveLength(2);
+    expect(error.errors[0].path).toEqual(['user']);
+    expect(error.data).toEqual({ user: null });
+  });
+
+  it('should read errors from error responses without retrying them', async () => {
+    (fetch as any).mockResolvedValue({
+      ok: false,
+      status: 400,
+      statusText: 'Bad Request',
+      json: () => Promise.resolve({ errors: [{ message: 'Cannot query field "nme" on type "User".' }] }),
+      headers: { get: () => 'application/graphql-response+json' }
+    });
+
+    const error = await extractor.extract({
+      endpoint: 'https://api.example.com/graphql',
+      query: '{ user { nme } }'
+    }).catch(e => e);
+
+    expect(isGraphQLError(error)).toBe(true);
+    expect(error.message).toBe('GraphQL request failed: Cannot query field "nme" on type "User".');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report client errors without a GraphQL body', async () => {
+    (fetch as any).mockResolvedValue({
+      ok: false,
+      status: 401,
+      statusText: 'Unauthorized',
+      json: () => Promise.reject(new SyntaxError('Unexpected token <')),
+      headers: { get: () => 'text/html' }
+    });
+
+    await expect(extractor.extract({ endpoint: 'https://api.example.com/graphql', query: '{ me { id } }' }))
+      .rejects.toThrow('HTTP 401: Unauthorized');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should require an endpoint and a query', async () => {
+    await expect(extractor.extract({ endpoint: '', query: '{ a }' }))
+      .rejects.toThrow('Endpoint is required for GraphQL extraction');
+    await expect(extractor.extract({ endpoint: 'https://api.example.com/graphql', query: '' }))
+      .rejects.toThrow('Query is required for GraphQL extraction');
+  });
+
+  it('should support configs with an endpoint and a query', () => {
+    expect(extractor.supports({ endpoint: '/graphql', query: '{ a }' })).toBe(true);
+    expect(extractor.supports({ url: '/graphql' })).toBe(false);
+  });
+
+  describe('pagination', () => {
+    const pages: Record<string, any> = {
+      start: { nodes: [{ id: 1 }, { id: 2 }], pageInfo: { hasNextPage: true, endCursor: 'c2' } },
+      c2: { edges: [{ node: { id: 3 } }], pageInfo: { hasNextPage: true, endCursor: 'c3' } },
+      c3: { nodes: [{ id: 4 }], pageInfo: { hasNextPage: false, endCursor: 'c4' } }
+    };
+
+    beforeEach(() => {
+      (fetch as any).mockImplementation(async (_url: string, init: RequestInit) => {
+        const { variables } = JSON.parse(init.body as string);
+        return jsonResponse({ data: { repository: { issues: pages[variables.after || 'start'] } } });
+      });
+    });
+
+    const config = {
+      endpoint: 'https://api.example.com/graphql',
+      query: 'query Issues($after: String) { ... }',
+      variables: { owner: 'acme' },
+      dataPath: 'repository.issues'
+    };
+
+    it('should follow endCursor while hasNextPage is true', async () => {
+      const progress = vi.fn();
+      const result = await extractor.extract({ ...config, pagination: true }, { progress });
+
+      expect(result).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }, { id: 4 }]);
+      expect(requestBodies().map((body: any) => body.variables)).toEqual([
+        { owner: 'acme' },
+        { owner: 'acme', after: 'c2' },
+        { owner: 'acme', after: 'c3' }
+      ]);
+      expect(progress).toHaveBeenLastCalledWith(4);
+    });
+
+    it('should use a custom cursor variable and connection path', async () => {
+      (fetch as any).mockImplementation(async (_url: string, init: RequestInit) => {
+        const { variables } = JSON.parse(init.body as string);
+        return jsonResponse({ data: { search: pages[variables.cursor || 'start'] } });
+      });
+
+      const result = await extractor.extract({
+        ...config,
+        pagination: { connectionPath: 'search', cursorVariable: 'cursor' }
+      });
+
+      expect(result).toHaveLength(4);
+      expect(requestBodies()[1].variables).toEqual({ owner: 'acme', cursor: 'c2' });
+    });
+
+    it('should stop at maxPages and maxItems', async () => {
+      expect(await extractor.extract({ ...config, pagination: { maxPages: 2 } })).toHaveLength(3);
+
+      (fetch as any).mockClear();
+      expect(await extractor.extract({ ...config, pagination: { maxItems: 2 } })).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop when the cursor repeats', async () => {
+      (fetch as any).mockImplementation(async () => jsonResponse({
+        data: { repository: { issues: { nodes: [{ id: 1 }], pageInfo: { hasNextPage: true, endCursor: 'same' } } } }
+      }));
+
+      const result = await extractor.extract({ ...config, pagination: true });
+
+      expect(result).toHaveLength(2);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stream each page', async () => {
+      const chunks: any[][] = [];
+      for await (const chunk of extractor.stream({ ...config, pagination: true })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }], [{ id: 4 }]]);
+      expect(extractor.canStream({ ...config, pagination: true })).toBe(true);
+      expect(extractor.canStream(config)).toBe(false);
+    });
+
+    it('should fail when the connection is missing', async () => {
+      await expect(extractor.extract({ ...config, dataPath: 'repository.pulls', pagination: true }))
+        .rejects.toThrow("No connection found at 'repository.pulls'");
+    });
+
+    it('should require a connection path', async () => {
+      const { dataPath: _dataPath, ...withoutPath } = config;
+      await expect(extractor.extract({ ...withoutPath, pagination: true }))
+        .rejects.toThrow('GraphQL pagination requires dataPath or connectionPath');
+    });
+  });
+});
+
+describe('createGraphQLError', () => {
+  it('should name the error after the first GraphQL error', () => {
+    const error = createGraphQLError([{ message: 'Field "x" not found' }]);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('GraphQLError');
+    expect(error.message).toBe('GraphQL request failed: Field "x" not found');
+    expect(error.data).toBeUndefined();
+    expect(isGraphQLError(new Error('other'))).toBe(false);
+  });
+});
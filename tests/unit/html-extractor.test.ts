@@ -1,6 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { HtmlExtractor } from '../../src/extractors/html';
 
+// Real documents for table and record extraction, created before window.document is mocked
+const implementation = document.implementation;
+const useDocument = (body: string) => {
+  const realDocument = implementation.createHTMLDocument('');
+  realDocument.body.innerHTML = body;
+  Object.defineProperty(window, 'document', { value: realDocument, writable: true });
+};
+
 // Mock fetch
 global.fetch = vi.fn();
 
@@ -154,6 +162,193 @@ describe('HtmlExtractor', () => {
     });
   });
 
+  describe('table mode', () => {
+    it('should read rows keyed by the header', async () => {
+      useDocument(`
+        <table id="people">
+          <thead><tr><th>Name</th><th>City</th></tr></thead>
+          <tbody>
+            <tr><td> Ada
+              Lovelace </td><td>London</td></tr>
+            <tr><td>Grace</td></tr>
+          </tbody>
+          <tfoot><tr><td>Total</td><td>2</td></tr></tfoot>
+        </table>
+      `);
+
+      const rows = await extractor.extract({ selector: '#people', mode: 'table' });
+
+      expect(rows).toEqual([
+        { Name: 'Ada Lovelace', City: 'London' },
+        { Name: 'Grace', City: null }
+      ]);
+    });
+
+    it('should expand colspan and rowspan', async () => {
+      useDocument(`
+        <div class="report"><table>
+          <tr><th rowspan="2">Student</th><th colspan="2">Scores</th><th rowspan="2"></th></tr>
+          <tr><th>Math</th><th>Art</th></tr>
+          <tr><td rowspan="2">Ada</td><td colspan="2">A</td><td>x</td></tr>
+          <tr><td>B</td><td>C</td><td>y</td></tr>
+        </table></div>
+      `);
+
+      const rows = await extractor.extract({ selector: '.report', mode: 'table' });
+
+      expect(rows).toEqual([
+        { Student: 'Ada', 'Scores Math': 'A', 'Scores Art': 'A', column4: 'x' },
+        { Student: 'Ada', 'Scores Math': 'B', 'Scores Art': 'C', column4: 'y' }
+      ]);
+    });
+
+    it('should name columns of tables without headers and number duplicates', async () => {
+      useDocument('<table><tr><td>1</td><td>2</td></tr></table><table id="dup"><tr><th>a</th><th>a</th></tr><tr><td>1</td><td>2</td></tr></table>');
+
+      expect(await extractor.extract({ selector: 'table', mode: 'table' })).toEqual([{ column1: '1', column2: '2' }]);
+      expect(await extractor.extract({ selector: '#dup', mode: 'table' })).toEqual([{ a: '1', a_2: '2' }]);
+      expect(await extractor.extract({ selector: '#missing', mode: 'table' })).toEqual([]);
+    });
+  });
+
+  describe('records mode', () => {
+    it('should map each matched element to an object', async () => {
+      useDocument(`
+        <article class="product" data-id="1">
+          <h2>Lamp</h2><a href="/lamp">More</a>
+          <span class="tag">home</span><span class="tag">light</span>
+        </article>
+        <article class="product" data-id="2"><h2>Desk</h2></article>
+      `);
+
+      const records = await extractor.extract({
+        selector: '.product',
+        mode: 'records',
+        fields: {
+          id: '@data-id',
+          name: 'h2',
+          link: 'a@href',
+          tags: { selector: '.tag', multiple: true },
+          title: { selector: 'h2', html: true }
+        }
+      });
+
+      expect(records).toEqual([
+        { id: '1', name: 'Lamp', link: '/lamp', tags: ['home', 'light'], title: 'Lamp' },
+        { id: '2', name: 'Desk', link: null, tags: [], title: 'Desk' }
+      ]);
+    });
+
+    it('should require fields', async () => {
+      await expect(extractor.extract({ selector: '.product', mode: 'records' }))
+        .rejects.toThrow('Fields are required for HTML record extraction');
+    });
+  });
+
+  describe('structured data modes', () => {
+    const page = `
+      <meta property="og:title" content="Lamp">
+      <meta property="og:image" content="/a.jpg"><meta property="og:image" content="/b.jpg">
+      <meta name="twitter:card" content="summary">
+      <meta charset="utf-8">
+      <script type="application/ld+json">{"@context": "https://schema.org", "@type": "Product", "name": "Lamp"}</script>
+      <script type="application/ld+json">
+        {"@context": "https://schema.org", "@graph": [{"@type": "Organization", "name": "Shop"}, {"@type": "WebPage"}]}
+      </script>
+      <script type="application/ld+json">{ not json</script>
+      <div itemscope itemtype="https://schema.org/Product" itemid="urn:sku:1">
+        <h1 itemprop="name">Lamp</h1>
+        <img itemprop="image" src="/lamp.jpg">
+        <a itemprop="url" href="/lamp">Details</a>
+        <span itemprop="color">red</span> <span itemprop="color">blue</span>
+        <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+          <meta itemprop="priceCurrency" content="EUR">
+          <data itemprop="price" value="19.99">19,99 €</data>
+          <time itemprop="priceValidUntil" datetime="2025-01-01">New Year</time>
+        </div>
+      </div>
+      <div itemscope itemtype="https://schema.org/Person"><span itemprop="name">Ada</span></div>
+    `;
+
+    it('should parse JSON-LD blocks and their graphs', async () => {
+      useDocument(page);
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const items = await extractor.extract({ mode: 'jsonld' });
+
+      expect(items).toEqual([
+        { '@context': 'https://schema.org', '@type': 'Product', name: 'Lamp' },
+        { '@context': 'https://schema.org', '@type': 'Organization', name: 'Shop' },
+        { '@context': 'https://schema.org', '@type': 'WebPage' }
+      ]);
+      expect(warn).toHaveBeenCalledWith('Skipped invalid JSON-LD block:', expect.any(String));
+      expect(await extractor.extract({ mode: 'jsonld', itemType: 'https://schema.org/Organization' }))
+        .toEqual([{ '@context': 'https://schema.org', '@type': 'Organization', name: 'Shop' }]);
+      warn.mockRestore();
+    });
+
+    it('should read microdata items into nested objects', async () => {
+      useDocument(page);
+
+      const items = await extractor.extract({ mode: 'microdata', itemType: 'Product' });
+
+      expect(items).toEqual([{
+        '@type': 'https://schema.org/Product',
+        '@id': 'urn:sku:1',
+        name: 'Lamp',
+        image: '/lamp.jpg',
+        url: '/lamp',
+        color: ['red', 'blue'],
+        offers: {
+          '@type': 'https://schema.org/Offer',
+          priceCurrency: 'EUR',
+          price: '19.99',
+          priceValidUntil: '2025-01-01'
+        }
+      }]);
+      expect(await extractor.extract({ mode: 'microdata' })).toHaveLength(2);
+    });
+
+    it('should read microdata properties named like object members', async () => {
+      useDocument(`
+        <div itemscope itemtype="https://schema.org/Thing">
+          <span itemprop="constructor">a</span>
+          <span itemprop="toString">b</span><span itemprop="toString">c</span>
+        </div>
+      `);
+
+      const [item] = await extractor.extract({ mode: 'microdata' });
+
+      expect(item.constructor).toBe('a');
+      expect(item.toString).toEqual(['b', 'c']);
+    });
+
+    it('should gather meta tags', async () => {
+      useDocument(page);
+
+      expect(await extractor.extract({ mode: 'meta' })).toEqual({
+        'og:title': 'Lamp',
+        'og:image': ['/a.jpg', '/b.jpg'],
+        'twitter:card': 'summary'
+      });
+    });
+
+    it('should read structured data from fetched pages', async () => {
+      useDocument('');
+      const fetched = implementation.createHTMLDocument('');
+      fetched.body.innerHTML = '<meta property="og:type" content="article">';
+      (DOMParser as any).mockImplementation(() => ({ parseFromString: vi.fn().mockReturnValue(fetched) }));
+      (fetch as any).mockResolvedValueOnce({ ok: true, text: vi.fn().mockResolvedValue('<html></html>') });
+
+      const meta = await extractor.extract({ mode: 'meta', url: 'https://example.com/post' });
+
+      expect(fetch).toHaveBeenCalledWith('https://example.com/post');
+      expect(meta).toEqual({ 'og:type': 'article' });
+      expect(extractor.supports({ mode: 'meta' })).toBe(true);
+      expect(extractor.outputShape({ mode: 'meta' })).toBe('object');
+    });
+  });
+
   describe('supports method', () => {
     it('should support valid config with selector', () => {
       expect(extractor.supports({ selector: '.test' })).toBe(true);
@@ -21,8 +21,9 @@ describe('IndexedDBExtractor', () => {
 
     mockStore = {
       openCursor: vi.fn(),
-      index: vi.fn().mockReturnValue(mockStore)
+      index: vi.fn()
     };
+    mockStore.index.mockReturnValue(mockStore);
 
     mockTransaction = {
       objectStore: vi.fn().mockReturnValue(mockStore)
@@ -34,7 +35,8 @@ describe('IndexedDBExtractor', () => {
         objectStoreNames: {
           contains: vi.fn().mockReturnValue(true)
         },
-        createObjectStore: vi.fn()
+        createObjectStore: vi.fn(),
+        close: vi.fn()
       },
       onerror: null,
       onsuccess: null,
@@ -73,7 +75,7 @@ describe('IndexedDBExtractor', () => {
 
       const result = await extractPromise;
 
-      expect(mockIndexedDB.open).toHaveBeenCalledWith('browser-etl-db', 1);
+      expect(mockIndexedDB.open).toHaveBeenCalledWith('browser-etl-db');
       expect(mockTransaction.objectStore).toHaveBeenCalledWith('testStore');
       expect(mockStore.openCursor).toHaveBeenCalledWith(undefined, 'next');
       expect(result).toEqual([{ id: 1, name: 'Test' }]);
@@ -86,7 +88,7 @@ describe('IndexedDBExtractor', () => {
       };
 
       mockStore.openCursor.mockReturnValue(mockCursorRequest);
-      const query = { id: 1 };
+      const query = 1;
 
       const extractPromise = extractor.extract({ 
         storeName: 'testStore', 
@@ -168,6 +170,17 @@ describe('IndexedDBExtractor', () => {
       expect(mockCursor.continue).not.toHaveBeenCalled();
     });
 
+    it('should return no records with a limit of 0', async () => {
+      const extractPromise = extractor.extract({ storeName: 'testStore', limit: 0 });
+
+      mockRequest.onsuccess();
+
+      const result = await extractPromise;
+
+      expect(result).toEqual([]);
+      expect(mockStore.openCursor).not.toHaveBeenCalled();
+    });
+
     it('should handle database open error', async () => {
       const extractPromise = extractor.extract({ storeName: 'testStore' });
 
@@ -192,28 +205,105 @@ describe('IndexedDBExtractor', () => {
       await expect(extractPromise).rejects.toThrow('Failed to read from IndexedDB');
     });
 
-    it('should create object store if needed', async () => {
-      const mockCursorRequest = {
-        onsuccess: null,
-        onerror: null
-      };
-
+    it('should open the configured database and version', async () => {
+      const mockCursorRequest = { onsuccess: null as any, onerror: null };
       mockStore.openCursor.mockReturnValue(mockCursorRequest);
+
+      const extractPromise = extractor.extract({ dbName: 'app-db', version: 3, storeName: 'testStore' });
+
+      mockRequest.onsuccess();
+      mockCursorRequest.onsuccess({ target: { result: null } });
+
+      expect(await extractPromise).toEqual([]);
+      expect(mockIndexedDB.open).toHaveBeenCalledWith('app-db', 3);
+      expect(mockRequest.result.close).toHaveBeenCalled();
+    });
+
+    it('should abort instead of creating or upgrading databases', async () => {
+      mockRequest.transaction = { abort: vi.fn() };
+
+      const missing = extractor.extract({ dbName: 'app-db', storeName: 'testStore' });
+      mockRequest.onupgradeneeded();
+      mockRequest.onerror();
+
+      await expect(missing).rejects.toThrow("IndexedDB database 'app-db' does not exist");
+      expect(mockRequest.transaction.abort).toHaveBeenCalled();
+      expect(mockRequest.result.createObjectStore).not.toHaveBeenCalled();
+
+      const newer = extractor.extract({ dbName: 'app-db', version: 4, storeName: 'testStore' });
+      mockRequest.onupgradeneeded();
+      mockRequest.onerror();
+
+      await expect(newer).rejects.toThrow("IndexedDB database 'app-db' has no version 4");
+    });
+
+    it('should reject missing object stores', async () => {
       mockRequest.result.objectStoreNames.contains.mockReturnValue(false);
 
       const extractPromise = extractor.extract({ storeName: 'testStore' });
+      mockRequest.onsuccess();
+
+      await expect(extractPromise).rejects.toThrow("Object store 'testStore' not found in IndexedDB database 'browser-etl-db'");
+      expect(mockRequest.result.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should skip records with offset', async () => {
+      const mockCursorRequest = { onsuccess: null as any, onerror: null };
+      const cursor = { value: { id: 3 }, advance: vi.fn(), continue: vi.fn() };
+      mockStore.openCursor.mockReturnValue(mockCursorRequest);
+
+      const extractPromise = extractor.extract({ storeName: 'testStore', offset: 2, limit: 1 });
 
-      mockRequest.onupgradeneeded();
       mockRequest.onsuccess();
-      mockCursorRequest.onsuccess({ target: { result: mockCursor } });
-      mockCursorRequest.onsuccess({ target: { result: null } });
+      mockCursorRequest.onsuccess({ target: { result: cursor } });
+      mockCursorRequest.onsuccess({ target: { result: cursor } });
 
-      await extractPromise;
+      expect(await extractPromise).toEqual([{ id: 3 }]);
+      expect(cursor.advance).toHaveBeenCalledWith(2);
+      expect(cursor.continue).not.toHaveBeenCalled();
+    });
 
-      expect(mockRequest.result.createObjectStore).toHaveBeenCalledWith('testStore', {
-        keyPath: 'id',
-        autoIncrement: true
+    it('should compile query ranges for compound indexes', async () => {
+      const bound = vi.fn((...args: any[]) => ({ bound: args }));
+      vi.stubGlobal('IDBKeyRange', class { static bound = bound; });
+      const mockCursorRequest = { onsuccess: null as any, onerror: null };
+      mockStore.openCursor.mockReturnValue(mockCursorRequest);
+
+      const extractPromise = extractor.extract({
+        storeName: 'testStore',
+        index: 'byNameAndAge',
+        query: ['Smith', { gte: 18, lt: 65 }]
       });
+
+      mockRequest.onsuccess();
+      mockCursorRequest.onsuccess({ target: { result: null } });
+      await extractPromise;
+
+      expect(mockStore.openCursor).toHaveBeenCalledWith({ bound: [['Smith', 18], ['Smith', 65], false, true] }, 'next');
+      vi.unstubAllGlobals();
+    });
+
+    it('should read several stores in one transaction', async () => {
+      const requests: Record<string, any> = {};
+      mockTransaction.objectStore.mockImplementation((name: string) => ({
+        openCursor: vi.fn(() => (requests[name] = { onsuccess: null, onerror: null }))
+      }));
+
+      const extractPromise = extractor.extract({ stores: { users: { limit: 1 }, orders: {} } });
+
+      mockRequest.onsuccess();
+      requests.users.onsuccess({ target: { result: { value: { id: 'u1' }, continue: vi.fn() } } });
+      requests.orders.onsuccess({ target: { result: null } });
+
+      expect(await extractPromise).toEqual({ users: [{ id: 'u1' }], orders: [] });
+      expect(mockRequest.result.transaction).toHaveBeenCalledWith(['users', 'orders'], 'readonly');
+      expect(extractor.outputShape({ stores: ['users'] })).toBe('object');
+    });
+
+    it('should reject invalid queries', async () => {
+      await expect(extractor.extract({ storeName: 'testStore', query: { id: 1 } as any }))
+        .rejects.toThrow('Invalid IndexedDB key query: unknown operator(s) id');
+      expect(mockIndexedDB.open).not.toHaveBeenCalled();
     });
 
     it('should throw error when store name is missing', async () => {
@@ -247,6 +337,10 @@ describe('IndexedDBExtractor', () => {
       expect(extractor.supports({ storeName: 'testStore' })).toBe(true);
     });
 
+    it('should support config with several stores', () => {
+      expect(extractor.supports({ stores: ['users', 'orders'] })).toBe(true);
+    });
+
     it('should not support config without storeName', () => {
       expect(extractor.supports({})).toBe(false);
     });
@@ -0,0 +1,352 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IndexedDBLoader } from '../../src/loaders/indexedDB';
+
+interface FakeStore {
+  keyPath: string | string[] | null;
+  autoIncrement: boolean;
+  nextKey: number;
+  indexes: Set<string>;
+  records: Map<string, any>;
+}
+
+interface FakeDatabase {
+  version: number;
+  stores: Map<string, FakeStore>;
+}
+
+const readPath = (value: any, path: string | string[]): any =>
+  Array.isArray(path) ? path.map(part => value[part]) : value[path];
+
+const cloneStores = (stores: Map<string, FakeStore>) => new Map(
+  Array.from(stores, ([name, store]) => [name, { ...store, indexes: new Set(store.indexes), records: new Map(store.records) }])
+);
+
+/**
+ * In-memory IndexedDB running requests in order on timers, with rollback on abort
+ */
+function createFakeIndexedDB(options: { quota?: number } = {}) {
+  const databases = new Map<string, FakeDatabase>();
+  const connections: any[] = [];
+
+  const storeApi = (database: FakeDatabase, name: string, transaction: any) => {
+    const store = database.stores.get(name)!;
+    const request = (operation: () => any) => {
+      const result: any = { onsuccess: null, onerror: null, result: undefined, error: null };
+      transaction.pending++;
+      setTimeout(() => {
+        transaction.pending--;
+        if (transaction.aborted) {
+          return;
+        }
+        try {
+          result.result = operation();
+          result.onsuccess?.();
+        } catch (error) {
+          result.error = error;
+          transaction.fail(error);
+          return;
+        }
+        transaction.settle();
+      });
+      return result;
+    };
+    const write = (value: any, key: any, overwrite: boolean) => {
+      let recordKey = store.keyPath === null ? key : readPath(value, store.keyPath);
+      if (recordKey === undefined && store.autoIncrement) {
+        recordKey = store.nextKey++;
+      }
+      if (recordKey === undefined) {
+        throw Object.assign(new Error('No key for record'), { name: 'DataError' });
+      }
+      if (!overwrite && store.records.has(JSON.stringify(recordKey))) {
+        throw Object.assign(new Error('Key already exists in the object store.'), { name: 'ConstraintError' });
+      }
+      if (options.quota !== undefined && store.records.size >= options.quota) {
+        throw Object.assign(new Error('The quota has been exceeded.'), { name: 'QuotaExceededError' });
+      }
+      store.records.set(JSON.stringify(recordKey), structuredClone(value));
+      return recordKey;
+    };
+
+    return {
+      keyPath: store.keyPath,
+      indexNames: { contains: (index: string) => store.indexes.has(index) },
+      createIndex: vi.fn((index: string) => store.indexes.add(index)),
+      put: (value: any, key?: any) => request(() => write(value, key, true)),
+      add: (value: any, key?: any) => request(() => write(value, key, false)),
+      get: (key: any) => request(() => store.records.get(JSON.stringify(key))),
+      clear: () => request(() => store.records.clear())
+    };
+  };
+
+  const connect = (name: string, database: FakeDatabase) => {
+    const connection = {
+      name,
+      get version() {
+        return database.version;
+      },
+      objectStoreNames: { contains: (store: string) => database.stores.has(store) },
+      createObjectStore: vi.fn((store: string, settings: any) => {
+        database.stores.set(store, {
+          keyPath: settings.keyPath,
+          autoIncrement: settings.autoIncrement,
+          nextKey: 1,
+          indexes: new Set(),
+          records: new Map()
+        });
+        return storeApi(database, store, { pending: 0 });
+      }),
+      transaction: vi.fn((_stores: string[], _mode: string) => {
+        const snapshot = cloneStores(database.stores);
+        const transaction: any = {
+          pending: 0,
+          aborted: false,
+          done: false,
+          error: null,
+          oncomplete: null,
+          onabort: null,
+          objectStore: (store: string) => storeApi(database, store, transaction),
+          fail(error: any) {
+            transaction.aborted = true;
+            transaction.error = error;
+            database.stores = snapshot;
+            setTimeout(() => transaction.onabort?.());
+          },
+          settle() {
+            setTimeout(() => {
+              if (!transaction.aborted && !transaction.done && transaction.pending === 0) {
+                transaction.done = true;
+                transaction.oncomplete?.();
+              }
+            });
+          }
+        };
+        transaction.settle();
+        return transaction;
+      }),
+      close: vi.fn()
+    };
+    connections.push(connection);
+    return connection;
+  };
+
+  const factory = {
+    databases,
+    connections,
+    open: vi.fn((name: string, version?: number) => {
+      const request: any = { onsuccess: null, onerror: null, onupgradeneeded: null, result: null, transaction: null };
+
+      setTimeout(() => {
+        const existing = databases.get(name);
+        const oldVersion = existing ? existing.version : 0;
+        const target = version ?? (oldVersion || 1);
+        const database = existing || { version: 0, stores: new Map() };
+
+        request.result = connect(name, database);
+
+        if (target > oldVersion) {
+          const snapshot = cloneStores(database.stores);
+          let aborted = false;
+
+          database.version = target;
+          databases.set(name, database);
+          request.transaction = {
+            objectStore: (store: string) => storeApi(database, store, { pending: 0 }),
+            abort: () => (aborted = true)
+          };
+          request.onupgradeneeded?.({ oldVersion });
+
+          if (aborted) {
+            database.version = oldVersion;
+            database.stores = snapshot;
+            if (!existing) {
+              databases.delete(name);
+            }
+            request.onerror?.();
+            return;
+          }
+        }
+        request.onsuccess?.();
+      });
+
+      return request;
+    })
+  };
+
+  return factory;
+}
+
+describe('IndexedDBLoader', () => {
+  let loader: IndexedDBLoader;
+  let indexedDB: ReturnType<typeof createFakeIndexedDB>;
+
+  const records = (db: string, store: string) => Array.from(indexedDB.databases.get(db)!.stores.get(store)!.records.values());
+
+  const install = (fake: ReturnType<typeof createFakeIndexedDB>) => {
+    indexedDB = fake;
+    Object.defineProperty(window, 'indexedDB', { value: fake, writable: true, configurable: true });
+  };
+
+  beforeEach(async () => {
+    loader = new IndexedDBLoader();
+    install(createFakeIndexedDB());
+    await loader.load([], { dbName: 'app', storeName: 'users', schema: { users: { keyPath: 'id' } } });
+  });
+
+  describe('load method', () => {
+    it('should put records into an existing store', async () => {
+      await loader.load([{ id: 1, name: 'Ada' }, { id: 2, name: 'Grace' }], { dbName: 'app', storeName: 'users' });
+      await loader.load({ id: 1, name: 'Ada Lovelace' }, { dbName: 'app', storeName: 'users' });
+
+      expect(records('app', 'users')).toEqual([{ id: 1, name: 'Ada Lovelace' }, { id: 2, name: 'Grace' }]);
+      expect(indexedDB.open).toHaveBeenLastCalledWith('app');
+      expect(indexedDB.connections.every(connection => connection.close.mock.calls.length === 1)).toBe(true);
+    });
+
+    it('should merge records in upsert mode', async () => {
+      await loader.load([{ id: 1, name: 'Ada', role: 'admin' }], { dbName: 'app', storeName: 'users' });
+
+      await loader.load([{ id: 1, name: 'Ada Lovelace' }, { id: 2, name: 'Grace' }], { dbName: 'app', storeName: 'users', mode: 'upsert' });
+
+      expect(records('app', 'users')).toEqual([{ id: 1, name: 'Ada Lovelace', role: 'admin' }, { id: 2, name: 'Grace' }]);
+    });
+
+    it('should fail on existing keys in add mode without writing the batch', async () => {
+      await loader.load([{ id: 1, name: 'Ada' }], { dbName: 'app', storeName: 'users' });
+
+      await expect(loader.load([{ id: 2, name: 'Grace' }, { id: 1, name: 'Ada' }], { dbName: 'app', storeName: 'users', mode: 'add' }))
+        .rejects.toThrow("Failed to write to IndexedDB store 'users': Key already exists in the object store.");
+      expect(records('app', 'users')).toEqual([{ id: 1, name: 'Ada' }]);
+    });
+
+    it('should clear the store in replace mode', async () => {
+      await loader.load([{ id: 1 }, { id: 2 }], { dbName: 'app', storeName: 'users' });
+
+      await loader.load([{ id: 3 }], { dbName: 'app', storeName: 'users', mode: 'replace' });
+
+      expect(records('app', 'users')).toEqual([{ id: 3 }]);
+    });
+
+    it('should leave the store untouched when a replace fails', async () => {
+      install(createFakeIndexedDB({ quota: 2 }));
+      await loader.load([{ id: 1 }, { id: 2 }], { dbName: 'app', storeName: 'users', schema: { users: { keyPath: 'id' } } });
+
+      await expect(loader.load([{ id: 3 }, { id: 4 }, { id: 5 }], { dbName: 'app', storeName: 'users', mode: 'replace', batchSize: 1 }))
+        .rejects.toThrow('Storage quota exceeded');
+
+      const connection = indexedDB.connections[indexedDB.connections.length - 1];
+      expect(connection.transaction).toHaveBeenCalledTimes(1);
+      expect(records('app', 'users')).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    it('should keep the batches written before a streamed replace fails', async () => {
+      install(createFakeIndexedDB({ quota: 2 }));
+      await loader.load([{ id: 1 }, { id: 2 }], { dbName: 'app', storeName: 'users', schema: { users: { keyPath: 'id' } } });
+
+      async function* chunks() {
+        yield [{ id: 3 }, { id: 4 }];
+        yield [{ id: 5 }];
+      }
+
+      await expect(loader.loadStream(chunks(), { dbName: 'app', storeName: 'users', mode: 'replace' }))
+        .rejects.toThrow('Storage quota exceeded');
+      expect(records('app', 'users')).toEqual([{ id: 3 }, { id: 4 }]);
+    });
+
+    it('should write in batches and report progress', async () => {
+      const progress = vi.fn();
+      const users = Array.from({ length: 5 }, (_, index) => ({ id: index }));
+
+      await loader.load(users, { dbName: 'app', storeName: 'users', batchSize: 2 }, { progress });
+
+      const connection = indexedDB.connections[indexedDB.connections.length - 1];
+      expect(connection.transaction).toHaveBeenCalledTimes(3);
+      expect(progress.mock.calls).toEqual([[2], [4], [5]]);
+      expect(records('app', 'users')).toHaveLength(5);
+    });
+
+    it('should read out-of-line keys from the key path', async () => {
+      await loader.load([], { dbName: 'app', version: 2, storeName: 'rates', schema: { rates: {} } });
+
+      await loader.load([{ from: 'EUR', to: 'USD', rate: 1.1 }], { dbName: 'app', storeName: 'rates', keyPath: ['from', 'to'] });
+
+      expect(indexedDB.databases.get('app')!.stores.get('rates')!.records.has('["EUR","USD"]')).toBe(true);
+    });
+
+    it('should report exceeded quotas', async () => {
+      install(createFakeIndexedDB({ quota: 2 }));
+      await loader.load([], { dbName: 'app', storeName: 'users', schema: { users: { keyPath: 'id' } } });
+
+      const error = await loader.load([{ id: 1 }, { id: 2 }, { id: 3 }, { id: 4 }], { dbName: 'app', storeName: 'users', batchSize: 2 })
+        .catch(caught => caught);
+
+      expect(error.name).toBe('StorageQuotaError');
+      expect(error.message).toBe("Storage quota exceeded while writing to IndexedDB store 'users' after 2 record(s)");
+      expect(error.written).toBe(2);
+    });
+
+    it('should stop between batches when aborted', async () => {
+      const controller = new AbortController();
+      const progress = vi.fn(() => controller.abort());
+
+      await expect(loader.load([{ id: 1 }, { id: 2 }], { dbName: 'app', storeName: 'users', batchSize: 1 }, { signal: controller.signal, progress }))
+        .rejects.toThrow('The operation was aborted');
+      expect(records('app', 'users')).toEqual([{ id: 1 }]);
+    });
+  });
+
+  describe('schema', () => {
+    it('should not create databases or stores implicitly', async () => {
+      await expect(loader.load([{ id: 1 }], { dbName: 'other', storeName: 'users' }))
+        .rejects.toThrow("IndexedDB database 'other' does not exist; pass a schema to create it");
+      expect(indexedDB.databases.has('other')).toBe(false);
+
+      await expect(loader.load([{ id: 1 }], { dbName: 'app', version: 2, storeName: 'users' }))
+        .rejects.toThrow("IndexedDB database 'app' has no version 2; pass a schema or migrations to upgrade it");
+
+      await expect(loader.load([{ id: 1 }], { dbName: 'app', storeName: 'orders' }))
+        .rejects.toThrow("Object store 'orders' not found in IndexedDB database 'app'");
+    });
+
+    it('should apply the schema and migrations when upgrading', async () => {
+      const toV2 = vi.fn();
+      const toV3 = vi.fn((db: IDBDatabase) => db.createObjectStore('audit', { keyPath: 'at' }));
+
+      await loader.load([{ id: 1, total: 5 }], {
+        dbName: 'app',
+        version: 3,
+        storeName: 'orders',
+        schema: {
+          users: { keyPath: 'id', indexes: { byEmail: { keyPath: 'email', unique: true } } },
+          orders: { keyPath: 'id', autoIncrement: true }
+        },
+        migrations: { 1: vi.fn(), 2: toV2, 3: toV3 }
+      });
+
+      const database = indexedDB.databases.get('app')!;
+      expect(database.version).toBe(3);
+      expect(Array.from(database.stores.keys())).toEqual(['users', 'orders', 'audit']);
+      expect(database.stores.get('users')!.indexes.has('byEmail')).toBe(true);
+      expect(toV2).toHaveBeenCalledTimes(1);
+      expect(records('app', 'orders')).toEqual([{ id: 1, total: 5 }]);
+    });
+
+    it('should roll back failed upgrades', async () => {
+      await expect(loader.load([], {
+        dbName: 'app',
+        version: 2,
+        storeName: 'users',
+        migrations: { 2: () => { throw new Error('bad data'); } }
+      })).rejects.toThrow("Failed to upgrade IndexedDB database 'app': bad data");
+
+      expect(indexedDB.databases.get('app')!.version).toBe(1);
+    });
+  });
+
+  describe('supports method', () => {
+    it('should support config with string storeName', () => {
+      expect(loader.supports({ storeName: 'users' })).toBe(true);
+      expect(loader.supports({})).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IndexedDBCache } from '../../src/utils/indexeddb-cache';
+
+function createFakeIndexedDB() {
+  const stores = new Map<string, Map<string, any>>();
+
+  const respond = (result: () => any) => {
+    const request: any = { onsuccess: null, onerror: null, result: undefined };
+    setTimeout(() => {
+      request.result = result();
+      request.onsuccess?.();
+    });
+    return request;
+  };
+
+  const db = {
+    objectStoreNames: { contains: (name: string) => stores.has(name) },
+    createObjectStore: vi.fn((name: string) => stores.set(name, new Map())),
+    transaction: vi.fn((names: string[]) => ({
+      objectStore: () => {
+        const store = stores.get(names[0])!;
+        return {
+          get: (key: string) => respond(() => store.get(key)),
+          put: (entry: any) => respond(() => store.set(entry.key, entry)),
+          count: (key: string) => respond(() => (store.has(key) ? 1 : 0)),
+          delete: (key: string) => respond(() => store.delete(key)),
+          clear: () => respond(() => store.clear())
+        };
+      }
+    })),
+    close: vi.fn()
+  };
+
+  return {
+    db,
+    open: vi.fn(() => {
+      const request: any = { result: db, onsuccess: null, onerror: null, onupgradeneeded: null };
+      setTimeout(() => {
+        request.onupgradeneeded?.();
+        request.onsuccess?.();
+      });
+      return request;
+    })
+  };
+}
+
+describe('IndexedDBCache', () => {
+  let fakeIndexedDB: ReturnType<typeof createFakeIndexedDB>;
+  let cache: IndexedDBCache;
+
+  beforeEach(() => {
+    fakeIndexedDB = createFakeIndexedDB();
+    Object.defineProperty(window, 'indexedDB', {
+      value: fakeIndexedDB,
+      writable: true,
+      configurable: true
+    });
+    cache = new IndexedDBCache({ dbName: 'test-cache' });
+  });
+
+  it('should create its store on first use', async () => {
+    await cache.set('key', 'value');
+
+    expect(fakeIndexedDB.open).toHaveBeenCalledWith('test-cache', 1);
+    expect(fakeIndexedDB.db.createObjectStore).toHaveBeenCalledWith('entries', { keyPath: 'key' });
+  });
+
+  it('should store and read entries', async () => {
+    await cache.set('key', { value: 42 });
+    expect(await cache.get('key')).toEqual({ value: 42 });
+  });
+
+  it('should return null for missing entries', async () => {
+    expect(await cache.get('missing')).toBeNull();
+  });
+
+  it('should expire entries after their TTL', async () => {
+    const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(1000);
+    await cache.set('key', 'value', 100);
+
+    nowSpy.mockReturnValue(1200);
+    expect(await cache.get('key')).toBeNull();
+    expect(await cache.delete('key')).toBe(false);
+    nowSpy.mockRestore();
+  });
+
+  it('should delete and clear entries', async () => {
+    await cache.set('a', 1);
+    await cache.set('b', 2);
+
+    expect(await cache.delete('a')).toBe(true);
+    expect(await cache.get('a')).toBeNull();
+
+    await cache.clear();
+    expect(await cache.get('b')).toBeNull();
+  });
+
+  it('should reject when IndexedDB is unavailable', async () => {
+    Object.defineProperty(window, 'indexedDB', { value: undefined, writable: true, configurable: true });
+
+    await expect(cache.get('key')).rejects.toThrow('IndexedDB is not available in this environment');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { toKeyRange } from '../../src/utils/indexeddb-query';
+
+class FakeKeyRange {
+  constructor(
+    readonly lower: any,
+    readonly upper: any,
+    readonly lowerOpen = false,
+    readonly upperOpen = false
+  ) {}
+
+  static bound(lower: any, upper: any, lowerOpen = false, upperOpen = false) {
+    return new FakeKeyRange(lower, upper, lowerOpen, upperOpen);
+  }
+
+  static lowerBound(lower: any, open = false) {
+    return new FakeKeyRange(lower, undefined, open, true);
+  }
+
+  static upperBound(upper: any, open = false) {
+    return new FakeKeyRange(undefined, upper, true, open);
+  }
+}
+
+describe('toKeyRange', () => {
+  beforeAll(() => {
+    vi.stubGlobal('IDBKeyRange', FakeKeyRange);
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should pass keys and key ranges through', () => {
+    const range = FakeKeyRange.bound(1, 2);
+
+    expect(toKeyRange()).toBeUndefined();
+    expect(toKeyRange('ada')).toBe('ada');
+    expect(toKeyRange(['Smith', 'Ada'])).toEqual(['Smith', 'Ada']);
+    expect(toKeyRange(range as any)).toBe(range);
+  });
+
+  it('should compile ranges', () => {
+    expect(toKeyRange({ gte: 18, lt: 65 })).toEqual(new FakeKeyRange(18, 65, false, true));
+    expect(toKeyRange({ gt: 18 })).toEqual(new FakeKeyRange(18, undefined, true, true));
+    expect(toKeyRange({ lte: 'm' })).toEqual(new FakeKeyRange(undefined, 'm', true, false));
+    expect(toKeyRange({ prefix: 'ad' })).toEqual(new FakeKeyRange('ad', 'ad\uffff'));
+  });
+
+  it('should compile compound key ranges', () => {
+    expect(toKeyRange(['Smith', { gt: 18 }])).toEqual(new FakeKeyRange(['Smith', 18], ['Smith', []], true, true));
+    expect(toKeyRange(['Smith', { lte: 65 }])).toEqual(new FakeKeyRange(['Smith'], ['Smith', 65], false, false));
+    expect(toKeyRange(['Smith', { prefix: 'A' }])).toEqual(new FakeKeyRange(['Smith', 'A'], ['Smith', 'A\uffff']));
+  });
+
+  it('should reject invalid queries', () => {
+    expect(() => toKeyRange({ id: 1 } as any)).toThrow('Invalid IndexedDB key query: unknown operator(s) id');
+    expect(() => toKeyRange({ prefix: 'a', lt: 'b' })).toThrow('prefix cannot be combined with other operators');
+    expect(() => toKeyRange([{ gte: 1 }, 2])).toThrow('Only the last item of a compound key query can be a range');
+  });
+});
@@ -255,6 +255,23 @@ describe('JoinTransformer', () => {
         headers: { 'Content-Type': 'application/json' }
       });
     });
+    it('should join the outputs of two input steps', async () => {
+      const result = await transformer.transform({
+        users: [{ id: 1, name: 'John' }, { id: 2, name: 'Jane' }],
+        orders: [{ id: 1, total: 42 }]
+      }, {
+        key: 'id',
+        mode: 'nested',
+        type: 'inputs',
+        left: 'users',
+        right: 'orders'
+      });
+
+      expect(result).toEqual([
+        { id: 1, name: 'John', total: 42 },
+        { id: 2, name: 'Jane' }
+      ]);
+    });
   });
 
   describe('supports method', () => {
@@ -75,6 +75,26 @@ describe('LocalStorageExtractor', () => {
       expect(result).toBe(invalidJson);
     });
 
+    it('should extract every entry matching a prefix or pattern', async () => {
+      const items: Record<string, string> = {
+        'app:settings:theme': '"dark"',
+        'app:user': '{"id":1}',
+        'app:settings:lang': 'en'
+      };
+      Object.assign(mockLocalStorage, {
+        length: 3,
+        key: (index: number) => Object.keys(items)[index] ?? null
+      });
+      mockLocalStorage.getItem.mockImplementation((key: string) => items[key] ?? null);
+
+      expect(await extractor.extract({ pattern: 'app:settings:*' })).toEqual([
+        { key: 'app:settings:theme', value: 'dark' },
+        { key: 'app:settings:lang', value: 'en' }
+      ]);
+      expect(await extractor.extract({ prefix: 'app:u' })).toEqual([{ key: 'app:user', value: { id: 1 } }]);
+      expect(extractor.outputShape({ prefix: 'app:' })).toBe('records');
+    });
+
     it('should throw error when key is missing', async () => {
       await expect(extractor.extract({} as any))
         .rejects.toThrow('Key is required for localStorage extraction');
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LocalStorageLoader } from '../../src/loaders/localStorage';
+
+describe('LocalStorageLoader', () => {
+  let loader: LocalStorageLoader;
+  let items: Map<string, string>;
+  let mockLocalStorage: any;
+
+  beforeEach(() => {
+    loader = new LocalStorageLoader();
+    items = new Map();
+
+    mockLocalStorage = {
+      get length() {
+        return items.size;
+      },
+      key: (index: number) => Array.from(items.keys())[index] ?? null,
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: vi.fn((key: string, value: string) => items.set(key, value)),
+      removeItem: (key: string) => items.delete(key)
+    };
+
+    Object.defineProperty(window, 'localStorage', {
+      value: mockLocalStorage,
+      writable: true
+    });
+  });
+
+  describe('load method', () => {
+    it('should store data as JSON under the key', async () => {
+      await loader.load([{ id: 1 }], { key: 'users' });
+
+      expect(items.get('users')).toBe('[{"id":1}]');
+    });
+
+    it('should store each record under its own key', async () => {
+      const progress = vi.fn();
+
+      await loader.load([{ id: 1, name: 'Ada' }, { id: 2, name: 'Grace' }], { key: 'user:', keyPath: 'id' }, { progress });
+
+      expect(Object.fromEntries(items)).toEqual({
+        'user:1': '{"id":1,"name":"Ada"}',
+        'user:2': '{"id":2,"name":"Grace"}'
+      });
+      expect(progress).toHaveBeenLastCalledWith(2, 2);
+    });
+
+    it('should merge stored objects in upsert mode', async () => {
+      items.set('user:1', '{"id":1,"name":"Ada","role":"admin"}');
+      items.set('settings', '{"theme":"dark"}');
+
+      await loader.load([{ id: 1, name: 'Ada Lovelace' }], { key: 'user:', keyPath: 'id', mode: 'upsert' });
+      await loader.load({ lang: 'en' }, { key: 'settings', mode: 'upsert' });
+
+      expect(JSON.parse(items.get('user:1')!)).toEqual({ id: 1, name: 'Ada Lovelace', role: 'admin' });
+      expect(JSON.parse(items.get('settings')!)).toEqual({ theme: 'dark', lang: 'en' });
+    });
+
+    it('should refuse to overwrite keys in add mode', async () => {
+      items.set('user:2', '{}');
+
+      await expect(loader.load([{ id: 1 }, { id: 2 }], { key: 'user:', keyPath: 'id', mode: 'add' }))
+        .rejects.toThrow('Key already exists in localStorage: user:2');
+      expect(items.has('user:1')).toBe(false);
+    });
+
+    it('should remove keys with the prefix in replace mode', async () => {
+      items.set('user:1', '{}');
+      items.set('user:9', '{}');
+      items.set('theme', '"dark"');
+
+      await loader.load([{ id: 2 }], { key: 'user:', keyPath: 'id', mode: 'replace' });
+
+      expect(Array.from(items.keys())).toEqual(['theme', 'user:2']);
+    });
+
+    it('should report exceeded quotas', async () => {
+      mockLocalStorage.setItem.mockImplementation((key: string, value: string) => {
+        if (items.size >= 1) {
+          throw Object.assign(new Error('Quota exceeded'), { name: 'QuotaExceededError' });
+        }
+        items.set(key, value);
+      });
+
+      const error = await loader.load([{ id: 1 }, { id: 2 }], { key: 'user:', keyPath: 'id' }).catch(caught => caught);
+
+      expect(error.name).toBe('StorageQuotaError');
+      expect(error.message).toBe('Storage quota exceeded while writing to localStorage after 1 record(s)');
+    });
+
+    it('should reject records without a key', async () => {
+      await expect(loader.load([{ name: 'Ada' }], { key: 'user:', keyPath: 'id' }))
+        .rejects.toThrow("Record has no value at key path 'id'");
+    });
+
+    it('should throw error when key is missing', async () => {
+      await expect(loader.load([], {} as any)).rejects.toThrow('Key is required for localStorage loading');
+    });
+  });
+
+  describe('supports method', () => {
+    it('should support config with string key', () => {
+      expect(loader.supports({ key: 'users' })).toBe(true);
+      expect(loader.supports({})).toBe(false);
+    });
+  });
+});
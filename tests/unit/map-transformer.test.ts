@@ -127,6 +127,30 @@ describe('MapTransformer', () => {
     });
   });
 
+  describe('expressions', () => {
+    it('should map records with an object expression', async () => {
+      const result = await transformer.transform([
+        { first: 'Ada', last: 'Lovelace', born: '1815-12-10' },
+        { first: 'Grace', last: null, born: null }
+      ], { fn: '{ name: concat(first, " ", last), year: year(born), known: last != null }' });
+
+      expect(result).toEqual([
+        { name: 'Ada Lovelace', year: 1815, known: true },
+        { name: 'Grace ', year: null, known: false }
+      ]);
+    });
+  });
+
+  describe('transformChunk method', () => {
+    it('should map chunks of records', async () => {
+      const result = await transformer.transformChunk([{ n: 1 }, { n: 2 }], {
+        fn: (item: any) => item.n * 10
+      });
+
+      expect(result).toEqual([10, 20]);
+    });
+  });
+
   describe('supports method', () => {
     it('should support config with function', () => {
       expect(transformer.supports({ fn: () => {} })).toBe(true);
@@ -137,7 +161,11 @@ describe('MapTransformer', () => {
     });
 
     it('should not support config with non-function', () => {
-      expect(transformer.supports({ fn: 'not a function' })).toBe(false);
+      expect(transformer.supports({ fn: 42 })).toBe(false);
+    });
+
+    it('should support config with an expression', () => {
+      expect(transformer.supports({ fn: 'upper(name)' })).toBe(true);
     });
   });
 
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseNdjson, toNdjson } from '../../src/utils/ndjson';
+
+async function collect(chunks: AsyncIterable<any[]>): Promise<any[][]> {
+  const result: any[][] = [];
+  for await (const chunk of chunks) {
+    result.push(chunk);
+  }
+  return result;
+}
+
+describe('parseNdjson', () => {
+  it('should parse pieces into chunks of records', async () => {
+    const chunks = await collect(parseNdjson(['{"a":1}\n{"a"', ':2}\n{"a":3}'], { batchSize: 2 }));
+
+    expect(chunks).toEqual([[{ a: 1 }, { a: 2 }], [{ a: 3 }]]);
+  });
+
+  it('should ignore blank lines and CRLF endings', async () => {
+    const chunks = await collect(parseNdjson(['1\r\n\r\n  \n2\r\n']));
+
+    expect(chunks).toEqual([[1, 2]]);
+  });
+
+  it('should log skipped lines without an onBadLine callback', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const chunks = await collect(parseNdjson(['1\n{oops\n2\n[\n']));
+
+    expect(chunks).toEqual([[1, 2]]);
+    expect(warn).toHaveBeenCalledWith('Skipped 2 invalid NDJSON line(s):', [2, 4]);
+    warn.mockRestore();
+  });
+
+  it('should stop when the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(collect(parseNdjson(['1\n2\n'], { batchSize: 1, signal: controller.signal })))
+      .rejects.toThrow('The operation was aborted');
+  });
+});
+
+describe('toNdjson', () => {
+  it('should write one record per line', () => {
+    expect(toNdjson([{ a: 1 }, 'text', null])).toBe('{"a":1}\n"text"\nnull\n');
+  });
+
+  it('should write a single value as one line', () => {
+    expect(toNdjson({ a: 1 })).toBe('{"a":1}\n');
+    expect(toNdjson([])).toBe('');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { OpfsExtractor } from '../../src/extractors/opfs';
+
+type Tree = { [name: string]: Tree | File };
+
+/**
+ * Directory handle over nested objects of files
+ */
+const directoryHandle = (name: string, tree: Tree): any => ({
+  kind: 'directory',
+  name,
+  async *values() {
+    for (const [entry, value] of Object.entries(tree)) {
+      yield value instanceof File ? fileHandle(value) : directoryHandle(entry, value);
+    }
+  },
+  async getDirectoryHandle(entry: string) {
+    const value = tree[entry];
+    if (!value || value instanceof File) {
+      throw Object.assign(new Error(`${entry} not found`), { name: value ? 'TypeMismatchError' : 'NotFoundError' });
+    }
+    return directoryHandle(entry, value);
+  },
+  async getFileHandle(entry: string) {
+    const value = tree[entry];
+    if (!(value instanceof File)) {
+      throw Object.assign(new Error(`${entry} not found`), { name: value ? 'TypeMismatchError' : 'NotFoundError' });
+    }
+    return fileHandle(value);
+  }
+});
+
+const fileHandle = (file: File) => ({ kind: 'file', name: file.name, getFile: async () => file });
+
+describe('OpfsExtractor', () => {
+  let extractor: OpfsExtractor;
+
+  beforeEach(() => {
+    extractor = new OpfsExtractor();
+
+    const root = directoryHandle('', {
+      'notes.txt': new File(['hello'], 'notes.txt', { lastModified: 1000 }),
+      exports: {
+        'users.json': new File(['[{"id":1}]'], 'users.json', { lastModified: 2000 }),
+        archive: {
+          'orders.csv': new File(['id,total\n1,5'], 'orders.csv', { lastModified: 3000 })
+        }
+      }
+    });
+    vi.stubGlobal('navigator', { storage: { getDirectory: async () => root } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('extract method', () => {
+    it('should read a file by path with the type of its extension', async () => {
+      expect(await extractor.extract({ path: 'exports/users.json' })).toEqual([{ id: 1 }]);
+      expect(await extractor.extract({ path: 'notes.txt' })).toBe('hello');
+      expect(await extractor.extract({ path: 'exports/users.json', type: 'text' })).toBe('[{"id":1}]');
+    });
+
+    it('should list the files matching a pattern', async () => {
+      const records = await extractor.extract({ pattern: 'exports/**/*.{csv,json}' });
+
+      expect(records).toEqual([
+        { path: 'exports/users.json', name: 'users.json', size: 10, lastModified: 2000, content: [{ id: 1 }] },
+        { path: 'exports/archive/orders.csv', name: 'orders.csv', size: 12, lastModified: 3000, content: [['id', 'total'], ['1', '5']] }
+      ]);
+    });
+
+    it('should skip contents when asked', async () => {
+      const records = await extractor.extract({ pattern: '*.txt', content: false });
+
+      expect(records).toEqual([{ path: 'notes.txt', name: 'notes.txt', size: 5, lastModified: 1000 }]);
+    });
+
+    it('should report missing files', async () => {
+      await expect(extractor.extract({ path: 'exports/missing.json' }))
+        .rejects.toThrow('File not found in the Origin Private File System: exports/missing.json');
+      await expect(extractor.extract({ path: 'exports/archive' }))
+        .rejects.toThrow('File not found in the Origin Private File System: exports/archive');
+    });
+
+    it('should throw error when path and pattern are missing', async () => {
+      await expect(extractor.extract({})).rejects.toThrow('Path or pattern is required for OPFS extraction');
+    });
+  });
+
+  describe('outputShape method', () => {
+    it('should describe files by their type', () => {
+      expect(extractor.outputShape({ path: 'exports/users.csv' })).toBe('records');
+      expect(extractor.outputShape({ path: 'notes.txt' })).toBe('text');
+      expect(extractor.outputShape({ pattern: '**' })).toBe('records');
+    });
+  });
+});
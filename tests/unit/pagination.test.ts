@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { getValueAtPath, parseLinkHeader, resolveUrl, setQueryParams } from '../../src/utils/pagination';
+
+describe('pagination utilities', () => {
+  describe('parseLinkHeader', () => {
+    it('should map relations to URLs', () => {
+      const header = '<https://api.example.com/items?page=2>; rel="next", <https://api.example.com/items?page=9>; rel="last"';
+
+      expect(parseLinkHeader(header)).toEqual({
+        next: 'https://api.example.com/items?page=2',
+        last: 'https://api.example.com/items?page=9'
+      });
+    });
+
+    it('should handle unquoted, multiple and oddly cased relations', () => {
+      const header = '</a?x=1,2>; title="A, B"; REL=next, </b>; rel="prev first"';
+
+      expect(parseLinkHeader(header)).toEqual({ next: '/a?x=1,2', prev: '/b', first: '/b' });
+    });
+
+    it('should return an empty map without a header', () => {
+      expect(parseLinkHeader(null)).toEqual({});
+      expect(parseLinkHeader('garbage')).toEqual({});
+    });
+  });
+
+  it('should read values at dot paths', () => {
+    expect(getValueAtPath({ meta: { cursor: 'abc' } }, 'meta.cursor')).toBe('abc');
+    expect(getValueAtPath({ meta: null }, 'meta.cursor')).toBeUndefined();
+  });
+
+  it('should set query parameters and keep relative URLs relative', () => {
+    expect(setQueryParams('https://api.example.com/items?page=1&q=a', { page: 2 }))
+      .toBe('https://api.example.com/items?page=2&q=a');
+    expect(setQueryParams('/items', { limit: 10 })).toBe('/items?limit=10');
+  });
+
+  it('should resolve response URLs against the request URL', () => {
+    expect(resolveUrl('/items?page=2', 'https://api.example.com/v1/items')).toBe('https://api.example.com/items?page=2');
+    expect(resolveUrl('?page=2', 'https://api.example.com/v1/items')).toBe('https://api.example.com/v1/items?page=2');
+  });
+});
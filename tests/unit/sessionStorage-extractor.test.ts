@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SessionStorageExtractor } from '../../src/extractors/sessionStorage';
+
+describe('SessionStorageExtractor', () => {
+  let extractor: SessionStorageExtractor;
+
+  beforeEach(() => {
+    extractor = new SessionStorageExtractor();
+    window.sessionStorage.clear();
+    window.sessionStorage.setItem('draft', '{"title":"Notes"}');
+    window.sessionStorage.setItem('app:settings:theme', 'dark');
+    window.sessionStorage.setItem('app:settings:lang', '"en"');
+  });
+
+  describe('extract method', () => {
+    it('should extract one key', async () => {
+      expect(await extractor.extract({ key: 'draft' })).toEqual({ title: 'Notes' });
+      expect(await extractor.extract({ key: 'draft', parse: false })).toBe('{"title":"Notes"}');
+      expect(await extractor.extract({ key: 'missing' })).toBeNull();
+    });
+
+    it('should extract the entries matching a pattern', async () => {
+      const entries = await extractor.extract({ pattern: 'app:settings:*' });
+
+      expect(entries).toHaveLength(2);
+      expect(entries).toEqual(expect.arrayContaining([
+        { key: 'app:settings:theme', value: 'dark' },
+        { key: 'app:settings:lang', value: 'en' }
+      ]));
+    });
+
+    it('should throw error when key is missing', async () => {
+      await expect(extractor.extract({})).rejects.toThrow('Key is required for sessionStorage extraction');
+    });
+  });
+
+  describe('supports method', () => {
+    it('should support keys, prefixes and patterns', () => {
+      expect(extractor.supports({ key: 'draft' })).toBe(true);
+      expect(extractor.supports({ prefix: 'app:' })).toBe(true);
+      expect(extractor.supports({})).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SortTransformer } from '../../src/transformers/sort';
+
+describe('SortTransformer', () => {
+  let transformer: SortTransformer;
+  const people = [
+    { name: 'eve', age: 40, joined: new Date('2021-03-01') },
+    { name: 'Bob', age: null, joined: new Date('2020-01-01') },
+    { name: 'ada', age: 36, joined: new Date('2022-06-15') },
+    { name: 'Carl', age: 36, joined: null }
+  ];
+
+  beforeEach(() => {
+    transformer = new SortTransformer();
+  });
+
+  it('should sort by an expression, missing values last', async () => {
+    const result = await transformer.transform(people, { by: 'age' });
+
+    expect(result.map((person: any) => person.name)).toEqual(['ada', 'Carl', 'eve', 'Bob']);
+  });
+
+  it('should sort by several keys with their own order', async () => {
+    const result = await transformer.transform(people, {
+      by: [{ by: 'age', order: 'desc' }, 'lower(name)']
+    });
+
+    expect(result.map((person: any) => person.name)).toEqual(['eve', 'ada', 'Carl', 'Bob']);
+  });
+
+  it('should sort by functions and dates in descending order', async () => {
+    const result = await transformer.transform(people, { by: (person: any) => person.joined, order: 'desc' });
+
+    expect(result.map((person: any) => person.name)).toEqual(['ada', 'eve', 'Bob', 'Carl']);
+  });
+
+  it('should not modify the input', async () => {
+    const data = [3, 1, 2];
+
+    expect(await transformer.transform(data, { by: '$' })).toEqual([1, 2, 3]);
+    expect(data).toEqual([3, 1, 2]);
+  });
+
+  it('should require a sort key', async () => {
+    await expect(transformer.transform([1], {} as any)).rejects.toThrow('Sort key is required');
+    expect(transformer.supports({ by: 'name' })).toBe(true);
+    expect(transformer.supports({})).toBe(false);
+  });
+});
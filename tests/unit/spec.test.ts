@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { parsePipelineSpec, serializeStep, deserializeStep, isFunctionReference } from '../../src/core/spec';
+import { FunctionRegistry } from '../../src/utils/function-registry';
+
+describe('pipeline spec', () => {
+  const isAdult = (user: any) => user.age >= 18;
+  let functions: FunctionRegistry;
+
+  beforeEach(() => {
+    functions = new FunctionRegistry({ isAdult });
+  });
+
+  describe('parsePipelineSpec', () => {
+    it('should parse JSON text', () => {
+      const spec = parsePipelineSpec('{"version":1,"steps":[{"type":"extract","name":"api"}]}');
+      expect(spec.steps[0]).toEqual({ type: 'extract', name: 'api' });
+    });
+
+    it('should accept parsed objects', () => {
+      const spec = { version: 1, steps: [] };
+      expect(parsePipelineSpec(spec)).toBe(spec);
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => parsePipelineSpec('{')).toThrow('Failed to parse pipeline spec as JSON');
+    });
+
+    it('should reject unsupported versions', () => {
+      expect(() => parsePipelineSpec({ version: 2, steps: [] })).toThrow('Unsupported pipeline spec version: 2');
+    });
+
+    it('should reject invalid steps', () => {
+      expect(() => parsePipelineSpec({ version: 1, steps: [{ type: 'run', name: 'api' }] } as any))
+        .toThrow('Invalid type for steps[0]: run');
+      expect(() => parsePipelineSpec({ version: 1, steps: [{ type: 'load' }] } as any))
+        .toThrow('steps[0] must have a name');
+    });
+  });
+
+  describe('serializeStep', () => {
+    it('should replace registered functions with references', () => {
+      const spec = serializeStep({ type: 'transform', name: 'filter', config: { fn: isAdult } }, 0, functions);
+      expect(spec).toEqual({ type: 'transform', name: 'filter', config: { fn: { $fn: 'isAdult' } } });
+    });
+
+    it('should keep step ids, inputs and optional flags', () => {
+      const spec = serializeStep({
+        type: 'load',
+        name: 'table',
+        config: {},
+        id: 'table',
+        inputs: ['users'],
+        optional: true
+      }, 0, functions);
+
+      expect(spec).toEqual({ type: 'load', name: 'table', config: {}, id: 'table', inputs: ['users'], optional: true });
+    });
+
+    it('should reject unregistered functions with their path', () => {
+      expect(() => serializeStep({ type: 'transform', name: 'map', config: { fn: () => 1 } }, 2, functions))
+        .toThrow('Cannot serialize function at steps[2].config.fn');
+    });
+
+    it('should reject non-plain objects', () => {
+      expect(() => serializeStep({ type: 'extract', name: 'api', config: { at: new Date() } }, 0, functions))
+        .toThrow('Cannot serialize Date at steps[0].config.at');
+    });
+  });
+
+  describe('deserializeStep', () => {
+    it('should resolve function references', () => {
+      const step = deserializeStep({ type: 'transform', name: 'filter', config: { fn: { $fn: 'isAdult' } } }, 0, functions);
+      expect(step.config.fn).toBe(isAdult);
+    });
+
+    it('should reject unknown function references', () => {
+      expect(() => deserializeStep({ type: 'transform', name: 'map', config: { fn: { $fn: 'missing' } } }, 1, functions))
+        .toThrow('Unknown function \'missing\' referenced at steps[1].config.fn');
+    });
+
+    it('should default to an empty config', () => {
+      expect(deserializeStep({ type: 'extract', name: 'api' }, 0, functions).config).toEqual({});
+    });
+  });
+
+  describe('isFunctionReference', () => {
+    it('should only match single-key $fn objects', () => {
+      expect(isFunctionReference({ $fn: 'isAdult' })).toBe(true);
+      expect(isFunctionReference({ $fn: 'isAdult', other: 1 })).toBe(false);
+      expect(isFunctionReference('isAdult')).toBe(false);
+    });
+  });
+});
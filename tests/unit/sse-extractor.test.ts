@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SseExtractor } from '../../src/extractors/sse';
+
+class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+  readyState = 0;
+  onopen: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  listeners: Record<string, ((event: { data: string }) => void)[]> = {};
+
+  constructor(public url: string, public init?: EventSourceInit) {
+    FakeEventSource.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: { data: string }) => void) {
+    (this.listeners[type] = this.listeners[type] || []).push(listener);
+  }
+
+  close() {
+    this.readyState = 2;
+  }
+
+  emit(type: string, data: string) {
+    (this.listeners[type] || []).forEach(listener => listener({ data }));
+  }
+
+  fail(readyState: number) {
+    this.readyState = readyState;
+    this.onerror?.();
+  }
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+const latestSource = () => FakeEventSource.instances[FakeEventSource.instances.length - 1];
+
+describe('SseExtractor', () => {
+  let extractor: SseExtractor;
+
+  beforeEach(() => {
+    extractor = new SseExtractor();
+    FakeEventSource.instances = [];
+    vi.stubGlobal('EventSource', FakeEventSource);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should collect parsed messages', async () => {
+    const extraction = extractor.extract({ url: '/events', maxMessages: 2, withCredentials: true });
+    await tick();
+
+    latestSource().emit('message', '{"id":1}');
+    latestSource().emit('message', '{"id":2}');
+
+    expect(await extraction).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(latestSource().init).toEqual({ withCredentials: true });
+    expect(latestSource().readyState).toBe(2);
+  });
+
+  it('should read the configured event types', async () => {
+    const extraction = extractor.extract({ url: '/events', events: ['price', 'trade'], maxMessages: 2 });
+    await tick();
+
+    latestSource().emit('message', '{"ignored":true}');
+    latestSource().emit('price', '{"price":10}');
+    latestSource().emit('trade', '{"size":3}');
+
+    expect(await extraction).toEqual([{ price: 10 }, { size: 3 }]);
+  });
+
+  it('should leave transient errors to the browser and reconnect closed streams', async () => {
+    const retry = vi.fn();
+    const extraction = extractor.extract({ url: '/events', maxMessages: 1, reconnect: { delay: 1 } }, { retry });
+    await tick();
+
+    latestSource().fail(0);
+    expect(retry).not.toHaveBeenCalled();
+
+    latestSource().fail(2);
+    expect(retry).toHaveBeenCalledWith(1, 1, expect.objectContaining({ message: "Event stream '/events' was closed" }));
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(FakeEventSource.instances).toHaveLength(2);
+    latestSource().emit('message', '"ok"');
+
+    expect(await extraction).toEqual(['ok']);
+  });
+
+  it('should fail without reconnection', async () => {
+    const extraction = extractor.extract({ url: '/events', maxMessages: 1, reconnect: false });
+    await tick();
+
+    latestSource().fail(2);
+
+    await expect(extraction).rejects.toThrow("Event stream '/events' was closed");
+  });
+
+  it('should end after the configured duration', async () => {
+    const extraction = extractor.extract({ url: '/events', duration: 20 });
+    await tick();
+
+    latestSource().emit('message', '1');
+
+    expect(await extraction).toEqual([1]);
+  });
+
+  it('should report when EventSource is not available', async () => {
+    vi.stubGlobal('EventSource', undefined);
+
+    await expect(extractor.extract({ url: '/events', maxMessages: 1 }))
+      .rejects.toThrow('EventSource is not available in this environment');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { StreamProcessor } from '../../src/utils/stream';
+import { StreamProcessor, DataStream } from '../../src/utils/stream';
 
 describe('StreamProcessor', () => {
   let processor: StreamProcessor<number>;
@@ -132,6 +132,16 @@ describe('StreamProcessor', () => {
 
       expect(results).toEqual([2, 4, 6]);
     });
+
+    it('should report progress after each batch', async () => {
+      const progress = vi.fn();
+      const mockProcessor = vi.fn().mockImplementation(async (batch: number[]) => batch);
+
+      await processor.process([1, 2, 3, 4, 5], mockProcessor, undefined, { progress });
+
+      expect(progress).toHaveBeenNthCalledWith(1, 3, 5);
+      expect(progress).toHaveBeenNthCalledWith(2, 5, 5);
+    });
   });
 
   describe('createReadableStream', () => {
@@ -385,4 +395,57 @@ describe('StreamProcessor', () => {
       expect(results.length).toBeGreaterThan(0);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('DataStream', () => {
+  async function* chunks() {
+    yield [1, 2];
+    yield [3];
+  }
+
+  it('should collect chunks from an async iterable', async () => {
+    expect(await DataStream.from(chunks()).collect()).toEqual([1, 2, 3]);
+  });
+
+  it('should read chunks from a ReadableStream', async () => {
+    const stream = new ReadableStream<number[]>({
+      start(controller) {
+        controller.enqueue([1, 2]);
+        controller.enqueue([3]);
+        controller.close();
+      }
+    });
+
+    expect(await DataStream.from(stream).collect()).toEqual([1, 2, 3]);
+  });
+
+  it('should wrap single records in chunks', async () => {
+    async function* records() {
+      yield 'a';
+      yield 'b';
+    }
+
+    const seen: string[][] = [];
+    for await (const chunk of DataStream.from<string>(records())) {
+      seen.push(chunk);
+    }
+
+    expect(seen).toEqual([['a'], ['b']]);
+  });
+
+  it('should map chunks lazily', async () => {
+    const fn = vi.fn(async (chunk: number[]) => chunk.map(x => x * 10));
+    const mapped = DataStream.from(chunks()).map(fn);
+
+    expect(fn).not.toHaveBeenCalled();
+    expect(await mapped.collect()).toEqual([10, 20, 30]);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only be consumed once', async () => {
+    const stream = DataStream.from(chunks());
+    await stream.collect();
+
+    await expect(stream.collect()).rejects.toThrow('A data stream can only be consumed once');
+  });
+});
@@ -1,6 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { TableLoader } from '../../src/loaders/table';
 
+async function* chunksOf(...chunks: any[][]) {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
+
 describe('TableLoader', () => {
   let loader: TableLoader;
   let mockContainer: HTMLElement;
@@ -198,6 +204,40 @@ describe('TableLoader', () => {
     });
   });
 
+  describe('loadStream method', () => {
+    let container: HTMLElement;
+
+    beforeEach(() => {
+      vi.restoreAllMocks();
+      container = document.createElement('div');
+    });
+
+    it('should append the rows of every chunk to one table', async () => {
+      await loader.loadStream(chunksOf([{ name: 'John' }, { name: 'Jane' }], [{ name: 'Bob' }]), { container });
+
+      const rows = container.querySelectorAll('tbody tr');
+      expect(container.querySelectorAll('table')).toHaveLength(1);
+      expect(Array.from(rows).map(row => row.textContent)).toEqual(['John', 'Jane', 'Bob']);
+      expect(container.querySelectorAll('th')[0].textContent).toBe('name');
+    });
+
+    it('should paginate using the total row count', async () => {
+      await loader.loadStream(chunksOf([{ n: 1 }, { n: 2 }], [{ n: 3 }]), {
+        container,
+        pagination: true,
+        pageSize: 2
+      });
+
+      const pagination = container.querySelector('.browser-etl-table-pagination');
+      expect(pagination?.textContent).toContain('2');
+    });
+
+    it('should render an empty table for an empty stream', async () => {
+      await loader.loadStream(chunksOf(), { container });
+      expect(container.querySelector('table')).not.toBeNull();
+    });
+  });
+
   describe('supports method', () => {
     it('should support config with container', () => {
       expect(loader.supports({ container: '#table' })).toBe(true);
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WebSocketExtractor } from '../../src/extractors/websocket';
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: any }) => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+  binaryType = 'blob';
+  sent: any[] = [];
+  closed = false;
+
+  constructor(public url: string, public protocols?: string | string[]) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: any) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  open() {
+    this.onopen?.();
+  }
+
+  receive(...messages: any[]) {
+    messages.forEach(data => this.onmessage?.({ data }));
+  }
+
+  drop(code: number) {
+    this.onclose?.({ code });
+  }
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+const latestSocket = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+describe('WebSocketExtractor', () => {
+  let extractor: WebSocketExtractor;
+
+  beforeEach(() => {
+    extractor = new WebSocketExtractor();
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should collect parsed messages until maxMessages', async () => {
+    const extraction = extractor.extract({
+      url: 'wss://example.com/prices',
+      send: { subscribe: 'BTC' },
+      maxMessages: 2
+    });
+    await tick();
+
+    const socket = latestSocket();
+    socket.open();
+    socket.receive('{"price":1}', '{"price":2}', '{"price":3}');
+
+    expect(await extraction).toEqual([{ price: 1 }, { price: 2 }]);
+    expect(socket.sent).toEqual(['{"subscribe":"BTC"}']);
+    expect(socket.binaryType).toBe('arraybuffer');
+    expect(socket.closed).toBe(true);
+  });
+
+  it('should require maxMessages or duration outside live runs', async () => {
+    await expect(extractor.extract({ url: 'wss://example.com' }))
+      .rejects.toThrow('Extracting from a WebSocket requires maxMessages or duration outside live runs');
+  });
+
+  it('should group messages into count windows', async () => {
+    const iterator = extractor.stream({ url: 'wss://example.com', window: { count: 2 } })[Symbol.asyncIterator]();
+    const first = iterator.next();
+    await tick();
+
+    latestSocket().receive('1', '2', '3');
+
+    expect((await first).value).toEqual([1, 2]);
+    latestSocket().receive('4');
+    expect((await iterator.next()).value).toEqual([3, 4]);
+    await iterator.return!();
+  });
+
+  it('should close time windows after their first message', async () => {
+    const iterator = extractor.stream({ url: 'wss://example.com', window: { time: 20 } })[Symbol.asyncIterator]();
+    const first = iterator.next();
+    await tick();
+
+    latestSocket().receive('1', '2');
+    await tick();
+    latestSocket().receive('3');
+
+    expect((await first).value).toEqual([1, 2, 3]);
+    await iterator.return!();
+  });
+
+  it('should keep text messages and skip invalid JSON', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const json = extractor.extract({ url: 'wss://example.com', maxMessages: 1 });
+    await tick();
+    latestSocket().receive('ping', '{"ok":true}');
+    expect(await json).toEqual([{ ok: true }]);
+
+    const text = extractor.extract({ url: 'wss://example.com', format: 'text', maxMessages: 1 });
+    await tick();
+    latestSocket().receive('ping');
+    expect(await text).toEqual(['ping']);
+  });
+
+  it('should reconnect with backoff when the connection drops', async () => {
+    const retry = vi.fn();
+    const extraction = extractor.extract({
+      url: 'wss://example.com',
+      maxMessages: 2,
+      reconnect: { delay: 5, backoffMultiplier: 2 },
+      send: 'subscribe'
+    }, { retry });
+    await tick();
+
+    latestSocket().open();
+    latestSocket().receive('1');
+    latestSocket().drop(1006);
+    expect(retry).toHaveBeenCalledWith(1, 5, expect.objectContaining({
+      message: "WebSocket 'wss://example.com' closed with code 1006"
+    }));
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    latestSocket().open();
+    latestSocket().receive('2');
+
+    expect(await extraction).toEqual([1, 2]);
+    expect(latestSocket().sent).toEqual(['subscribe']);
+  });
+
+  it('should fail once reconnection attempts are exhausted', async () => {
+    const extraction = extractor.extract({
+      url: 'wss://example.com',
+      maxMessages: 5,
+      reconnect: { attempts: 1, delay: 1 }
+    });
+    await tick();
+
+    latestSocket().drop(1006);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    latestSocket().drop(1011);
+
+    await expect(extraction).rejects.toThrow("WebSocket 'wss://example.com' closed with code 1011");
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+
+  it('should end the stream when the server closes normally', async () => {
+    const extraction = extractor.extract({ url: 'wss://example.com', duration: 60000 });
+    await tick();
+
+    latestSocket().receive('1');
+    latestSocket().drop(1000);
+
+    expect(await extraction).toEqual([1]);
+  });
+
+  it('should flush buffered messages and end when the run is stopped', async () => {
+    const stop = new AbortController();
+    const chunks: any[][] = [];
+    const reading = (async () => {
+      for await (const chunk of extractor.stream({ url: 'wss://example.com', window: { count: 10 } }, {
+        stopSignal: stop.signal
+      })) {
+        chunks.push(chunk);
+      }
+    })();
+    await tick();
+
+    latestSocket().receive('1', '2');
+    stop.abort();
+    await reading;
+
+    expect(chunks).toEqual([[1, 2]]);
+    expect(latestSocket().closed).toBe(true);
+  });
+
+  it('should fail when the run is aborted', async () => {
+    const controller = new AbortController();
+    const extraction = extractor.extract({ url: 'wss://example.com', maxMessages: 5 }, { signal: controller.signal });
+    await tick();
+
+    controller.abort();
+
+    await expect(extraction).rejects.toThrow('The operation was aborted');
+    expect(latestSocket().closed).toBe(true);
+  });
+});
@@ -0,0 +1,286 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ETL } from '../../src/core/etl';
+import { WorkerRunner } from '../../src/core/worker-runner';
+import { WorkerScope, collectTransferables, serveWorker } from '../../src/core/worker-host';
+import { IExtractor, ILoader } from '../../src/types';
+import { createAbortError } from '../../src/utils/abort';
+
+/**
+ * Connect a fake Worker to a fake worker scope; messages are cloned and delivered asynchronously
+ */
+function createWorkerPair() {
+  const workerListeners = new Set<(event: MessageEvent) => void>();
+  const errorListeners = new Map<string, Set<(event: Event) => void>>();
+  const scopeListeners = new Set<(event: MessageEvent) => void>();
+  const deliver = (listeners: Set<(event: MessageEvent) => void>, data: any) => {
+    const cloned = structuredClone(data);
+    setTimeout(() => listeners.forEach(listener => listener({ data: cloned } as MessageEvent)), 0);
+  };
+
+  const worker = {
+    postMessage: vi.fn((data: any) => deliver(scopeListeners, data)),
+    addEventListener: vi.fn((type: string, listener: any) => {
+      if (type === 'message') {
+        workerListeners.add(listener);
+      } else {
+        errorListeners.set(type, (errorListeners.get(type) || new Set()).add(listener));
+      }
+    }),
+    removeEventListener: vi.fn((type: string, listener: any) => {
+      if (type === 'message') {
+        workerListeners.delete(listener);
+      } else {
+        errorListeners.get(type)?.delete(listener);
+      }
+    }),
+    terminate: vi.fn()
+  } as unknown as Worker;
+  const fail = (type: 'error' | 'messageerror', event: Partial<ErrorEvent> = {}) => {
+    errorListeners.get(type)?.forEach(listener => listener({ type, ...event } as Event));
+  };
+
+  const scope: WorkerScope = {
+    postMessage: (data: any) => deliver(workerListeners, data),
+    addEventListener: (_type, listener) => scopeListeners.add(listener as any)
+  };
+
+  return { worker, scope, fail };
+}
+
+const isAdult = (user: any) => user.age >= 18;
+
+describe('Web Worker execution', () => {
+  let worker: Worker;
+  let loader: ILoader;
+  let workerExtractor: IExtractor;
+
+  beforeEach(() => {
+    const pair = createWorkerPair();
+    worker = pair.worker;
+
+    workerExtractor = {
+      name: 'worker-only',
+      extract: vi.fn().mockResolvedValue([{ name: 'Ann', age: 30 }, { name: 'Bob', age: 12 }]),
+      supports: vi.fn().mockReturnValue(true)
+    };
+
+    serveWorker({
+      functions: { isAdult },
+      setup: pipeline => pipeline.registerExtractor(workerExtractor)
+    }, pair.scope);
+
+    loader = {
+      name: 'test-loader',
+      load: vi.fn().mockResolvedValue(undefined),
+      supports: vi.fn().mockReturnValue(true)
+    };
+  });
+
+  const createPipeline = () => {
+    const pipeline = new ETL({ enableCache: false })
+      .registerFunction('isAdult', isAdult)
+      .getPipeline();
+    return pipeline.registerLoader(loader);
+  };
+
+  it('should run extract and transform steps in the worker and loads on the main thread', async () => {
+    const pipeline = createPipeline()
+      .extract('worker-only')
+      .transform('filter', { fn: isAdult })
+      .load('test-loader');
+
+    const result = await pipeline.run({ worker });
+
+    expect(result.success).toBe(true);
+    expect(loader.load).toHaveBeenCalledWith([{ name: 'Ann', age: 30 }], {}, expect.any(Object));
+    expect(result.data).toEqual([{ name: 'Ann', age: 30 }]);
+    expect(result.metadata.steps.map(step => step.id)).toEqual(['worker-only-0', 'filter-1', 'test-loader-2']);
+    expect(worker.terminate).not.toHaveBeenCalled();
+  });
+
+  it('should run built-in extractors in the worker', async () => {
+    const result = await createPipeline()
+      .extract('csv', { data: 'name,age\nAnn,30\nBob,12' })
+      .transform('filter', { fn: isAdult })
+      .run({ worker });
+
+    expect(result.success).toBe(true);
+    expect(result.data.map((row: any) => row.name)).toEqual(['Ann']);
+  });
+
+  it('should fail when the worker does not know a referenced function', async () => {
+    const toName = (row: any) => row.name;
+    const pipeline = createPipeline()
+      .registerFunction('toName', toName)
+      .extract('worker-only')
+      .transform('map', { fn: toName });
+
+    const result = await pipeline.run({ worker });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('toName');
+  });
+
+  it('should return requested outputs', async () => {
+    const pipeline = createPipeline()
+      .extract('worker-only').as('users')
+      .transform('filter', { fn: isAdult }).as('adults');
+
+    const result = await pipeline.run({ worker, outputs: ['users', 'adults'] });
+
+    expect(result.outputs).toEqual({
+      users: [{ name: 'Ann', age: 30 }, { name: 'Bob', age: 12 }],
+      adults: [{ name: 'Ann', age: 30 }]
+    });
+  });
+
+  it('should re-emit worker events on the pipeline', async () => {
+    const pipeline = createPipeline()
+      .extract('worker-only')
+      .load('test-loader');
+    const started: string[] = [];
+    const progress: any[] = [];
+    pipeline.onStepStart(event => started.push(event.stepId));
+    pipeline.onProgress(event => progress.push(event));
+
+    await pipeline.run({ worker });
+
+    expect(started).toEqual(['worker-only-0', 'test-loader-1']);
+    expect(progress).toEqual([
+      { processed: 1, total: 2 },
+      { processed: 2, total: 2 }
+    ]);
+  });
+
+  it('should propagate errors thrown in the worker', async () => {
+    const failing = new Error('extract failed');
+    failing.name = 'ExtractError';
+    vi.mocked(workerExtractor.extract).mockRejectedValue(failing);
+    const errors: Error[] = [];
+
+    const pipeline = createPipeline()
+      .extract('worker-only')
+      .load('test-loader')
+      .onError(event => errors.push(event.error));
+
+    const result = await pipeline.run({ worker });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe('extract failed');
+    expect(result.error?.name).toBe('ExtractError');
+    expect(errors[0]).toBeInstanceOf(Error);
+    expect(loader.load).not.toHaveBeenCalled();
+  });
+
+  it('should abort the run inside the worker', async () => {
+    let workerSignal: AbortSignal | undefined;
+    vi.mocked(workerExtractor.extract).mockImplementation((_config, context) => {
+      workerSignal = context?.signal;
+      return new Promise((_resolve, reject) => {
+        context?.signal?.addEventListener('abort', () => reject(createAbortError(context.signal)));
+      });
+    });
+
+    const controller = new AbortController();
+    const pipeline = createPipeline()
+      .extract('worker-only')
+      .load('test-loader')
+      .onStepStart(() => controller.abort());
+
+    const result = await pipeline.run({ worker, signal: controller.signal });
+
+    // The run settles at once; the abort reaches the worker with the next message
+    await vi.waitFor(() => expect(workerSignal?.aborted).toBe(true));
+    expect(result.success).toBe(false);
+    expect(result.aborted).toBe(true);
+    expect(loader.load).not.toHaveBeenCalled();
+  });
+
+  it('should reject pending runs when the worker fails', async () => {
+    const { worker: silentWorker, fail } = createWorkerPair();
+    const spec = createPipeline().extract('worker-only').toSpec();
+    const runner = new WorkerRunner(silentWorker);
+
+    const first = runner.run(spec);
+    const second = runner.run(spec);
+    fail('error', { message: 'Uncaught SyntaxError: Unexpected token' });
+
+    await expect(first).rejects.toThrow('The worker failed: Uncaught SyntaxError: Unexpected token');
+    await expect(second).rejects.toThrow('The worker failed: Uncaught SyntaxError: Unexpected token');
+
+    const third = runner.run(spec);
+    fail('messageerror');
+    await expect(third).rejects.toThrow('A message from the worker could not be deserialized');
+  });
+
+  it('should fail a pipeline run when the worker script does not load', async () => {
+    const { worker: brokenWorker, fail } = createWorkerPair();
+    const pipeline = createPipeline().extract('worker-only').load('test-loader');
+
+    const running = pipeline.run({ worker: brokenWorker });
+    setTimeout(() => fail('error'));
+    const result = await running;
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe('The worker failed to load or crashed');
+  });
+
+  it('should abort a run whose worker never answers', async () => {
+    // No serveWorker() behind this worker, so neither results nor abort replies come back
+    const { worker: silentWorker } = createWorkerPair();
+    const controller = new AbortController();
+    const runner = new WorkerRunner(silentWorker);
+
+    const running = runner.run(createPipeline().extract('worker-only').toSpec(), { signal: controller.signal });
+    controller.abort();
+
+    await expect(running).rejects.toMatchObject({ name: 'AbortError' });
+    expect(silentWorker.postMessage).toHaveBeenLastCalledWith({ type: 'abort', id: 1 });
+  });
+
+  it('should require workerUrl to start a worker', async () => {
+    const result = await createPipeline().extract('worker-only').run({ worker: true });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('workerUrl');
+  });
+
+  it('should reject worker steps that read a load step', async () => {
+    const result = await createPipeline()
+      .extract('worker-only')
+      .load('test-loader').as('saved')
+      .transform('filter', { fn: isAdult }, { inputs: ['saved'] })
+      .run({ worker });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe("Step 'filter-2' reads load step 'saved' and cannot run in a worker");
+  });
+
+  it('should run specs directly through a WorkerRunner', async () => {
+    const spec = createPipeline()
+      .extract('worker-only').as('users')
+      .transform('filter', { fn: isAdult }).as('adults')
+      .toSpec();
+
+    const runner = new WorkerRunner(worker);
+    const result = await runner.run(spec, { outputs: ['adults'] });
+    runner.terminate();
+
+    expect(result.success).toBe(true);
+    expect(result.outputs).toEqual({ adults: [{ name: 'Ann', age: 30 }] });
+    expect(result.steps).toHaveLength(2);
+    expect(worker.terminate).toHaveBeenCalled();
+  });
+});
+
+describe('collectTransferables', () => {
+  it('should find each buffer once', () => {
+    const buffer = new ArrayBuffer(8);
+    const view = new Uint8Array(buffer);
+    const other = new ArrayBuffer(4);
+
+    const transferables = collectTransferables({ a: [buffer, view], b: { nested: other }, c: 'text' });
+
+    expect(transferables).toEqual([buffer, other]);
+  });
+});
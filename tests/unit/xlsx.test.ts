@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { readXlsx, writeXlsx, listXlsxSheets } from '../../src/utils/xlsx';
+import { readZip, writeZip } from '../../src/utils/zip';
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PKG_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+/**
+ * A workbook the way spreadsheet applications save it: shared strings, styles, formulas
+ */
+const buildWorkbook = (sheetData: string, extra: { date1904?: boolean } = {}) => writeZip([
+  {
+    name: 'xl/workbook.xml',
+    data: `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">`
+      + `<workbookPr${extra.date1904 ? ' date1904="1"' : ''}/>`
+      + '<sheets><sheet name="Summary" sheetId="1" r:id="rId1"/><sheet name="Data" sheetId="2" r:id="rId2"/></sheets></workbook>'
+  },
+  {
+    name: 'xl/_rels/workbook.xml.rels',
+    data: `<Relationships xmlns="${PKG_NS}">`
+      + '<Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/>'
+      + '<Relationship Id="rId2" Type="worksheet" Target="/xl/worksheets/sheet2.xml"/>'
+      + '<Relationship Id="rId3" Type="sharedStrings" Target="sharedStrings.xml"/></Relationships>'
+  },
+  {
+    name: 'xl/sharedStrings.xml',
+    data: `<sst xmlns="${MAIN_NS}"><si><t>Sales report</t></si><si><t>Name</t></si><si><t>Date</t></si>`
+      + '<si><t>Total</t></si><si><r><t>Ada </t></r><r><rPr><b/></rPr><t>Lovelace</t></r></si><si><t>Paid</t></si></sst>'
+  },
+  {
+    name: 'xl/styles.xml',
+    data: `<styleSheet xmlns="${MAIN_NS}"><numFmts><numFmt numFmtId="164" formatCode="[$-409]d\\-mmm\\-yyyy"/>`
+      + '<numFmt numFmtId="165" formatCode="&quot;$&quot;#,##0.00"/></numFmts>'
+      + '<cellXfs><xf numFmtId="0"/><xf numFmtId="164"/><xf numFmtId="165"/><xf numFmtId="14"/></cellXfs></styleSheet>'
+  },
+  { name: 'xl/worksheets/sheet1.xml', data: `<worksheet xmlns="${MAIN_NS}"><sheetData><row r="1"><c r="A1"><v>1</v></c></row></sheetData></worksheet>` },
+  { name: 'xl/worksheets/sheet2.xml', data: `<worksheet xmlns="${MAIN_NS}"><sheetData>${sheetData}</sheetData></worksheet>` }
+]);
+
+const dataSheet = '<row r="1"><c r="A1" t="s"><v>0</v></c></row>'
+  + '<row r="3"><c r="A3" t="s"><v>1</v></c><c r="B3" t="s"><v>2</v></c><c r="C3" t="s"><v>3</v></c><c r="D3" t="s"><v>5</v></c></row>'
+  + '<row r="4"><c r="A4" t="s"><v>4</v></c><c r="B4" s="1"><v>45292</v></c><c r="C4" s="2"><f>SUM(E4:F4)</f><v>12.5</v></c><c r="D4" t="b"><v>1</v></c></row>'
+  + '<row r="5"><c r="A5" t="inlineStr"><is><t>Grace</t></is></c><c r="C5" t="e"><v>#DIV/0!</v></c><c r="D5" t="str"><f>IF(1,"no")</f><v>no</v></c></row>';
+
+describe('xlsx', () => {
+  describe('readXlsx', () => {
+    it('should detect the header row below a title and read typed cells', async () => {
+      const workbook = await buildWorkbook(dataSheet);
+
+      const records = await readXlsx(workbook, { sheet: 'Data' });
+
+      expect(records).toEqual([
+        { Name: 'Ada Lovelace', Date: new Date(2024, 0, 1), Total: 12.5, Paid: true },
+        { Name: 'Grace', Date: null, Total: '#DIV/0!', Paid: 'no' }
+      ]);
+    });
+
+    it('should select sheets by index', async () => {
+      const workbook = await buildWorkbook(dataSheet);
+
+      expect(await readXlsx(workbook, { headerRow: false })).toEqual([[1]]);
+      expect(await readXlsx(workbook, { sheet: 1, headerRow: false })).toHaveLength(4);
+      await expect(readXlsx(workbook, { sheet: 'Missing' })).rejects.toThrow('Sheet not found: Missing');
+    });
+
+    it('should use an explicit header row', async () => {
+      const workbook = await buildWorkbook(dataSheet);
+
+      const records = await readXlsx(workbook, { sheet: 'Data', headerRow: 1 });
+
+      expect(records[0]).toEqual({ 'Sales report': 'Name', B: 'Date', C: 'Total', D: 'Paid' });
+    });
+
+    it('should read dates of 1904-based workbooks', async () => {
+      const workbook = await buildWorkbook(
+        '<row r="1"><c r="A1" t="s"><v>2</v></c></row><row r="2"><c r="A2" s="3"><v>0</v></c></row>',
+        { date1904: true }
+      );
+
+      expect(await readXlsx(workbook, { sheet: 'Data' })).toEqual([{ Date: new Date(1904, 0, 1) }]);
+    });
+
+    it('should list sheet names', async () => {
+      expect(await listXlsxSheets(await buildWorkbook(dataSheet))).toEqual(['Summary', 'Data']);
+    });
+
+    it('should reject files that are not workbooks', async () => {
+      await expect(readXlsx(new Uint8Array([1, 2, 3])))
+        .rejects.toThrow('Invalid ZIP archive: end of central directory not found');
+      await expect(readXlsx(await writeZip([{ name: 'a.txt', data: 'a' }])))
+        .rejects.toThrow('Invalid XLSX file: workbook not found');
+    });
+  });
+
+  describe('writeXlsx', () => {
+    it('should round-trip records across sheets', async () => {
+      const created = new Date(2024, 4, 17, 9, 30);
+      const workbook = await writeXlsx([
+        { name: 'Users', rows: [{ name: 'Ada', age: 36, admin: true, created, tags: ['a'] }, { name: '<Bob> & co', age: null }] },
+        { name: 'Totals', rows: [{ total: 2 }] }
+      ]);
+
+      expect(await listXlsxSheets(workbook)).toEqual(['Users', 'Totals']);
+      expect(await readXlsx(workbook)).toEqual([
+        { name: 'Ada', age: 36, admin: true, created, tags: '["a"]' },
+        { name: '<Bob> & co', age: null, admin: null, created: null, tags: null }
+      ]);
+      expect(await readXlsx(workbook, { sheet: 'Totals' })).toEqual([{ total: 2 }]);
+    });
+
+    it('should write column headers, widths and header styles', async () => {
+      const workbook = await writeXlsx(
+        [{ name: 'Report', rows: [{ id: 1, title: 'First' }], columns: [{ key: 'title', header: 'Title', width: 40 }, { key: 'id' }] }],
+        { headerStyle: { bold: true, fill: 'D9E1F2', color: '1F3864' } }
+      );
+      const entries = readZip(workbook);
+      const text = async (name: string) => new TextDecoder().decode(await entries.find(entry => entry.name === name)!.read());
+
+      const sheet = await text('xl/worksheets/sheet1.xml');
+      const styles = await text('xl/styles.xml');
+
+      expect(sheet).toContain('<col min="1" max="1" width="40" customWidth="1"/>');
+      expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t>Title</t></is></c>');
+      expect(styles).toContain('<fgColor rgb="FFD9E1F2"/>');
+      expect(styles).toContain('<color rgb="FF1F3864"/>');
+      expect(await readXlsx(workbook)).toEqual([{ Title: 'First', id: 1 }]);
+    });
+
+    it('should drop control characters that XML does not allow', async () => {
+      const workbook = await writeXlsx([{ name: 'Notes', rows: [{ note: 'a\u0000b\u001Fc\u000Bd' }] }]);
+
+      expect(await readXlsx(workbook)).toEqual([{ note: 'abcd' }]);
+    });
+
+    it('should reject duplicate sheet names', async () => {
+      await expect(writeXlsx([{ name: 'a/b', rows: [] }, { name: 'a_b', rows: [] }]))
+        .rejects.toThrow('Duplicate sheet name: a_b');
+    });
+  });
+});
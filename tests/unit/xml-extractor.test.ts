@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { XmlExtractor } from '../../src/extractors/xml';
+
+const catalog = `<?xml version="1.0"?>
+<catalog xmlns:dc="http://purl.org/dc/elements/1.1/" updated="2024-01-01">
+  <book id="1" lang="en">
+    <title>First</title>
+    <dc:creator>Ada</dc:creator>
+    <tag>a</tag>
+    <tag>b</tag>
+  </book>
+  <book id="2">
+    <title>Second</title>
+    <note type="short">Mixed <em>content</em></note>
+  </book>
+</catalog>`;
+
+const rss = `<?xml version="1.0"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>Blog</title>
+    <item>
+      <title>Hello</title>
+      <link>https://example.com/hello</link>
+      <description>Short</description>
+      <content:encoded><![CDATA[<p>Long</p>]]></content:encoded>
+      <pubDate>Mon, 01 Jan 2024 10:00:00 GMT</pubDate>
+      <category>news</category>
+      <enclosure url="https://example.com/a.mp3" type="audio/mpeg" length="1024"/>
+    </item>
+    <item>
+      <guid>post-2</guid>
+      <title>Second</title>
+    </item>
+  </channel>
+</rss>`;
+
+const atom = `<?xml version="1.0"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Blog</title>
+  <entry>
+    <id>urn:1</id>
+    <title>Hello</title>
+    <link rel="alternate" href="https://example.com/hello"/>
+    <link rel="enclosure" href="https://example.com/a.mp3" type="audio/mpeg"/>
+    <author><name>Ada</name></author>
+    <updated>2024-01-02T00:00:00Z</updated>
+    <summary>Short</summary>
+    <category term="news"/>
+  </entry>
+</feed>`;
+
+describe('XmlExtractor', () => {
+  let extractor: XmlExtractor;
+
+  beforeEach(() => {
+    extractor = new XmlExtractor();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('supports', () => {
+    it('should support XML text, files and URLs', () => {
+      expect(extractor.supports({ data: '<a/>' })).toBe(true);
+      expect(extractor.supports({ data: new File(['<a/>'], 'a.xml') })).toBe(true);
+      expect(extractor.supports({ url: '/a.xml' })).toBe(true);
+      expect(extractor.supports({})).toBe(false);
+    });
+  });
+
+  describe('extract', () => {
+    it('should map the document to an object', async () => {
+      const result = await extractor.extract({ data: catalog });
+
+      expect(result['@updated']).toBe('2024-01-01');
+      expect(result.book).toHaveLength(2);
+      expect(result.book[0]).toEqual({
+        '@id': '1',
+        '@lang': 'en',
+        title: 'First',
+        'dc:creator': 'Ada',
+        tag: ['a', 'b']
+      });
+      expect(result.book[1].note).toEqual({ '@type': 'short', em: 'content', '#text': 'Mixed' });
+    });
+
+    it('should map elements named like object members', async () => {
+      const result = await extractor.extract({ data: '<a><constructor>x</constructor><toString>y</toString><toString>z</toString></a>' });
+
+      expect(result.constructor).toBe('x');
+      expect(result.toString).toEqual(['y', 'z']);
+    });
+
+    it('should select records by path', async () => {
+      const result = await extractor.extract({ data: catalog, recordPath: 'catalog/book' });
+
+      expect(result.map((book: any) => book.title)).toEqual(['First', 'Second']);
+    });
+
+    it('should apply mapping options', async () => {
+      const result = await extractor.extract({
+        data: catalog,
+        recordPath: '/catalog/*',
+        attributePrefix: '',
+        ignoreNamespaces: true,
+        alwaysArray: ['title']
+      });
+
+      expect(result[0]).toMatchObject({ id: '1', creator: 'Ada', title: ['First'] });
+      expect(result[1].title).toEqual(['Second']);
+    });
+
+    it('should read XML files', async () => {
+      const file = new File([catalog], 'catalog.xml', { type: 'application/xml' });
+      const result = await extractor.extract({ data: file, recordPath: 'catalog/book' });
+
+      expect(result).toHaveLength(2);
+    });
+
+    it('should fetch XML from a URL', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(catalog));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await extractor.extract({ url: '/catalog.xml', recordPath: 'catalog/book' });
+
+      expect(fetchMock).toHaveBeenCalledWith('/catalog.xml');
+      expect(result).toHaveLength(2);
+    });
+
+    it('should report fetch failures', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, statusText: 'Not Found' }));
+
+      await expect(extractor.extract({ url: '/missing.xml' }))
+        .rejects.toThrow('Failed to fetch XML from /missing.xml: Not Found');
+    });
+
+    it('should reject malformed XML', async () => {
+      await expect(extractor.extract({ data: '<a><b></a>' })).rejects.toThrow('Invalid XML');
+    });
+
+    it('should require data or a URL', async () => {
+      await expect(extractor.extract({})).rejects.toThrow('Data or URL is required for XML extraction');
+    });
+  });
+
+  describe('feed preset', () => {
+    it('should normalize RSS items', async () => {
+      const items = await extractor.extract({ data: rss, preset: 'feed' });
+
+      expect(items).toEqual([
+        {
+          id: 'https://example.com/hello',
+          title: 'Hello',
+          link: 'https://example.com/hello',
+          summary: 'Short',
+          content: '<p>Long</p>',
+          published: '2024-01-01T10:00:00.000Z',
+          categories: ['news'],
+          enclosure: { url: 'https://example.com/a.mp3', type: 'audio/mpeg', length: 1024 }
+        },
+        { id: 'post-2', title: 'Second', categories: [] }
+      ]);
+    });
+
+    it('should normalize Atom entries', async () => {
+      const items = await extractor.extract({ data: atom, preset: 'feed' });
+
+      expect(items).toEqual([{
+        id: 'urn:1',
+        title: 'Hello',
+        link: 'https://example.com/hello',
+        summary: 'Short',
+        author: 'Ada',
+        published: '2024-01-02T00:00:00.000Z',
+        updated: '2024-01-02T00:00:00.000Z',
+        categories: ['news'],
+        enclosure: { url: 'https://example.com/a.mp3', type: 'audio/mpeg' }
+      }]);
+    });
+
+    it('should reject documents that are not feeds', async () => {
+      await expect(extractor.extract({ data: catalog, preset: 'feed' }))
+        .rejects.toThrow('Unsupported feed format: <catalog>');
+    });
+  });
+
+  describe('outputShape', () => {
+    it('should describe records only when selecting them', () => {
+      expect(extractor.outputShape({ data: '<a/>' })).toBe('object');
+      expect(extractor.outputShape({ data: '<a/>', recordPath: 'a' })).toBe('records');
+      expect(extractor.outputShape({ url: '/feed', preset: 'feed' })).toBe('records');
+    });
+  });
+});